@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { KeyRound, X } from "lucide-react";
+import { getApiKey, setApiKey } from "@/lib/api";
+import { SidebarMenuItem } from "./ui/sidebar";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+
+// Lets the user enter the API key of a server that requires one; it is kept
+// in this browser only
+export default function ApiKey() {
+    const queryClient = useQueryClient();
+    const [saved, setSaved] = useState(() => getApiKey());
+    const [value, setValue] = useState("");
+
+    const save = (key: string | null) => {
+        setApiKey(key);
+        setSaved(key);
+        setValue("");
+        queryClient.invalidateQueries();
+    };
+
+    return (
+        <SidebarMenuItem>
+            {saved ? (
+                <div className="flex items-center gap-2 px-2 text-xs text-muted-foreground">
+                    <KeyRound className="size-4" />
+                    <span className="flex-1">API key set</span>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => save(null)}
+                        title="Forget the API key"
+                    >
+                        <X />
+                    </Button>
+                </div>
+            ) : (
+                <form
+                    className="flex items-center gap-2"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        save(value.trim() || null);
+                    }}
+                >
+                    <Input
+                        type="password"
+                        autoComplete="off"
+                        placeholder="API key"
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                    />
+                    <Button
+                        type="submit"
+                        variant="ghost"
+                        size="icon"
+                        disabled={!value.trim()}
+                        title="Use this API key"
+                    >
+                        <KeyRound />
+                    </Button>
+                </form>
+            )}
+        </SidebarMenuItem>
+    );
+}
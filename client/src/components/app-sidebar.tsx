@@ -18,6 +18,7 @@ import { NavLink, useLocation } from "react-router";
 import type { UUID } from "@elizaos/core";
 import { Book, Cog, User, Users } from "lucide-react";
 import ConnectionStatus from "./connection-status";
+import ApiKey from "./api-key";
 
 export function AppSidebar() {
     const location = useLocation();
@@ -133,6 +134,7 @@ export function AppSidebar() {
                             <Cog /> Settings
                         </SidebarMenuButton>
                     </SidebarMenuItem>
+                    <ApiKey />
                     <ConnectionStatus />
                 </SidebarMenu>
             </SidebarFooter>
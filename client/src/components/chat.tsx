@@ -11,7 +11,7 @@ import { Paperclip, Send, X } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import type { Content, UUID } from "@elizaos/core";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiClient } from "@/lib/api";
+import { apiClient, type MessageStreamEvent } from "@/lib/api";
 import { cn, moment } from "@/lib/utils";
 import { Avatar, AvatarImage } from "./ui/avatar";
 import CopyButton from "./copy-button";
@@ -28,6 +28,10 @@ type ExtraContentFields = {
     user: string;
     createdAt: number;
     isLoading?: boolean;
+    // Set on replies that stream in, which keep one id while their text grows
+    id?: string;
+    isStreamed?: boolean;
+    actionStatus?: "started" | "finished";
 };
 
 type ContentWithUser = Content & ExtraContentFields;
@@ -83,6 +87,7 @@ export default function Page({ agentId }: { agentId: UUID }) {
               ]
             : undefined;
 
+        const replyId = `reply-${Date.now()}`;
         const newMessages = [
             {
                 text: input,
@@ -91,6 +96,7 @@ export default function Page({ agentId }: { agentId: UUID }) {
                 attachments,
             },
             {
+                id: replyId,
                 text: input,
                 user: "system",
                 isLoading: true,
@@ -106,6 +112,7 @@ export default function Page({ agentId }: { agentId: UUID }) {
         sendMessageMutation.mutate({
             message: input,
             selectedFile: selectedFile ? selectedFile : null,
+            replyId,
         });
 
         setSelectedFile(null);
@@ -119,26 +126,94 @@ export default function Page({ agentId }: { agentId: UUID }) {
         }
     }, []);
 
+    const updateMessages = (
+        update: (old: ContentWithUser[]) => ContentWithUser[]
+    ) =>
+        queryClient.setQueryData(
+            ["messages", agentId],
+            (old: ContentWithUser[] = []) => update(old)
+        );
+
+    const updateReply = (
+        replyId: string,
+        update: (msg: ContentWithUser) => ContentWithUser
+    ) =>
+        updateMessages((old) =>
+            old.map((msg) => (msg.id === replyId ? update(msg) : msg))
+        );
+
+    // The reply fills in as it streams; action results are added after it
+    const handleStreamEvent = (replyId: string, event: MessageStreamEvent) => {
+        switch (event.event) {
+            case "delta": {
+                const { text } = event.data;
+                updateReply(replyId, (msg) => ({
+                    ...msg,
+                    text: (msg.isLoading ? "" : msg.text) + text,
+                    isLoading: false,
+                    isStreamed: true,
+                }));
+                break;
+            }
+            case "reset":
+                updateReply(replyId, (msg) => ({ ...msg, isLoading: true }));
+                break;
+            case "response": {
+                const { content, suppressed } = event.data;
+                if (suppressed) {
+                    updateMessages((old) =>
+                        old.filter((msg) => msg.id !== replyId)
+                    );
+                } else {
+                    updateReply(replyId, (msg) => ({
+                        ...msg,
+                        ...(content as Partial<ContentWithUser>),
+                        isLoading: false,
+                        isStreamed: true,
+                    }));
+                }
+                break;
+            }
+            case "action": {
+                const { action, status } = event.data;
+                updateReply(replyId, (msg) => ({
+                    ...msg,
+                    action,
+                    actionStatus: status,
+                }));
+                break;
+            }
+            case "callback": {
+                const content = event.data;
+                updateMessages((old) => [
+                    ...old,
+                    { ...content, user: "system", createdAt: Date.now() },
+                ]);
+                break;
+            }
+        }
+    };
+
     const sendMessageMutation = useMutation({
         mutationKey: ["send_message", agentId],
         mutationFn: ({
             message,
             selectedFile,
+            replyId,
         }: {
             message: string;
             selectedFile?: File | null;
-        }) => apiClient.sendMessage(agentId, message, selectedFile),
-        onSuccess: (newMessages: ContentWithUser[]) => {
-            queryClient.setQueryData(
-                ["messages", agentId],
-                (old: ContentWithUser[] = []) => [
-                    ...old.filter((msg) => !msg.isLoading),
-                    ...newMessages.map((msg) => ({
-                        ...msg,
-                        createdAt: Date.now(),
-                    })),
-                ]
-            );
+            replyId: string;
+        }) =>
+            apiClient.sendMessageStream(
+                agentId,
+                message,
+                selectedFile,
+                (event) => handleStreamEvent(replyId, event)
+            ),
+        onSettled: () => {
+            // Drop a reply that never got any text, e.g. an empty message
+            updateMessages((old) => old.filter((msg) => !msg.isLoading));
         },
         onError: (e) => {
             toast({
@@ -162,6 +237,7 @@ export default function Page({ agentId }: { agentId: UUID }) {
 
     const transitions = useTransition(messages, {
         keys: (message) =>
+            message.id ??
             `${message.createdAt}-${message.user}-${message.text}`,
         from: { opacity: 0, transform: "translateY(50px)" },
         enter: { opacity: 1, transform: "translateY(0px)" },
@@ -204,7 +280,8 @@ export default function Page({ agentId }: { agentId: UUID }) {
                                         <ChatBubbleMessage
                                             isLoading={message?.isLoading}
                                         >
-                                            {message?.user !== "user" ? (
+                                            {message?.user !== "user" &&
+                                            !message?.isStreamed ? (
                                                 <AIWriter>
                                                     {message?.text}
                                                 </AIWriter>
@@ -264,6 +341,10 @@ export default function Page({ agentId }: { agentId: UUID }) {
                                                 {message?.action ? (
                                                     <Badge variant="outline">
                                                         {message.action}
+                                                        {message.actionStatus ===
+                                                        "started"
+                                                            ? "…"
+                                                            : null}
                                                     </Badge>
                                                 ) : null}
                                                 {message?.createdAt ? (
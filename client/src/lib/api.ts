@@ -1,4 +1,11 @@
-import type { UUID, Character } from "@elizaos/core";
+import {
+    type ApiOperation,
+    apiOperations,
+    type ApiRequest,
+    type ApiResponse,
+    type MessageStreamEventData,
+    type OperationId,
+} from "@elizaos/client-direct/contract";
 
 const BASE_URL =
     import.meta.env.VITE_SERVER_BASE_URL ||
@@ -6,66 +13,174 @@ const BASE_URL =
 
 console.log({ BASE_URL });
 
-const fetcher = async ({
-    url,
-    method,
-    body,
-    headers,
-}: {
-    url: string;
-    method?: "GET" | "POST";
-    body?: object | FormData;
-    headers?: HeadersInit;
-}) => {
-    const options: RequestInit = {
-        method: method ?? "GET",
-        headers: headers
-            ? headers
-            : {
-                  Accept: "application/json",
-                  "Content-Type": "application/json",
-              },
+// The key the user entered for a server that requires API keys. It stays in
+// this browser and is sent as a bearer token; it is never part of the bundle.
+const API_KEY_STORAGE_KEY = "eliza-api-key";
+
+export const getApiKey = (): string | null =>
+    localStorage.getItem(API_KEY_STORAGE_KEY);
+
+export const setApiKey = (key: string | null) => {
+    if (key) {
+        localStorage.setItem(API_KEY_STORAGE_KEY, key);
+    } else {
+        localStorage.removeItem(API_KEY_STORAGE_KEY);
+    }
+};
+
+const authHeaders = (): Record<string, string> => {
+    const apiKey = getApiKey();
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+};
+
+export type MessageStreamEvent = MessageStreamEventData;
+
+// Builds the fetch for an operation of the server's API contract: its path,
+// method and how its body is sent all come from there
+const prepareRequest = <K extends OperationId>(
+    operationId: K,
+    request: ApiRequest<K>
+): { url: string; init: RequestInit } => {
+    const operation: ApiOperation = apiOperations[operationId];
+    const { params, query, body, file, fileName } = request as {
+        params?: Record<string, string>;
+        query?: Record<string, unknown>;
+        body?: Record<string, unknown>;
+        file?: Blob;
+        fileName?: string;
     };
 
-    if (method === "POST") {
-        if (body instanceof FormData) {
-            if (options.headers && typeof options.headers === "object") {
-                // Create new headers object without Content-Type
-                options.headers = Object.fromEntries(
-                    Object.entries(
-                        options.headers as Record<string, string>
-                    ).filter(([key]) => key !== "Content-Type")
-                );
+    const path = operation.path.replace(/:(\w+)/g, (_, name: string) =>
+        encodeURIComponent(params?.[name] ?? "")
+    );
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+        if (value !== undefined) {
+            search.set(key, String(value));
+        }
+    }
+
+    const headers: Record<string, string> = {
+        Accept: operation.responseType ?? "application/json",
+        ...authHeaders(),
+    };
+    let requestBody: BodyInit | undefined;
+    if (operation.bodyType === "multipart") {
+        // The browser sets Content-Type with the form boundary
+        const formData = new FormData();
+        for (const [key, value] of Object.entries(body ?? {})) {
+            if (value !== undefined) {
+                formData.append(key, String(value));
             }
-            options.body = body;
-        } else {
-            options.body = JSON.stringify(body);
         }
+        if (file && operation.file) {
+            formData.append(operation.file.field, file, fileName);
+        }
+        requestBody = formData;
+    } else if (body !== undefined) {
+        headers["Content-Type"] = "application/json";
+        requestBody = JSON.stringify(body);
     }
 
-    return fetch(`${BASE_URL}${url}`, options).then(async (resp) => {
-        const contentType = resp.headers.get("Content-Type");
-        if (contentType === "audio/mpeg") {
-            return await resp.blob();
+    return {
+        url: `${BASE_URL}${path}${search.toString() ? `?${search}` : ""}`,
+        init: {
+            method: operation.method.toUpperCase(),
+            headers,
+            body: requestBody,
+        },
+    };
+};
+
+// Errors are { error, details? } JSON; anything else is shown as it is
+const readError = async (resp: Response): Promise<Error> => {
+    const errorText = await resp.text();
+    console.error("Error: ", errorText);
+
+    let errorMessage = errorText || "An error occurred.";
+    try {
+        const { error, details } = JSON.parse(errorText);
+        errorMessage = details || error || errorMessage;
+    } catch {
+        // Not JSON; show the text as it is
+    }
+    return new Error(errorMessage);
+};
+
+/** Calls an operation of the API contract and resolves to its response. */
+export const callApi = async <K extends OperationId>(
+    operationId: K,
+    request: ApiRequest<K>
+): Promise<ApiResponse<K>> => {
+    const operation: ApiOperation = apiOperations[operationId];
+    const { url, init } = prepareRequest(operationId, request);
+    const resp = await fetch(url, init);
+    if (!resp.ok) {
+        throw await readError(resp);
+    }
+
+    switch (operation.responseType ?? "application/json") {
+        case "audio/mpeg":
+        case "application/octet-stream":
+            return (await resp.blob()) as ApiResponse<K>;
+        case "text/plain":
+            return (await resp.text()) as ApiResponse<K>;
+        default:
+            return (
+                resp.status === 204 ? undefined : await resp.json()
+            ) as ApiResponse<K>;
+    }
+};
+
+// Reads the Server-Sent Events of POST /:agentId/message/stream. Resolves to
+// the same messages POST /:agentId/message responds with.
+const streamMessage = async (
+    request: ApiRequest<"streamMessage">,
+    onEvent: (event: MessageStreamEvent) => void
+): Promise<ApiResponse<"sendMessage">> => {
+    const { url, init } = prepareRequest("streamMessage", request);
+    const resp = await fetch(url, init);
+
+    if (!resp.ok || !resp.body) {
+        throw await readError(resp);
+    }
+
+    const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let result: ApiResponse<"sendMessage"> = [];
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+            break;
         }
+        buffer += value;
 
-        if (!resp.ok) {
-            const errorText = await resp.text();
-            console.error("Error: ", errorText);
+        // Events are separated by a blank line
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf("\n\n");
 
-            let errorMessage = "An error occurred.";
-            try {
-                const errorObj = JSON.parse(errorText);
-                errorMessage = errorObj.message || errorMessage;
-            } catch {
-                errorMessage = errorText || errorMessage;
+            const event = block.match(/^event: (.*)$/m)?.[1];
+            const data = block.match(/^data: (.*)$/m)?.[1];
+            if (!event || data === undefined) {
+                continue;
             }
 
-            throw new Error(errorMessage);
+            const parsed = { event, data: JSON.parse(data) } as MessageStreamEvent;
+            if (parsed.event === "error") {
+                throw new Error(parsed.data.details ?? parsed.data.error);
+            }
+            if (parsed.event === "done") {
+                result = parsed.data;
+            }
+            onEvent(parsed);
         }
+    }
 
-        return resp.json();
-    });
+    return result;
 };
 
 export const apiClient = {
@@ -73,43 +188,35 @@ export const apiClient = {
         agentId: string,
         message: string,
         selectedFile?: File | null
-    ) => {
-        const formData = new FormData();
-        formData.append("text", message);
-        formData.append("user", "user");
-
-        if (selectedFile) {
-            formData.append("file", selectedFile);
-        }
-        return fetcher({
-            url: `/${agentId}/message`,
-            method: "POST",
-            body: formData,
-        });
-    },
-    getAgents: () => fetcher({ url: "/agents" }),
-    getAgent: (agentId: string): Promise<{ id: UUID; character: Character }> =>
-        fetcher({ url: `/agents/${agentId}` }),
-    tts: (agentId: string, text: string) =>
-        fetcher({
-            url: `/${agentId}/tts`,
-            method: "POST",
-            body: {
-                text,
-            },
-            headers: {
-                "Content-Type": "application/json",
-                Accept: "audio/mpeg",
-                "Transfer-Encoding": "chunked",
+    ) =>
+        callApi("sendMessage", {
+            params: { agentId },
+            body: { text: message },
+            file: selectedFile ?? undefined,
+        }),
+    sendMessageStream: (
+        agentId: string,
+        message: string,
+        selectedFile: File | null | undefined,
+        onEvent: (event: MessageStreamEvent) => void
+    ) =>
+        streamMessage(
+            {
+                params: { agentId },
+                body: { text: message },
+                file: selectedFile ?? undefined,
             },
+            onEvent
+        ),
+    getAgents: () => callApi("listAgents", {}),
+    getAgent: (agentId: string) =>
+        callApi("getAgent", { params: { agentId } }),
+    tts: (agentId: string, text: string) =>
+        callApi("textToSpeech", { params: { agentId }, body: { text } }),
+    whisper: (agentId: string, audioBlob: Blob) =>
+        callApi("transcribe", {
+            params: { agentId },
+            file: audioBlob,
+            fileName: "recording.wav",
         }),
-    whisper: async (agentId: string, audioBlob: Blob) => {
-        const formData = new FormData();
-        formData.append("file", audioBlob, "recording.wav");
-        return fetcher({
-            url: `/${agentId}/whisper`,
-            method: "POST",
-            body: formData,
-        });
-    },
 };
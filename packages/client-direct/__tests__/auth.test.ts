@@ -0,0 +1,192 @@
+import { createHash } from 'node:crypto';
+import type express from 'express';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    AuthConfigError,
+    authenticate,
+    findApiKey,
+    getRequestUser,
+    loadAuthConfig,
+    requireScope,
+    type AuthConfig,
+} from '../src/auth';
+
+function request(urlPath: string, headers: Record<string, string> = {}, method = 'GET') {
+    return { method, path: urlPath, url: urlPath, headers } as unknown as express.Request;
+}
+
+function response() {
+    const res = {
+        locals: {} as Record<string, unknown>,
+        statusCode: 200,
+        body: undefined as unknown,
+        headers: {} as Record<string, string>,
+        status(code: number) {
+            res.statusCode = code;
+            return res;
+        },
+        set(name: string, value: string) {
+            res.headers[name] = value;
+            return res;
+        },
+        json(body: unknown) {
+            res.body = body;
+            return res;
+        },
+    };
+    return res;
+}
+
+// Runs the middleware and reports whether it let the request through
+function pass(
+    middleware: (req: express.Request, res: express.Response, next: express.NextFunction) => void,
+    req: express.Request,
+    res = response()
+) {
+    const next = vi.fn();
+    middleware(req, res as unknown as express.Response, next);
+    return { passed: next.mock.calls.length === 1, res };
+}
+
+function configWithKeys(keys: string): AuthConfig {
+    vi.stubEnv('DIRECT_API_KEYS', keys);
+    return loadAuthConfig();
+}
+
+describe('Direct client auth', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should find keys by value and leave unknown ones unmatched', () => {
+        const config = configWithKeys('sk-ops-123:admin, sk-ui-456:chat+read-memories');
+
+        expect(findApiKey(config, 'sk-ui-456')).toEqual({
+            name: 'DIRECT_API_KEYS #2',
+            scopes: ['chat', 'read-memories'],
+            user: 'DIRECT_API_KEYS #2',
+        });
+        expect(findApiKey(config, 'sk-nope')).toBeNull();
+        expect(findApiKey(config, null)).toBeNull();
+    });
+
+    it('should reject DIRECT_API_KEYS entries without valid scopes', () => {
+        expect(() => configWithKeys('sk-ops-123')).toThrow(AuthConfigError);
+        expect(() => configWithKeys('sk-ops-123:root')).toThrow('valid scopes are chat, read-memories, admin');
+    });
+
+    it('should let everything through when no keys are configured', () => {
+        const config = configWithKeys('');
+
+        expect(config.keys).toEqual([]);
+        expect(pass(authenticate(config), request('/agents/a/message')).passed).toBe(true);
+        expect(pass(requireScope(config, 'admin'), request('/agents/a/set')).passed).toBe(true);
+    });
+
+    it('should require a key as a bearer token or in X-API-Key', () => {
+        const config = configWithKeys('sk-ui-456:chat');
+        const guard = authenticate(config);
+
+        const rejected = pass(guard, request('/agents'));
+        expect(rejected.passed).toBe(false);
+        expect(rejected.res.statusCode).toBe(401);
+        expect(rejected.res.headers['WWW-Authenticate']).toBe('Bearer realm="eliza"');
+        expect(pass(guard, request('/agents', { authorization: 'Bearer sk-wrong' })).passed).toBe(false);
+
+        const bearer = pass(guard, request('/agents', { authorization: 'Bearer sk-ui-456' }));
+        expect(bearer.passed).toBe(true);
+        expect(bearer.res.locals.apiKey).toMatchObject({ scopes: ['chat'] });
+        expect(pass(guard, request('/agents', { 'x-api-key': 'sk-ui-456' })).passed).toBe(true);
+    });
+
+    it('should leave the public paths, media and CORS preflights open', () => {
+        const guard = authenticate(configWithKeys('sk-ui-456:chat'));
+
+        for (const publicPath of ['/', '/hello', '/openapi.json', '/media/uploads/cat.png']) {
+            expect(pass(guard, request(publicPath)).passed).toBe(true);
+        }
+        expect(pass(guard, request('/agents/a/message', {}, 'OPTIONS')).passed).toBe(true);
+        expect(pass(guard, request('/mediafiles')).passed).toBe(false);
+    });
+
+    it('should limit routes to keys with the scope, or admin', () => {
+        const config = configWithKeys('sk-ops-123:admin,sk-ui-456:chat');
+        const guard = requireScope(config, 'read-memories');
+        const as = (key: string) => {
+            const res = response();
+            res.locals.apiKey = findApiKey(config, key);
+            return res;
+        };
+
+        const refused = pass(guard, request('/agents/a/memories'), as('sk-ui-456'));
+        expect(refused.passed).toBe(false);
+        expect(refused.res.statusCode).toBe(403);
+        expect(refused.res.body).toEqual({ error: "This API key doesn't have the read-memories scope" });
+        expect(pass(guard, request('/agents/a/memories'), as('sk-ops-123')).passed).toBe(true);
+    });
+
+    describe('keys file', () => {
+        let dir: string;
+
+        function writeKeysFile(contents: unknown) {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'direct-keys-'));
+            const file = path.join(dir, 'api-keys.json');
+            fs.writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+            vi.stubEnv('DIRECT_API_KEYS_FILE', file);
+            return file;
+        }
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should read plain and SHA-256 keys alongside DIRECT_API_KEYS', () => {
+            writeKeysFile({
+                keys: [
+                    { name: 'ops', key: 'sk-ops-123', scopes: ['admin'] },
+                    {
+                        name: 'web ui',
+                        sha256: createHash('sha256').update('sk-ui-456').digest('hex'),
+                        scopes: ['chat'],
+                        user: 'alice',
+                    },
+                ],
+            });
+            const config = configWithKeys('sk-env-789:read-memories');
+
+            expect(config.keys.map((key) => key.name)).toEqual(['DIRECT_API_KEYS #1', 'ops', 'web ui']);
+            expect(findApiKey(config, 'sk-ops-123')).toEqual({ name: 'ops', scopes: ['admin'], user: 'ops' });
+            expect(findApiKey(config, 'sk-ui-456')).toEqual({ name: 'web ui', scopes: ['chat'], user: 'alice' });
+        });
+
+        it('should name the entries that are invalid', () => {
+            writeKeysFile({
+                keys: [
+                    { name: 'both', key: 'sk-1', sha256: 'a'.repeat(64), scopes: ['chat'] },
+                    { name: 'short', sha256: 'abc', scopes: ['chat'] },
+                ],
+            });
+
+            expect(() => loadAuthConfig()).toThrow(/keys\.0: needs exactly one of key or sha256; keys\.1\.sha256: must be a SHA-256 hex digest/);
+        });
+
+        it('should say when the file cannot be read', () => {
+            const file = writeKeysFile('{ not json');
+
+            expect(() => loadAuthConfig()).toThrow(`Could not read the API keys file ${file}`);
+        });
+    });
+
+    it('should bind requests to the key user, whatever user they name', () => {
+        const config = configWithKeys('sk-ui-456:chat');
+        const key = findApiKey(config, 'sk-ui-456');
+
+        expect(getRequestUser(key, 'someone-else')).toBe('DIRECT_API_KEYS #1');
+        // Without auth the request names its user
+        expect(getRequestUser(null, 'someone-else')).toBe('someone-else');
+        expect(getRequestUser(null)).toBe('user');
+    });
+});
@@ -0,0 +1,98 @@
+import type { UUID } from '@elizaos/core';
+import type express from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    formatRate,
+    loadRateLimitConfig,
+    parseRate,
+    RateLimitConfigError,
+    RateLimiter,
+    sendTooManyRequests,
+    type RateLimitRequest,
+} from '../src/rate-limit';
+
+const agentId = '00000000-0000-0000-0000-000000000001' as UUID;
+
+function from(userId: string, extra: Partial<RateLimitRequest> = {}): RateLimitRequest {
+    return { apiKey: null, userId, agentId, ...extra };
+}
+
+describe('Direct client rate limits', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should parse rates and show them in their first unit', () => {
+        expect(parseRate('20/min')).toEqual({ capacity: 20, intervalMs: 60_000 });
+        expect(parseRate(' 5 / Second ')).toEqual({ capacity: 5, intervalMs: 1000 });
+        expect(parseRate('off')).toBeNull();
+        expect(formatRate(parseRate('1000/d'))).toBe('1000/day');
+        expect(formatRate(null)).toBe('off');
+        expect(() => parseRate('0/min')).toThrow(RateLimitConfigError);
+        expect(() => parseRate('20 per minute')).toThrow('Rate limits look like 20/min');
+    });
+
+    it('should use the defaults and name the setting that is wrong', () => {
+        expect(loadRateLimitConfig()).toEqual({
+            key: null,
+            user: { capacity: 20, intervalMs: 60_000 },
+            agent: { capacity: 60, intervalMs: 60_000 },
+        });
+
+        vi.stubEnv('DIRECT_RATE_LIMIT_PER_AGENT', 'lots');
+        expect(() => loadRateLimitConfig()).toThrow(/^DIRECT_RATE_LIMIT_PER_AGENT: /);
+    });
+
+    it('should allow a burst, then refill evenly up to the bucket size', () => {
+        const limiter = new RateLimiter({ key: null, user: { capacity: 3, intervalMs: 60_000 }, agent: null });
+
+        for (let request = 0; request < 3; request++) {
+            expect(limiter.take(from('alice'), 0)).toBeNull();
+        }
+        expect(limiter.take(from('alice'), 0)).toEqual({
+            error: 'Rate limit of 3/min per user exceeded',
+            retryAfterMs: 20_000,
+        });
+        expect(limiter.take(from('alice'), 15_000)?.retryAfterMs).toBe(5000);
+        // One token back every 20 seconds
+        expect(limiter.take(from('alice'), 20_000)).toBeNull();
+        expect(limiter.take(from('alice'), 20_000)).not.toBeNull();
+
+        // An hour later the bucket holds 3 again, not 180
+        for (let request = 0; request < 3; request++) {
+            expect(limiter.take(from('alice'), 3_600_000)).toBeNull();
+        }
+        expect(limiter.take(from('alice'), 3_600_000)).not.toBeNull();
+        // Other users have their own bucket
+        expect(limiter.take(from('bob'), 3_600_000)).toBeNull();
+    });
+
+    it('should take from no bucket when any of them is empty', () => {
+        const limiter = new RateLimiter({
+            key: { capacity: 2, intervalMs: 60_000 },
+            user: { capacity: 1, intervalMs: 60_000 },
+            agent: null,
+        });
+        const apiKey = { name: 'web ui', scopes: ['chat' as const], user: 'web ui' };
+
+        expect(limiter.take(from('alice', { apiKey }), 0)).toBeNull();
+        expect(limiter.take(from('alice', { apiKey }), 0)?.error).toBe('Rate limit of 1/min per user exceeded');
+        // The refused request didn't use up the key's second token
+        expect(limiter.take(from('bob', { apiKey }), 0)).toBeNull();
+        expect(limiter.take(from('carol', { apiKey }), 0)?.error).toBe('Rate limit of 2/min per API key exceeded');
+    });
+
+    it('should answer 429 with the whole seconds to wait in Retry-After', () => {
+        const res = { status: vi.fn(), set: vi.fn(), json: vi.fn() };
+        res.status.mockReturnValue(res);
+        res.set.mockReturnValue(res);
+
+        sendTooManyRequests(res as unknown as express.Response, { error: 'Slow down', retryAfterMs: 2001 });
+        expect(res.status).toHaveBeenCalledWith(429);
+        expect(res.set).toHaveBeenCalledWith('Retry-After', '3');
+        expect(res.json).toHaveBeenCalledWith({ error: 'Slow down', retryAfter: 3 });
+
+        sendTooManyRequests(res as unknown as express.Response, { error: 'Slow down', retryAfterMs: 10 });
+        expect(res.set).toHaveBeenLastCalledWith('Retry-After', '1');
+    });
+});
@@ -0,0 +1,139 @@
+import type { IAgentRuntime, ModelUsage, UUID } from '@elizaos/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UsageTracker } from '../src/usage';
+
+const agentId = '00000000-0000-0000-0000-000000000001' as UUID;
+const DAY_MS = 86_400_000;
+// 2030-03-10T22:00:00Z, two hours before the UTC day ends
+const EVENING = Date.UTC(2030, 2, 10, 22);
+
+// A runtime with settings from a plain object and a cache backed by a Map
+function createRuntime(settings: Record<string, string> = {}) {
+    const cache = new Map<string, unknown>();
+    let listener: ((usage: ModelUsage) => void) | null = null;
+    const runtime = {
+        agentId,
+        character: { name: 'Eliza' },
+        getSetting: (key: string) => settings[key] ?? null,
+        onModelUsage: (callback: (usage: ModelUsage) => void) => {
+            listener = callback;
+            return () => {
+                listener = null;
+            };
+        },
+        cacheManager: {
+            get: async (key: string) => structuredClone(cache.get(key)),
+            set: async (key: string, value: unknown) => {
+                cache.set(key, structuredClone(value));
+            },
+            delete: async (key: string) => {
+                cache.delete(key);
+            },
+        },
+    } as unknown as IAgentRuntime;
+    const generate = (totalTokens: number, estimated = false) =>
+        listener?.({ promptTokens: totalTokens - 10, completionTokens: 10, totalTokens, estimated } as ModelUsage);
+    return { runtime, cache, generate };
+}
+
+describe('Direct client usage', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should count model usage, images and requests per UTC day', async () => {
+        vi.useFakeTimers({ now: EVENING });
+        const { runtime, cache, generate } = createRuntime();
+        const tracker = new UsageTracker();
+        await tracker.watchAgent(runtime, EVENING);
+
+        generate(100);
+        generate(50, true);
+        tracker.recordImages(runtime, 2);
+        tracker.recordRequest(runtime, 'message');
+        tracker.recordRequest(runtime, 'message');
+        tracker.recordRateLimited(runtime);
+
+        expect(cache.get(`direct/usage/${agentId}/2030-03-10`)).toMatchObject({
+            promptTokens: 130,
+            completionTokens: 20,
+            totalTokens: 150,
+            estimatedTokens: 50,
+            llmCalls: 2,
+            images: 2,
+            requests: { message: 2 },
+            rateLimited: 1,
+        });
+
+        tracker.unwatchAgent(runtime);
+        generate(1000);
+        expect((await tracker.getReport(runtime, 1, EVENING)).today.totalTokens).toBe(0);
+    });
+
+    it('should keep what was used before a restart', async () => {
+        vi.useFakeTimers({ now: EVENING });
+        const { runtime, cache } = createRuntime();
+        const before = new UsageTracker();
+        await before.watchAgent(runtime, EVENING);
+        before.recordImages(runtime, 3);
+
+        const after = new UsageTracker();
+        // Counted while the cached day was still loading
+        after.recordImages(runtime, 1);
+        await after.watchAgent(runtime, EVENING);
+
+        expect((await after.getReport(runtime, 1, EVENING)).today.images).toBe(4);
+        expect(cache.get(`direct/usage/${agentId}/2030-03-10`)).toMatchObject({ images: 4 });
+    });
+
+    it('should refuse past the quota until the day rolls over at midnight UTC', async () => {
+        vi.useFakeTimers({ now: EVENING });
+        const { runtime } = createRuntime({ DIRECT_DAILY_IMAGE_QUOTA: '5', DIRECT_DAILY_TOKEN_QUOTA: '1000' });
+        const tracker = new UsageTracker();
+        await tracker.watchAgent(runtime, EVENING);
+        tracker.recordImages(runtime, 4);
+
+        expect(tracker.checkQuota(runtime, 'images', 1, EVENING)).toBeNull();
+        expect(tracker.checkQuota(runtime, 'images', 2, EVENING)).toEqual({
+            error: 'Eliza has 1 of its daily image generation quota of 5 left, fewer than the 2 requested; it resets at 2030-03-11T00:00:00.000Z',
+            retryAfterMs: 2 * 3_600_000,
+        });
+        tracker.recordImages(runtime, 1);
+        expect(tracker.checkQuota(runtime, 'images', 1, EVENING)?.error).toBe(
+            'Eliza has used its daily image generation quota of 5; it resets at 2030-03-11T00:00:00.000Z'
+        );
+        // Token requests pass while any tokens are left
+        expect(tracker.checkQuota(runtime, 'tokens', 1, EVENING)).toBeNull();
+
+        const nextMorning = Date.UTC(2030, 2, 11, 1);
+        vi.setSystemTime(nextMorning);
+        expect(tracker.checkQuota(runtime, 'images', 5, nextMorning)).toBeNull();
+        tracker.recordImages(runtime, 1);
+        expect((await tracker.getReport(runtime, 1, nextMorning)).today).toMatchObject({ date: '2030-03-11', images: 1 });
+    });
+
+    it('should report today with its quotas and the cached days before it', async () => {
+        vi.useFakeTimers({ now: EVENING - DAY_MS });
+        const { runtime } = createRuntime({ DIRECT_DAILY_IMAGE_QUOTA: '5' });
+        const tracker = new UsageTracker();
+        await tracker.watchAgent(runtime, EVENING - DAY_MS);
+        tracker.recordImages(runtime, 2);
+
+        vi.setSystemTime(EVENING);
+        tracker.recordImages(runtime, 7);
+        const report = await tracker.getReport(runtime, 7, EVENING);
+
+        expect(report).toMatchObject({
+            agentId,
+            date: '2030-03-10',
+            resetsAt: '2030-03-11T00:00:00.000Z',
+            today: { images: 7 },
+            quotas: {
+                tokens: { limit: null, used: 0, remaining: null },
+                images: { limit: 5, used: 7, remaining: 0 },
+            },
+        });
+        expect(report.history).toEqual([expect.objectContaining({ date: '2030-03-09', images: 2 })]);
+        expect((await tracker.getReport(runtime, 1, EVENING)).history).toEqual([]);
+    });
+});
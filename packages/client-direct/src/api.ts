@@ -1,7 +1,6 @@
 import express from "express";
 import type { Router } from 'express';
 import bodyParser from "body-parser";
-import cors from "cors";
 import path from "path";
 import fs from "fs";
 
@@ -11,14 +10,41 @@ import {
     getEnvVariable,
     type UUID,
     validateCharacterConfig,
-    ServiceType,
+    type Service,
+    type ServiceType,
     type Character,
+    stringToUuid,
 } from "@elizaos/core";
 
 // import type { TeeLogQuery, TeeLogService } from "@elizaos/plugin-tee-log";
 // import { REST, Routes } from "discord.js";
 import type { DirectClient } from ".";
 import { validateUuid } from "@elizaos/core";
+import {
+    type AuthConfig,
+    getRequestApiKey,
+    getRequestUser,
+    requireScope,
+} from "./auth.ts";
+import {
+    type ApiResponse,
+    apiOperations,
+    type OperationId,
+} from "./contract.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+import { validateRequest } from "./validation.ts";
+
+// The Polymarket plugin's order confirmation service, declared by its shape so
+// the client doesn't depend on the plugin
+const ORDER_CONFIRMATION_SERVICE = "order_confirmation" as string as ServiceType;
+
+interface OrderConfirmationService extends Service {
+    confirmOrderIntent(
+        runtime: AgentRuntime,
+        intentId: string,
+        userId: UUID
+    ): Promise<ApiResponse<"confirmOrder">>;
+}
 
 interface UUIDParams {
     agentId: UUID;
@@ -53,11 +79,20 @@ function validateUUIDParams(
 
 export function createApiRouter(
     agents: Map<string, IAgentRuntime>,
-    directClient: DirectClient
+    directClient: DirectClient,
+    auth: AuthConfig
 ):Router {
     const router = express.Router();
+    // Listing agents only needs a valid key; see auth.ts for the scopes
+    const chat = requireScope(auth, "chat");
+    const readMemories = requireScope(auth, "read-memories");
+    const admin = requireScope(auth, "admin");
+    // Checks the request against its schema in contract.ts
+    const validate = (operationId: OperationId) =>
+        validateRequest(apiOperations[operationId]);
+    // Built on first request; the contract doesn't change while running
+    let openApiDocument: ReturnType<typeof buildOpenApiDocument> | null = null;
 
-    router.use(cors());
     router.use(bodyParser.json());
     router.use(bodyParser.urlencoded({ extended: true }));
     router.use(
@@ -74,6 +109,11 @@ export function createApiRouter(
         res.json({ message: "Hello World!" });
     });
 
+    router.get("/openapi.json", (req, res) => {
+        openApiDocument ??= buildOpenApiDocument();
+        res.json(openApiDocument);
+    });
+
     router.get("/agents", (req, res) => {
         const agentsList = Array.from(agents.values()).map((agent) => ({
             id: agent.agentId,
@@ -83,7 +123,7 @@ export function createApiRouter(
         res.json({ agents: agentsList });
     });
 
-    router.get('/storage', async (req, res) => {
+    router.get('/storage', admin, async (req, res) => {
         try {
             const uploadDir = path.join(process.cwd(), "data", "characters");
             const files = await fs.promises.readdir(uploadDir);
@@ -93,7 +133,7 @@ export function createApiRouter(
         }
     });
 
-    router.get("/agents/:agentId", (req, res) => {
+    router.get("/agents/:agentId", validate("getAgent"), (req, res) => {
         const { agentId } = validateUUIDParams(req.params, res) ?? {
             agentId: null,
         };
@@ -117,7 +157,7 @@ export function createApiRouter(
         });
     });
 
-    router.delete("/agents/:agentId", async (req, res) => {
+    router.delete("/agents/:agentId", admin, validate("deleteAgent"), async (req, res) => {
         const { agentId } = validateUUIDParams(req.params, res) ?? {
             agentId: null,
         };
@@ -128,13 +168,13 @@ export function createApiRouter(
         if (agent) {
             agent.stop();
             directClient.unregisterAgent(agent);
-            res.status(204).json({ success: true });
+            res.status(204).end();
         } else {
             res.status(404).json({ error: "Agent not found" });
         }
     });
 
-    router.post("/agents/:agentId/set", async (req, res) => {
+    router.post("/agents/:agentId/set", admin, validate("setAgent"), async (req, res) => {
         const { agentId } = validateUUIDParams(req.params, res) ?? {
             agentId: null,
         };
@@ -159,10 +199,7 @@ export function createApiRouter(
             validateCharacterConfig(character);
         } catch (e) {
             elizaLogger.error(`Error parsing character: ${e}`);
-            res.status(400).json({
-                success: false,
-                message: e.message,
-            });
+            res.status(400).json({ error: e.message });
             return;
         }
 
@@ -172,10 +209,7 @@ export function createApiRouter(
             elizaLogger.log(`${character.name} started`);
         } catch (e) {
             elizaLogger.error(`Error starting agent: ${e}`);
-            res.status(500).json({
-                success: false,
-                message: e.message,
-            });
+            res.status(500).json({ error: e.message });
             return;
         }
 
@@ -243,7 +277,33 @@ export function createApiRouter(
     //     }
     // });
 
-    router.get("/agents/:agentId/:roomId/memories", async (req, res) => {
+    // Today's model usage, requests and quotas; ?days=7 adds the days before
+    router.get("/agents/:agentId/usage", admin, validate("getAgentUsage"), async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const agent = agents.get(agentId);
+        if (!agent) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        try {
+            res.json(
+                await directClient.usage.getReport(
+                    agent,
+                    Number(req.query.days ?? 1)
+                )
+            );
+        } catch (error) {
+            elizaLogger.error("Error reading usage:", error);
+            res.status(500).json({ error: "Failed to read usage" });
+        }
+    });
+
+    router.get("/agents/:agentId/:roomId/memories", readMemories, validate("getRoomMemories"), async (req, res) => {
         const { agentId, roomId } = validateUUIDParams(req.params, res) ?? {
             agentId: null,
             roomId: null,
@@ -260,7 +320,7 @@ export function createApiRouter(
         }
 
         if (!runtime) {
-            res.status(404).send("Agent not found");
+            res.status(404).json({ error: "Agent not found" });
             return;
         }
 
@@ -405,7 +465,55 @@ export function createApiRouter(
     //     }
     // );
 
-    router.post("/agent/start", async (req, res) => {
+    router.post("/agents/:agentId/orders/:intentId/confirm", chat, validate("confirmOrder"), async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        // With API keys the order is confirmed as the key's user, the same
+        // user its messages are from; the body's userId only counts without
+        const apiKey = getRequestApiKey(res);
+        const userId = apiKey
+            ? stringToUuid(getRequestUser(apiKey))
+            : validateUuid(req.body?.userId);
+        if (!userId) {
+            res.status(400).json({
+                error: "Invalid userId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+            });
+            return;
+        }
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        const confirmationService = runtime.getService<OrderConfirmationService>(
+            ORDER_CONFIRMATION_SERVICE
+        );
+        if (!confirmationService) {
+            res.status(404).json({
+                error: "Order confirmation is not available for this agent",
+            });
+            return;
+        }
+
+        try {
+            const result = await confirmationService.confirmOrderIntent(
+                runtime,
+                req.params.intentId,
+                userId
+            );
+            res.status(result.status).json(result);
+        } catch (error) {
+            elizaLogger.error("Error confirming order intent:", error);
+            res.status(500).json({ error: "Failed to confirm order" });
+        }
+    });
+
+    router.post("/agent/start", admin, validate("startAgent"), async (req, res) => {
         const { characterPath, characterJson } = req.body;
         console.log("characterPath:", characterPath);
         console.log("characterJson:", characterJson);
@@ -438,7 +546,7 @@ export function createApiRouter(
         }
     });
 
-    router.post("/agents/:agentId/stop", async (req, res) => {
+    router.post("/agents/:agentId/stop", admin, validate("stopAgent"), async (req, res) => {
         const agentId = req.params.agentId;
         console.log("agentId", agentId);
         const agent: AgentRuntime = agents.get(agentId);
@@ -0,0 +1,261 @@
+import { elizaLogger, getEnvVariable } from "@elizaos/core";
+import cors from "cors";
+import { createHash, timingSafeEqual } from "crypto";
+import type express from "express";
+import * as fs from "fs";
+import type { IncomingMessage } from "http";
+import { z } from "zod";
+import { API_SCOPES, type ApiScope } from "./contract.ts";
+
+// API keys for the direct client. Without any configured keys the API stays
+// open, as it always was, and a warning is logged at startup.
+//
+//     DIRECT_API_KEYS=sk-ops-123:admin,sk-ui-456:chat+read-memories
+//     DIRECT_API_KEYS_FILE=./data/api-keys.json
+//     DIRECT_CORS_ORIGINS=https://chat.example.com,http://localhost:5173
+//
+// The keys file holds { "keys": [{ "name", "key" | "sha256", "scopes", "user"? }] },
+// so keys can be stored as their SHA-256 hex digest instead of in plain text.
+// A key acts as one user, its name unless user is set: messages, typing and
+// order confirmations sent with it are that user's, whatever userId they name.
+
+export { API_SCOPES, type ApiScope };
+
+export interface ApiKey {
+    name: string;
+    scopes: ApiScope[];
+    // The user requests made with the key are from
+    user: string;
+}
+
+interface StoredApiKey extends ApiKey {
+    digest: Buffer;
+}
+
+export interface AuthConfig {
+    keys: StoredApiKey[];
+    // null allows any origin
+    corsOrigins: string[] | null;
+}
+
+export class AuthConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AuthConfigError";
+    }
+}
+
+const ScopeSchema = z.enum(API_SCOPES);
+
+const KeysFileSchema = z.object({
+    keys: z.array(
+        z
+            .object({
+                name: z.string().min(1),
+                key: z.string().min(1).optional(),
+                sha256: z
+                    .string()
+                    .regex(/^[0-9a-f]{64}$/i, "must be a SHA-256 hex digest")
+                    .optional(),
+                scopes: z.array(ScopeSchema).min(1),
+                user: z.string().min(1).optional(),
+            })
+            .refine((entry) => Boolean(entry.key) !== Boolean(entry.sha256), {
+                message: "needs exactly one of key or sha256",
+            })
+    ),
+});
+
+// Paths anyone can reach, so load balancers can check the server is up and
+// clients can be generated from the spec
+const PUBLIC_PATHS = new Set(["/", "/hello", "/openapi.json"]);
+// Uploads and generated images have unguessable names and are shown with
+// <img> tags, which can't send a key
+const PUBLIC_PREFIX = "/media/";
+
+function digest(key: string): Buffer {
+    return createHash("sha256").update(key).digest();
+}
+
+function parseKeysVariable(value: string): StoredApiKey[] {
+    return value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry, index) => {
+            const separator = entry.lastIndexOf(":");
+            const key = separator > 0 ? entry.slice(0, separator) : entry;
+            const scopes = (separator > 0 ? entry.slice(separator + 1) : "")
+                .split("+")
+                .filter(Boolean);
+            const parsed = z.array(ScopeSchema).min(1).safeParse(scopes);
+            if (!parsed.success) {
+                throw new AuthConfigError(
+                    `DIRECT_API_KEYS entry ${index + 1} needs scopes after a colon, e.g. key:chat+read-memories; valid scopes are ${API_SCOPES.join(", ")}`
+                );
+            }
+            const name = `DIRECT_API_KEYS #${index + 1}`;
+            return { name, scopes: parsed.data, user: name, digest: digest(key) };
+        });
+}
+
+function parseKeysFile(filePath: string): StoredApiKey[] {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+        throw new AuthConfigError(
+            `Could not read the API keys file ${filePath}: ${error.message}`
+        );
+    }
+
+    const parsed = KeysFileSchema.safeParse(raw);
+    if (!parsed.success) {
+        throw new AuthConfigError(
+            `The API keys file ${filePath} is invalid: ${parsed.error.issues
+                .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+                .join("; ")}`
+        );
+    }
+    return parsed.data.keys.map((entry) => ({
+        name: entry.name,
+        scopes: entry.scopes,
+        user: entry.user ?? entry.name,
+        digest: entry.key
+            ? digest(entry.key)
+            : Buffer.from(entry.sha256, "hex"),
+    }));
+}
+
+export function loadAuthConfig(): AuthConfig {
+    const keys = [
+        ...parseKeysVariable(getEnvVariable("DIRECT_API_KEYS") ?? ""),
+        ...(getEnvVariable("DIRECT_API_KEYS_FILE")
+            ? parseKeysFile(getEnvVariable("DIRECT_API_KEYS_FILE"))
+            : []),
+    ];
+    const origins = (getEnvVariable("DIRECT_CORS_ORIGINS") ?? "")
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean);
+
+    return {
+        keys,
+        corsOrigins: origins.length > 0 && !origins.includes("*") ? origins : null,
+    };
+}
+
+export function logAuthConfig(config: AuthConfig) {
+    if (config.keys.length === 0) {
+        elizaLogger.warn(
+            "No DIRECT_API_KEYS or DIRECT_API_KEYS_FILE configured: anyone who can reach the REST API can chat with, replace and stop agents."
+        );
+    } else {
+        elizaLogger.info(
+            `REST API requires one of ${config.keys.length} API keys: ${config.keys
+                .map((key) => `${key.name} (${key.scopes.join(", ")})`)
+                .join("; ")}`
+        );
+    }
+    if (!config.corsOrigins) {
+        elizaLogger.info("REST API allows requests from any origin");
+    }
+}
+
+export function corsMiddleware(config: AuthConfig) {
+    return cors({
+        origin: config.corsOrigins ?? "*",
+        allowedHeaders: ["Content-Type", "Authorization", "X-API-Key"],
+    });
+}
+
+/** The key presented as a bearer token, in X-API-Key, or for WebSockets as access_token. */
+export function getPresentedKey(
+    req: IncomingMessage,
+    allowQuery = false
+): string | null {
+    const authorization = req.headers.authorization;
+    if (authorization?.toLowerCase().startsWith("bearer ")) {
+        return authorization.slice(7).trim();
+    }
+    const header = req.headers["x-api-key"];
+    if (typeof header === "string" && header) {
+        return header;
+    }
+    if (allowQuery) {
+        // Browsers can't set headers on a WebSocket handshake
+        const url = new URL(req.url ?? "/", "http://localhost");
+        return url.searchParams.get("access_token");
+    }
+    return null;
+}
+
+export function findApiKey(config: AuthConfig, presented: string | null): ApiKey | null {
+    if (!presented) {
+        return null;
+    }
+    const presentedDigest = digest(presented);
+    const match = config.keys.find((key) => timingSafeEqual(key.digest, presentedDigest));
+    return match ? { name: match.name, scopes: match.scopes, user: match.user } : null;
+}
+
+export function hasScope(key: ApiKey | null, scope: ApiScope): boolean {
+    return key ? key.scopes.includes("admin") || key.scopes.includes(scope) : false;
+}
+
+// The key that authenticated the request; null when auth is off
+export function getRequestApiKey(res: express.Response): ApiKey | null {
+    return res.locals.apiKey ?? null;
+}
+
+/**
+ * Who a request is from: the key's user, or when auth is off the user the
+ * request names, "user" if none.
+ */
+export function getRequestUser(apiKey: ApiKey | null, requested?: string): string {
+    return apiKey?.user ?? requested ?? "user";
+}
+
+/**
+ * Rejects requests without a valid key, except to the public paths, media and
+ * CORS preflights. Passes everything when no keys are configured.
+ */
+export function authenticate(config: AuthConfig) {
+    return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        if (
+            config.keys.length === 0 ||
+            req.method === "OPTIONS" ||
+            PUBLIC_PATHS.has(req.path) ||
+            req.path.startsWith(PUBLIC_PREFIX)
+        ) {
+            next();
+            return;
+        }
+
+        const key = findApiKey(config, getPresentedKey(req));
+        if (!key) {
+            res.status(401)
+                .set("WWW-Authenticate", 'Bearer realm="eliza"')
+                .json({
+                    error: "A valid API key is required, as a Bearer token or in the X-API-Key header",
+                });
+            return;
+        }
+        res.locals.apiKey = key;
+        next();
+    };
+}
+
+/** Limits a route to keys with the scope. Passes everything when no keys are configured. */
+export function requireScope(config: AuthConfig, scope: ApiScope) {
+    // Generic over the params so routes keep the types Express infers from their paths
+    return <P>(_req: express.Request<P>, res: express.Response, next: express.NextFunction) => {
+        if (config.keys.length === 0 || hasScope(getRequestApiKey(res), scope)) {
+            next();
+            return;
+        }
+        res.status(403).json({
+            error: `This API key doesn't have the ${scope} scope`,
+        });
+    };
+}
@@ -0,0 +1,549 @@
+import type { Character, UUID } from "@elizaos/core";
+import { z } from "zod";
+
+// The direct client's HTTP API as data: every route's method, path, scope and
+// zod schemas for its params, query, body and response. The server validates
+// requests with it (validation.ts) and serves it as /openapi.json (openapi.ts);
+// the web client builds its calls from it, so both sides are checked against
+// the same schemas. Only zod is imported at runtime, so browsers can load it.
+// The /verifiable routes belong to the TEE log plugin and aren't described.
+
+/**
+ * What an API key may do. admin covers everything, including starting,
+ * replacing and stopping agents; any valid key may list agents.
+ */
+export const API_SCOPES = ["chat", "read-memories", "admin"] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+const UUID_MESSAGE = "Expected a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx";
+
+export const UuidSchema = z
+    .string()
+    .uuid(UUID_MESSAGE)
+    .transform((value) => value as UUID);
+
+const AgentIdSchema = z.string().min(1).describe("The agent's ID");
+
+const AgentIdOrNameSchema = z
+    .string()
+    .min(1)
+    .describe("The agent's ID or its character's name");
+
+/** The body of every error response. */
+export const ErrorSchema = z.object({
+    error: z.string(),
+    details: z.string().optional(),
+    // Which fields of a request failed validation, e.g. body.text
+    issues: z
+        .array(z.object({ path: z.string(), message: z.string() }))
+        .optional(),
+    // Seconds to wait after a 429, also sent as Retry-After
+    retryAfter: z.number().optional(),
+});
+
+export type ApiError = z.infer<typeof ErrorSchema>;
+
+export const MediaSchema = z.object({
+    id: z.string(),
+    url: z.string(),
+    title: z.string(),
+    source: z.string(),
+    description: z.string(),
+    text: z.string(),
+    contentType: z.string().optional(),
+});
+
+export const ContentSchema = z
+    .object({
+        text: z.string(),
+        action: z.string().optional(),
+        source: z.string().optional(),
+        url: z.string().optional(),
+        inReplyTo: UuidSchema.optional(),
+        attachments: z.array(MediaSchema).optional(),
+    })
+    .passthrough();
+
+export const MemorySchema = z.object({
+    id: UuidSchema.optional(),
+    userId: UuidSchema,
+    agentId: UuidSchema,
+    createdAt: z.number().optional(),
+    content: ContentSchema,
+    embedding: z.array(z.number()).optional(),
+    roomId: UuidSchema,
+    unique: z.boolean().optional(),
+    similarity: z.number().optional(),
+});
+
+// The server checks characters in full with validateCharacterConfig; this
+// documents the fields every character has and keeps core's type
+export const CharacterSchema = z
+    .object({
+        id: UuidSchema.optional(),
+        name: z.string(),
+        bio: z.union([z.string(), z.array(z.string())]),
+        lore: z.array(z.string()),
+        modelProvider: z.string(),
+        clients: z.array(z.string()).optional(),
+        plugins: z.array(z.unknown()),
+    })
+    .passthrough() as unknown as z.ZodType<Character, z.ZodTypeDef, unknown>;
+
+const AgentSummarySchema = z.object({
+    id: UuidSchema,
+    name: z.string(),
+    clients: z.array(z.string()),
+});
+
+const AgentDetailsSchema = z.object({
+    id: UuidSchema,
+    character: CharacterSchema,
+});
+
+// Fields of a message, shared by the message, stream and speak routes
+const MessageFields = {
+    roomId: z
+        .string()
+        .optional()
+        .describe("Defaults to the agent's own room, default-room-{agentId}"),
+    userId: z.string().optional().describe('Used when the server has no API keys; defaults to "user". With keys, the key\'s user'),
+    userName: z.string().optional(),
+    name: z.string().optional(),
+};
+
+const MessageBodySchema = z
+    .object({ text: z.string().optional(), ...MessageFields })
+    .passthrough();
+
+const DailyUsageSchema = z.object({
+    date: z.string(),
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    totalTokens: z.number(),
+    // Part of totalTokens counted with the tokenizer because the provider
+    // didn't report usage
+    estimatedTokens: z.number(),
+    llmCalls: z.number(),
+    images: z.number(),
+    // Requests let through to each limited route, and those refused with a 429
+    requests: z.record(z.number()),
+    rateLimited: z.number(),
+});
+
+export type DailyUsage = z.infer<typeof DailyUsageSchema>;
+
+const QuotaStatusSchema = z.object({
+    limit: z.number().nullable(),
+    used: z.number(),
+    remaining: z.number().nullable(),
+});
+
+export type QuotaStatus = z.infer<typeof QuotaStatusSchema>;
+
+const UsageReportSchema = z.object({
+    agentId: UuidSchema,
+    date: z.string(),
+    resetsAt: z.string(),
+    today: DailyUsageSchema,
+    quotas: z.object({ tokens: QuotaStatusSchema, images: QuotaStatusSchema }),
+    // The days before today, newest first, as far back as asked and kept
+    history: z.array(DailyUsageSchema),
+});
+
+export type UsageReport = z.infer<typeof UsageReportSchema>;
+
+// Days of usage the usage report can go back
+export const USAGE_HISTORY_DAYS = 30;
+
+/** Events of POST /:agentId/message/stream; see message-stream.ts. */
+export const MessageStreamEventSchema = z.discriminatedUnion("event", [
+    z.object({ event: z.literal("delta"), data: z.object({ text: z.string() }) }),
+    z.object({ event: z.literal("reset"), data: z.object({}) }),
+    z.object({
+        event: z.literal("response"),
+        data: z.object({ content: ContentSchema, suppressed: z.boolean() }),
+    }),
+    z.object({
+        event: z.literal("action"),
+        data: z.object({
+            action: z.string(),
+            status: z.enum(["started", "finished"]),
+        }),
+    }),
+    z.object({ event: z.literal("callback"), data: ContentSchema }),
+    z.object({ event: z.literal("done"), data: z.array(ContentSchema) }),
+    z.object({ event: z.literal("error"), data: ErrorSchema }),
+]);
+
+export type MessageStreamEventData = z.infer<typeof MessageStreamEventSchema>;
+
+export type ResponseType =
+    | "application/json"
+    | "text/plain"
+    | "text/event-stream"
+    | "audio/mpeg"
+    | "application/octet-stream";
+
+export interface ApiOperation {
+    method: "get" | "post" | "delete";
+    // Express style, e.g. /agents/:agentId
+    path: string;
+    summary: string;
+    tag: string;
+    // public needs no key, key any valid key
+    scope: "public" | "key" | ApiScope;
+    params?: z.AnyZodObject;
+    query?: z.AnyZodObject;
+    body?: z.ZodTypeAny;
+    // multipart bodies are form fields, plus the upload named by file
+    bodyType?: "json" | "multipart";
+    file?: { field: string; required: boolean; description: string };
+    status?: number;
+    response: z.ZodTypeAny;
+    responseType?: ResponseType;
+    // Error statuses besides those of authentication and validation
+    errors?: number[];
+}
+
+const agentParams = z.object({ agentId: UuidSchema });
+const agentIdParams = z.object({ agentId: AgentIdSchema });
+const agentIdOrNameParams = z.object({ agentId: AgentIdOrNameSchema });
+
+export const apiOperations = {
+    getWelcome: {
+        method: "get",
+        path: "/",
+        summary: "Check the API is up",
+        tag: "status",
+        scope: "public",
+        response: z.string(),
+        responseType: "text/plain",
+    },
+    getHello: {
+        method: "get",
+        path: "/hello",
+        summary: "Check the API is up",
+        tag: "status",
+        scope: "public",
+        response: z.object({ message: z.string() }),
+    },
+    listAgents: {
+        method: "get",
+        path: "/agents",
+        summary: "List the running agents",
+        tag: "agents",
+        scope: "key",
+        response: z.object({ agents: z.array(AgentSummarySchema) }),
+    },
+    listStoredCharacters: {
+        method: "get",
+        path: "/storage",
+        summary: "List the character files in data/characters",
+        tag: "agents",
+        scope: "admin",
+        response: z.object({ files: z.array(z.string()) }),
+        errors: [500],
+    },
+    getAgent: {
+        method: "get",
+        path: "/agents/:agentId",
+        summary: "Get an agent and its character, without secrets",
+        tag: "agents",
+        scope: "key",
+        params: agentParams,
+        response: AgentDetailsSchema,
+        errors: [404],
+    },
+    deleteAgent: {
+        method: "delete",
+        path: "/agents/:agentId",
+        summary: "Stop an agent and remove it",
+        tag: "agents",
+        scope: "admin",
+        params: agentParams,
+        status: 204,
+        response: z.undefined(),
+        errors: [404],
+    },
+    setAgent: {
+        method: "post",
+        path: "/agents/:agentId/set",
+        summary: "Replace an agent's character and restart it",
+        tag: "agents",
+        scope: "admin",
+        params: agentParams,
+        body: CharacterSchema,
+        response: AgentDetailsSchema,
+        errors: [400, 500],
+    },
+    getAgentUsage: {
+        method: "get",
+        path: "/agents/:agentId/usage",
+        summary: "Today's model usage, requests and quotas",
+        tag: "agents",
+        scope: "admin",
+        params: agentParams,
+        query: z.object({
+            days: z.coerce
+                .number()
+                .int()
+                .min(1)
+                .max(USAGE_HISTORY_DAYS)
+                .optional()
+                .describe("Also report this many days before today"),
+        }),
+        response: UsageReportSchema,
+        errors: [404, 500],
+    },
+    getRoomMemories: {
+        method: "get",
+        path: "/agents/:agentId/:roomId/memories",
+        summary: "List the memories of a room",
+        tag: "memories",
+        scope: "read-memories",
+        params: z.object({ agentId: UuidSchema, roomId: UuidSchema }),
+        response: z.object({
+            agentId: UuidSchema,
+            roomId: UuidSchema,
+            memories: z.array(MemorySchema),
+        }),
+        errors: [404, 500],
+    },
+    confirmOrder: {
+        method: "post",
+        path: "/agents/:agentId/orders/:intentId/confirm",
+        summary: "Confirm an order the agent is holding for confirmation",
+        tag: "orders",
+        scope: "chat",
+        params: z.object({ agentId: UuidSchema, intentId: z.string().min(1) }),
+        body: z.object({
+            userId: UuidSchema.optional().describe(
+                "Who confirms when the server has no API keys; with keys, the key's user"
+            ),
+        }),
+        response: z.object({
+            success: z.boolean(),
+            status: z.number(),
+            text: z.string(),
+            content: ContentSchema.optional(),
+        }),
+        errors: [404, 500],
+    },
+    startAgent: {
+        method: "post",
+        path: "/agent/start",
+        summary: "Start an agent from a character file or JSON",
+        tag: "agents",
+        scope: "admin",
+        body: z
+            .object({
+                characterPath: z.string().optional(),
+                characterJson: z.record(z.unknown()).optional(),
+            })
+            .refine(
+                (body) => body.characterPath || body.characterJson,
+                "Needs characterPath or characterJson"
+            ),
+        response: AgentDetailsSchema,
+        errors: [400],
+    },
+    stopAgent: {
+        method: "post",
+        path: "/agents/:agentId/stop",
+        summary: "Stop an agent",
+        tag: "agents",
+        scope: "admin",
+        params: agentIdParams,
+        response: z.object({ success: z.boolean() }),
+        errors: [404],
+    },
+    transcribe: {
+        method: "post",
+        path: "/:agentId/whisper",
+        summary: "Transcribe audio with Whisper",
+        tag: "messages",
+        scope: "chat",
+        params: agentIdOrNameParams,
+        bodyType: "multipart",
+        file: { field: "file", required: true, description: "The audio" },
+        response: z.object({ text: z.string() }).passthrough(),
+        errors: [404, 429],
+    },
+    sendMessage: {
+        method: "post",
+        path: "/:agentId/message",
+        summary: "Send a message and get the agent's replies",
+        tag: "messages",
+        scope: "chat",
+        params: agentIdOrNameParams,
+        body: MessageBodySchema,
+        bodyType: "multipart",
+        file: { field: "file", required: false, description: "An attachment" },
+        response: z.array(ContentSchema),
+        errors: [404, 429, 500],
+    },
+    streamMessage: {
+        method: "post",
+        path: "/:agentId/message/stream",
+        summary:
+            "Send a message and get the reply as Server-Sent Events while it is generated",
+        tag: "messages",
+        scope: "chat",
+        params: agentIdOrNameParams,
+        body: MessageBodySchema,
+        bodyType: "multipart",
+        file: { field: "file", required: false, description: "An attachment" },
+        response: MessageStreamEventSchema,
+        responseType: "text/event-stream",
+        errors: [404, 429],
+    },
+    hyperfi: {
+        method: "post",
+        path: "/agents/:agentIdOrName/hyperfi/v1",
+        summary: "Decide what the agent says and does in a Hyperfi world",
+        tag: "messages",
+        scope: "chat",
+        params: z.object({ agentIdOrName: AgentIdOrNameSchema }),
+        body: z
+            .object({
+                roomId: z.string().optional(),
+                nearby: z.array(z.string()).optional(),
+                availableEmotes: z.array(z.string()).optional(),
+                messages: z
+                    .array(z.string())
+                    .optional()
+                    .describe('Recent chat as "name: text" lines'),
+            })
+            .passthrough(),
+        response: z.object({
+            response: z.object({
+                lookAt: z.string().nullable(),
+                emote: z.string().nullable(),
+                say: z.string().nullable(),
+                actions: z.array(z.string()).nullable(),
+            }),
+        }),
+        errors: [404, 429, 500],
+    },
+    generateImage: {
+        method: "post",
+        path: "/:agentId/image",
+        summary: "Generate images with the agent's image model",
+        tag: "media",
+        scope: "chat",
+        params: agentIdParams,
+        body: z
+            .object({
+                prompt: z.string().min(1),
+                width: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe("Defaults to the image model's own size"),
+                height: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe("Defaults to the image model's own size"),
+                count: z.number().int().positive().optional(),
+                negativePrompt: z.string().optional(),
+                numIterations: z.number().optional(),
+                guidanceScale: z.number().optional(),
+                seed: z.number().optional(),
+                modelId: z.string().optional(),
+                jobId: z.string().optional(),
+                stylePreset: z.string().optional(),
+                hideWatermark: z.boolean().optional(),
+                safeMode: z.boolean().optional(),
+                cfgScale: z.number().optional(),
+            })
+            .passthrough(),
+        response: z.object({
+            images: z.array(z.object({ image: z.string(), caption: z.string() })),
+        }),
+        errors: [404, 429],
+    },
+    createFineTuneAsset: {
+        method: "post",
+        path: "/fine-tune",
+        summary: "Create a BagelDB fine-tuning asset",
+        tag: "fine-tune",
+        scope: "admin",
+        body: z.record(z.unknown()),
+        response: z.unknown().describe("BagelDB's response"),
+        errors: [500],
+    },
+    downloadFineTuneAsset: {
+        method: "get",
+        path: "/fine-tune/:assetId",
+        summary: "Download a BagelDB fine-tuned asset into downloads/",
+        tag: "fine-tune",
+        scope: "admin",
+        params: z.object({ assetId: z.string().min(1) }),
+        response: z.object({
+            success: z.boolean(),
+            message: z.string(),
+            downloadPath: z.string(),
+            fileCount: z.number(),
+            fileName: z.string(),
+            fileSize: z.number(),
+        }),
+        errors: [403, 500],
+    },
+    speak: {
+        method: "post",
+        path: "/:agentId/speak",
+        summary: "Send a message and get the agent's reply as speech",
+        tag: "media",
+        scope: "chat",
+        params: agentIdOrNameParams,
+        body: z
+            .object({ text: z.string().min(1), ...MessageFields })
+            .passthrough(),
+        response: z.string().describe("MP3 audio"),
+        responseType: "audio/mpeg",
+        errors: [404, 429, 500],
+    },
+    textToSpeech: {
+        method: "post",
+        path: "/:agentId/tts",
+        summary: "Read text aloud with ElevenLabs",
+        tag: "media",
+        scope: "chat",
+        params: agentIdParams,
+        body: z.object({ text: z.string().min(1) }).passthrough(),
+        response: z.string().describe("MP3 audio"),
+        responseType: "audio/mpeg",
+        errors: [429, 500],
+    },
+} satisfies Record<string, ApiOperation>;
+
+export type ApiOperations = typeof apiOperations;
+
+export type OperationId = keyof ApiOperations;
+
+type Part<
+    K extends OperationId,
+    Name extends "params" | "query" | "body",
+> = ApiOperations[K] extends { [P in Name]: infer S extends z.ZodTypeAny }
+    ? { [P in Name]: z.input<S> }
+    : { [P in Name]?: never };
+
+/** What a call to the operation sends: its path params, query and body. */
+export type ApiRequest<K extends OperationId> = Part<K, "params"> &
+    Part<K, "query"> &
+    Part<K, "body"> &
+    (ApiOperations[K] extends { file: { field: string } }
+        ? { file?: Blob; fileName?: string }
+        : { file?: never; fileName?: never });
+
+/** What the operation responds with when it succeeds. */
+export type ApiResponse<K extends OperationId> = ApiOperations[K] extends {
+    responseType: "audio/mpeg" | "application/octet-stream";
+}
+    ? Blob
+    : z.output<ApiOperations[K]["response"]>;
@@ -16,9 +16,9 @@ import {
     type Media,
     type Memory,
     type Plugin,
+    type UUID,
 } from "@elizaos/core";
 import bodyParser from "body-parser";
-import cors from "cors";
 import express, { type Request as ExpressRequest } from "express";
 import * as fs from "fs";
 import multer from "multer";
@@ -26,6 +26,33 @@ import OpenAI from "openai";
 import * as path from "path";
 import { z } from "zod";
 import { createApiRouter } from "./api.ts";
+import {
+    type ApiKey,
+    type AuthConfig,
+    authenticate,
+    corsMiddleware,
+    getRequestApiKey,
+    getRequestUser,
+    loadAuthConfig,
+    logAuthConfig,
+    requireScope,
+} from "./auth.ts";
+import { apiOperations } from "./contract.ts";
+import {
+    createTextDeltaHandler,
+    openMessageStream,
+} from "./message-stream.ts";
+import {
+    type LimitDenial,
+    LimitExceededError,
+    loadRateLimitConfig,
+    logRateLimitConfig,
+    RateLimiter,
+    sendTooManyRequests,
+} from "./rate-limit.ts";
+import { RoomGateway } from "./room-gateway.ts";
+import { type QuotaKind, UsageTracker } from "./usage.ts";
+import { validateRequest } from "./validation.ts";
 import { createVerifiableLogApiRouter } from "./verifiable-log-api.ts";
 
 export type Middleware = (
@@ -52,6 +79,48 @@ const storage = multer.diskStorage({
 // some people have more memory than disk.io
 const upload = multer({ storage /*: multer.memoryStorage() */ });
 
+function getUploadedAttachments(req: express.Request): Media[] {
+    if (!req.file) {
+        return [];
+    }
+    const filePath = path.join(
+        process.cwd(),
+        "data",
+        "uploads",
+        req.file.filename
+    );
+    return [
+        {
+            id: Date.now().toString(),
+            url: filePath,
+            title: req.file.originalname,
+            source: "direct",
+            description: `Uploaded file: ${req.file.originalname}`,
+            text: "",
+            contentType: req.file.mimetype,
+        },
+    ];
+}
+
+interface MessageInput {
+    userId: UUID;
+    roomId: UUID;
+    text?: string;
+    userName?: string;
+    name?: string;
+    attachments?: Media[];
+}
+
+// Progress of a message through processMessage, for clients that stream it
+interface MessageHooks {
+    onToken?: (delta: string, attempt: number) => void;
+    onResponse?: (content: Content, suppressed: boolean) => void;
+    onAction?: (action: string, status: "started" | "finished") => void;
+    onCallback?: (content: Content) => void;
+    // Called with the messages to show before evaluators run
+    onDone?: (messages: Content[]) => void;
+}
+
 export const messageHandlerTemplate =
     // {{goals}}
     // "# Action Examples" is already included
@@ -118,6 +187,10 @@ export class DirectClient {
     public app: express.Application;
     private agents: Map<string, IAgentRuntime>; // container management
     private server: any; // Store server instance
+    private gateway: RoomGateway; // WebSocket subscriptions to agent rooms
+    private auth: AuthConfig; // API keys, their scopes and CORS origins
+    private rateLimiter: RateLimiter; // Token buckets for the model routes
+    public usage: UsageTracker; // Daily model usage and quotas per agent
     public startAgent: Function; // Store startAgent functor
     public loadCharacterTryPath: Function; // Store loadCharacterTryPath functor
     public jsonToCharacter: Function; // Store jsonToCharacter functor
@@ -125,8 +198,30 @@ export class DirectClient {
     constructor() {
         elizaLogger.log("DirectClient constructor");
         this.app = express();
-        this.app.use(cors());
+        this.auth = loadAuthConfig();
+        logAuthConfig(this.auth);
+        this.app.use(corsMiddleware(this.auth));
+        this.app.use(authenticate(this.auth));
+        this.rateLimiter = new RateLimiter(loadRateLimitConfig());
+        logRateLimitConfig(this.rateLimiter.config);
+        this.usage = new UsageTracker();
         this.agents = new Map();
+        this.gateway = new RoomGateway({
+            getAgent: (agentIdOrName) => this.getAgent(agentIdOrName),
+            sendMessage: (runtime, message, apiKey) => {
+                const denial = this.checkLimits(
+                    runtime,
+                    "ws message",
+                    { apiKey, userId: message.userId },
+                    "tokens"
+                );
+                if (denial) {
+                    throw new LimitExceededError(denial);
+                }
+                return this.processMessage(runtime, message);
+            },
+            auth: this.auth,
+        });
 
         this.app.use(bodyParser.json());
         this.app.use(bodyParser.urlencoded({ extended: true }));
@@ -141,10 +236,16 @@ export class DirectClient {
             express.static(path.join(process.cwd(), "/generatedImages"))
         );
 
-        const apiRouter = createApiRouter(this.agents, this);
+        const chat = requireScope(this.auth, "chat");
+        const admin = requireScope(this.auth, "admin");
+
+        const apiRouter = createApiRouter(this.agents, this, this.auth);
         this.app.use(apiRouter);
 
-        const apiLogRouter = createVerifiableLogApiRouter(this.agents);
+        const apiLogRouter = createVerifiableLogApiRouter(
+            this.agents,
+            this.auth
+        );
         this.app.use(apiLogRouter);
 
         // Define an interface that extends the Express Request interface
@@ -155,13 +256,16 @@ export class DirectClient {
         // Update the route handler to use CustomRequest instead of express.Request
         this.app.post(
             "/:agentId/whisper",
+            chat,
+            this.limit("whisper"),
             upload.single("file"),
+            validateRequest(apiOperations.transcribe),
             async (req: CustomRequest, res: express.Response) => {
                 const audioFile = req.file; // Access the uploaded file using req.file
                 const agentId = req.params.agentId;
 
                 if (!audioFile) {
-                    res.status(400).send("No audio file provided");
+                    res.status(400).json({ error: "No audio file provided" });
                     return;
                 }
 
@@ -178,7 +282,7 @@ export class DirectClient {
                 }
 
                 if (!runtime) {
-                    res.status(404).send("Agent not found");
+                    res.status(404).json({ error: "Agent not found" });
                     return;
                 }
 
@@ -197,13 +301,18 @@ export class DirectClient {
 
         this.app.post(
             "/:agentId/message",
+            chat,
+            this.limit("message", "tokens"),
             upload.single("file"),
+            validateRequest(apiOperations.sendMessage),
             async (req: express.Request, res: express.Response) => {
                 const agentId = req.params.agentId;
                 const roomId = stringToUuid(
                     req.body.roomId ?? "default-room-" + agentId
                 );
-                const userId = stringToUuid(req.body.userId ?? "user");
+                const userId = stringToUuid(
+                    getRequestUser(getRequestApiKey(res), req.body.userId)
+                );
 
                 let runtime = this.agents.get(agentId);
 
@@ -217,148 +326,107 @@ export class DirectClient {
                 }
 
                 if (!runtime) {
-                    res.status(404).send("Agent not found");
+                    res.status(404).json({ error: "Agent not found" });
                     return;
                 }
 
-                await runtime.ensureConnection(
-                    userId,
-                    roomId,
-                    req.body.userName,
-                    req.body.name,
-                    "direct"
-                );
-
-                const text = req.body.text;
-                // if empty text, directly return
-                if (!text) {
-                    res.json([]);
-                    return;
-                }
-
-                const messageId = stringToUuid(Date.now().toString());
-
-                const attachments: Media[] = [];
-                if (req.file) {
-                    const filePath = path.join(
-                        process.cwd(),
-                        "data",
-                        "uploads",
-                        req.file.filename
-                    );
-                    attachments.push({
-                        id: Date.now().toString(),
-                        url: filePath,
-                        title: req.file.originalname,
-                        source: "direct",
-                        description: `Uploaded file: ${req.file.originalname}`,
-                        text: "",
-                        contentType: req.file.mimetype,
+                try {
+                    const messages = await this.processMessage(runtime, {
+                        userId,
+                        roomId,
+                        text: req.body.text,
+                        userName: req.body.userName,
+                        name: req.body.name,
+                        attachments: getUploadedAttachments(req),
+                    });
+                    res.json(messages);
+                } catch (error) {
+                    elizaLogger.error("Error processing message:", error);
+                    res.status(500).json({
+                        error: "Error processing message",
+                        details: error.message,
                     });
                 }
+            }
+        );
 
-                const content: Content = {
-                    text,
-                    attachments,
-                    source: "direct",
-                    inReplyTo: undefined,
-                };
-
-                const userMessage = {
-                    content,
-                    userId,
-                    roomId,
-                    agentId: runtime.agentId,
-                };
-
-                const memory: Memory = {
-                    id: stringToUuid(messageId + "-" + userId),
-                    ...userMessage,
-                    agentId: runtime.agentId,
-                    userId,
-                    roomId,
-                    content,
-                    createdAt: Date.now(),
-                };
-
-                await runtime.messageManager.addEmbeddingToMemory(memory);
-                await runtime.messageManager.createMemory(memory);
-
-                let state = await runtime.composeState(userMessage, {
-                    agentName: runtime.character.name,
-                });
-
-                const context = composeContext({
-                    state,
-                    template: messageHandlerTemplate,
-                });
+        // Same as /:agentId/message, but answers with Server-Sent Events so the
+        // reply text shows as it is generated; see message-stream.ts for the events
+        this.app.post(
+            "/:agentId/message/stream",
+            chat,
+            this.limit("message", "tokens"),
+            upload.single("file"),
+            validateRequest(apiOperations.streamMessage),
+            async (req: express.Request, res: express.Response) => {
+                const agentId = req.params.agentId;
+                const roomId = stringToUuid(
+                    req.body.roomId ?? "default-room-" + agentId
+                );
+                const userId = stringToUuid(
+                    getRequestUser(getRequestApiKey(res), req.body.userId)
+                );
 
-                const response = await generateMessageResponse({
-                    runtime: runtime,
-                    context,
-                    modelClass: ModelClass.LARGE,
-                });
+                let runtime = this.agents.get(agentId);
 
-                if (!response) {
-                    res.status(500).send(
-                        "No response from generateMessageResponse"
+                // if runtime is null, look for runtime with the same name
+                if (!runtime) {
+                    runtime = Array.from(this.agents.values()).find(
+                        (a) =>
+                            a.character.name.toLowerCase() ===
+                            agentId.toLowerCase()
                     );
-                    return;
                 }
 
-                // save response to memory
-                const responseMessage: Memory = {
-                    id: stringToUuid(messageId + "-" + runtime.agentId),
-                    ...userMessage,
-                    userId: runtime.agentId,
-                    content: response,
-                    embedding: getEmbeddingZeroVector(),
-                    createdAt: Date.now(),
-                };
-
-                await runtime.messageManager.createMemory(responseMessage);
-
-                state = await runtime.updateRecentMessageState(state);
-
-                let message = null as Content | null;
-
-                await runtime.processActions(
-                    memory,
-                    [responseMessage],
-                    state,
-                    async (newMessages) => {
-                        message = newMessages;
-                        return [memory];
-                    }
-                );
+                if (!runtime) {
+                    res.status(404).json({ error: "Agent not found" });
+                    return;
+                }
 
-                await runtime.evaluate(memory, state);
+                const stream = openMessageStream(res);
 
-                // Check if we should suppress the initial message
-                const action = runtime.actions.find(
-                    (a) => a.name === response.action
-                );
-                const shouldSuppressInitialMessage =
-                    action?.suppressInitialMessage;
-
-                if (!shouldSuppressInitialMessage) {
-                    if (message) {
-                        res.json([response, message]);
-                    } else {
-                        res.json([response]);
-                    }
-                } else {
-                    if (message) {
-                        res.json([message]);
-                    } else {
-                        res.json([]);
-                    }
+                try {
+                    await this.processMessage(
+                        runtime,
+                        {
+                            userId,
+                            roomId,
+                            text: req.body.text,
+                            userName: req.body.userName,
+                            name: req.body.name,
+                            attachments: getUploadedAttachments(req),
+                        },
+                        {
+                            onToken: createTextDeltaHandler(stream),
+                            onResponse: (content, suppressed) =>
+                                stream.send("response", {
+                                    content,
+                                    suppressed,
+                                }),
+                            onAction: (action, status) =>
+                                stream.send("action", { action, status }),
+                            onCallback: (content) =>
+                                stream.send("callback", content),
+                            // the client has everything it needs, evaluators can run after
+                            onDone: (messages) => stream.send("done", messages),
+                        }
+                    );
+                } catch (error) {
+                    elizaLogger.error("Error streaming message response:", error);
+                    stream.send("error", {
+                        error: "Error processing message",
+                        details: error.message,
+                    });
                 }
+                stream.end();
             }
         );
 
         this.app.post(
             "/agents/:agentIdOrName/hyperfi/v1",
+            chat,
+            validateRequest(apiOperations.hyperfi),
+            this.limit("hyperfi", "tokens"),
             async (req: express.Request, res: express.Response) => {
                 // get runtime
                 const agentId = req.params.agentIdOrName;
@@ -372,7 +440,7 @@ export class DirectClient {
                     );
                 }
                 if (!runtime) {
-                    res.status(404).send("Agent not found");
+                    res.status(404).json({ error: "Agent not found" });
                     return;
                 }
 
@@ -513,9 +581,9 @@ export class DirectClient {
                 });
 
                 if (!response) {
-                    res.status(500).send(
-                        "No response from generateMessageResponse"
-                    );
+                    res.status(500).json({
+                        error: "No response from generateMessageResponse",
+                    });
                     return;
                 }
 
@@ -527,7 +595,9 @@ export class DirectClient {
                         "cant serialize response",
                         response.object
                     );
-                    res.status(500).send("Error in LLM response, try again");
+                    res.status(500).json({
+                        error: "Error in LLM response, try again",
+                    });
                     return;
                 }
 
@@ -587,11 +657,24 @@ export class DirectClient {
                                         memory,
                                         [responseMessage],
                                         state,
-                                        async (_newMessages) => {
+                                        async (newMessages) => {
                                             // FIXME: this is supposed override what the LLM said/decided
                                             // but the promise doesn't make this possible
-                                            //message = newMessages;
-                                            return [memory];
+                                            // so save it, for room subscribers on the gateway
+                                            const callbackMemory: Memory = {
+                                                id: stringToUuid(
+                                                    `${messageId}-${runtime.agentId}-callback`
+                                                ),
+                                                userId: runtime.agentId,
+                                                agentId: runtime.agentId,
+                                                roomId,
+                                                content: newMessages,
+                                                createdAt: Date.now(),
+                                            };
+                                            await runtime.messageManager.createMemory(
+                                                callbackMemory
+                                            );
+                                            return [callbackMemory];
                                         }
                                     ); // 0.674s
                                 }
@@ -605,15 +688,21 @@ export class DirectClient {
 
         this.app.post(
             "/:agentId/image",
+            chat,
+            validateRequest(apiOperations.generateImage),
+            this.limit("image", "images", (req) => req.body.count ?? 1),
             async (req: express.Request, res: express.Response) => {
                 const agentId = req.params.agentId;
                 const agent = this.agents.get(agentId);
                 if (!agent) {
-                    res.status(404).send("Agent not found");
+                    res.status(404).json({ error: "Agent not found" });
                     return;
                 }
 
                 const images = await generateImage({ ...req.body }, agent);
+                if (images.success) {
+                    this.usage.recordImages(agent, images.data?.length ?? 0);
+                }
                 const imagesRes: { image: string; caption: string }[] = [];
                 if (images.data && images.data.length > 0) {
                     for (let i = 0; i < images.data.length; i++) {
@@ -633,6 +722,8 @@ export class DirectClient {
 
         this.app.post(
             "/fine-tune",
+            admin,
+            validateRequest(apiOperations.createFineTuneAsset),
             async (req: express.Request, res: express.Response) => {
                 try {
                     const response = await fetch(
@@ -659,6 +750,8 @@ export class DirectClient {
         );
         this.app.get(
             "/fine-tune/:assetId",
+            admin,
+            validateRequest(apiOperations.downloadFineTuneAsset),
             async (req: express.Request, res: express.Response) => {
                 const assetId = req.params.assetId;
 
@@ -737,22 +830,23 @@ export class DirectClient {
                     res.status(500).json({
                         error: "Failed to download files from BagelDB",
                         details: error.message,
-                        stack: error.stack,
                     });
                 }
             }
         );
 
-        this.app.post("/:agentId/speak", async (req, res) => {
+        this.app.post("/:agentId/speak", chat, validateRequest(apiOperations.speak), this.limit("speak", "tokens"), async (req, res) => {
             const agentId = req.params.agentId;
             const roomId = stringToUuid(
                 req.body.roomId ?? "default-room-" + agentId
             );
-            const userId = stringToUuid(req.body.userId ?? "user");
+            const userId = stringToUuid(
+                getRequestUser(getRequestApiKey(res), req.body.userId)
+            );
             const text = req.body.text;
 
             if (!text) {
-                res.status(400).send("No text provided");
+                res.status(400).json({ error: "No text provided" });
                 return;
             }
 
@@ -767,7 +861,7 @@ export class DirectClient {
             }
 
             if (!runtime) {
-                res.status(404).send("Agent not found");
+                res.status(404).json({ error: "Agent not found" });
                 return;
             }
 
@@ -833,9 +927,9 @@ export class DirectClient {
                 await runtime.messageManager.createMemory(responseMessage);
 
                 if (!response) {
-                    res.status(500).send(
-                        "No response from generateMessageResponse"
-                    );
+                    res.status(500).json({
+                        error: "No response from generateMessageResponse",
+                    });
                     return;
                 }
 
@@ -918,11 +1012,11 @@ export class DirectClient {
             }
         });
 
-        this.app.post("/:agentId/tts", async (req, res) => {
+        this.app.post("/:agentId/tts", chat, validateRequest(apiOperations.textToSpeech), this.limit("tts"), async (req, res) => {
             const text = req.body.text;
 
             if (!text) {
-                res.status(400).send("No text provided");
+                res.status(400).json({ error: "No text provided" });
                 return;
             }
 
@@ -992,14 +1086,258 @@ export class DirectClient {
         });
     }
 
+    // Store the message, generate and store the reply, then run its action
+    // and the evaluators. Resolves to the messages to show the user. Room
+    // subscribers on the gateway see the agent typing and the action status.
+    private async processMessage(
+        runtime: IAgentRuntime,
+        input: MessageInput,
+        hooks: MessageHooks = {}
+    ): Promise<Content[]> {
+        const { userId, roomId } = input;
+
+        await runtime.ensureConnection(
+            userId,
+            roomId,
+            input.userName,
+            input.name,
+            "direct"
+        );
+
+        // if empty text, directly return
+        if (!input.text) {
+            hooks.onDone?.([]);
+            return [];
+        }
+
+        const messageId = stringToUuid(Date.now().toString());
+
+        const content: Content = {
+            text: input.text,
+            attachments: input.attachments ?? [],
+            source: "direct",
+            inReplyTo: undefined,
+        };
+
+        const userMessage = {
+            content,
+            userId,
+            roomId,
+            agentId: runtime.agentId,
+        };
+
+        const memory: Memory = {
+            id: stringToUuid(messageId + "-" + userId),
+            ...userMessage,
+            createdAt: Date.now(),
+        };
+
+        await runtime.messageManager.addEmbeddingToMemory(memory);
+        await runtime.messageManager.createMemory(memory);
+
+        let state = await runtime.composeState(userMessage, {
+            agentName: runtime.character.name,
+        });
+
+        const context = composeContext({
+            state,
+            template: messageHandlerTemplate,
+        });
+
+        const setTyping = (typing: boolean) =>
+            this.gateway.publish({
+                type: "typing",
+                agentId: runtime.agentId,
+                roomId,
+                userId: runtime.agentId,
+                typing,
+            });
+
+        setTyping(true);
+        let response: Content;
+        try {
+            response = await generateMessageResponse({
+                runtime: runtime,
+                context,
+                modelClass: ModelClass.LARGE,
+                onToken: hooks.onToken,
+            });
+        } finally {
+            setTyping(false);
+        }
+
+        if (!response) {
+            throw new Error("No response from generateMessageResponse");
+        }
+
+        // save response to memory
+        const responseMessage: Memory = {
+            id: stringToUuid(messageId + "-" + runtime.agentId),
+            ...userMessage,
+            userId: runtime.agentId,
+            content: response,
+            embedding: getEmbeddingZeroVector(),
+            createdAt: Date.now(),
+        };
+
+        await runtime.messageManager.createMemory(responseMessage);
+
+        // Check if we should suppress the initial message
+        const action = runtime.actions.find((a) => a.name === response.action);
+        const shouldSuppressInitialMessage =
+            action?.suppressInitialMessage ?? false;
+
+        hooks.onResponse?.(response, shouldSuppressInitialMessage);
+
+        state = await runtime.updateRecentMessageState(state);
+
+        const setActionStatus = (status: "started" | "finished") => {
+            if (!response.action) {
+                return;
+            }
+            this.gateway.publish({
+                type: "action",
+                agentId: runtime.agentId,
+                roomId,
+                action: response.action,
+                status,
+            });
+            hooks.onAction?.(response.action, status);
+        };
+
+        let message = null as Content | null;
+        let callbackCount = 0;
+
+        setActionStatus("started");
+        try {
+            await runtime.processActions(
+                memory,
+                [responseMessage],
+                state,
+                async (newMessages) => {
+                    message = newMessages;
+                    hooks.onCallback?.(newMessages);
+
+                    // Saved so room subscribers also get replies from actions
+                    // that finish after the request has been answered
+                    const callbackMemory: Memory = {
+                        id: stringToUuid(
+                            `${messageId}-${runtime.agentId}-callback-${++callbackCount}`
+                        ),
+                        userId: runtime.agentId,
+                        agentId: runtime.agentId,
+                        roomId,
+                        content: { ...newMessages, inReplyTo: memory.id },
+                        embedding: getEmbeddingZeroVector(),
+                        createdAt: Date.now(),
+                    };
+                    await runtime.messageManager.createMemory(callbackMemory);
+                    return [callbackMemory];
+                }
+            );
+        } finally {
+            setActionStatus("finished");
+        }
+
+        const messages = (
+            shouldSuppressInitialMessage ? [message] : [response, message]
+        ).filter((m): m is Content => m !== null);
+        hooks.onDone?.(messages);
+
+        await runtime.evaluate(memory, state);
+
+        return messages;
+    }
+
+    // Resolves an agent ID or character name, like the routes do
+    private getAgent(agentIdOrName: string): IAgentRuntime | undefined {
+        return (
+            this.agents.get(agentIdOrName) ??
+            Array.from(this.agents.values()).find(
+                (a) =>
+                    a.character.name.toLowerCase() ===
+                    agentIdOrName.toLowerCase()
+            )
+        );
+    }
+
+    // Checks the agent's daily quota for what the request asks for, then takes
+    // from the rate limit buckets, and counts the request either way. Without
+    // a running agent only the key and user limits apply.
+    private checkLimits(
+        runtime: IAgentRuntime | undefined,
+        route: string,
+        request: { apiKey: ApiKey | null; userId: UUID },
+        quota?: QuotaKind,
+        requested = 1
+    ): LimitDenial | null {
+        const denial =
+            (runtime && quota
+                ? this.usage.checkQuota(runtime, quota, requested)
+                : null) ??
+            this.rateLimiter.take({
+                ...request,
+                agentId: runtime?.agentId ?? null,
+            });
+        if (runtime) {
+            if (denial) {
+                this.usage.recordRateLimited(runtime);
+            } else {
+                this.usage.recordRequest(runtime, route);
+            }
+        }
+        return denial;
+    }
+
+    // Answers 429 when checkLimits refuses the request. Generic over the
+    // params so routes keep the types Express infers from their paths. Goes
+    // before multer on upload routes, so a refused request's file is never
+    // read; without API keys a multipart request's userId isn't parsed yet,
+    // so it counts against the "user" bucket.
+    private limit(
+        route: string,
+        quota?: QuotaKind,
+        // How much of the quota the request asks for
+        requested: (req: express.Request) => number = () => 1
+    ) {
+        return <P>(
+            req: express.Request<P>,
+            res: express.Response,
+            next: express.NextFunction
+        ) => {
+            const params = req.params as Record<string, string>;
+            const denial = this.checkLimits(
+                this.getAgent(params.agentId ?? params.agentIdOrName),
+                route,
+                {
+                    apiKey: getRequestApiKey(res),
+                    userId: stringToUuid(
+                        getRequestUser(getRequestApiKey(res), req.body?.userId)
+                    ),
+                },
+                quota,
+                requested(req as express.Request)
+            );
+            if (denial) {
+                sendTooManyRequests(res, denial);
+                return;
+            }
+            next();
+        };
+    }
+
     // agent/src/index.ts:startAgent calls this
     public registerAgent(runtime: IAgentRuntime) {
         // register any plugin endpoints?
         // but once and only once
         this.agents.set(runtime.agentId, runtime);
+        this.gateway.watchAgent(runtime);
+        void this.usage.watchAgent(runtime);
     }
 
     public unregisterAgent(runtime: IAgentRuntime) {
+        this.gateway.unwatchAgent(runtime);
+        this.usage.unwatchAgent(runtime);
         this.agents.delete(runtime.agentId);
     }
 
@@ -1013,10 +1351,12 @@ export class DirectClient {
                 `REST API bound to 0.0.0.0:${port}. If running locally, access it at http://localhost:${port}.`
             );
         });
+        this.gateway.attach(this.server);
 
         // Handle graceful shutdown
         const gracefulShutdown = () => {
             elizaLogger.log("Received shutdown signal, closing server...");
+            this.gateway.close();
             this.server.close(() => {
                 elizaLogger.success("Server closed successfully");
                 process.exit(0);
@@ -1037,6 +1377,7 @@ export class DirectClient {
     }
 
     public async stop() {
+        this.gateway.close();
         if (this.server) {
             this.server.close(() => {
                 elizaLogger.success("Server stopped");
@@ -0,0 +1,90 @@
+import { parsePartialTextFromResponse } from "@elizaos/core";
+import type express from "express";
+
+/**
+ * Events sent by POST /:agentId/message/stream, in the order they happen:
+ * - delta: { text } the next piece of the reply text as it is generated
+ * - reset: {} the reply didn't parse and is being generated again; drop the text so far
+ * - response: { content, suppressed } the parsed reply, saved to memory
+ * - action: { action, status } when the reply's action starts and finishes
+ * - callback: content sent by the action, once per callback
+ * - done: the same array POST /:agentId/message responds with
+ * - error: { error } the request failed; the stream ends after it
+ */
+export type MessageStreamEvent =
+    | "delta"
+    | "reset"
+    | "response"
+    | "action"
+    | "callback"
+    | "done"
+    | "error";
+
+export interface MessageStream {
+    send: (event: MessageStreamEvent, data: unknown) => void;
+    end: () => void;
+    readonly closed: boolean;
+}
+
+// Switch the response to Server-Sent Events. Events sent after the client
+// disconnects are dropped, so the agent can finish its work regardless.
+export function openMessageStream(res: express.Response): MessageStream {
+    let closed = false;
+    res.on("close", () => {
+        closed = true;
+    });
+
+    res.status(200).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        // Keep nginx and similar proxies from buffering the events
+        "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    return {
+        send(event, data) {
+            if (closed) {
+                return;
+            }
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        end() {
+            if (!closed) {
+                res.end();
+            }
+        },
+        get closed() {
+            return closed;
+        },
+    };
+}
+
+// Turn the raw tokens of a message response into deltas of its "text" field,
+// for generateMessageResponse's onToken. A retried attempt sends a reset.
+export function createTextDeltaHandler(
+    stream: MessageStream
+): (delta: string, attempt: number) => void {
+    let raw = "";
+    let sent = "";
+    let currentAttempt = 1;
+
+    return (delta, attempt) => {
+        if (attempt !== currentAttempt) {
+            currentAttempt = attempt;
+            raw = "";
+            if (sent) {
+                sent = "";
+                stream.send("reset", {});
+            }
+        }
+
+        raw += delta;
+        const text = parsePartialTextFromResponse(raw);
+        if (text && text.length > sent.length) {
+            stream.send("delta", { text: text.slice(sent.length) });
+            sent = text;
+        }
+    };
+}
@@ -0,0 +1,183 @@
+import { type z, ZodOptional } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+    type ApiOperation,
+    apiOperations,
+    ErrorSchema,
+} from "./contract.ts";
+
+// Builds the OpenAPI 3 document served at /openapi.json from contract.ts, so
+// the spec can't drift from the schemas the routes validate with.
+
+type JsonSchema = Record<string, unknown>;
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+    400: "The request doesn't match the schema, or was refused",
+    401: "No valid API key was presented",
+    403: "The API key doesn't have the scope, or the path is outside downloads/",
+    404: "The agent, or what was asked of it, doesn't exist",
+    429: "A rate limit or daily quota was reached; see Retry-After",
+    500: "The agent or a provider failed",
+};
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const { $schema: _schema, ...jsonSchema } = zodToJsonSchema(schema, {
+        target: "openApi3",
+        $refStrategy: "none",
+        // Document what clients send, before transforms
+        effectStrategy: "input",
+    }) as JsonSchema;
+    return jsonSchema;
+}
+
+// /agents/:agentId -> /agents/{agentId}
+function toOpenApiPath(path: string): string {
+    return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function toParameters(location: "path" | "query", schema?: z.AnyZodObject) {
+    return Object.entries(schema?.shape ?? {}).map(
+        ([name, field]: [string, z.ZodTypeAny]) => {
+            const optional = field instanceof ZodOptional;
+            return {
+                name,
+                in: location,
+                required: location === "path" || !optional,
+                description: field.description,
+                schema: toJsonSchema(optional ? field.unwrap() : field),
+            };
+        }
+    );
+}
+
+function toRequestBody(operation: ApiOperation) {
+    if (!operation.body && !operation.file) {
+        return undefined;
+    }
+    if (operation.bodyType !== "multipart") {
+        return {
+            required: true,
+            content: {
+                "application/json": { schema: toJsonSchema(operation.body) },
+            },
+        };
+    }
+
+    const schema = operation.body ? toJsonSchema(operation.body) : {};
+    const { field, required, description } = operation.file;
+    return {
+        required: true,
+        content: {
+            "multipart/form-data": {
+                schema: {
+                    ...schema,
+                    type: "object",
+                    properties: {
+                        ...(schema.properties as JsonSchema),
+                        [field]: { type: "string", format: "binary", description },
+                    },
+                    required: [
+                        ...((schema.required as string[]) ?? []),
+                        ...(required ? [field] : []),
+                    ],
+                },
+            },
+        },
+    };
+}
+
+function toResponses(operation: ApiOperation) {
+    const status = operation.status ?? 200;
+    const responseType = operation.responseType ?? "application/json";
+    const responses: Record<string, unknown> = {
+        [status]: {
+            description: operation.summary,
+            // A 204 has no body
+            ...(status === 204
+                ? {}
+                : {
+                      content: {
+                          [responseType]: {
+                              schema:
+                                  responseType === "audio/mpeg" ||
+                                  responseType === "application/octet-stream"
+                                      ? { type: "string", format: "binary" }
+                                      : toJsonSchema(operation.response),
+                          },
+                      },
+                  }),
+        },
+    };
+
+    const errors = new Set(operation.errors ?? []);
+    if (operation.params || operation.query || operation.body || operation.file) {
+        errors.add(400);
+    }
+    if (operation.scope !== "public") {
+        errors.add(401);
+    }
+    if (operation.scope !== "public" && operation.scope !== "key") {
+        errors.add(403);
+    }
+    for (const code of [...errors].sort((a, b) => a - b)) {
+        responses[code] = {
+            description: ERROR_DESCRIPTIONS[code],
+            content: {
+                "application/json": {
+                    schema: { $ref: "#/components/schemas/Error" },
+                },
+            },
+        };
+    }
+    return responses;
+}
+
+export function buildOpenApiDocument(
+    operations: Record<string, ApiOperation> = apiOperations
+) {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const [operationId, operation] of Object.entries(operations)) {
+        const path = toOpenApiPath(operation.path);
+        const requestBody = toRequestBody(operation);
+        paths[path] ??= {};
+        paths[path][operation.method] = {
+            operationId,
+            summary: operation.summary,
+            tags: [operation.tag],
+            ...(operation.scope === "public"
+                ? { security: [] }
+                : operation.scope === "key"
+                  ? {}
+                  : { "x-required-scope": operation.scope }),
+            parameters: [
+                ...toParameters("path", operation.params),
+                ...toParameters("query", operation.query),
+            ],
+            ...(requestBody ? { requestBody } : {}),
+            responses: toResponses(operation),
+        };
+    }
+
+    return {
+        openapi: "3.0.3",
+        info: {
+            title: "Eliza direct client API",
+            version: "1.0.0",
+            description:
+                "Chat with, manage and watch the agents of an Eliza server. Send an API key as a Bearer token or in X-API-Key when the server has DIRECT_API_KEYS; admin keys may call every route.",
+        },
+        security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: "http", scheme: "bearer" },
+                apiKeyHeader: {
+                    type: "apiKey",
+                    in: "header",
+                    name: "X-API-Key",
+                },
+            },
+            schemas: { Error: toJsonSchema(ErrorSchema) },
+        },
+        paths,
+    };
+}
@@ -0,0 +1,251 @@
+import { elizaLogger, getEnvVariable, type UUID } from "@elizaos/core";
+import type express from "express";
+import type { ApiKey } from "./auth.ts";
+
+// Token buckets for the routes that call paid model APIs. A request takes a
+// token from the bucket of its API key, its user and its agent, and is refused
+// when any of them is empty; buckets refill evenly up to their size.
+//
+//     DIRECT_RATE_LIMIT_PER_KEY=120/min
+//     DIRECT_RATE_LIMIT_PER_USER=20/min
+//     DIRECT_RATE_LIMIT_PER_AGENT=60/min
+//
+// "off" turns a limit off. 20/min lets a user send a burst of 20 messages,
+// then one every three seconds.
+
+export const RATE_LIMIT_SUBJECTS = ["key", "user", "agent"] as const;
+
+export type RateLimitSubject = (typeof RATE_LIMIT_SUBJECTS)[number];
+
+export interface Rate {
+    // Bucket size, and the tokens added back every intervalMs
+    capacity: number;
+    intervalMs: number;
+}
+
+export type RateLimitConfig = Record<RateLimitSubject, Rate | null>;
+
+/** Why a request was refused, and when it is worth trying again. */
+export interface LimitDenial {
+    error: string;
+    retryAfterMs: number;
+}
+
+export interface RateLimitRequest {
+    apiKey: ApiKey | null;
+    userId: string;
+    // null when the route doesn't name a running agent
+    agentId: UUID | null;
+}
+
+// Thrown where a denial can't be answered with a 429, e.g. over a WebSocket
+export class LimitExceededError extends Error {
+    constructor(public readonly denial: LimitDenial) {
+        super(denial.error);
+        this.name = "LimitExceededError";
+    }
+}
+
+export class RateLimitConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RateLimitConfigError";
+    }
+}
+
+const DEFAULT_RATES: Record<RateLimitSubject, string> = {
+    key: "off",
+    user: "20/min",
+    agent: "60/min",
+};
+
+const SETTINGS: Record<RateLimitSubject, string> = {
+    key: "DIRECT_RATE_LIMIT_PER_KEY",
+    user: "DIRECT_RATE_LIMIT_PER_USER",
+    agent: "DIRECT_RATE_LIMIT_PER_AGENT",
+};
+
+// The first unit of each length is the one rates are shown with
+const UNIT_MS: Record<string, number> = {
+    s: 1000,
+    min: 60_000,
+    h: 3_600_000,
+    day: 86_400_000,
+    sec: 1000,
+    second: 1000,
+    m: 60_000,
+    minute: 60_000,
+    hour: 3_600_000,
+    d: 86_400_000,
+};
+
+// Past this many buckets, full ones are dropped; a full bucket is the same as
+// a new one
+const MAX_BUCKETS = 10_000;
+
+export function parseRate(value: string): Rate | null {
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed === "off") {
+        return null;
+    }
+    const match = /^(\d+)\s*\/\s*([a-z]+)$/.exec(trimmed);
+    const intervalMs = match ? UNIT_MS[match[2]] : undefined;
+    if (!match || !intervalMs || Number(match[1]) === 0) {
+        throw new RateLimitConfigError(
+            `Rate limits look like 20/min, 5/s or 1000/day, or are off; got "${value}"`
+        );
+    }
+    return { capacity: Number(match[1]), intervalMs };
+}
+
+export function loadRateLimitConfig(): RateLimitConfig {
+    const config = {} as RateLimitConfig;
+    for (const subject of RATE_LIMIT_SUBJECTS) {
+        const value =
+            getEnvVariable(SETTINGS[subject]) || DEFAULT_RATES[subject];
+        try {
+            config[subject] = parseRate(value);
+        } catch (error) {
+            throw new RateLimitConfigError(
+                `${SETTINGS[subject]}: ${error.message}`
+            );
+        }
+    }
+    return config;
+}
+
+export function formatRate(rate: Rate | null): string {
+    if (!rate) {
+        return "off";
+    }
+    const unit = Object.entries(UNIT_MS).find(
+        ([, ms]) => ms === rate.intervalMs
+    );
+    return `${rate.capacity}/${unit?.[0] ?? `${rate.intervalMs}ms`}`;
+}
+
+class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(
+        private rate: Rate,
+        now: number
+    ) {
+        this.tokens = rate.capacity;
+        this.updatedAt = now;
+    }
+
+    // Milliseconds until a token is available; 0 when one is
+    public wait(now: number): number {
+        this.refill(now);
+        if (this.tokens >= 1) {
+            return 0;
+        }
+        return Math.ceil(
+            ((1 - this.tokens) * this.rate.intervalMs) / this.rate.capacity
+        );
+    }
+
+    public take(now: number) {
+        this.refill(now);
+        this.tokens -= 1;
+    }
+
+    public isFull(now: number): boolean {
+        this.refill(now);
+        return this.tokens >= this.rate.capacity;
+    }
+
+    private refill(now: number) {
+        const elapsed = Math.max(0, now - this.updatedAt);
+        this.tokens = Math.min(
+            this.rate.capacity,
+            this.tokens + (elapsed * this.rate.capacity) / this.rate.intervalMs
+        );
+        this.updatedAt = now;
+    }
+}
+
+export class RateLimiter {
+    private buckets = new Map<string, TokenBucket>();
+
+    constructor(public readonly config: RateLimitConfig) {}
+
+    /**
+     * Takes a token from each of the request's buckets, or from none of them
+     * when any is empty.
+     * @returns null when the request may go ahead, otherwise why it may not.
+     */
+    public take(
+        request: RateLimitRequest,
+        now = Date.now()
+    ): LimitDenial | null {
+        const subjects: [RateLimitSubject, string | null][] = [
+            ["key", request.apiKey?.name ?? null],
+            ["user", request.userId],
+            ["agent", request.agentId],
+        ];
+
+        const buckets: TokenBucket[] = [];
+        for (const [subject, id] of subjects) {
+            const rate = this.config[subject];
+            if (!rate || !id) {
+                continue;
+            }
+            const bucket = this.getBucket(`${subject}:${id}`, rate, now);
+            const wait = bucket.wait(now);
+            if (wait > 0) {
+                return {
+                    error: `Rate limit of ${formatRate(rate)} per ${subject === "key" ? "API key" : subject} exceeded`,
+                    retryAfterMs: wait,
+                };
+            }
+            buckets.push(bucket);
+        }
+
+        for (const bucket of buckets) {
+            bucket.take(now);
+        }
+        return null;
+    }
+
+    private getBucket(key: string, rate: Rate, now: number): TokenBucket {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            if (this.buckets.size >= MAX_BUCKETS) {
+                this.prune(now);
+            }
+            bucket = new TokenBucket(rate, now);
+            this.buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    private prune(now: number) {
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.isFull(now)) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+export function logRateLimitConfig(config: RateLimitConfig) {
+    elizaLogger.info(
+        `Rate limits on model routes: ${RATE_LIMIT_SUBJECTS.map(
+            (subject) => `${formatRate(config[subject])} per ${subject}`
+        ).join(", ")}`
+    );
+}
+
+// Answers 429 with the seconds to wait in Retry-After and the body
+export function sendTooManyRequests(
+    res: express.Response,
+    denial: LimitDenial
+) {
+    const retryAfter = Math.max(1, Math.ceil(denial.retryAfterMs / 1000));
+    res.status(429)
+        .set("Retry-After", String(retryAfter))
+        .json({ error: denial.error, retryAfter });
+}
@@ -0,0 +1,403 @@
+import {
+    type Content,
+    elizaLogger,
+    stringToUuid,
+    type IAgentRuntime,
+    type Memory,
+    type UUID,
+} from "@elizaos/core";
+import type { IncomingMessage, Server } from "http";
+import { type RawData, WebSocket, WebSocketServer } from "ws";
+import { z } from "zod";
+import {
+    type ApiKey,
+    type ApiScope,
+    type AuthConfig,
+    findApiKey,
+    getPresentedKey,
+    getRequestUser,
+    hasScope,
+} from "./auth.ts";
+import { LimitExceededError } from "./rate-limit.ts";
+
+// Rooms are named the way the HTTP routes name them, so a socket and
+// POST /:agentId/message with the same roomId share the conversation
+const roomFields = {
+    agentId: z.string().min(1),
+    roomId: z.string().optional(),
+};
+
+const GatewayRequestSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("subscribe"), ...roomFields }),
+    z.object({ type: z.literal("unsubscribe"), ...roomFields }),
+    // userId only counts when auth is off; otherwise it is the key's user
+    z.object({
+        type: z.literal("typing"),
+        ...roomFields,
+        userId: z.string().optional(),
+        typing: z.boolean(),
+    }),
+    z.object({
+        type: z.literal("message"),
+        ...roomFields,
+        userId: z.string().optional(),
+        userName: z.string().optional(),
+        name: z.string().optional(),
+        text: z.string().min(1),
+        // Echoed back on an error frame for this message
+        requestId: z.string().optional(),
+    }),
+]);
+
+/** A frame a client sends over the gateway socket. */
+export type GatewayRequest = z.infer<typeof GatewayRequestSchema>;
+
+/** A frame the gateway pushes to subscribers of a room. */
+export type GatewayEvent =
+    | { type: "subscribed"; agentId: UUID; roomId: UUID }
+    | { type: "unsubscribed"; agentId: UUID; roomId: UUID }
+    | { type: "memory"; agentId: UUID; roomId: UUID; memory: Memory }
+    | {
+          type: "typing";
+          agentId: UUID;
+          roomId: UUID;
+          userId: UUID;
+          typing: boolean;
+      }
+    | {
+          type: "action";
+          agentId: UUID;
+          roomId: UUID;
+          action: string;
+          status: "started" | "finished";
+      }
+    | {
+          // The agent's answer to a message, for senders whose key can't
+          // subscribe to the room
+          type: "reply";
+          agentId: UUID;
+          roomId: UUID;
+          requestId?: string;
+          messages: Content[];
+      }
+    | {
+          type: "error";
+          error: string;
+          requestId?: string;
+          // Seconds to wait when the message was refused by a rate limit or quota
+          retryAfter?: number;
+      };
+
+export interface GatewayMessage {
+    userId: UUID;
+    roomId: UUID;
+    text: string;
+    userName?: string;
+    name?: string;
+}
+
+export interface RoomGatewayOptions {
+    // Resolves an agent ID or character name, like the HTTP routes do
+    getAgent: (agentIdOrName: string) => IAgentRuntime | undefined;
+    // Runs a message sent over a socket through the agent; resolves to the
+    // replies, which also reach subscribers as memory events
+    sendMessage: (
+        runtime: IAgentRuntime,
+        message: GatewayMessage,
+        apiKey: ApiKey | null
+    ) => Promise<Content[]>;
+    // The REST API's keys; subscribing needs read-memories, sending chat
+    auth: AuthConfig;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+const REQUEST_SCOPES: Record<GatewayRequest["type"], ApiScope | null> = {
+    subscribe: "read-memories",
+    unsubscribe: null,
+    typing: "chat",
+    message: "chat",
+};
+
+function roomKey(agentId: UUID, roomId: UUID): string {
+    return `${agentId}:${roomId}`;
+}
+
+/**
+ * WebSocket endpoint where clients subscribe to an agent's rooms. Subscribers
+ * get every memory created in the room by any participant, typing indicators
+ * and action status, and can send messages and typing indicators themselves.
+ */
+export class RoomGateway {
+    private server: WebSocketServer | null = null;
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private rooms = new Map<string, Set<WebSocket>>();
+    private subscriptions = new Map<WebSocket, Set<string>>();
+    private alive = new WeakSet<WebSocket>();
+    private keys = new WeakMap<WebSocket, ApiKey>();
+    private agentListeners = new Map<UUID, () => void>();
+
+    constructor(private options: RoomGatewayOptions) {}
+
+    public attach(httpServer: Server, path = "/ws") {
+        this.server = new WebSocketServer({
+            server: httpServer,
+            path,
+            // Refuse the upgrade with a 401 when no valid key is presented
+            verifyClient: ({ req }) =>
+                this.options.auth.keys.length === 0 ||
+                this.authenticate(req) !== null,
+        });
+        this.server.on("connection", (socket, req) =>
+            this.handleConnection(socket, req)
+        );
+
+        // Drop sockets that stopped answering pings, e.g. a closed laptop
+        this.heartbeat = setInterval(() => {
+            for (const socket of this.subscriptions.keys()) {
+                if (!this.alive.has(socket)) {
+                    socket.terminate();
+                    continue;
+                }
+                this.alive.delete(socket);
+                socket.ping();
+            }
+        }, HEARTBEAT_INTERVAL_MS);
+        this.heartbeat.unref?.();
+
+        elizaLogger.success(`Room gateway listening for WebSockets on ${path}`);
+    }
+
+    public close() {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+        for (const socket of this.subscriptions.keys()) {
+            socket.terminate();
+        }
+        this.server?.close();
+        this.server = null;
+    }
+
+    // Push the agent's new memories to the subscribers of their rooms
+    public watchAgent(runtime: IAgentRuntime) {
+        if (
+            this.agentListeners.has(runtime.agentId) ||
+            !runtime.messageManager.onMemoryCreated
+        ) {
+            return;
+        }
+        const removeListener = runtime.messageManager.onMemoryCreated(
+            (memory) => {
+                const { embedding: _embedding, ...withoutEmbedding } = memory;
+                this.publish({
+                    type: "memory",
+                    agentId: runtime.agentId,
+                    roomId: memory.roomId,
+                    memory: withoutEmbedding,
+                });
+            }
+        );
+        this.agentListeners.set(runtime.agentId, removeListener);
+    }
+
+    public unwatchAgent(runtime: IAgentRuntime) {
+        this.agentListeners.get(runtime.agentId)?.();
+        this.agentListeners.delete(runtime.agentId);
+    }
+
+    public publish(
+        event: Extract<GatewayEvent, { agentId: UUID; roomId: UUID }>,
+        except?: WebSocket
+    ) {
+        const sockets = this.rooms.get(roomKey(event.agentId, event.roomId));
+        if (!sockets) {
+            return;
+        }
+        const frame = JSON.stringify(event);
+        for (const socket of sockets) {
+            if (socket !== except && socket.readyState === WebSocket.OPEN) {
+                socket.send(frame);
+            }
+        }
+    }
+
+    private authenticate(req: IncomingMessage): ApiKey | null {
+        return findApiKey(this.options.auth, getPresentedKey(req, true));
+    }
+
+    private allows(socket: WebSocket, scope: ApiScope): boolean {
+        return (
+            this.options.auth.keys.length === 0 ||
+            hasScope(this.keys.get(socket) ?? null, scope)
+        );
+    }
+
+    private handleConnection(socket: WebSocket, req: IncomingMessage) {
+        const key = this.authenticate(req);
+        if (key) {
+            this.keys.set(socket, key);
+        }
+        this.subscriptions.set(socket, new Set());
+        this.alive.add(socket);
+
+        socket.on("pong", () => this.alive.add(socket));
+        socket.on("message", (data) => {
+            this.handleRequest(socket, data).catch((error) => {
+                elizaLogger.error("Error handling gateway request:", error);
+            });
+        });
+        socket.on("close", () => {
+            for (const key of this.subscriptions.get(socket) ?? []) {
+                this.rooms.get(key)?.delete(socket);
+                if (this.rooms.get(key)?.size === 0) {
+                    this.rooms.delete(key);
+                }
+            }
+            this.subscriptions.delete(socket);
+        });
+    }
+
+    private async handleRequest(socket: WebSocket, data: RawData) {
+        let request: GatewayRequest;
+        try {
+            const parsed = GatewayRequestSchema.safeParse(
+                JSON.parse(data.toString())
+            );
+            if (!parsed.success) {
+                this.send(socket, {
+                    type: "error",
+                    error: `Invalid request: ${parsed.error.issues
+                        .map((issue) => `${issue.path.join(".") || "request"}: ${issue.message}`)
+                        .join("; ")}`,
+                });
+                return;
+            }
+            request = parsed.data;
+        } catch {
+            this.send(socket, { type: "error", error: "Requests must be JSON" });
+            return;
+        }
+
+        const requestId =
+            request.type === "message" ? request.requestId : undefined;
+        const scope = REQUEST_SCOPES[request.type];
+        if (scope && !this.allows(socket, scope)) {
+            this.send(socket, {
+                type: "error",
+                error: `This API key doesn't have the ${scope} scope`,
+                requestId,
+            });
+            return;
+        }
+
+        const runtime = this.options.getAgent(request.agentId);
+        if (!runtime) {
+            this.send(socket, {
+                type: "error",
+                error: "Agent not found",
+                requestId,
+            });
+            return;
+        }
+
+        const agentId = runtime.agentId;
+        const roomId = stringToUuid(
+            request.roomId ?? "default-room-" + request.agentId
+        );
+        const key = roomKey(agentId, roomId);
+        const apiKey = this.keys.get(socket) ?? null;
+
+        switch (request.type) {
+            case "subscribe":
+                this.subscribe(socket, key);
+                this.send(socket, { type: "subscribed", agentId, roomId });
+                break;
+            case "unsubscribe":
+                this.subscriptions.get(socket)?.delete(key);
+                this.rooms.get(key)?.delete(socket);
+                this.send(socket, { type: "unsubscribed", agentId, roomId });
+                break;
+            case "typing":
+                this.publish(
+                    {
+                        type: "typing",
+                        agentId,
+                        roomId,
+                        userId: stringToUuid(
+                            getRequestUser(apiKey, request.userId)
+                        ),
+                        typing: request.typing,
+                    },
+                    socket
+                );
+                break;
+            case "message": {
+                // A sender who may read the room sees the whole conversation;
+                // any other only gets the agent's replies to its own messages
+                const subscribed = this.allows(socket, "read-memories");
+                if (subscribed) {
+                    this.subscribe(socket, key);
+                }
+                try {
+                    const messages = await this.options.sendMessage(
+                        runtime,
+                        {
+                            userId: stringToUuid(
+                                getRequestUser(apiKey, request.userId)
+                            ),
+                            roomId,
+                            text: request.text,
+                            userName: request.userName,
+                            name: request.name,
+                        },
+                        apiKey
+                    );
+                    if (!subscribed) {
+                        this.send(socket, {
+                            type: "reply",
+                            agentId,
+                            roomId,
+                            requestId,
+                            messages,
+                        });
+                    }
+                } catch (error) {
+                    if (error instanceof LimitExceededError) {
+                        this.send(socket, {
+                            type: "error",
+                            error: error.message,
+                            requestId,
+                            retryAfter: Math.ceil(
+                                error.denial.retryAfterMs / 1000
+                            ),
+                        });
+                        break;
+                    }
+                    elizaLogger.error("Error processing gateway message:", error);
+                    this.send(socket, {
+                        type: "error",
+                        error: `Error processing message: ${error.message}`,
+                        requestId,
+                    });
+                }
+                break;
+            }
+        }
+    }
+
+    private subscribe(socket: WebSocket, key: string) {
+        this.subscriptions.get(socket)?.add(key);
+        if (!this.rooms.has(key)) {
+            this.rooms.set(key, new Set());
+        }
+        this.rooms.get(key).add(socket);
+    }
+
+    private send(socket: WebSocket, event: GatewayEvent) {
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(event));
+        }
+    }
+}
@@ -0,0 +1,271 @@
+import {
+    elizaLogger,
+    type IAgentRuntime,
+    type ModelUsage,
+    type UUID,
+} from "@elizaos/core";
+import {
+    type DailyUsage,
+    type QuotaStatus,
+    USAGE_HISTORY_DAYS,
+    type UsageReport,
+} from "./contract.ts";
+import type { LimitDenial } from "./rate-limit.ts";
+
+// Daily usage per agent, kept in the agent's cache so quotas survive a
+// restart. Days are UTC. Quotas come from the character's settings or the
+// environment; unset means unlimited:
+//
+//     DIRECT_DAILY_TOKEN_QUOTA=2000000
+//     DIRECT_DAILY_IMAGE_QUOTA=50
+//
+// Tokens count every text generation the agent makes, not just those for API
+// requests, so a quota also covers what its other clients and evaluators spend.
+
+export type QuotaKind = "tokens" | "images";
+
+// The report's shapes are part of the API contract
+export { type DailyUsage, type QuotaStatus, USAGE_HISTORY_DAYS, type UsageReport };
+
+const QUOTA_SETTINGS: Record<QuotaKind, string> = {
+    tokens: "DIRECT_DAILY_TOKEN_QUOTA",
+    images: "DIRECT_DAILY_IMAGE_QUOTA",
+};
+
+const QUOTA_NAMES: Record<QuotaKind, string> = {
+    tokens: "token",
+    images: "image generation",
+};
+
+const DAY_MS = 86_400_000;
+
+function toDate(now: number): string {
+    return new Date(now).toISOString().slice(0, 10);
+}
+
+function nextReset(now: number): number {
+    return (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+}
+
+function emptyUsage(date: string): DailyUsage {
+    return {
+        date,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedTokens: 0,
+        llmCalls: 0,
+        images: 0,
+        requests: {},
+        rateLimited: 0,
+    };
+}
+
+// Adds counts recorded before the cached day was loaded to it
+function mergeUsage(cached: DailyUsage, recent: DailyUsage): DailyUsage {
+    const requests = { ...cached.requests };
+    for (const [route, count] of Object.entries(recent.requests)) {
+        requests[route] = (requests[route] ?? 0) + count;
+    }
+    return {
+        date: cached.date,
+        promptTokens: cached.promptTokens + recent.promptTokens,
+        completionTokens: cached.completionTokens + recent.completionTokens,
+        totalTokens: cached.totalTokens + recent.totalTokens,
+        estimatedTokens: cached.estimatedTokens + recent.estimatedTokens,
+        llmCalls: cached.llmCalls + recent.llmCalls,
+        images: cached.images + recent.images,
+        requests,
+        rateLimited: cached.rateLimited + recent.rateLimited,
+    };
+}
+
+function cacheKey(agentId: UUID, date: string): string {
+    return `direct/usage/${agentId}/${date}`;
+}
+
+export function getQuota(
+    runtime: IAgentRuntime,
+    kind: QuotaKind
+): number | null {
+    const quota = Number(runtime.getSetting(QUOTA_SETTINGS[kind]));
+    return Number.isFinite(quota) && quota > 0 ? quota : null;
+}
+
+export class UsageTracker {
+    private days = new Map<UUID, DailyUsage>();
+    private listeners = new Map<UUID, () => void>();
+    // Agents whose cached usage for today has been read, so saving won't
+    // overwrite it
+    private loaded = new Set<UUID>();
+
+    // Count the agent's model usage and load what it already used today
+    public async watchAgent(runtime: IAgentRuntime, now = Date.now()) {
+        if (this.listeners.has(runtime.agentId)) {
+            return;
+        }
+        if (runtime.onModelUsage) {
+            this.listeners.set(
+                runtime.agentId,
+                runtime.onModelUsage((usage) => this.recordModelUsage(runtime, usage))
+            );
+        }
+
+        const date = toDate(now);
+        try {
+            const cached = await runtime.cacheManager.get<DailyUsage>(
+                cacheKey(runtime.agentId, date)
+            );
+            if (cached) {
+                const recent = this.days.get(runtime.agentId);
+                this.days.set(
+                    runtime.agentId,
+                    recent?.date === date ? mergeUsage(cached, recent) : cached
+                );
+            }
+        } catch (error) {
+            elizaLogger.error("Error loading API usage:", error);
+        }
+        this.loaded.add(runtime.agentId);
+        if (this.days.has(runtime.agentId)) {
+            this.save(runtime, this.days.get(runtime.agentId), Date.now());
+        }
+    }
+
+    public unwatchAgent(runtime: IAgentRuntime) {
+        this.listeners.get(runtime.agentId)?.();
+        this.listeners.delete(runtime.agentId);
+        this.loaded.delete(runtime.agentId);
+        this.days.delete(runtime.agentId);
+    }
+
+    public recordModelUsage(runtime: IAgentRuntime, usage: ModelUsage) {
+        this.update(runtime, (today) => {
+            today.promptTokens += usage.promptTokens;
+            today.completionTokens += usage.completionTokens;
+            today.totalTokens += usage.totalTokens;
+            if (usage.estimated) {
+                today.estimatedTokens += usage.totalTokens;
+            }
+            today.llmCalls += 1;
+        });
+    }
+
+    public recordImages(runtime: IAgentRuntime, count: number) {
+        this.update(runtime, (today) => {
+            today.images += count;
+        });
+    }
+
+    public recordRequest(runtime: IAgentRuntime, route: string) {
+        this.update(runtime, (today) => {
+            today.requests[route] = (today.requests[route] ?? 0) + 1;
+        });
+    }
+
+    public recordRateLimited(runtime: IAgentRuntime) {
+        this.update(runtime, (today) => {
+            today.rateLimited += 1;
+        });
+    }
+
+    /**
+     * Checks the agent's daily quota of the kind against what a request asks
+     * for, e.g. the number of images. A request's tokens aren't known up
+     * front, so token requests pass while any are left.
+     * @returns null while enough is left, otherwise a denial until the reset.
+     */
+    public checkQuota(
+        runtime: IAgentRuntime,
+        kind: QuotaKind,
+        requested = 1,
+        now = Date.now()
+    ): LimitDenial | null {
+        const limit = getQuota(runtime, kind);
+        const today = this.getToday(runtime, now);
+        const used = kind === "tokens" ? today.totalTokens : today.images;
+        if (limit === null || used + requested <= limit) {
+            return null;
+        }
+        const resetsAt = nextReset(now);
+        const resets = `it resets at ${new Date(resetsAt).toISOString()}`;
+        return {
+            error:
+                used < limit
+                    ? `${runtime.character.name} has ${limit - used} of its daily ${QUOTA_NAMES[kind]} quota of ${limit} left, fewer than the ${requested} requested; ${resets}`
+                    : `${runtime.character.name} has used its daily ${QUOTA_NAMES[kind]} quota of ${limit}; ${resets}`,
+            retryAfterMs: resetsAt - now,
+        };
+    }
+
+    public async getReport(
+        runtime: IAgentRuntime,
+        days = 1,
+        now = Date.now()
+    ): Promise<UsageReport> {
+        const today = this.getToday(runtime, now);
+        const history: DailyUsage[] = [];
+        for (let day = 1; day < Math.min(days, USAGE_HISTORY_DAYS); day++) {
+            const date = toDate(now - day * DAY_MS);
+            const usage = await runtime.cacheManager.get<DailyUsage>(
+                cacheKey(runtime.agentId, date)
+            );
+            if (usage) {
+                history.push(usage);
+            }
+        }
+
+        const quota = (kind: QuotaKind, used: number): QuotaStatus => {
+            const limit = getQuota(runtime, kind);
+            return {
+                limit,
+                used,
+                remaining: limit === null ? null : Math.max(0, limit - used),
+            };
+        };
+
+        return {
+            agentId: runtime.agentId,
+            date: today.date,
+            resetsAt: new Date(nextReset(now)).toISOString(),
+            today,
+            quotas: {
+                tokens: quota("tokens", today.totalTokens),
+                images: quota("images", today.images),
+            },
+            history,
+        };
+    }
+
+    private getToday(runtime: IAgentRuntime, now: number): DailyUsage {
+        const date = toDate(now);
+        let today = this.days.get(runtime.agentId);
+        if (today?.date !== date) {
+            today = emptyUsage(date);
+            this.days.set(runtime.agentId, today);
+        }
+        return today;
+    }
+
+    private update(
+        runtime: IAgentRuntime,
+        change: (today: DailyUsage) => void
+    ) {
+        const now = Date.now();
+        const today = this.getToday(runtime, now);
+        change(today);
+        if (this.loaded.has(runtime.agentId)) {
+            this.save(runtime, today, now);
+        }
+    }
+
+    private save(runtime: IAgentRuntime, usage: DailyUsage, now: number) {
+        runtime.cacheManager
+            .set(cacheKey(runtime.agentId, usage.date), usage, {
+                expires: now + USAGE_HISTORY_DAYS * DAY_MS,
+            })
+            .catch((error) => {
+                elizaLogger.error("Error saving API usage:", error);
+            });
+    }
+}
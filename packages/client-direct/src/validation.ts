@@ -0,0 +1,69 @@
+import type express from "express";
+import type { z } from "zod";
+import type { ApiError, ApiOperation } from "./contract.ts";
+
+type Issue = NonNullable<ApiError["issues"]>[number];
+
+function toIssues(part: string, error: z.ZodError): Issue[] {
+    return error.issues.map((issue) => ({
+        path: [part, ...issue.path].join("."),
+        message: issue.message,
+    }));
+}
+
+/**
+ * Checks a request's path params, query and body against the operation's
+ * schemas and answers 400 with the issues when they don't match. The query
+ * and body are replaced with what the schemas parsed, e.g. days as a number.
+ * Goes after multer on multipart routes, so the form fields are in the body.
+ */
+export function validateRequest(operation: ApiOperation) {
+    // Generic over the params so routes keep the types Express infers from their paths
+    return <P>(
+        req: express.Request<P>,
+        res: express.Response,
+        next: express.NextFunction
+    ) => {
+        const issues: Issue[] = [];
+
+        const params = operation.params?.safeParse(req.params);
+        if (params && !params.success) {
+            issues.push(...toIssues("params", params.error));
+        }
+
+        const query = operation.query?.safeParse(req.query);
+        if (query && !query.success) {
+            issues.push(...toIssues("query", query.error));
+        }
+
+        const body = operation.body?.safeParse(req.body ?? {});
+        if (body && !body.success) {
+            issues.push(...toIssues("body", body.error));
+        }
+
+        if (operation.file?.required && !req.file) {
+            issues.push({
+                path: operation.file.field,
+                message: `Required: ${operation.file.description.toLowerCase()}`,
+            });
+        }
+
+        if (issues.length > 0) {
+            res.status(400).json({
+                error: `Invalid request: ${issues
+                    .map((issue) => `${issue.path}: ${issue.message}`)
+                    .join("; ")}`,
+                issues,
+            } satisfies ApiError);
+            return;
+        }
+
+        if (query?.success) {
+            req.query = query.data;
+        }
+        if (body?.success) {
+            req.body = body.data;
+        }
+        next();
+    };
+}
@@ -1,19 +1,20 @@
 import express from "express";
 import type { Router } from 'express';
 import bodyParser from "body-parser";
-import cors from "cors";
 
 import { type AgentRuntime, elizaLogger, ServiceType }  from "@elizaos/core";
 import type {
     VerifiableLogService,
     VerifiableLogQuery,
 } from "@elizaos/plugin-tee-verifiable-log";
+import { type AuthConfig, requireScope } from "./auth.ts";
 
 export function createVerifiableLogApiRouter(
-    agents: Map<string, IAgentRuntime>
+    agents: Map<string, IAgentRuntime>,
+    auth: AuthConfig
 ):Router {
     const router = express.Router();
-    router.use(cors());
+    router.use("/verifiable", requireScope(auth, "read-memories"));
     router.use(bodyParser.json());
     router.use(bodyParser.urlencoded({ extended: true }));
 
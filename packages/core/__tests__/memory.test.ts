@@ -114,6 +114,45 @@ describe("MemoryManager", () => {
         });
     });
 
+    describe("onMemoryCreated", () => {
+        it("should report new memories until the listener is removed", async () => {
+            const listener = vi.fn();
+            const memory: Memory = {
+                id: "test-id" as UUID,
+                userId: "user-id" as UUID,
+                agentId: "agent-id" as UUID,
+                roomId: "room-id" as UUID,
+                content: { text: "test content" },
+            };
+            mockDatabaseAdapter.getMemoryById.mockResolvedValue(null);
+
+            const remove = memoryManager.onMemoryCreated(listener);
+            await memoryManager.createMemory(memory);
+            remove();
+            await memoryManager.createMemory({ ...memory, id: "other-id" as UUID });
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith(memory);
+        });
+
+        it("should not report memories that already exist", async () => {
+            const listener = vi.fn();
+            mockDatabaseAdapter.getMemoryById.mockResolvedValue({ id: "test-id" });
+
+            memoryManager.onMemoryCreated(listener);
+            await memoryManager.createMemory({
+                id: "test-id" as UUID,
+                userId: "user-id" as UUID,
+                agentId: "agent-id" as UUID,
+                roomId: "room-id" as UUID,
+                content: { text: "test content" },
+            });
+
+            expect(listener).not.toHaveBeenCalled();
+            expect(mockDatabaseAdapter.createMemory).not.toHaveBeenCalled();
+        });
+    });
+
     describe("getMemories", () => {
         it("should handle pagination parameters", async () => {
             const roomId = "test-room" as UUID;
@@ -4,6 +4,7 @@ import {
     parseBooleanFromText,
     parseJsonArrayFromText,
     parseJSONObjectFromText,
+    parsePartialTextFromResponse,
 } from "../src/parsing";
 
 describe("Parsing Module", () => {
@@ -145,4 +146,27 @@ describe("Parsing Module", () => {
             );
         });
     });
+
+    describe("parsePartialTextFromResponse", () => {
+        it("should return null until the text field starts", () => {
+            expect(parsePartialTextFromResponse("```json\n{ \"user\": \"Eliza\"")).toBe(null);
+            expect(parsePartialTextFromResponse('```json\n{ "user": "Eliza", "text": ')).toBe(null);
+        });
+
+        it("should return the text generated so far", () => {
+            expect(
+                parsePartialTextFromResponse('```json\n{ "user": "Eliza", "text": "Hello the')
+            ).toBe("Hello the");
+            expect(
+                parsePartialTextFromResponse('{ "text": "Hello there", "action": "NONE" }')
+            ).toBe("Hello there");
+        });
+
+        it("should decode escapes and wait for cut-off ones", () => {
+            expect(parsePartialTextFromResponse('{ "text": "Say \\"hi\\"\\nnow')).toBe('Say "hi"\nnow');
+            expect(parsePartialTextFromResponse('{ "text": "caf\\u00e9')).toBe("café");
+            expect(parsePartialTextFromResponse('{ "text": "caf\\u00')).toBe("caf");
+            expect(parsePartialTextFromResponse('{ "text": "line\\')).toBe("line");
+        });
+    });
 });
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { AgentRuntime } from "../src/runtime";
 import {
     type IDatabaseAdapter,
+    ModelClass,
     ModelProviderName,
     type Action,
     type Memory,
@@ -140,4 +141,40 @@ describe("AgentRuntime", () => {
             expect(action.validate).toBeDefined();
         });
     });
+
+    describe("model usage", () => {
+        const usage = {
+            provider: ModelProviderName.OPENAI,
+            model: "gpt-4o-mini",
+            modelClass: ModelClass.SMALL,
+            promptTokens: 120,
+            completionTokens: 30,
+            totalTokens: 150,
+            estimated: false,
+        };
+
+        it("should pass reported usage to listeners until they are removed", () => {
+            const listener = vi.fn();
+            const removeListener = runtime.onModelUsage(listener);
+
+            runtime.reportModelUsage(usage);
+            removeListener();
+            runtime.reportModelUsage(usage);
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith(usage);
+        });
+
+        it("should keep reporting to other listeners when one throws", () => {
+            const listener = vi.fn();
+            runtime.onModelUsage(() => {
+                throw new Error("listener failed");
+            });
+            runtime.onModelUsage(listener);
+
+            runtime.reportModelUsage(usage);
+
+            expect(listener).toHaveBeenCalledWith(usage);
+        });
+    });
 });
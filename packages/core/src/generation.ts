@@ -8,6 +8,7 @@ import { createMem0 } from "@mem0/vercel-ai-provider";
 import {
     generateObject as aiGenerateObject,
     generateText as aiGenerateText,
+    streamText as aiStreamText,
     type CoreTool,
     type GenerateObjectResult,
     type StepResult as AIStepResult,
@@ -49,6 +50,7 @@ import {
     //VerifiableInferenceProvider,
     type TelemetrySettings,
     TokenizerType,
+    type ModelUsage,
 } from "./types.ts";
 import { fal } from "@fal-ai/client";
 
@@ -186,6 +188,33 @@ async function truncateTiktoken(
     }
 }
 
+// Encoders by model for countTokens; building one parses its whole BPE table
+const tokenCountEncodings = new Map<
+    TiktokenModel,
+    ReturnType<typeof encodingForModel>
+>();
+
+// Counts tokens with the tokenizer trimTokens uses, for providers that don't
+// report usage
+function countTokens(text: string, runtime: IAgentRuntime): number {
+    const tokenizerModel = runtime.getSetting("TOKENIZER_MODEL");
+    const tokenizerType = runtime.getSetting("TOKENIZER_TYPE");
+    const model =
+        tokenizerModel && tokenizerType === TokenizerType.TikToken
+            ? (tokenizerModel as TiktokenModel)
+            : "gpt-4o";
+    try {
+        let encoding = tokenCountEncodings.get(model);
+        if (!encoding) {
+            encoding = encodingForModel(model);
+            tokenCountEncodings.set(model, encoding);
+        }
+        return encoding.encode(text).length;
+    } catch {
+        return Math.ceil(text.length / 4);
+    }
+}
+
 /**
  * Get OnChain EternalAI System Prompt
  * @returns System Prompt
@@ -355,6 +384,7 @@ function getCloudflareGatewayBaseURL(
  * @param opts.presence_penalty The presence penalty to apply to the generateText.
  * @param opts.temperature The temperature to apply to the generateText.
  * @param opts.max_context_length The maximum length of the context to apply to the generateText.
+ * @param opts.onToken Called with each piece of text as the model streams it. Providers that can't stream call it once with the whole response.
  * @returns The completed message.
  */
 
@@ -367,6 +397,7 @@ export async function generateText({
     maxSteps = 1,
     stop,
     customSystemPrompt,
+    onToken,
 }: // verifiableInference = process.env.VERIFIABLE_INFERENCE_ENABLED === "true",
 // verifiableInferenceOptions,
 {
@@ -378,6 +409,7 @@ export async function generateText({
     maxSteps?: number;
     stop?: string[];
     customSystemPrompt?: string;
+    onToken?: (delta: string) => void;
     // verifiableInference?: boolean;
     // verifiableInferenceAdapter?: IVerifiableInferenceAdapter;
     // verifiableInferenceOptions?: VerifiableInferenceOptions;
@@ -557,6 +589,37 @@ export async function generateText({
         context = await trimTokens(context, max_context_length, runtime);
 
         let response: string;
+        let streamed = false;
+        let usage: Pick<ModelUsage, "promptTokens" | "completionTokens"> | null =
+            null;
+
+        // Stream through the AI SDK when the caller wants deltas; the result
+        // is the same full text aiGenerateText would have returned
+        const generate = async (
+            options: Parameters<typeof aiGenerateText>[0]
+        ): Promise<{ text: string }> => {
+            if (!onToken) {
+                const result = await aiGenerateText(options);
+                usage = result.usage;
+                return result;
+            }
+            streamed = true;
+            const result = aiStreamText(
+                options as Parameters<typeof aiStreamText>[0]
+            );
+            let text = "";
+            for await (const part of result.fullStream) {
+                if (part.type === "error") {
+                    throw part.error;
+                }
+                if (part.type === "text-delta") {
+                    text += part.textDelta;
+                    onToken(part.textDelta);
+                }
+            }
+            usage = await result.usage;
+            return { text };
+        };
 
         const _stop = stop || modelSettings.stop;
         elizaLogger.debug(
@@ -590,7 +653,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: openaiResponse } = await aiGenerateText({
+                const { text: openaiResponse } = await generate({
                     model: openai.languageModel(model),
                     prompt: context,
                     system:
@@ -648,7 +711,7 @@ export async function generateText({
                 // Add chain_id to context as a special marker for EternalAI
                 const contextWithChainId = `[chain_id: ${chain_id}]\n${context}`;
 
-                const { text: openaiResponse } = await aiGenerateText({
+                const { text: openaiResponse } = await generate({
                     model: openai.languageModel(model),
                     prompt: contextWithChainId,
                     system: system_prompt,
@@ -669,7 +732,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: googleResponse } = await aiGenerateText({
+                const { text: googleResponse } = await generate({
                     model: google(model),
                     prompt: context,
                     system:
@@ -694,7 +757,7 @@ export async function generateText({
             case ModelProviderName.MISTRAL: {
                 const mistral = createMistral();
 
-                const { text: mistralResponse } = await aiGenerateText({
+                const { text: mistralResponse } = await generate({
                     model: mistral(model),
                     prompt: context,
                     system:
@@ -726,7 +789,7 @@ export async function generateText({
                     baseURL,
                     fetch: runtime.fetch,
                 });
-                const { text: anthropicResponse } = await aiGenerateText({
+                const { text: anthropicResponse } = await generate({
                     model: anthropic.languageModel(model),
                     prompt: context,
                     system:
@@ -756,7 +819,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: anthropicResponse } = await aiGenerateText({
+                const { text: anthropicResponse } = await generate({
                     model: anthropic.languageModel(model),
                     prompt: context,
                     system:
@@ -788,7 +851,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: grokResponse } = await aiGenerateText({
+                const { text: grokResponse } = await generate({
                     model: grok.languageModel(model, {
                         parallelToolCalls: false,
                     }),
@@ -828,7 +891,7 @@ export async function generateText({
                     }
                 });
 
-                const { text: mem0Response } = await aiGenerateText({
+                const { text: mem0Response } = await generate({
                     model: mem0.languageModel(model),
                     prompt: context,
                     system:
@@ -862,7 +925,7 @@ export async function generateText({
                     baseURL,
                 });
 
-                const { text: groqResponse } = await aiGenerateText({
+                const { text: groqResponse } = await generate({
                     model: groq.languageModel(model),
                     prompt: context,
                     temperature,
@@ -918,7 +981,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: redpillResponse } = await aiGenerateText({
+                const { text: redpillResponse } = await generate({
                     model: openai.languageModel(model),
                     prompt: context,
                     temperature: temperature,
@@ -949,7 +1012,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: openrouterResponse } = await aiGenerateText({
+                const { text: openrouterResponse } = await generate({
                     model: openrouter.languageModel(model),
                     prompt: context,
                     temperature: temperature,
@@ -981,7 +1044,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: aimlapiResponse } = await aiGenerateText({
+                const { text: aimlapiResponse } = await generate({
                     model: aimlapi.languageModel(model),
                     prompt: context,
                     temperature: temperature,
@@ -1015,7 +1078,7 @@ export async function generateText({
 
                     elizaLogger.debug("****** MODEL\n", model);
 
-                    const { text: ollamaResponse } = await aiGenerateText({
+                    const { text: ollamaResponse } = await generate({
                         model: ollama,
                         prompt: context,
                         tools: tools,
@@ -1044,7 +1107,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: heuristResponse } = await aiGenerateText({
+                const { text: heuristResponse } = await generate({
                     model: heurist.languageModel(model),
                     prompt: context,
                     system:
@@ -1098,7 +1161,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: openaiResponse } = await aiGenerateText({
+                const { text: openaiResponse } = await generate({
                     model: openai.languageModel(model),
                     prompt: context,
                     system:
@@ -1128,7 +1191,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: atomaResponse } = await aiGenerateText({
+                const { text: atomaResponse } = await generate({
                     model: atoma.languageModel(model),
                     prompt: context,
                     system:
@@ -1166,7 +1229,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: galadrielResponse } = await aiGenerateText({
+                const { text: galadrielResponse } = await generate({
                     model: galadriel.languageModel(model),
                     prompt: context,
                     system:
@@ -1202,7 +1265,7 @@ export async function generateText({
                     },
                 });
 
-                const { text: inferaResponse } = await aiGenerateText({
+                const { text: inferaResponse } = await generate({
                     model: infera.languageModel(model),
                     prompt: context,
                     system:
@@ -1246,7 +1309,7 @@ export async function generateText({
 
                 const venice = createOpenAI(veniceConfig);
 
-                const { text: veniceResponse } = await aiGenerateText({
+                const { text: veniceResponse } = await generate({
                     model: venice.languageModel(model),
                     prompt: context,
                     system:
@@ -1274,7 +1337,7 @@ export async function generateText({
                     baseURL: endpoint,
                 });
 
-                const { text: nvidiaResponse } = await aiGenerateText({
+                const { text: nvidiaResponse } = await generate({
                     model: nvidia.languageModel(model),
                     prompt: context,
                     system:
@@ -1302,7 +1365,7 @@ export async function generateText({
                     fetch: runtime.fetch,
                 });
 
-                const { text: deepseekResponse } = await aiGenerateText({
+                const { text: deepseekResponse } = await generate({
                     model: deepseek.languageModel(model),
                     prompt: context,
                     temperature: temperature,
@@ -1397,7 +1460,7 @@ export async function generateText({
                     });
                     const secretAi = secretAiProvider(model);
 
-                    const { text: secretAiResponse } = await aiGenerateText({
+                    const { text: secretAiResponse } = await generate({
                         model: secretAi,
                         prompt: context,
                         tools: tools,
@@ -1414,7 +1477,7 @@ export async function generateText({
             case ModelProviderName.BEDROCK: {
                 elizaLogger.debug("Initializing Bedrock model.");
 
-                const { text: bedrockResponse } = await aiGenerateText({
+                const { text: bedrockResponse } = await generate({
                     model: bedrock(model),
                     maxSteps: maxSteps,
                     temperature: temperature,
@@ -1437,6 +1500,31 @@ export async function generateText({
             }
         }
 
+        if (onToken && !streamed && response) {
+            onToken(response);
+        }
+
+        // Some providers report NaN when the API doesn't return usage
+        const reported =
+            usage &&
+            Number.isFinite(usage.promptTokens) &&
+            Number.isFinite(usage.completionTokens);
+        const promptTokens = reported
+            ? usage.promptTokens
+            : countTokens(context, runtime);
+        const completionTokens = reported
+            ? usage.completionTokens
+            : countTokens(response ?? "", runtime);
+        runtime.reportModelUsage?.({
+            provider,
+            model,
+            modelClass,
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            estimated: !reported,
+        });
+
         return response;
     } catch (error) {
         elizaLogger.error("Error in generateText:", error);
@@ -1847,16 +1935,19 @@ export async function generateObjectArray({
  * @param opts.presence_penalty The presence penalty to apply to the generateText.
  * @param opts.temperature The temperature to apply to the generateText.
  * @param opts.max_context_length The maximum length of the context to apply to the generateText.
+ * @param opts.onToken Called with each piece of the raw response as it streams, and the attempt it belongs to. A response that doesn't parse is retried, so text from an earlier attempt should be discarded.
  * @returns The completed message.
  */
 export async function generateMessageResponse({
     runtime,
     context,
     modelClass,
+    onToken,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    onToken?: (delta: string, attempt: number) => void;
 }): Promise<Content> {
     const modelSettings = getModelSettings(runtime.modelProvider, modelClass);
     const max_context_length = modelSettings.maxInputTokens;
@@ -1864,14 +1955,19 @@ export async function generateMessageResponse({
     context = await trimTokens(context, max_context_length, runtime);
     elizaLogger.debug("Context:", context);
     let retryLength = 1000; // exponential backoff
+    let attempt = 0;
     while (true) {
         try {
             elizaLogger.log("Generating message response..");
 
+            const currentAttempt = ++attempt;
             const response = await generateText({
                 runtime,
                 context,
                 modelClass,
+                onToken: onToken
+                    ? (delta) => onToken(delta, currentAttempt)
+                    : undefined,
             });
 
             // try parsing the response as JSON, if null then try again
@@ -24,6 +24,8 @@ export class MemoryManager implements IMemoryManager {
      */
     tableName: string;
 
+    private memoryCreatedListeners = new Set<(memory: Memory) => void>();
+
     /**
      * Constructs a new MemoryManager instance.
      * @param opts Options for the manager.
@@ -187,6 +189,27 @@ export class MemoryManager implements IMemoryManager {
             this.tableName,
             unique
         );
+
+        for (const listener of this.memoryCreatedListeners) {
+            try {
+                listener(memory);
+            } catch (error) {
+                elizaLogger.error("Error in memory created listener:", error);
+            }
+        }
+    }
+
+    /**
+     * Registers a listener called with every memory this manager creates, from any
+     * participant, after it is stored. Memories that already existed are not reported.
+     * @param listener The function to call with each new memory.
+     * @returns A function that removes the listener.
+     */
+    onMemoryCreated(listener: (memory: Memory) => void): () => void {
+        this.memoryCreatedListeners.add(listener);
+        return () => {
+            this.memoryCreatedListeners.delete(listener);
+        };
     }
 
     async getMemoriesByRoomIds(params: { roomIds: UUID[], limit?: number; }): Promise<Memory[]> {
@@ -187,6 +187,63 @@ export function parseJSONObjectFromText(
     }
 }
 
+const jsonStringEscapes: Record<string, string> = {
+    '"': '"',
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+};
+
+/**
+ * Reads the "text" field out of a message response that is still being generated,
+ * so it can be shown before the JSON block is complete. Escapes are decoded, and an
+ * escape cut off at the end of the partial response is left out until it completes.
+ *
+ * @param partial - The response generated so far, in the messageCompletionFooter format.
+ * @returns The text decoded so far, or null if the field hasn't started.
+ */
+export function parsePartialTextFromResponse(partial: string): string | null {
+    const start = partial.match(/"text"\s*:\s*"/);
+    if (!start) {
+        return null;
+    }
+
+    let text = "";
+    let index = start.index + start[0].length;
+    while (index < partial.length) {
+        const char = partial[index];
+        if (char === '"') {
+            break;
+        }
+        if (char !== "\\") {
+            text += char;
+            index++;
+            continue;
+        }
+
+        const escaped = partial[index + 1];
+        if (escaped === undefined) {
+            break;
+        }
+        if (escaped === "u") {
+            const code = partial.slice(index + 2, index + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(code)) {
+                break;
+            }
+            text += String.fromCharCode(Number.parseInt(code, 16));
+            index += 6;
+            continue;
+        }
+        text += jsonStringEscapes[escaped] ?? escaped;
+        index += 2;
+    }
+    return text;
+}
+
 /**
  * Extracts specific attributes (e.g., user, text, action) from a JSON-like string using regex.
  * @param response - The cleaned string response to extract attributes from.
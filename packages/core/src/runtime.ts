@@ -53,6 +53,7 @@ import {
     type Memory,
     type DirectoryItem,
     type ClientInstance,
+    type ModelUsage,
 } from "./types.ts";
 import { stringToUuid } from "./uuid.ts";
 import { glob } from "glob";
@@ -173,6 +174,8 @@ export class AgentRuntime implements IAgentRuntime {
 
     private readonly knowledgeRoot: string;
 
+    private modelUsageListeners = new Set<(usage: ModelUsage) => void>();
+
     services: Map<ServiceType, Service> = new Map();
     memoryManagers: Map<string, IMemoryManager> = new Map();
     cacheManager: ICacheManager;
@@ -956,6 +959,34 @@ export class AgentRuntime implements IAgentRuntime {
         }
     }
 
+    /**
+     * Passes the tokens a model call used to the listeners registered with
+     * onModelUsage. Called by generateText after each call.
+     * @param usage The tokens used and the model that used them.
+     */
+    reportModelUsage(usage: ModelUsage) {
+        for (const listener of this.modelUsageListeners) {
+            try {
+                listener(usage);
+            } catch (error) {
+                elizaLogger.error("Error in model usage listener:", error);
+            }
+        }
+    }
+
+    /**
+     * Registers a listener called with the tokens used by every text generation
+     * this agent makes, e.g. for accounting or quotas.
+     * @param listener The function to call with each call's usage.
+     * @returns A function that removes the listener.
+     */
+    onModelUsage(listener: (usage: ModelUsage) => void): () => void {
+        this.modelUsageListeners.add(listener);
+        return () => {
+            this.modelUsageListeners.delete(listener);
+        };
+    }
+
     getSetting(key: string) {
         // check if the key is in the character.settings.secrets object
         if (this.character.settings?.secrets?.[key]) {
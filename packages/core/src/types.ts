@@ -1215,6 +1215,8 @@ export interface IMemoryManager {
 
     createMemory(memory: Memory, unique?: boolean): Promise<void>;
 
+    onMemoryCreated?(listener: (memory: Memory) => void): () => void;
+
     removeMemory(memoryId: UUID): Promise<void>;
 
     removeAllMemories(roomId: UUID): Promise<void>;
@@ -1291,6 +1293,21 @@ export abstract class Service {
     abstract initialize(runtime: IAgentRuntime): Promise<void>;
 }
 
+/**
+ * Tokens used by one generateText call, as reported by the provider or,
+ * when it doesn't report them, estimated with the tokenizer
+ */
+export interface ModelUsage {
+    provider: ModelProviderName;
+    model: string;
+    modelClass: ModelClass;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    /** True when the counts were estimated rather than reported */
+    estimated: boolean;
+}
+
 export interface IAgentRuntime {
     // Properties
     agentId: UUID;
@@ -1380,6 +1397,10 @@ export interface IAgentRuntime {
     ): Promise<State>;
 
     updateRecentMessageState(state: State): Promise<State>;
+
+    reportModelUsage?(usage: ModelUsage): void;
+
+    onModelUsage?(listener: (usage: ModelUsage) => void): () => void;
 }
 
 export interface IImageDescriptionService extends Service {
@@ -0,0 +1,531 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { generateObject } from '@elizaos/core';
+import {
+    approveCollateralAction,
+    cancelAllOrdersAction,
+    cancelOrderAction,
+    checkBalanceAction,
+    confirmOrderAction,
+    getBetRecordAction,
+    getHighActivityMarketsAction,
+    getMarketAction,
+    getMarketsAction,
+    getMoreMarketsAction,
+    getOpenOrdersAction,
+    getOrderBookAction,
+    getPositionsAction,
+    getPriceHistoryAction,
+    getTradeHistoryAction,
+    listWatchesAction,
+    placeBetAction,
+    removeWatchAction,
+    replaceOrderAction,
+    scanMispricingAction,
+    searchMarketsAction,
+    watchMarketAction,
+} from '../src/actions';
+import { startMockClobServer, type MockClobServer } from './utils/mockClobServer';
+import { startMockEvmServer, type MockEvmServer } from './utils/mockEvmServer';
+import { BTC_MARKET_ID, ELECTION_MARKET_ID, FED_MARKET_ID, FED_NO_TOKEN, FED_YES_TOKEN } from './utils/clobFixtures';
+import { createTestRuntime } from './utils/runtime';
+
+// The LLM calls are the only thing stubbed: parameter extraction returns what
+// each test queues and replies echo a fixed text. Everything else goes over
+// HTTP to the mock CLOB server, and on-chain reads and approvals to the mock
+// JSON-RPC node.
+vi.mock('@elizaos/core', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@elizaos/core')>()),
+    generateObject: vi.fn(),
+    generateText: vi.fn(async () => 'Generated reply'),
+}));
+
+const SIGNER = '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23';
+const USDC = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174';
+const CTF_EXCHANGE = '0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E';
+
+const settings = {
+    WALLET_PRIVATE_KEY: '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+    POLYMARKET_API_KEY: 'test-api-key',
+    POLYMARKET_SECRET: 'dGVzdC1zZWNyZXQtZm9yLW1vY2stY2xvYg==',
+    POLYMARKET_PASSPHRASE: 'test-passphrase',
+};
+
+function createRuntime(overrides: Record<string, string> = {}) {
+    return createTestRuntime({ ...settings, ...overrides });
+}
+
+const message = { userId: 'user-1', roomId: 'room-1', agentId: 'agent-1', content: { text: '' } } as any;
+
+function extracts(parameters: Record<string, unknown>) {
+    vi.mocked(generateObject).mockResolvedValueOnce({ object: parameters } as any);
+}
+
+async function run(action: { handler: (...args: any[]) => unknown }, runtime = createRuntime(), text = '') {
+    const callback = vi.fn();
+    const result = await action.handler(runtime, { ...message, content: { text } }, undefined, {}, callback);
+    return { result, content: callback.mock.calls.at(-1)?.[0]?.content, text: callback.mock.calls.at(-1)?.[0]?.text };
+}
+
+describe('Actions against the mock CLOB server', () => {
+    let clob: MockClobServer;
+    let evm: MockEvmServer;
+    let restoreClobUrl: () => void;
+    let restoreRpcUrl: () => void;
+
+    beforeAll(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    beforeEach(async () => {
+        clob = await startMockClobServer({ pageSize: 2 });
+        restoreClobUrl = clob.useAsClobApi();
+        evm = await startMockEvmServer();
+        evm.approveAll(SIGNER);
+        restoreRpcUrl = evm.useAsRpc();
+    });
+
+    afterEach(async () => {
+        restoreClobUrl();
+        restoreRpcUrl();
+        await clob.close();
+        await evm.close();
+        vi.mocked(generateObject).mockReset();
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('market data', () => {
+        it('GET_MARKETS should list open markets from the catalog', async () => {
+            extracts({ limit: 10 });
+            const { result, content } = await run(getMarketsAction);
+
+            expect(result).toBe(true);
+            expect(content.markets.map((market) => market.condition_id)).toEqual([FED_MARKET_ID, BTC_MARKET_ID]);
+            expect(content.markets[0].tokens[0]).toMatchObject({ token_id: FED_YES_TOKEN, outcome: 'Yes', price: '0.62' });
+        });
+
+        it('GET_MORE_MARKETS should fetch the page after the cursor', async () => {
+            extracts({ cursor: 'Mg==' });
+            const { result, content } = await run(getMoreMarketsAction);
+
+            expect(result).toBe(true);
+            expect(clob.requestsTo('GET', '/markets').at(-1)?.query.next_cursor).toBe('Mg==');
+            expect(content.hasMore).toBe(false);
+        });
+
+        it('GET_MORE_MARKETS should continue from the last page shown in the room', async () => {
+            const runtime = createRuntime();
+            extracts({});
+            const first = await run(getMoreMarketsAction, runtime);
+            expect(first.content.nextCursor).toBe('Mg==');
+
+            extracts({});
+            const second = await run(getMoreMarketsAction, runtime);
+
+            expect(clob.requestsTo('GET', '/markets').at(-1)?.query.next_cursor).toBe('Mg==');
+            expect(second.content.hasMore).toBe(false);
+        });
+
+        it('GET_MARKET should return one market with its outcomes', async () => {
+            extracts({ conditionId: ELECTION_MARKET_ID });
+            const { result, content } = await run(getMarketAction);
+
+            expect(result).toBe(true);
+            expect(content.market).toMatchObject({ conditionId: ELECTION_MARKET_ID, closed: true });
+            expect(content.tokens.find((token) => token.winner)?.outcome).toBe('No');
+        });
+
+        it('GET_HIGH_ACTIVITY_MARKETS should only list busy markets that are still tradable', async () => {
+            const [fed, , election] = clob.fixtures.markets;
+            fed.volume24hr = 5000;
+            election.volume24hr = 90000;
+            extracts({ limit: 5 });
+            const { result, content } = await run(getHighActivityMarketsAction);
+
+            expect(result).toBe(true);
+            expect(content.markets.map((market) => market.condition_id)).toEqual([FED_MARKET_ID]);
+        });
+
+        it('SEARCH_MARKETS should find markets by keyword', async () => {
+            extracts({ query: 'fed rates' });
+            const { result, content } = await run(searchMarketsAction);
+
+            expect(result).toBe(true);
+            expect(content.markets.map((market) => market.conditionId)).toEqual([FED_MARKET_ID]);
+        });
+
+        it('SCAN_MISPRICING should rank price gaps and wide spreads with the math', async () => {
+            clob.fixtures.markets[0].liquidity = 50000;
+            (clob.fixtures.markets[1].tokens as any[])[1].price = 0.75;
+            extracts({});
+            const { result, text, content } = await run(scanMispricingAction, createRuntime({ POLYMARKET_MISPRICING_MIN_SPREAD: '0.02' }));
+
+            expect(result).toBe(true);
+            expect(content.findings.map((finding) => `${finding.kind}:${finding.id}`)).toEqual([
+                `binary_sum:${BTC_MARKET_ID}`,
+                `wide_spread:${FED_MARKET_ID}`,
+            ]);
+            expect(text).toContain('Yes 0.18 + No 0.75 = 0.93');
+            expect(text).toContain('Yes ask 0.63 − bid 0.61 = 2¢ spread');
+            expect(clob.requestsTo('GET', '/book')).toHaveLength(1);
+        });
+
+        it('GET_ORDER_BOOK should summarize both outcomes of a market', async () => {
+            extracts({ marketId: FED_MARKET_ID, depth: 2 });
+            const { result, content } = await run(getOrderBookAction);
+
+            expect(result).toBe(true);
+            expect(content.books.map((book) => book.tokenId)).toEqual([FED_YES_TOKEN, FED_NO_TOKEN]);
+            expect(content.books[0]).toMatchObject({ bestBid: 0.61, bestAsk: 0.63, spread: 0.02 });
+            expect(content.books[0].bids).toHaveLength(2);
+        });
+
+        it('GET_PRICE_HISTORY should return the series for a token', async () => {
+            extracts({ marketId: FED_YES_TOKEN, interval: '1h', range: '1d' });
+            const { result, content } = await run(getPriceHistoryAction);
+
+            expect(result).toBe(true);
+            expect(clob.requestsTo('GET', '/prices-history')[0].query).toMatchObject({ market: FED_YES_TOKEN, fidelity: '60' });
+            expect(content.series[0]).toMatchObject({ open: 0.55, close: 0.62 });
+        });
+    });
+
+    describe('account', () => {
+        it('CHECK_BALANCE should read the collateral balance with L2 headers', async () => {
+            const { result, content } = await run(checkBalanceAction);
+
+            expect(result).toBe(true);
+            expect(content).toMatchObject({ balance: '250000000', allowance: '1000000000' });
+            const [request] = clob.requestsTo('GET', '/balance-allowance');
+            expect(request.query.asset_type).toBe('COLLATERAL');
+            expect(request.headers.poly_signature).toBeTruthy();
+        });
+
+        it('GET_POSITIONS should build positions from trades marked at the midpoint', async () => {
+            const { result, content } = await run(getPositionsAction);
+
+            expect(result).toBe(true);
+            expect(content.positions).toHaveLength(1);
+            expect(content.positions[0]).toMatchObject({ tokenId: FED_YES_TOKEN, size: 20, avgPrice: 0.5, markPrice: 0.62 });
+        });
+
+        it('GET_OPEN_ORDERS should list resting orders', async () => {
+            extracts({ market: FED_MARKET_ID });
+            const { result, content } = await run(getOpenOrdersAction);
+
+            expect(result).toBe(true);
+            expect(content.orders).toHaveLength(1);
+            expect(content.orders[0]).toMatchObject({ side: 'BUY', price: 0.55, remainingSize: 40 });
+            expect(clob.requestsTo('GET', '/orders')[0].query.market).toBe(FED_MARKET_ID);
+        });
+
+        it('GET_TRADE_HISTORY should list past fills', async () => {
+            extracts({});
+            const { result, content } = await run(getTradeHistoryAction);
+
+            expect(result).toBe(true);
+            expect(content.trades[0]).toMatchObject({ tokenId: FED_YES_TOKEN, side: 'BUY', size: 20, price: 0.5 });
+        });
+
+        it('GET_BET_RECORD should settle fills on resolved markets and leave open ones alone', async () => {
+            const [fedTrade] = clob.fixtures.trades;
+            clob.fixtures.trades.push({
+                ...fedTrade,
+                id: 'election-no-fill',
+                market: ELECTION_MARKET_ID,
+                asset_id: '12345678901234567890',
+                outcome: 'No',
+                size: '25',
+                price: '0.4',
+            });
+
+            const { result, content } = await run(getBetRecordAction);
+
+            expect(result).toBe(true);
+            expect(content.record).toMatchObject({ mode: 'live', bets: 1, wins: 1, winRate: 1, staked: 10, realizedPnl: 15, roi: 1.5 });
+            expect(content.recent[0]).toMatchObject({ conditionId: ELECTION_MARKET_ID, outcome: 'No', won: true });
+            expect(content.settlementError).toBeNull();
+        });
+    });
+
+    describe('orders', () => {
+        it('PLACE_BET should sign and post a limit order', async () => {
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 10, price: 0.62 });
+            const { result, content } = await run(placeBetAction);
+
+            expect(result).toBe(true);
+            expect(content.orderId).toMatch(/^0x/);
+            const [post] = clob.requestsTo('POST', '/order');
+            expect(post.body.order).toMatchObject({ tokenId: FED_YES_TOKEN, side: 'BUY' });
+            expect(post.body.orderType).toBe('GTC');
+            expect(clob.fixtures.openOrders.some((order) => order.id === content.orderId)).toBe(true);
+        });
+
+        it('PLACE_BET should price a market order from the asks and fill it without resting', async () => {
+            extracts({ tokenId: FED_NO_TOKEN, side: 'BUY', amount: 20, orderType: 'FOK' });
+            const { result, content } = await run(placeBetAction, createRuntime(), 'buy $20 of NO at market');
+
+            expect(result).toBe(true);
+            expect(content.parameters.price).toBe(0.39);
+            const [post] = clob.requestsTo('POST', '/order');
+            expect(post.body.orderType).toBe('FOK');
+            // 20 USDC for shares at 0.39
+            expect(post.body.order.makerAmount).toBe('20000000');
+            expect(clob.fixtures.openOrders.some((order) => order.id === content.orderId)).toBe(false);
+        });
+
+        it('PLACE_BET should sell at market into the bids in shares without resting', async () => {
+            extracts({ tokenId: FED_NO_TOKEN, side: 'SELL', amount: 20, orderType: 'FAK' });
+            const { result, content } = await run(placeBetAction, createRuntime(), 'sell $20 of NO at market');
+
+            expect(result).toBe(true);
+            expect(content.parameters.price).toBe(0.37);
+            const [post] = clob.requestsTo('POST', '/order');
+            expect(post.body.orderType).toBe('FAK');
+            expect(post.body.order).toMatchObject({ side: 'SELL', expiration: '0' });
+            // 20 USDC worth of shares at the 0.37 bid
+            expect(post.body.order.makerAmount).toBe('54050000');
+            expect(clob.fixtures.openOrders.some((order) => order.id === content.orderId)).toBe(false);
+        });
+
+        it('PLACE_BET should post a good-til-date limit order that expires', async () => {
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 15, price: 0.42, orderType: 'GTD', expiresInMinutes: 120 });
+            const before = Math.floor(Date.now() / 1000);
+            const { result } = await run(placeBetAction, createRuntime(), 'limit at 42c good for 2 hours');
+
+            expect(result).toBe(true);
+            const [post] = clob.requestsTo('POST', '/order');
+            expect(post.body.orderType).toBe('GTD');
+            expect(Number(post.body.order.expiration)).toBeGreaterThanOrEqual(before + 60 + 7200);
+            expect(Number(post.body.order.expiration)).toBeLessThan(before + 60 + 7200 + 30);
+        });
+
+        it('PLACE_BET should refuse a price off the market tick or a post-only order that would take', async () => {
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 10, price: 0.625 });
+            const offTick = await run(placeBetAction);
+            expect(offTick.result).toBe(false);
+            expect(offTick.text).toContain('use 0.62 or 0.63');
+
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 10, price: 0.64, postOnly: true });
+            const crossing = await run(placeBetAction);
+            expect(crossing.result).toBe(false);
+            expect(crossing.text).toContain('would trade against the best ask at 0.63');
+
+            expect(clob.requestsTo('POST', '/order')).toHaveLength(0);
+        });
+
+        it('PLACE_BET should stop with the approval it needs instead of posting an order that will fail', async () => {
+            evm.setAllowance(USDC, SIGNER, CTF_EXCHANGE, 5_000_000n);
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 10, price: 0.62 });
+            const { result, text, content } = await run(placeBetAction);
+
+            expect(result).toBe(false);
+            expect(text).toContain(`approve(${CTF_EXCHANGE}, unlimited) for the CTF Exchange, allowance now $5`);
+            expect(content.missingApprovals).toHaveLength(1);
+            expect(clob.requestsTo('POST', '/order')).toHaveLength(0);
+        });
+
+        it('PLACE_BET should send the missing approval first when auto-approve is on', async () => {
+            evm.setAllowance(USDC, SIGNER, CTF_EXCHANGE, 0n);
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 10, price: 0.62 });
+            const { result, content } = await run(placeBetAction, createRuntime({ POLYMARKET_AUTO_APPROVE: 'true' }));
+
+            expect(result).toBe(true);
+            expect(content.approvals).toEqual([evm.transactions[0].hash]);
+            expect(evm.allowance(USDC, SIGNER, CTF_EXCHANGE)).toBe(2n ** 256n - 1n);
+            expect(clob.requestsTo('POST', '/order')).toHaveLength(1);
+        });
+
+        it('APPROVE_COLLATERAL should send every missing approval from the wallet', async () => {
+            evm.setApprovalForAll('0x4D97DCd97eC945f40cF65F87097ACe5EA0476045', SIGNER, CTF_EXCHANGE, false);
+            evm.setAllowance(USDC, SIGNER, CTF_EXCHANGE, 0n);
+            const { result, text, content } = await run(approveCollateralAction);
+
+            expect(result).toBe(true);
+            expect(content.sent).toHaveLength(2);
+            expect(text).toContain('Sent 2 approvals');
+            expect(evm.transactions.every((tx) => tx.from === SIGNER.toLowerCase() && tx.status === 1)).toBe(true);
+            expect(evm.isApprovedForAll('0x4D97DCd97eC945f40cF65F87097ACe5EA0476045', SIGNER, CTF_EXCHANGE)).toBe(true);
+
+            const again = await run(approveCollateralAction);
+            expect(again.text).toContain('already has every approval');
+            expect(evm.transactions).toHaveLength(2);
+        });
+
+        it('PLACE_BET should only post after CONFIRM_ORDER when confirmation is required', async () => {
+            const runtime = createRuntime({ POLYMARKET_REQUIRE_CONFIRMATION: 'true' });
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 10, price: 0.62 });
+
+            const pending = await run(placeBetAction, runtime);
+            expect(pending.content.pendingConfirmation).toBe(true);
+            expect(clob.requestsTo('POST', '/order')).toHaveLength(0);
+
+            const confirmed = await run(confirmOrderAction, runtime);
+            expect(confirmed.result).toBe(true);
+            expect(clob.requestsTo('POST', '/order')).toHaveLength(1);
+        });
+
+        it('PLACE_BET should resolve "the second market you listed" to a real token', async () => {
+            const runtime = createRuntime();
+            extracts({ limit: 10 });
+            await run(getMarketsAction, runtime);
+
+            extracts({ listPosition: 2, outcome: 'No', side: 'BUY', amount: 5 });
+            const { result } = await run(placeBetAction, runtime, 'Put $5 on NO for the second market you listed');
+
+            expect(result).toBe(true);
+            const [post] = clob.requestsTo('POST', '/order');
+            expect(post.body.order.tokenId).toBe(clob.fixtures.markets[1].tokens[1].token_id);
+        });
+
+        it('PLACE_BET should ask instead of trading on an invented token ID', async () => {
+            extracts({ tokenId: '4242424242424242424242424242', side: 'BUY', amount: 10, price: 0.5 });
+            const { result, text } = await run(placeBetAction, createRuntime(), 'bet $10 on that one');
+
+            expect(result).toBe(false);
+            expect(text).toContain('Which market');
+            expect(clob.requestsTo('POST', '/order')).toHaveLength(0);
+        });
+
+        it('CANCEL_ORDER should cancel a resting order', async () => {
+            const orderId = `${clob.fixtures.openOrders[0].id}`;
+            extracts({ orderId });
+            const { result, content } = await run(cancelOrderAction);
+
+            expect(result).toBe(true);
+            expect(content.cancelled).toEqual([orderId]);
+            expect(clob.requestsTo('DELETE', '/order')[0].body).toEqual({ orderID: orderId });
+        });
+
+        it('CANCEL_ORDER should report orders the exchange could not cancel', async () => {
+            extracts({ orderId: '0xmissing' });
+            const { result, content } = await run(cancelOrderAction);
+
+            expect(result).toBe(false);
+            expect(content.error).toContain('0xmissing');
+        });
+
+        it('CANCEL_ALL_ORDERS should cancel every resting order', async () => {
+            const { result, content } = await run(cancelAllOrdersAction);
+
+            expect(result).toBe(true);
+            expect(content.count).toBe(1);
+            expect(clob.fixtures.openOrders).toHaveLength(0);
+        });
+
+        it('REPLACE_ORDER should cancel and re-post at the new price', async () => {
+            const orderId = `${clob.fixtures.openOrders[0].id}`;
+            extracts({ orderId, price: 0.57 });
+            const { result } = await run(replaceOrderAction);
+
+            expect(result).toBe(true);
+            expect(clob.requestsTo('DELETE', '/order')[0].body).toEqual({ orderID: orderId });
+            expect(clob.fixtures.openOrders).toHaveLength(1);
+            expect(clob.fixtures.openOrders[0]).toMatchObject({ asset_id: FED_YES_TOKEN, price: '0.57', original_size: '40' });
+        });
+
+        it('REPLACE_ORDER should keep a GTD order\'s type and remaining lifetime', async () => {
+            const [original] = clob.fixtures.openOrders;
+            const now = Math.floor(Date.now() / 1000);
+            Object.assign(original, { type: 'GTD', expiration: `${now + 60 + 7200}` });
+            extracts({ orderId: `${original.id}`, price: 0.57 });
+            const { result } = await run(replaceOrderAction);
+
+            expect(result).toBe(true);
+            const post = clob.requestsTo('POST', '/order')[0];
+            expect(post.body.orderType).toBe('GTD');
+            expect(Number(post.body.order.expiration)).toBeGreaterThan(now + 60 + 7100);
+            expect(Number(post.body.order.expiration)).toBeLessThanOrEqual(now + 60 + 7200 + 30);
+        });
+
+        it('REPLACE_ORDER should ask for confirmation before cancelling anything', async () => {
+            const orderId = `${clob.fixtures.openOrders[0].id}`;
+            extracts({ orderId, price: 0.57 });
+            const { result, content, text } = await run(replaceOrderAction, createRuntime({ POLYMARKET_REQUIRE_CONFIRMATION: 'true' }));
+
+            expect(result).toBe(true);
+            expect(content).toMatchObject({ pendingConfirmation: true, intent: { replacesOrderId: orderId, price: 0.57 } });
+            expect(text).toContain(`Replaces: order ${orderId}`);
+            expect(clob.requestsTo('DELETE', '/order')).toHaveLength(0);
+        });
+
+        it('REPLACE_ORDER should say the original was cancelled when the replacement fails', async () => {
+            const orderId = `${clob.fixtures.openOrders[0].id}`;
+            clob.fail('POST', '/order', { status: 503 });
+            extracts({ orderId, price: 0.57 });
+            const { result, content } = await run(replaceOrderAction);
+
+            expect(result).toBe(false);
+            expect(content.cancelledOrderId).toBe(orderId);
+            expect(content.error).toContain(`Order ${orderId} was cancelled, but its replacement failed`);
+        });
+    });
+
+    describe('watches', () => {
+        it('WATCH_MARKET should watch the resolved outcome from its current price, then list and remove it', async () => {
+            const runtime = createRuntime();
+            extracts({ market: 'Fed rate cut', outcome: 'Yes', type: 'price_cross', direction: 'above', threshold: 0.7 });
+            const watched = await run(watchMarketAction, runtime, 'Ping me if YES on the Fed rate cut market goes above 70 cents');
+
+            expect(watched.result).toBe(true);
+            expect(watched.content.watch).toMatchObject({ tokenId: FED_YES_TOKEN, conditionId: FED_MARKET_ID, threshold: 0.7, baseline: 0.62 });
+            expect(watched.text).toContain('goes above 70¢');
+
+            const listed = await run(listWatchesAction, runtime);
+            expect(listed.content.watches.map((rule) => rule.id)).toEqual([watched.content.watchId]);
+
+            extracts({});
+            const removed = await run(removeWatchAction, runtime, 'Cancel my Fed alert');
+            expect(removed.content.removed).toEqual([watched.content.watchId]);
+            expect((await run(listWatchesAction, runtime)).content.watches).toEqual([]);
+        });
+
+        it('WATCH_MARKET should refuse a price alert without a level', async () => {
+            extracts({ market: 'Fed rate cut', outcome: 'Yes', type: 'price_cross' });
+            const { result, text } = await run(watchMarketAction, createRuntime(), 'Watch the Fed market for me');
+
+            expect(result).toBe(false);
+            expect(text).toContain('needs a direction');
+        });
+    });
+
+    describe('injected errors', () => {
+        it('should surface a 401 from an authenticated endpoint', async () => {
+            clob.fail('GET', '/balance-allowance', { status: 401 });
+            const { result, content } = await run(checkBalanceAction);
+
+            expect(result).toBe(false);
+            expect(content.error).toContain('Unauthorized');
+        });
+
+        it('should surface rate limiting instead of reporting an empty order list', async () => {
+            clob.fail('GET', '/orders', { status: 429, headers: { 'Retry-After': '1' } });
+            extracts({});
+            const { result, content } = await run(getOpenOrdersAction);
+
+            expect(result).toBe(false);
+            expect(content.error).toContain('Too Many Requests');
+        });
+
+        it('should not place an order when the exchange fails', async () => {
+            clob.fail('POST', '/order', { status: 503 });
+            extracts({ tokenId: FED_YES_TOKEN, side: 'BUY', amount: 10, price: 0.62 });
+            const { result, content } = await run(placeBetAction);
+
+            expect(result).toBe(false);
+            expect(content.error).toContain('Service Unavailable');
+            expect(clob.fixtures.openOrders).toHaveLength(1);
+        });
+
+        it('should recover once the injected failures are used up', async () => {
+            clob.fail('GET', '/book', { status: 500, times: 2 });
+            extracts({ marketId: FED_MARKET_ID });
+            expect((await run(getOrderBookAction)).result).toBe(false);
+
+            extracts({ marketId: FED_MARKET_ID });
+            expect((await run(getOrderBookAction)).result).toBe(true);
+        });
+    });
+});
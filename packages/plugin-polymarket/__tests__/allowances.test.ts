@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    AllowanceError,
+    approveCollateral,
+    checkCollateralAllowances,
+    ensureTradeAllowance,
+    formatMissingApprovals,
+    POLYMARKET_CONTRACTS,
+} from '../src/allowances';
+import { getPolymarketConfig } from '../src/config';
+import { startMockEvmServer, type MockEvmServer } from './utils/mockEvmServer';
+import { createTestRuntime } from './utils/runtime';
+
+const PRIVATE_KEY = '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+const SIGNER = '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23';
+const PROXY = '0x2a4c5b0f4f1e5a52cbd0a0d1e7c0b3f7d9e4c81a';
+const { collateral: USDC, conditionalTokens: CTF, spenders } = POLYMARKET_CONTRACTS[137]!;
+const EXCHANGE = spenders[0].address;
+
+function createRuntime(rpcUrl: string, settings: Record<string, string> = {}) {
+    return createTestRuntime({ WALLET_PRIVATE_KEY: PRIVATE_KEY, RPC_PROVIDER_URL: rpcUrl, ...settings });
+}
+
+describe('Collateral allowances', () => {
+    let evm: MockEvmServer;
+
+    beforeEach(async () => {
+        evm = await startMockEvmServer();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        await evm.close();
+        vi.restoreAllMocks();
+    });
+
+    it('should report every missing USDC and conditional-token approval with the call that grants it', async () => {
+        const runtime = createRuntime(evm.url);
+        const config = getPolymarketConfig(runtime);
+        evm.setAllowance(USDC, SIGNER, EXCHANGE, 25_000_000n);
+
+        const report = await checkCollateralAllowances(runtime, config);
+
+        expect(report).toMatchObject({ owner: SIGNER, chainId: 137, canApprove: true });
+        expect(report.approvals).toHaveLength(6);
+        expect(report.approvals[0]).toMatchObject({ kind: 'collateral', spenderName: 'CTF Exchange', allowance: 25, approved: true });
+        expect(report.missing).toHaveLength(5);
+        const message = formatMissingApprovals(report, config);
+        expect(message).toContain(`Conditional Tokens (${CTF}): setApprovalForAll(${EXCHANGE}, true) for the CTF Exchange`);
+        expect(message).toContain('APPROVE_COLLATERAL');
+    });
+
+    it('should send the approvals from an EOA wallet and see them on the next check', async () => {
+        const runtime = createRuntime(evm.url);
+        const config = getPolymarketConfig(runtime);
+        const report = await checkCollateralAllowances(runtime, config, { exchangeOnly: true });
+
+        const sent = await approveCollateral(runtime, config, report.missing);
+
+        expect(sent.map(({ approval }) => approval.kind)).toEqual(['collateral', 'conditional']);
+        expect(sent.map(({ transactionHash }) => transactionHash)).toEqual(evm.transactions.map((tx) => tx.hash));
+        expect((await checkCollateralAllowances(runtime, config, { exchangeOnly: true })).missing).toEqual([]);
+    });
+
+    it('should stop a trade that exceeds the allowance unless auto-approve is on', async () => {
+        const runtime = createRuntime(evm.url);
+        const config = getPolymarketConfig(runtime);
+        evm.setAllowance(USDC, SIGNER, EXCHANGE, 5_000_000n);
+
+        await expect(ensureTradeAllowance(runtime, config, { side: 'BUY', amount: 10 }, false)).rejects.toThrow(AllowanceError);
+        expect(evm.transactions).toHaveLength(0);
+
+        const sent = await ensureTradeAllowance(runtime, config, { side: 'BUY', amount: 10 }, true);
+        expect(sent).toHaveLength(1);
+        expect(evm.allowance(USDC, SIGNER, EXCHANGE)).toBe(2n ** 256n - 1n);
+        // A SELL needs the outcome shares approved, not USDC
+        await expect(ensureTradeAllowance(runtime, config, { side: 'SELL', amount: 10 }, false)).rejects.toThrow('setApprovalForAll');
+    });
+
+    it('should point proxy wallets at polymarket.com instead of approving from the signer', async () => {
+        const runtime = createRuntime(evm.url, { POLYMARKET_SIGNATURE_TYPE: 'POLY_PROXY', POLYMARKET_FUNDER_ADDRESS: PROXY });
+        const config = getPolymarketConfig(runtime);
+
+        const report = await checkCollateralAllowances(runtime, config);
+
+        expect(report).toMatchObject({ owner: PROXY, canApprove: false });
+        expect(formatMissingApprovals(report, config)).toContain('enable trading');
+        await expect(ensureTradeAllowance(runtime, config, { side: 'BUY', amount: 1 }, true)).rejects.toThrow(/polymarket\.com/);
+        await expect(approveCollateral(runtime, config, report.missing)).rejects.toThrow(AllowanceError);
+        expect(evm.transactions).toHaveLength(0);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PolymarketAccountService } from '../src/accountService';
+import { getPolymarketConfig, getPolymarketConnection, parseSignatureType } from '../src/config';
+import { startMockClobServer } from './utils/mockClobServer';
+import { createTestRuntime } from './utils/runtime';
+
+const PRIVATE_KEY = '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+const SIGNER = '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23';
+const PROXY = '0x2a4c5b0f4f1e5a52cbd0a0d1e7c0b3f7d9e4c81a';
+
+describe('Polymarket config', () => {
+    it('should trade from the signing wallet by default', () => {
+        const config = getPolymarketConfig(createTestRuntime({ WALLET_PRIVATE_KEY: PRIVATE_KEY }));
+
+        expect(config).toMatchObject({
+            host: 'https://clob.polymarket.com',
+            chainId: 137,
+            signatureType: 'EOA',
+            signerAddress: SIGNER,
+            funderAddress: SIGNER,
+        });
+    });
+
+    it('should read the character settings block before flat settings', () => {
+        const config = getPolymarketConfig(createTestRuntime({
+            PK: PRIVATE_KEY,
+            CLOB_API_URL: 'https://ignored.example',
+            polymarket: { funderAddress: PROXY, signatureType: 'magic', host: 'https://clob.example/', chainId: 80001 },
+        }));
+
+        expect(config).toMatchObject({ host: 'https://clob.example', chainId: 80001, signatureType: 'POLY_PROXY', funderAddress: PROXY });
+    });
+
+    it('should refuse a proxy wallet without a funder address', () => {
+        expect(() => getPolymarketConfig(createTestRuntime({ PK: PRIVATE_KEY, POLYMARKET_SIGNATURE_TYPE: '2' })))
+            .toThrow(/no funder address is set. Set POLYMARKET_FUNDER_ADDRESS/);
+    });
+
+    it('should refuse an EOA funder that is not the signer', () => {
+        expect(() => getPolymarketConfig(createTestRuntime({ PK: PRIVATE_KEY, FUNDER_ADDRESS: PROXY })))
+            .toThrow(/differs from the signing wallet/);
+    });
+
+    it('should reject unknown signature types, chains and hosts', () => {
+        expect(() => parseSignatureType('ledger')).toThrow(/not recognized/);
+        expect(() => getPolymarketConnection(createTestRuntime({ CHAIN_ID: '1' }))).toThrow(/not supported/);
+        expect(() => getPolymarketConnection(createTestRuntime({ CLOB_API_URL: 'clob.polymarket.com' }))).toThrow(/not an http\(s\) URL/);
+    });
+});
+
+describe('PolymarketAccountService', () => {
+    it('should stop the agent from starting with an invalid trading setup', async () => {
+        const clob = await startMockClobServer();
+        const service = new PolymarketAccountService();
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await expect(service.initialize(createTestRuntime({ PK: PRIVATE_KEY, POLYMARKET_SIGNATURE_TYPE: 'POLY_PROXY' })))
+            .rejects.toThrow(/no funder address/);
+        await expect(service.initialize(createTestRuntime({}))).resolves.toBeUndefined();
+        await expect(service.initialize(createTestRuntime({ PK: PRIVATE_KEY, CLOB_API_URL: clob.url, POLYMARKET_API_KEY: 'stale', POLYMARKET_SECRET: 's', POLYMARKET_PASSPHRASE: 'p' })))
+            .rejects.toThrow(/rejected the configured API credentials/);
+        await service.initialize(createTestRuntime({ PK: PRIVATE_KEY, CLOB_API_URL: clob.url, POLYMARKET_SIGNATURE_TYPE: 'browser', POLYMARKET_FUNDER_ADDRESS: PROXY }));
+
+        expect(log).toHaveBeenCalledWith(expect.stringContaining(`Polymarket trading from ${PROXY} signed by ${SIGNER}`));
+        expect(log).toHaveBeenLastCalledWith(expect.stringContaining('Polymarket API credentials accepted (derived)'));
+        log.mockRestore();
+        await clob.close();
+    });
+
+    it('should log the trading modes from each character\'s settings', async () => {
+        const service = new PolymarketAccountService();
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await service.initialize(createTestRuntime({ POLYMARKET_PAPER_TRADING: 'true', POLYMARKET_REQUIRE_CONFIRMATION: 'true' }));
+        expect(log).toHaveBeenCalledWith(expect.stringContaining('Modi: Polymarket paper trading'));
+        expect(log).toHaveBeenCalledWith(expect.stringContaining('Modi: Polymarket bets wait for the user to confirm'));
+
+        log.mockClear();
+        await service.initialize(createTestRuntime({}));
+        expect(log).not.toHaveBeenCalledWith(expect.stringContaining('paper trading'));
+        expect(log).not.toHaveBeenCalledWith(expect.stringContaining('confirm'));
+        log.mockRestore();
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getApiCredentials, PolymarketCredentialsError, validateApiCredentials } from '../src/credentials';
+import { startMockClobServer, type MockClobServer } from './utils/mockClobServer';
+import { API_CREDENTIALS } from './utils/clobFixtures';
+import { createTestRuntime } from './utils/runtime';
+
+const SIGNER = '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23';
+
+function createRuntime(settings: Record<string, string> = {}) {
+    return createTestRuntime({
+        WALLET_PRIVATE_KEY: '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+        ...settings,
+    });
+}
+
+const configured = {
+    POLYMARKET_API_KEY: API_CREDENTIALS.apiKey,
+    POLYMARKET_SECRET: API_CREDENTIALS.secret,
+    POLYMARKET_PASSPHRASE: API_CREDENTIALS.passphrase,
+};
+
+describe('Polymarket API credentials', () => {
+    let clob: MockClobServer;
+    let restoreClobUrl: () => void;
+
+    beforeEach(async () => {
+        clob = await startMockClobServer();
+        restoreClobUrl = clob.useAsClobApi();
+    });
+
+    afterEach(async () => {
+        restoreClobUrl();
+        await clob.close();
+        vi.restoreAllMocks();
+    });
+
+    it('should use the configured credentials without deriving', async () => {
+        const credentials = await getApiCredentials(createRuntime(configured));
+
+        expect(credentials).toEqual({ key: 'test-api-key', secret: API_CREDENTIALS.secret, passphrase: 'test-passphrase', source: 'settings' });
+        expect(clob.requestsTo('GET', '/derive-api-key')).toHaveLength(0);
+    });
+
+    it('should derive the credentials from the signer once and cache them encrypted', async () => {
+        const runtime = createRuntime();
+
+        const credentials = await getApiCredentials(runtime);
+        const again = await getApiCredentials(runtime);
+
+        expect(credentials).toMatchObject({ key: 'test-api-key', source: 'derived' });
+        expect(again).toEqual(credentials);
+        expect(clob.requestsTo('GET', '/derive-api-key')).toHaveLength(1);
+        expect(clob.requestsTo('GET', '/derive-api-key')[0].headers.poly_address).toBe(SIGNER);
+
+        const [[cacheKey, sealed]] = [...runtime.cache.entries()];
+        expect(cacheKey).toBe(`polymarket/credentials/137/${SIGNER.toLowerCase()}`);
+        expect(JSON.stringify(sealed)).not.toContain(API_CREDENTIALS.secret);
+        expect(JSON.stringify(sealed)).not.toContain('test-passphrase');
+    });
+
+    it('should create an API key when the signer has none yet', async () => {
+        clob.fixtures.apiCredentials = null;
+
+        const credentials = await getApiCredentials(createRuntime());
+
+        expect(credentials).toMatchObject({ key: 'created-api-key-1', source: 'created' });
+        expect(clob.requestsTo('POST', '/create-api-key')).toHaveLength(1);
+    });
+
+    it('should name the missing settings when only some credentials are set', async () => {
+        await expect(getApiCredentials(createRuntime({ POLYMARKET_API_KEY: 'test-api-key' }))).rejects.toThrow(
+            'POLYMARKET_SECRET, POLYMARKET_PASSPHRASE are not set'
+        );
+    });
+
+    it('should validate the credentials with one authenticated call', async () => {
+        const credentials = await validateApiCredentials(createRuntime(configured));
+
+        expect(credentials.source).toBe('settings');
+        expect(clob.requestsTo('GET', '/get-api-keys')).toHaveLength(1);
+        expect(clob.requestsTo('GET', '/get-api-keys')[0].headers.poly_api_key).toBe('test-api-key');
+    });
+
+    it('should explain how to fix configured credentials the API rejects', async () => {
+        const runtime = createRuntime({ ...configured, POLYMARKET_API_KEY: 'someone-elses-key' });
+
+        const validation = validateApiCredentials(runtime);
+
+        await expect(validation).rejects.toThrow(PolymarketCredentialsError);
+        await expect(validation).rejects.toThrow(
+            `this character signs with ${SIGNER} on ${clob.url}. Remove POLYMARKET_API_KEY, POLYMARKET_SECRET and POLYMARKET_PASSPHRASE to derive them`
+        );
+    });
+
+    it('should derive again once when cached credentials are no longer accepted', async () => {
+        const runtime = createRuntime();
+        await getApiCredentials(runtime);
+        clob.fixtures.apiCredentials = { apiKey: 'rotated-api-key', secret: API_CREDENTIALS.secret, passphrase: 'rotated' };
+
+        const credentials = await validateApiCredentials(runtime);
+
+        expect(credentials).toMatchObject({ key: 'rotated-api-key', source: 'derived' });
+        expect(clob.requestsTo('GET', '/derive-api-key')).toHaveLength(2);
+        expect(await getApiCredentials(runtime)).toEqual(credentials);
+    });
+
+    it('should keep the credentials when the API is unreachable during the check', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        clob.fail('GET', '/get-api-keys', { status: 503 });
+
+        const credentials = await validateApiCredentials(createRuntime(configured));
+
+        expect(credentials.source).toBe('settings');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not check the Polymarket API key'));
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    buildMarketSearchIndex,
+    getMarketCatalog,
+    getMarketSearchIndex,
+    searchMarkets,
+} from '../src/marketCatalog';
+import { parseMarket } from '../src/model';
+import { createTestRuntime } from './utils/runtime';
+
+function rawMarket(overrides: Record<string, unknown>) {
+    return {
+        condition_id: 'cond-1',
+        question: 'Will it rain tomorrow?',
+        description: '',
+        market_slug: 'will-it-rain-tomorrow',
+        tags: [],
+        end_date_iso: '2030-01-01T00:00:00Z',
+        active: true,
+        closed: false,
+        accepting_orders: true,
+        liquidity: '1000',
+        tokens: [
+            { token_id: 'token-yes', outcome: 'Yes', price: 0.5 },
+            { token_id: 'token-no', outcome: 'No', price: 0.5 },
+        ],
+        ...overrides,
+    };
+}
+
+const markets = [
+    rawMarket({
+        condition_id: 'lakers-celtics',
+        question: 'Lakers vs. Celtics',
+        description: 'Resolves to the winner of the Lakers vs Celtics game.',
+        market_slug: 'nba-lal-bos-2030-01-05',
+        tags: ['Sports', 'NBA'],
+        end_date_iso: '2030-01-05T00:00:00Z',
+        liquidity: '25000',
+    }),
+    rawMarket({
+        condition_id: 'btc-100k',
+        question: 'Will Bitcoin reach $100k by Friday?',
+        tags: ['Crypto'],
+        end_date_iso: '2030-01-03T00:00:00Z',
+        liquidity: '50000',
+    }),
+    rawMarket({
+        condition_id: 'eth-flip',
+        question: 'Will Ethereum flip Bitcoin in 2031?',
+        tags: ['Crypto'],
+        end_date_iso: '2031-12-31T00:00:00Z',
+        liquidity: '200',
+        accepting_orders: false,
+    }),
+].map((market) => parseMarket(market)!);
+
+describe('Market catalog', () => {
+    it('should normalize raw CLOB markets', () => {
+        expect(markets[0]).toMatchObject({
+            conditionId: 'lakers-celtics',
+            slug: 'nba-lal-bos-2030-01-05',
+            liquidity: 25000,
+            acceptingOrders: true,
+            endDate: '2030-01-05T00:00:00.000Z',
+        });
+        expect(markets[0].tokens[0]).toEqual({ tokenId: 'token-yes', outcome: 'Yes', price: 0.5, winner: null });
+        expect(parseMarket({ question: 'No id' })).toBeNull();
+    });
+
+    it('should match every search term across question, description, slug and tags', () => {
+        const index = buildMarketSearchIndex(markets);
+
+        expect(searchMarkets(index, { text: 'the market about the Lakers vs Celtics game' }).map((r) => r.market.conditionId))
+            .toEqual(['lakers-celtics']);
+        expect(searchMarkets(index, { text: 'nba' }).map((r) => r.market.conditionId)).toEqual(['lakers-celtics']);
+        expect(searchMarkets(index, { text: 'bitcoin' }).map((r) => r.market.conditionId)).toEqual(['btc-100k', 'eth-flip']);
+        expect(searchMarkets(index, { text: 'bitcoin lakers' })).toEqual([]);
+    });
+
+    it('should rank markets matching any term when matchAny is set', () => {
+        const index = buildMarketSearchIndex(markets);
+        const results = searchMarkets(index, { text: 'bitcoin lakers', matchAny: true }).map((r) => r.market.conditionId);
+
+        expect(results).toHaveLength(3);
+        expect(results).toEqual(expect.arrayContaining(['lakers-celtics', 'btc-100k', 'eth-flip']));
+    });
+
+    it('should apply end date, liquidity, tag and accepting-orders filters', () => {
+        const index = buildMarketSearchIndex(markets);
+
+        const endingThisWeek = searchMarkets(index, {
+            tags: ['crypto'],
+            endDateFrom: '2030-01-01T00:00:00Z',
+            endDateTo: '2030-01-07T23:59:59Z',
+        });
+        expect(endingThisWeek.map((r) => r.market.conditionId)).toEqual(['btc-100k']);
+
+        expect(searchMarkets(index, { minLiquidity: 1000, acceptingOrders: true }).map((r) => r.market.conditionId))
+            .toEqual(['btc-100k', 'lakers-celtics']);
+        expect(searchMarkets(index, { acceptingOrders: false }).map((r) => r.market.conditionId)).toEqual(['eth-flip']);
+    });
+
+    it('should keep a search index per agent', () => {
+        const lakersAgent = createTestRuntime({}, { agentId: 'agent-lakers' as any });
+        const bitcoinAgent = createTestRuntime({}, { agentId: 'agent-bitcoin' as any });
+        const lakers = { markets: [markets[0]], fetchedAt: 'now', nextCursor: null };
+        const bitcoin = { markets: [markets[1]], fetchedAt: 'now', nextCursor: null };
+
+        const lakersIndex = getMarketSearchIndex(lakersAgent, lakers);
+        const bitcoinIndex = getMarketSearchIndex(bitcoinAgent, bitcoin);
+
+        expect(searchMarkets(bitcoinIndex, { text: 'bitcoin' })[0].market.conditionId).toBe('btc-100k');
+        expect(getMarketSearchIndex(lakersAgent, lakers)).toBe(lakersIndex);
+    });
+
+    it('should reuse a fresh cached catalog instead of calling the API', async () => {
+        const cache = new Map<string, unknown>();
+        const runtime = {
+            getSetting: vi.fn(() => null),
+            getService: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => {
+                    cache.set(key, value);
+                }),
+            },
+        } as any;
+        const client = {
+            host: 'http://localhost',
+            getMarkets: vi.fn().mockResolvedValue({ data: [rawMarket({})], next_cursor: 'LTE=' }),
+        } as any;
+
+        const first = await getMarketCatalog(runtime, client);
+        const second = await getMarketCatalog(runtime, client);
+
+        expect(first.markets).toHaveLength(1);
+        expect(first.nextCursor).toBeNull();
+        expect(second).toEqual(first);
+        expect(client.getMarkets).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MarketCatalogService } from '../src/marketCatalogService';
+import { createTestRuntime } from './utils/runtime';
+
+function rawMarket(conditionId: string) {
+    return {
+        condition_id: conditionId,
+        question: `Market ${conditionId}?`,
+        accepting_orders: true,
+        tokens: [{ token_id: `${conditionId}-yes`, outcome: 'Yes', price: 0.5 }],
+    };
+}
+
+// First page comes from the client, later pages from /markets?next_cursor=...
+function createClient(pages: Record<string, { data: unknown[]; next_cursor: string }>) {
+    vi.stubGlobal('fetch', vi.fn(async (url: URL) => ({
+        ok: true,
+        json: async () => pages[url.searchParams.get('next_cursor') ?? ''],
+    })));
+    return {
+        host: 'http://localhost',
+        getMarkets: vi.fn(async () => pages.first),
+    } as any;
+}
+
+describe('MarketCatalogService', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should page through the market list with next_cursor', async () => {
+        const client = createClient({
+            first: { data: [rawMarket('a'), rawMarket('b')], next_cursor: 'Mg==' },
+            'Mg==': { data: [rawMarket('c')], next_cursor: 'LTE=' },
+        });
+        const runtime = createTestRuntime();
+        const service = new MarketCatalogService();
+
+        expect(await service.sync(runtime, client)).toBe(3);
+
+        const catalog = await service.getCatalog(runtime, client);
+        expect(catalog.markets.map((m) => m.conditionId).sort()).toEqual(['a', 'b', 'c']);
+        expect(catalog.nextCursor).toBeNull();
+        expect((await service.getStore(runtime).getSyncState()).lastFullSyncAt).not.toBeNull();
+    });
+
+    it('should serve the catalog from memory between refreshes', async () => {
+        const client = createClient({ first: { data: [rawMarket('a')], next_cursor: 'LTE=' } });
+        const runtime = createTestRuntime();
+        const service = new MarketCatalogService();
+        expect(service.getLoadedCatalog(runtime)).toBeNull();
+
+        await service.sync(runtime, client);
+        const store = service.getStore(runtime);
+        const getMarkets = vi.spyOn(store, 'getMarkets');
+
+        const first = await service.getCatalog(runtime, client);
+        const second = await service.getCatalog(runtime, client);
+
+        expect(second).toBe(first);
+        expect(service.getLoadedCatalog(runtime)?.catalog).toBe(first);
+        expect(service.getLoadedCatalog(runtime)?.index.markets.map((m) => m.conditionId)).toEqual(['a']);
+        expect(getMarkets).not.toHaveBeenCalled();
+    });
+
+    it('should resume from the stored cursor when a refresh hits the page limit', async () => {
+        const client = createClient({
+            first: { data: [rawMarket('a')], next_cursor: 'MQ==' },
+            'MQ==': { data: [rawMarket('b')], next_cursor: 'Mg==' },
+            'Mg==': { data: [rawMarket('c')], next_cursor: 'LTE=' },
+        });
+        const runtime = createTestRuntime({ POLYMARKET_CATALOG_MAX_PAGES: '2' });
+        const service = new MarketCatalogService();
+
+        await service.sync(runtime, client);
+        expect((await service.getStore(runtime).getSyncState()).cursor).toBe('Mg==');
+        expect(await service.getStore(runtime).countMarkets()).toBe(2);
+
+        await service.sync(runtime, client);
+        expect((await service.getStore(runtime).getSyncState()).cursor).toBeNull();
+        expect(await service.getStore(runtime).countMarkets()).toBe(3);
+        expect(client.getMarkets).toHaveBeenCalledTimes(1);
+    });
+});
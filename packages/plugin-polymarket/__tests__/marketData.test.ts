@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getPriceHistory, resolveMarketTokens, summarizeOrderBook } from '../src/marketData';
+import { parseOrderBook } from '../src/model';
+
+describe('Market data', () => {
+    it('should summarize the top of book with spread, midpoint and cumulative depth', () => {
+        const book = summarizeOrderBook(parseOrderBook({
+            market: '0xmarket',
+            asset_id: 'token-yes',
+            hash: 'hash',
+            bids: [
+                { price: '0.58', size: '100' },
+                { price: '0.60', size: '50' },
+                { price: '0.55', size: '200' },
+            ],
+            asks: [
+                { price: '0.70', size: '10' },
+                { price: '0.64', size: '40' },
+            ],
+        }), 'Yes', 2);
+
+        expect(book.bids.map((level) => level.price)).toEqual([0.6, 0.58]);
+        expect(book.asks.map((level) => level.price)).toEqual([0.64, 0.7]);
+        expect(book).toMatchObject({ bestBid: 0.6, bestAsk: 0.64, spread: 0.04, midpoint: 0.62, bidDepth: 88, askDepth: 32.6 });
+        expect(book.bids[1].cumulativeSize).toBe(150);
+    });
+
+    it('should leave spread and midpoint empty for a one-sided book', () => {
+        const book = summarizeOrderBook(parseOrderBook({ market: 'm', asset_id: 't', hash: 'h', bids: [], asks: [{ price: '0.4', size: '5' }] }), 'No');
+        expect(book.spread).toBeNull();
+        expect(book.midpoint).toBeNull();
+    });
+
+    it('should request the price series at the chosen interval and range', async () => {
+        const client = {
+            getPricesHistory: vi.fn().mockResolvedValue({ history: [{ t: 200, p: 0.6 }, { t: 100, p: 0.5 }, { t: 300, p: 0.55 }] }),
+        } as any;
+
+        const series = await getPriceHistory(client, { tokenId: 'token-yes', outcome: 'Yes' }, '15m', '1d');
+
+        const params = client.getPricesHistory.mock.calls[0][0];
+        expect(params).toMatchObject({ market: 'token-yes', fidelity: 15 });
+        expect(params.endTs - params.startTs).toBe(86400);
+        expect(series.points.map((point) => point.t)).toEqual([100, 200, 300]);
+        expect(series).toMatchObject({ open: 0.5, close: 0.55, high: 0.6, low: 0.5, change: 0.05 });
+    });
+
+    it('should resolve a token ID to its market through the catalog', async () => {
+        const runtime = {
+            getService: vi.fn(() => ({
+                getCatalog: vi.fn().mockResolvedValue({
+                    markets: [{
+                        conditionId: '0xmarket',
+                        question: 'Will it rain?',
+                        tokens: [{ tokenId: 'token-yes', outcome: 'Yes' }, { tokenId: 'token-no', outcome: 'No' }],
+                    }],
+                }),
+            })),
+        } as any;
+
+        expect(await resolveMarketTokens(runtime, {} as any, '0xmarket')).toMatchObject({
+            conditionId: '0xmarket',
+            tokens: [{ tokenId: 'token-yes' }, { tokenId: 'token-no' }],
+        });
+        expect(await resolveMarketTokens(runtime, {} as any, 'token-no')).toMatchObject({
+            question: 'Will it rain?',
+            tokens: [{ tokenId: 'token-no', outcome: 'No' }],
+        });
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarketReference, recordShownMarkets, resolveMarketReference } from '../src/marketResolver';
+import { parseMarket } from '../src/model';
+import { createTestRuntime, withCatalog } from './utils/runtime';
+
+function binary(conditionId: string, question: string, yesPrice: number, extra: Record<string, unknown> = {}) {
+    return parseMarket({
+        condition_id: conditionId,
+        question,
+        active: true,
+        accepting_orders: true,
+        tokens: [
+            { token_id: `${conditionId}-yes`, outcome: 'Yes', price: yesPrice },
+            { token_id: `${conditionId}-no`, outcome: 'No', price: Math.round((1 - yesPrice) * 100) / 100 },
+        ],
+        ...extra,
+    })!;
+}
+
+const fed = binary('fed', 'Will the Fed cut rates in December?', 0.62, { tags: ['Economy'] });
+const btc = binary('btc', 'Will Bitcoin reach $150k this year?', 0.18);
+const trumpElection = binary('trump-win', 'Will Trump win the 2028 election?', 0.65);
+const trumpPopular = binary('trump-popular', 'Will Trump win the popular vote?', 0.41);
+
+function createRuntime(markets = [fed, btc, trumpElection, trumpPopular]) {
+    return createTestRuntime({}, withCatalog(markets));
+}
+
+const room = 'room-1' as any;
+const client = {} as any;
+
+describe('Market resolver', () => {
+    it('should parse positions, outcomes and prices from chat text', () => {
+        expect(parseMarketReference('YES on the second market you listed')).toMatchObject({ position: 2, outcome: 'Yes' });
+        expect(parseMarketReference('Trump at 65 cents')).toMatchObject({ price: 0.65, position: null, outcome: null });
+        expect(parseMarketReference('buy #3 @ .4')).toMatchObject({ position: 3, price: 0.4 });
+        expect(parseMarketReference('the last one please').position).toBe('last');
+    });
+
+    it('should resolve a position against the markets shown in the room', async () => {
+        const runtime = createRuntime();
+        await recordShownMarkets(runtime, room, [btc, fed]);
+
+        const resolution = await resolveMarketReference(runtime, client, room, { text: 'Put $10 on YES for the second market you listed' });
+
+        expect(resolution).toMatchObject({ status: 'resolved', via: 'position', token: { tokenId: 'fed-yes' } });
+        expect(await resolveMarketReference(createRuntime(), client, room, { text: 'the second market' }))
+            .toMatchObject({ status: 'not_found' });
+    });
+
+    it('should find a described market in the catalog and pick the named outcome', async () => {
+        const resolution = await resolveMarketReference(createRuntime(), client, room, {
+            text: 'YES on the Fed rate cut market',
+            market: 'Fed rate cut',
+        });
+        expect(resolution).toMatchObject({ status: 'resolved', via: 'search', market: { conditionId: 'fed' }, token: { outcome: 'Yes' } });
+    });
+
+    it('should use the quoted price to choose between markets naming the outcome', async () => {
+        const resolution = await resolveMarketReference(createRuntime(), client, room, { text: 'Trump at 65 cents', outcome: 'Trump' });
+        expect(resolution).toMatchObject({ status: 'resolved', market: { conditionId: 'trump-win' }, token: { tokenId: 'trump-win-yes' } });
+    });
+
+    it('should ask which market was meant when several match, and remember the options', async () => {
+        const runtime = createRuntime();
+        const resolution = await resolveMarketReference(runtime, client, room, { text: 'YES on Trump', market: 'Trump', outcome: 'Yes' });
+
+        expect(resolution.status).toBe('ambiguous');
+        expect(resolution.status === 'ambiguous' && resolution.question).toContain('1. Will Trump win the 2028 election?');
+
+        expect(await resolveMarketReference(runtime, client, room, { text: 'the second one' }))
+            .toMatchObject({ status: 'ambiguous', candidates: [{ conditionId: 'trump-popular' }] });
+        expect(await resolveMarketReference(runtime, client, room, { text: 'YES on the second one' }))
+            .toMatchObject({ status: 'resolved', token: { tokenId: 'trump-popular-yes' } });
+    });
+
+    it('should ignore token IDs that do not belong to a known market', async () => {
+        const resolution = await resolveMarketReference(createRuntime(), client, room, {
+            text: 'bet on it',
+            tokenId: '12345678901234567890123456789',
+        });
+        expect(resolution.status).toBe('not_found');
+    });
+});
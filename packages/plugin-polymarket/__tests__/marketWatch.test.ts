@@ -0,0 +1,128 @@
+import type { IMemoryManager } from '@elizaos/core';
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createWatchRule,
+    evaluateWatchRule,
+    getWatchRules,
+    removeWatchRule,
+    type WatchObservation,
+    type WatchRule,
+} from '../src/marketWatch';
+import { MarketWatchService } from '../src/marketWatchService';
+import { parseMarket } from '../src/model';
+import { createTestRuntime, withCatalog } from './utils/runtime';
+
+const fed = parseMarket({
+    condition_id: 'fed',
+    question: 'Will the Fed cut rates in December?',
+    active: true,
+    accepting_orders: true,
+    volume24hr: 1000,
+    end_date_iso: '2030-12-10T00:00:00Z',
+    tokens: [
+        { token_id: 'fed-yes', outcome: 'Yes', price: 0.55 },
+        { token_id: 'fed-no', outcome: 'No', price: 0.45 },
+    ],
+})!;
+
+function createRuntime() {
+    return createTestRuntime({}, {
+        ...withCatalog([fed]),
+        messageManager: { createMemory: vi.fn().mockResolvedValue(undefined) } as unknown as IMemoryManager,
+    });
+}
+
+// An order book whose best bid and ask sit one cent either side of `mid`
+function clientAt(mid: number) {
+    return {
+        getOrderBook: vi.fn(async () => ({
+            bids: [{ price: String(mid - 0.01), size: '100' }],
+            asks: [{ price: String(mid + 0.01), size: '100' }],
+        })),
+    } as any;
+}
+
+const owner = { userId: 'user-1' as any, roomId: 'room-1' as any };
+const target = { conditionId: 'fed', question: fed.question, tokenId: 'fed-yes', outcome: 'Yes' };
+
+function observation(values: Partial<WatchObservation>): WatchObservation {
+    return { price: null, spread: null, volume24hr: null, endDate: null, observedAt: '2030-12-09T12:00:00Z', ...values };
+}
+
+function rule(values: Partial<WatchRule>): WatchRule {
+    return {
+        id: 'w1', ...owner, ...target, type: 'price_cross', direction: 'above', threshold: 0.6, baseline: null,
+        status: 'active', createdAt: 'now', lastCheckedAt: null, triggeredAt: null, ...values,
+    };
+}
+
+describe('Market watch rules', () => {
+    it('should fire a price rule only when the price moves through the level', () => {
+        const above = rule({ baseline: 0.55 });
+        expect(evaluateWatchRule(above, observation({ price: 0.58 }))).toEqual({ fired: false, baseline: 0.58 });
+        expect(evaluateWatchRule(above, observation({ price: 0.61 }))).toEqual({ fired: true, baseline: 0.61 });
+        // Already past the level when the rule was made
+        expect(evaluateWatchRule(rule({ baseline: 0.65 }), observation({ price: 0.7 })).fired).toBe(false);
+        expect(evaluateWatchRule(rule({ direction: 'below', threshold: 0.5, baseline: 0.55 }), observation({ price: 0.49 })).fired).toBe(true);
+    });
+
+    it('should evaluate spread, volume and closing rules', () => {
+        expect(evaluateWatchRule(rule({ type: 'spread_narrow', threshold: 0.02 }), observation({ spread: 0.02 })).fired).toBe(true);
+        expect(evaluateWatchRule(rule({ type: 'volume_spike', threshold: 2, baseline: 1000 }), observation({ volume24hr: 1500 })).fired).toBe(false);
+        expect(evaluateWatchRule(rule({ type: 'volume_spike', threshold: 2, baseline: 1000 }), observation({ volume24hr: 2500 })).fired).toBe(true);
+        expect(evaluateWatchRule(rule({ type: 'volume_spike', threshold: 2 }), observation({ volume24hr: 900 })))
+            .toEqual({ fired: false, baseline: 900 });
+        expect(evaluateWatchRule(rule({ type: 'closing_soon', threshold: 24 }), observation({ endDate: '2030-12-10T00:00:00Z' })).fired).toBe(true);
+        expect(evaluateWatchRule(rule({ type: 'closing_soon', threshold: 6 }), observation({ endDate: '2030-12-10T00:00:00Z' })).fired).toBe(false);
+    });
+
+    it('should validate new rules and only let their owner remove them', async () => {
+        const runtime = createRuntime();
+        await expect(createWatchRule(runtime, owner, { ...target, type: 'price_cross', threshold: 0.6 })).rejects.toThrow('direction');
+        await expect(createWatchRule(runtime, owner, { ...target, tokenId: null, type: 'spread_narrow' })).rejects.toThrow('specific outcome');
+
+        const created = await createWatchRule(runtime, owner, { ...target, type: 'closing_soon' });
+        expect(created).toMatchObject({ threshold: 24, direction: null, status: 'active' });
+
+        await expect(removeWatchRule(runtime, created.id, 'someone-else' as any)).rejects.toMatchObject({ status: 403 });
+        await removeWatchRule(runtime, created.id, owner.userId);
+        expect(await getWatchRules(runtime)).toEqual([]);
+        await expect(removeWatchRule(runtime, created.id, owner.userId)).rejects.toMatchObject({ status: 404 });
+    });
+});
+
+describe('MarketWatchService', () => {
+    it('should post an alert in the room once a rule fires and stop checking it', async () => {
+        const runtime = createRuntime();
+        const service = new MarketWatchService();
+        await createWatchRule(runtime, owner, { ...target, type: 'price_cross', direction: 'above', threshold: 0.6, baseline: 0.55 });
+
+        expect(await service.poll(runtime, clientAt(0.57))).toEqual([]);
+
+        const alerts = await service.poll(runtime, clientAt(0.62));
+        expect(alerts).toHaveLength(1);
+        expect(alerts[0].text).toContain('Yes on "Will the Fed cut rates in December?" is now 62¢');
+        expect(runtime.messageManager.createMemory).toHaveBeenCalledWith(expect.objectContaining({
+            roomId: 'room-1',
+            userId: 'agent-1',
+            content: expect.objectContaining({ action: 'MARKET_ALERT', watchId: alerts[0].rule.id }),
+        }));
+
+        expect(alerts[0].rule).toMatchObject({ status: 'triggered', baseline: 0.62 });
+        expect(await getWatchRules(runtime)).toEqual([]);
+        expect(await service.poll(runtime, clientAt(0.7))).toEqual([]);
+        expect(runtime.messageManager.createMemory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share one order book lookup between rules on the same outcome', async () => {
+        const runtime = createRuntime();
+        const client = clientAt(0.5);
+        await createWatchRule(runtime, owner, { ...target, type: 'spread_narrow', threshold: 0.01 });
+        await createWatchRule(runtime, owner, { ...target, type: 'closing_soon', threshold: 1 });
+
+        await new MarketWatchService().poll(runtime, client);
+
+        expect(client.getOrderBook).toHaveBeenCalledTimes(1);
+        expect((await getWatchRules(runtime)).every((saved) => saved.lastCheckedAt !== null)).toBe(true);
+    });
+});
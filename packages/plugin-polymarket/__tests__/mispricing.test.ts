@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    DEFAULT_MISPRICING_THRESHOLDS,
+    findBinarySumMispricing,
+    findNegRiskSumMispricing,
+    formatMispricingScan,
+    scanMispricing,
+} from '../src/mispricing';
+import { parseMarket } from '../src/model';
+
+function market(id: string, yes: number, no: number, extra: Record<string, unknown> = {}) {
+    return parseMarket({
+        condition_id: id,
+        question: `Question ${id}?`,
+        active: true,
+        accepting_orders: true,
+        tokens: [
+            { token_id: `${id}-yes`, outcome: 'Yes', price: yes },
+            { token_id: `${id}-no`, outcome: 'No', price: no },
+        ],
+        ...extra,
+    })!;
+}
+
+// Neg-risk question IDs are the event ID with the question index in the last byte
+const ELECTION = `0x${'e1'.repeat(31)}00`;
+const candidate = (id: string, yes: number, index: number, extra: Record<string, unknown> = {}) =>
+    market(id, yes, Math.round((1 - yes) * 100) / 100, {
+        neg_risk: true,
+        neg_risk_market_id: ELECTION,
+        question_id: `0x${'e1'.repeat(31)}${index.toString(16).padStart(2, '0')}`,
+        liquidity: 5000,
+        ...extra,
+    });
+
+const books: Record<string, unknown> = {
+    'liquid-yes': { bids: [{ price: '0.4', size: '100' }], asks: [{ price: '0.5', size: '100' }] },
+    'tight-yes': { bids: [{ price: '0.49', size: '100' }], asks: [{ price: '0.5', size: '100' }] },
+};
+const client = { getOrderBook: vi.fn(async (tokenId: string) => books[tokenId] ?? { bids: [], asks: [] }) } as any;
+
+describe('Mispricing scanner', () => {
+    it('should show the merge trade when YES + NO sum below 1', () => {
+        const finding = findBinarySumMispricing(market('cheap', 0.45, 0.5), 0.02);
+
+        expect(finding).toMatchObject({ kind: 'binary_sum', edge: 0.05 });
+        expect(finding?.math).toBe(
+            'Yes 0.45 + No 0.5 = 0.95; buy one Yes and one No share for 0.95 and merge them into $1 → 5¢ per set (5.3%)'
+        );
+        expect(findBinarySumMispricing(market('fair', 0.62, 0.39), 0.02)).toBeNull();
+    });
+
+    it('should price buying NO everywhere when a neg-risk event sums above 1', () => {
+        const finding = findNegRiskSumMispricing([candidate('a', 0.5, 0), candidate('b', 0.4, 1), candidate('c', 0.2, 2)], 0.02);
+
+        expect(finding).toMatchObject({ kind: 'neg_risk_sum', id: ELECTION, edge: 0.1 });
+        expect(finding?.math).toBe(
+            'YES 0.5 + 0.4 + 0.2 = 1.1; NO in all 3 markets costs 3 − 1.1 = 1.9 and 2 of them pay $1 → 10¢ per set (5.3%)'
+        );
+    });
+
+    it('should rank price gaps and wide spreads together by edge', async () => {
+        const scan = await scanMispricing(client, [
+            market('cheap', 0.45, 0.52),
+            candidate('a', 0.3, 0),
+            candidate('b', 0.3, 1),
+            market('liquid', 0.45, 0.55, { liquidity: 20000 }),
+            market('tight', 0.495, 0.505, { liquidity: 30000 }),
+            market('closed', 0.2, 0.2, { closed: true }),
+        ], DEFAULT_MISPRICING_THRESHOLDS);
+
+        expect(scan.findings.map((finding) => `${finding.kind}:${finding.id}`)).toEqual([
+            `neg_risk_sum:${ELECTION}`,
+            'wide_spread:liquid',
+            'binary_sum:cheap',
+        ]);
+        expect(scan).toMatchObject({ marketsScanned: 5, eventsScanned: 1, booksScanned: 4 });
+        expect(scan.findings[1].math).toContain('Yes ask 0.5 − bid 0.4 = 10¢ spread (22.2% of the 0.45 midpoint) on $20,000 liquidity');
+
+        const text = formatMispricingScan(scan, 2);
+        expect(text).toContain('1. Event prices off 1: "2-outcome event: Question a? / Question b?"');
+        expect(text).toContain('…and 1 more.');
+    });
+
+    it('should only sum neg-risk events whose markets are all known and tradable', async () => {
+        const scan = (markets: ReturnType<typeof market>[]) => scanMispricing(client, markets, DEFAULT_MISPRICING_THRESHOLDS, ['neg_risk_sum']);
+
+        // Question 1 of the event is missing from the catalog
+        expect(await scan([candidate('a', 0.3, 0), candidate('c', 0.3, 2)])).toMatchObject({ findings: [], eventsScanned: 0 });
+        expect(await scan([candidate('a', 0.3, 0), candidate('b', 0.3, 1), candidate('c', 0.3, 2, { accepting_orders: false })]))
+            .toMatchObject({ findings: [], eventsScanned: 0 });
+        expect((await scan([candidate('a', 0.3, 0), candidate('b', 0.3, 1), candidate('c', 0.3, 2)])).findings).toHaveLength(1);
+    });
+
+    it('should say so when nothing is mispriced', async () => {
+        const scan = await scanMispricing(client, [market('fair', 0.6, 0.4)], DEFAULT_MISPRICING_THRESHOLDS, ['binary_sum']);
+
+        expect(scan.findings).toHaveLength(0);
+        expect(formatMispricingScan(scan, 10)).toContain('Nothing is mispriced by more than 2¢ per set');
+    });
+});
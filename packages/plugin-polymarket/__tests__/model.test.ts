@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseMarket, parseMarketsPage, parseOrderBook, parsePriceHistory } from '../src/model';
+
+describe('Polymarket model', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should normalize field aliases and numeric strings into a Market', () => {
+        const market = parseMarket({
+            conditionId: '0xabc',
+            title: 'Will it snow?',
+            slug: 'will-it-snow',
+            acceptingOrders: true,
+            endDate: '2030-01-01T00:00:00Z',
+            liquidity: '1500.5',
+            volume24hr: 12,
+            outcomes: [{ tokenId: 'yes', name: 'Yes', lastPrice: '0.31' }],
+        });
+
+        expect(market).toMatchObject({
+            conditionId: '0xabc',
+            question: 'Will it snow?',
+            slug: 'will-it-snow',
+            acceptingOrders: true,
+            endDate: '2030-01-01T00:00:00.000Z',
+            liquidity: 1500.5,
+            volume24hr: 12,
+            closed: false,
+        });
+        expect(market!.tokens).toEqual([{ tokenId: 'yes', outcome: 'Yes', price: 0.31, winner: null }]);
+    });
+
+    it('should warn once about fields the schema does not know', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        parseMarket({ condition_id: '0x1', question: 'A?', brand_new_field: 1 });
+        parseMarket({ condition_id: '0x2', question: 'B?', brand_new_field: 2 });
+        const market = parseMarket({ condition_id: '0x3', question: 'C?', closed: 'yes' });
+
+        const messages = warn.mock.calls.map((call) => String(call[0]));
+        expect(messages.filter((message) => message.includes('brand_new_field'))).toHaveLength(1);
+        expect(messages.some((message) => message.includes('closed'))).toBe(true);
+        expect(market!.closed).toBe(false);
+    });
+
+    it('should keep the valid fields and outcomes of a market with malformed ones', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const market = parseMarket({
+            condition_id: '0x4',
+            question: 'D?',
+            tags: 'Politics',
+            volume: '12',
+            tokens: [{ token_id: 'yes', outcome: 'Yes', price: '0.4' }, { outcome: 'No', price: {} }],
+        });
+
+        expect(market).toMatchObject({ question: 'D?', tags: [], volume: 12 });
+        expect(market!.tokens).toEqual([{ tokenId: 'yes', outcome: 'Yes', price: 0.4, winner: null }]);
+    });
+
+    it('should unwrap market pages and treat the end cursor as the last page', () => {
+        const raw = { condition_id: '0x1', question: 'A?', tokens: [] };
+
+        expect(parseMarketsPage({ data: [raw, { question: 'no id' }], next_cursor: 'MTAw' })).toMatchObject({
+            markets: [{ conditionId: '0x1' }],
+            nextCursor: 'MTAw',
+        });
+        expect(parseMarketsPage({ data: [raw], next_cursor: 'LTE=' }).nextCursor).toBeNull();
+        expect(parseMarketsPage([raw]).markets).toHaveLength(1);
+    });
+
+    it('should sort order book levels best price first and drop malformed ones', () => {
+        const book = parseOrderBook({
+            market: '0xm',
+            hash: 'h',
+            bids: [{ price: '0.40', size: '10' }, { price: '0.45', size: '5' }, { price: 'x', size: '1' }],
+            asks: [{ price: '0.60', size: '3' }, { price: '0.52', size: '7' }],
+        }, 'token-yes');
+
+        expect(book.tokenId).toBe('token-yes');
+        expect(book.bids).toEqual([{ price: 0.45, size: 5 }, { price: 0.4, size: 10 }]);
+        expect(book.asks.map((level) => level.price)).toEqual([0.52, 0.6]);
+    });
+
+    it('should read price history points from either response shape and skip malformed ones', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(parsePriceHistory({ history: [{ t: 1700000000, p: '0.42' }, { t: 'later', p: 0.5 }] })).toEqual([{ t: 1700000000, p: 0.42 }]);
+        expect(parsePriceHistory([{ t: '1700000060', p: 0.43 }])).toEqual([{ t: 1700000060, p: 0.43 }]);
+        expect(parsePriceHistory({ prices: [] })).toEqual([]);
+        expect(warn.mock.calls.map((call) => String(call[0]))).toEqual([
+            expect.stringContaining('point without a numeric t and p skipped'),
+            expect.stringContaining('expected { history: [] } or an array'),
+        ]);
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    claimOrderIntent,
+    createOrderIntent,
+    getPendingOrderIntents,
+    requiresOrderConfirmation,
+} from '../src/orderIntents';
+import { createTestRuntime } from './utils/runtime';
+
+const order = { tokenId: 'token-yes', side: 'BUY' as const, amount: 10, price: 0.5 };
+const alice = { userId: 'user-alice' as any, roomId: 'room-1' as any };
+
+describe('Order intents', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should only require confirmation when enabled', () => {
+        expect(requiresOrderConfirmation(createTestRuntime())).toBe(false);
+        expect(requiresOrderConfirmation(createTestRuntime({ POLYMARKET_REQUIRE_CONFIRMATION: 'true' }))).toBe(true);
+    });
+
+    it('should store pending intents per room with the computed size', async () => {
+        const runtime = createTestRuntime();
+        const intent = await createOrderIntent(runtime, alice, order);
+
+        expect(intent).toMatchObject({ status: 'pending', size: 20, roomId: 'room-1' });
+        expect(await getPendingOrderIntents(runtime, alice.roomId)).toEqual([intent]);
+        expect(await getPendingOrderIntents(runtime, 'room-2' as any)).toEqual([]);
+    });
+
+    it('should only let the requesting user confirm, and only once', async () => {
+        const runtime = createTestRuntime();
+        const intent = await createOrderIntent(runtime, alice, order);
+
+        await expect(claimOrderIntent(runtime, intent.id, 'user-bob' as any)).rejects.toMatchObject({ status: 403 });
+
+        const claimed = await claimOrderIntent(runtime, intent.id, alice.userId);
+        expect(claimed.status).toBe('confirmed');
+        await expect(claimOrderIntent(runtime, intent.id, alice.userId)).rejects.toMatchObject({ status: 409 });
+        expect(await getPendingOrderIntents(runtime, alice.roomId)).toEqual([]);
+    });
+
+    it('should let only one of two concurrent confirms claim the intent', async () => {
+        const runtime = createTestRuntime();
+        const intent = await createOrderIntent(runtime, alice, order);
+
+        const results = await Promise.allSettled([
+            claimOrderIntent(runtime, intent.id, alice.userId),
+            claimOrderIntent(runtime, intent.id, alice.userId),
+        ]);
+
+        expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+        expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: { status: 409 } });
+    });
+
+    it('should refuse to confirm expired intents', async () => {
+        vi.useFakeTimers();
+        const runtime = createTestRuntime({ POLYMARKET_ORDER_INTENT_TTL_SECONDS: '60' });
+        const intent = await createOrderIntent(runtime, alice, order);
+
+        vi.advanceTimersByTime(61_000);
+
+        await expect(claimOrderIntent(runtime, intent.id, alice.userId)).rejects.toMatchObject({ status: 410 });
+        expect(await getPendingOrderIntents(runtime, alice.roomId)).toEqual([]);
+    });
+
+    it('should report unknown intents as not found', async () => {
+        await expect(claimOrderIntent(createTestRuntime(), 'missing', alice.userId)).rejects.toMatchObject({ status: 404 });
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+    crossesBook,
+    describeOrderType,
+    getGtdExpiration,
+    getReplacementOptions,
+    OrderValidationError,
+    quoteMarketOrder,
+    validateOrderOptions,
+    validateOrderSize,
+} from '../src/orderTypes';
+
+const book = {
+    market: 'market-1',
+    tokenId: 'token-yes',
+    hash: null,
+    bids: [{ price: 0.6, size: 100 }, { price: 0.59, size: 1000 }],
+    asks: [{ price: 0.62, size: 10 }, { price: 0.64, size: 50 }],
+};
+
+describe('Order types', () => {
+    it('should walk the asks until a market buy is covered and quote the worst price', () => {
+        // $6.20 at 0.62, the rest at 0.64
+        expect(quoteMarketOrder(book, 'BUY', 20, 'FOK')).toEqual({ price: 0.64, size: 31.25, available: 38.2 });
+        expect(quoteMarketOrder(book, 'SELL', 30, 'FOK').price).toBe(0.6);
+    });
+
+    it('should refuse a fill-or-kill order the book cannot fill but let fill-and-kill take what is there', () => {
+        expect(() => quoteMarketOrder(book, 'BUY', 100, 'FOK')).toThrow('The book only has $38.2 on the ask side');
+        expect(quoteMarketOrder(book, 'BUY', 100, 'FAK')).toMatchObject({ price: 0.64, available: 38.2 });
+        expect(() => quoteMarketOrder({ ...book, asks: [] }, 'BUY', 10, 'FAK')).toThrow(OrderValidationError);
+    });
+
+    it('should reject prices off the market tick and suggest the nearest ones', () => {
+        expect(() => validateOrderSize({ price: 0.425, size: 50 }, { tickSize: 0.01 })).toThrow(
+            "Price 0.425 is not on this market's 0.01 tick; use 0.42 or 0.43."
+        );
+        expect(() => validateOrderSize({ price: 0.43, size: 50 }, { tickSize: 0.05 })).toThrow('use 0.4 or 0.45');
+        expect(() => validateOrderSize({ price: 0.45, size: 50 }, { tickSize: 0.05 })).not.toThrow();
+    });
+
+    it('should reject orders below the market minimum size', () => {
+        expect(() => validateOrderSize({ price: 0.5, size: 4 }, { minOrderSize: 5 })).toThrow(
+            "The order is 4 shares, below this market's minimum of 5 shares (about $2.5 at 0.5)."
+        );
+        expect(() => validateOrderSize({ price: 0.5, size: 5 }, { minOrderSize: 5 })).not.toThrow();
+    });
+
+    it('should check that the options fit the order type', () => {
+        expect(() => validateOrderOptions({ orderType: 'GTD' })).toThrow('needs an expiry');
+        expect(() => validateOrderOptions({ orderType: 'GTC', expiresInMinutes: 60 })).toThrow("GTC orders don't expire");
+        expect(() => validateOrderOptions({ orderType: 'FOK', postOnly: true })).toThrow("can't be post-only");
+        expect(() => validateOrderOptions({ orderType: 'GTD', expiresInMinutes: 120, postOnly: true })).not.toThrow();
+    });
+
+    it('should expire GTD orders after the lifetime plus the exchange security margin', () => {
+        expect(getGtdExpiration(120, 1_700_000_000_000)).toBe(1_700_000_000 + 60 + 7200);
+    });
+
+    it('should carry a GTD order\'s remaining lifetime over to its replacement', () => {
+        const now = 1_700_000_000_000;
+        const gtd = { orderId: 'o1', type: 'GTD', expiration: new Date(now + (60 + 7200) * 1000).toISOString() };
+
+        expect(getReplacementOptions(gtd, now)).toEqual({ orderType: 'GTD', expiresInMinutes: 120, replacesOrderId: 'o1' });
+        expect(getReplacementOptions({ orderId: 'o2', type: 'GTC', expiration: null }, now)).toEqual({ orderType: 'GTC', replacesOrderId: 'o2' });
+        expect(() => getReplacementOptions({ ...gtd, expiration: new Date(now + 90_000).toISOString() }, now)).toThrow('expires within a minute');
+    });
+
+    it('should tell when a post-only price would trade on arrival', () => {
+        expect(crossesBook(book, 'BUY', 0.62)).toBe(true);
+        expect(crossesBook(book, 'BUY', 0.61)).toBe(false);
+        expect(crossesBook(book, 'SELL', 0.6)).toBe(true);
+        expect(describeOrderType({ orderType: 'GTD', expiresInMinutes: 120, postOnly: true })).toBe(
+            'GTD (limit, good for 120 minutes, post-only)'
+        );
+    });
+});
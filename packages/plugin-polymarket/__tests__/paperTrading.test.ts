@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    executePaperOrder,
+    getMidPrice,
+    getPaperLedger,
+    getPaperPortfolio,
+    isPaperTradingEnabled,
+    PaperTradingError,
+} from '../src/paperTrading';
+import { createTestRuntime } from './utils/runtime';
+
+function createClient(mid: string | Error) {
+    return {
+        getMidpoint: vi.fn(async () => {
+            if (mid instanceof Error) throw mid;
+            return { mid };
+        }),
+        getOrderBook: vi.fn(async () => {
+            if (mid instanceof Error) throw mid;
+            return { bids: [], asks: [] };
+        }),
+    } as any;
+}
+
+describe('Paper trading', () => {
+    let runtime: any;
+
+    beforeEach(() => {
+        runtime = createTestRuntime({ POLYMARKET_PAPER_TRADING: 'true' });
+    });
+
+    it('should read the paper trading setting', () => {
+        expect(isPaperTradingEnabled(runtime)).toBe(true);
+        expect(isPaperTradingEnabled(createTestRuntime())).toBe(false);
+    });
+
+    it('should start with the configured starting balance', async () => {
+        const ledger = await getPaperLedger(createTestRuntime({ POLYMARKET_PAPER_STARTING_BALANCE: '250' }));
+        expect(ledger.cash).toBe(250);
+        expect(ledger.positions).toEqual({});
+    });
+
+    it('should fill a buy at the mid-price and persist the position', async () => {
+        const client = createClient('0.5');
+
+        const { fill } = await executePaperOrder(runtime, client, {
+            tokenId: 'token-yes',
+            side: 'BUY',
+            amount: 10,
+            price: 0.55,
+        });
+
+        expect(fill.price).toBe(0.5);
+        expect(fill.size).toBe(20);
+        expect(fill.priceSource).toBe('live');
+
+        const ledger = await getPaperLedger(runtime);
+        expect(ledger.cash).toBe(990);
+        expect(ledger.positions['token-yes'].size).toBe(20);
+        expect(ledger.fills).toHaveLength(1);
+    });
+
+    it('should reject a buy limit below the mid-price', async () => {
+        await expect(executePaperOrder(runtime, createClient('0.6'), {
+            tokenId: 'token-yes',
+            side: 'BUY',
+            amount: 10,
+            price: 0.5,
+        })).rejects.toBeInstanceOf(PaperTradingError);
+    });
+
+    it('should reject a buy larger than the paper balance', async () => {
+        await expect(executePaperOrder(runtime, createClient('0.5'), {
+            tokenId: 'token-yes',
+            side: 'BUY',
+            amount: 5000,
+            price: 0.5,
+        })).rejects.toThrow('Insufficient paper USDC balance');
+    });
+
+    it('should realize P&L when selling', async () => {
+        await executePaperOrder(runtime, createClient('0.5'), {
+            tokenId: 'token-yes',
+            side: 'BUY',
+            amount: 10,
+            price: 0.5,
+        });
+
+        const { fill, ledger } = await executePaperOrder(runtime, createClient('0.6'), {
+            tokenId: 'token-yes',
+            side: 'SELL',
+            amount: 6,
+            price: 0.6,
+        });
+
+        expect(fill.size).toBe(10);
+        expect(fill.realizedPnl).toBeCloseTo(1);
+        expect(ledger.positions['token-yes']).toMatchObject({ size: 10, sharesBought: 20, sharesSold: 10, staked: 10, proceeds: 6 });
+        expect(ledger.cash).toBeCloseTo(996);
+    });
+
+    it('should not let concurrent buys spend the same balance', async () => {
+        runtime = createTestRuntime({ POLYMARKET_PAPER_TRADING: 'true', POLYMARKET_PAPER_STARTING_BALANCE: '15' });
+        const client = createClient('0.5');
+        const order = { tokenId: 'token-yes', side: 'BUY' as const, amount: 10, price: 0.5 };
+
+        const results = await Promise.allSettled([
+            executePaperOrder(runtime, client, order),
+            executePaperOrder(runtime, client, { ...order, tokenId: 'token-no' }),
+        ]);
+
+        expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+        const ledger = await getPaperLedger(runtime);
+        expect(ledger.cash).toBe(5);
+        expect(ledger.fills).toHaveLength(1);
+    });
+
+    it('should fall back to the cached mid-price when the API is down', async () => {
+        await getMidPrice(runtime, createClient('0.4'), 'token-yes');
+
+        const quote = await getMidPrice(runtime, createClient(new Error('offline')), 'token-yes');
+        expect(quote).toMatchObject({ price: 0.4, source: 'cached' });
+    });
+
+    it('should mark open positions for unrealized P&L', async () => {
+        await executePaperOrder(runtime, createClient('0.5'), {
+            tokenId: 'token-yes',
+            side: 'BUY',
+            amount: 10,
+            price: 0.5,
+        });
+
+        const portfolio = await getPaperPortfolio(runtime, createClient('0.75'));
+        expect(portfolio.positions).toHaveLength(1);
+        expect(portfolio.unrealizedPnl).toBeCloseTo(5);
+        expect(portfolio.equity).toBeCloseTo(1005);
+    });
+});
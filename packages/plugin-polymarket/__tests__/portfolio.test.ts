@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    buildPositions,
+    markPositions,
+    summarizeOpenOrders,
+    summarizeTrades,
+    totalPositions,
+} from '../src/portfolio';
+
+const API_KEY = 'our-api-key';
+
+function trade(overrides: Record<string, unknown>) {
+    return {
+        id: 'trade-1',
+        taker_order: 'order-1',
+        market: 'market-1',
+        asset_id: 'token-yes',
+        side: 'BUY',
+        size: '10',
+        status: 'CONFIRMED',
+        price: '0.5',
+        match_time: '1700000000',
+        last_update: '1700000000',
+        outcome: 'Yes',
+        outcome_index: 0,
+        bucket_index: 0,
+        owner: API_KEY,
+        maker_address: '0xmaker',
+        maker_orders: [],
+        transaction_hash: '0xhash',
+        ...overrides,
+    } as any;
+}
+
+describe('Portfolio helpers', () => {
+    it('should summarize open orders with remaining size', () => {
+        const [order] = summarizeOpenOrders([{
+            id: 'order-1',
+            status: 'LIVE',
+            owner: API_KEY,
+            market: 'market-1',
+            asset_id: 'token-yes',
+            side: 'buy',
+            original_size: '20',
+            size_matched: '5',
+            price: '0.42',
+            associate_trades: [],
+            outcome: 'Yes',
+            outcome_index: 0,
+            created_at: 1700000000,
+            expiration: '0',
+            type: 'GTC',
+        }]);
+
+        expect(order).toMatchObject({
+            orderId: 'order-1',
+            side: 'BUY',
+            remainingSize: 15,
+            expiration: null,
+            createdAt: '2023-11-14T22:13:20.000Z',
+        });
+    });
+
+    it('should flip the side when our maker order was filled', () => {
+        const [summary] = summarizeTrades([
+            trade({
+                owner: 'someone-else',
+                side: 'BUY',
+                maker_orders: [{
+                    order_id: 'maker-order',
+                    owner: API_KEY,
+                    maker_address: '0xus',
+                    matched_amount: '4',
+                    price: '0.55',
+                    asset_id: 'token-yes',
+                    outcome: 'Yes',
+                    outcome_index: '0',
+                }],
+            }),
+        ], [API_KEY]);
+
+        expect(summary).toMatchObject({ side: 'SELL', role: 'MAKER', size: 4, price: 0.55 });
+    });
+
+    it('should replay trades into positions with realized P&L', () => {
+        const trades = summarizeTrades([
+            trade({ id: 't1', side: 'BUY', size: '10', price: '0.4', match_time: '1700000000' }),
+            trade({ id: 't2', side: 'BUY', size: '10', price: '0.6', match_time: '1700000100' }),
+            trade({ id: 't3', side: 'SELL', size: '5', price: '0.7', match_time: '1700000200' }),
+        ], [API_KEY]);
+
+        const [position] = buildPositions(trades);
+        expect(position.size).toBe(15);
+        expect(position.avgPrice).toBeCloseTo(0.5);
+        expect(position.realizedPnl).toBeCloseTo(1);
+    });
+
+    it('should mark positions to the midpoint', async () => {
+        const client = { getMidpoint: vi.fn().mockResolvedValue({ mid: '0.8' }) } as any;
+        const positions = await markPositions(client, buildPositions(summarizeTrades([
+            trade({ side: 'BUY', size: '10', price: '0.5' }),
+        ], [API_KEY])));
+
+        expect(positions[0].unrealizedPnl).toBeCloseTo(3);
+        expect(totalPositions(positions)).toMatchObject({ positionCount: 1, marketValue: 8 });
+    });
+});
@@ -1,120 +1,100 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getClient, walletProvider } from '../src/provider';
-import { CdpAgentkit } from '@coinbase/cdp-agentkit-core';
-import * as fs from 'fs';
-
-// Mock dependencies
-vi.mock('@coinbase/cdp-agentkit-core', () => ({
-    CdpAgentkit: {
-        configureWithWallet: vi.fn().mockImplementation(async (config) => ({
-            exportWallet: vi.fn().mockResolvedValue('mocked-wallet-data'),
-            wallet: {
-                addresses: [{ id: '0x123...abc' }]
-            }
-        }))
-    }
-}));
-
-vi.mock('fs', () => ({
-    existsSync: vi.fn(),
-    readFileSync: vi.fn(),
-    writeFileSync: vi.fn()
-}));
-
-describe('AgentKit Provider', () => {
-    const mockRuntime = {
-        name: 'test-runtime',
-        memory: new Map(),
-        getMemory: vi.fn(),
-        setMemory: vi.fn(),
-        clearMemory: vi.fn()
-    };
-
-    beforeEach(() => {
-        vi.clearAllMocks();
-        process.env.CDP_AGENT_KIT_NETWORK = 'base-sepolia';
+import { recordShownMarkets } from '../src/marketResolver';
+import { parseMarket } from '../src/model';
+import { extractMarketTerms, polymarketProvider } from '../src/provider';
+import { startMockClobServer, type MockClobServer } from './utils/mockClobServer';
+import { BTC_MARKET_ID, ELECTION_MARKET_ID, FED_MARKET_ID } from './utils/clobFixtures';
+import { createTestRuntime, withCatalog } from './utils/runtime';
+
+function say(text: string) {
+    return { userId: 'user-1', roomId: 'room-1', agentId: 'agent-1', content: { text } } as any;
+}
+
+describe('Polymarket provider', () => {
+    let clob: MockClobServer;
+    let restoreClobUrl: () => void;
+
+    beforeEach(async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        clob = await startMockClobServer();
+        restoreClobUrl = clob.useAsClobApi();
     });
 
-    afterEach(() => {
-        delete process.env.CDP_AGENT_KIT_NETWORK;
+    afterEach(async () => {
+        restoreClobUrl();
+        await clob.close();
+        vi.restoreAllMocks();
     });
 
-    describe('getClient', () => {
-        it('should create new wallet when no existing wallet data', async () => {
-            vi.mocked(fs.existsSync).mockReturnValue(false);
-
-            const client = await getClient();
-            
-            expect(CdpAgentkit.configureWithWallet).toHaveBeenCalledWith({
-                networkId: 'base-sepolia'
-            });
-            expect(fs.writeFileSync).toHaveBeenCalledWith(
-                'wallet_data.txt',
-                'mocked-wallet-data'
-            );
-            expect(client).toBeDefined();
-        });
-
-        it('should use existing wallet data when available', async () => {
-            vi.mocked(fs.existsSync).mockReturnValue(true);
-            vi.mocked(fs.readFileSync).mockReturnValue('existing-wallet-data');
-
-            const client = await getClient();
-            
-            expect(CdpAgentkit.configureWithWallet).toHaveBeenCalledWith({
-                cdpWalletData: 'existing-wallet-data',
-                networkId: 'base-sepolia'
-            });
-            expect(fs.writeFileSync).toHaveBeenCalledWith(
-                'wallet_data.txt',
-                'mocked-wallet-data'
-            );
-            expect(client).toBeDefined();
-        });
-
-        it('should handle file read errors gracefully', async () => {
-            vi.mocked(fs.existsSync).mockReturnValue(true);
-            vi.mocked(fs.readFileSync).mockImplementation(() => {
-                throw new Error('File read error');
-            });
-
-            const client = await getClient();
-            
-            expect(CdpAgentkit.configureWithWallet).toHaveBeenCalledWith({
-                networkId: 'base-sepolia'
-            });
-            expect(fs.writeFileSync).toHaveBeenCalledWith(
-                'wallet_data.txt',
-                'mocked-wallet-data'
-            );
-            expect(client).toBeDefined();
-        });
-
-        it('should use custom network from environment variable', async () => {
-            process.env.CDP_AGENT_KIT_NETWORK = 'custom-network';
-            vi.mocked(fs.existsSync).mockReturnValue(false);
-
-            await getClient();
-            
-            expect(CdpAgentkit.configureWithWallet).toHaveBeenCalledWith({
-                networkId: 'custom-network'
-            });
-        });
+    it('should add the markets the message is about with prices and end dates', async () => {
+        const context = await polymarketProvider.get(createTestRuntime(), say('What do you think about the Fed cutting rates?'));
+
+        expect(context).toContain('Polymarket: 🟢 connected');
+        expect(context).toContain(`- Will the Fed cut rates in December? | Yes $0.62 / No $0.38 | ends 2030-12-10 | condition ${FED_MARKET_ID}`);
+        expect(context).not.toContain(BTC_MARKET_ID);
+    });
+
+    it('should only report the status for small talk, without listing markets', async () => {
+        const context = await polymarketProvider.get(createTestRuntime(), say('hey, how are you doing today?'));
+
+        expect(context).toBe('Polymarket: 🟢 connected');
+        expect(clob.requestsTo('GET', '/markets')).toHaveLength(0);
     });
 
-    describe('walletProvider', () => {
-        it('should return wallet address', async () => {
-            const result = await walletProvider.get(mockRuntime);
-            expect(result).toBe('AgentKit Wallet Address: 0x123...abc');
-        });
+    it('should cache the connection status and the market summary between turns', async () => {
+        const runtime = createTestRuntime();
+        await polymarketProvider.get(runtime, say('Any news on bitcoin?'));
+        const marketRequests = clob.requestsTo('GET', '/markets').length;
+
+        const context = await polymarketProvider.get(runtime, say('any news on Bitcoin'));
+
+        expect(context).toContain(BTC_MARKET_ID);
+        expect(clob.requestsTo('GET', '/time')).toHaveLength(1);
+        expect(clob.requestsTo('GET', '/markets')).toHaveLength(marketRequests);
+        // Summaries stay in memory; only the status goes to the cache store
+        expect([...runtime.cache.keys()].filter((key) => key.startsWith('polymarket/provider/'))).toEqual(['polymarket/provider/status']);
+    });
+
+    it('should prefer markets already shown in the room, even closed ones', async () => {
+        const runtime = createTestRuntime();
+        const election = parseMarket(clob.fixtures.markets.find((market) => market.condition_id === ELECTION_MARKET_ID))!;
+        await recordShownMarkets(runtime, 'room-1' as any, [election]);
+
+        const context = await polymarketProvider.get(runtime, say('Who won the election in the end?'));
+
+        expect(context).toContain(ELECTION_MARKET_ID);
+    });
 
-        it('should handle errors and return null', async () => {
-            vi.mocked(CdpAgentkit.configureWithWallet).mockRejectedValueOnce(
-                new Error('Configuration failed')
-            );
+    it('should say the catalog is syncing instead of waiting on the catalog service', async () => {
+        const service = { getLoadedCatalog: vi.fn(() => null), getCatalog: vi.fn() };
+        const runtime = createTestRuntime({}, { getService: vi.fn(() => service) as any });
+
+        const context = await polymarketProvider.get(runtime, say('What do you think about the Fed cutting rates?'));
+
+        expect(context).toBe('Polymarket: 🟢 connected\nPolymarket market catalog is still syncing; no markets to suggest yet.');
+        expect(service.getCatalog).not.toHaveBeenCalled();
+        expect(clob.requestsTo('GET', '/markets')).toHaveLength(0);
+    });
+
+    it('should search the catalog the service holds in memory', async () => {
+        const fed = parseMarket(clob.fixtures.markets.find((market) => market.condition_id === FED_MARKET_ID))!;
+        const runtime = createTestRuntime({}, withCatalog([fed]));
+
+        const context = await polymarketProvider.get(runtime, say('What do you think about the Fed cutting rates?'));
+
+        expect(context).toContain(FED_MARKET_ID);
+        expect(clob.requestsTo('GET', '/markets')).toHaveLength(0);
+    });
+
+    it('should report an unreachable API without trying to load markets', async () => {
+        clob.fail('GET', '/time', { status: 503 });
+        const context = await polymarketProvider.get(createTestRuntime(), say('Will the Fed cut rates?'));
+
+        expect(context).toContain('Polymarket: 🔴 unreachable');
+        expect(clob.requestsTo('GET', '/markets')).toHaveLength(0);
+    });
 
-            const result = await walletProvider.get(mockRuntime);
-            expect(result).toBeNull();
-        });
+    it('should drop chat words and short words from the search terms', () => {
+        expect(extractMarketTerms('What are the odds on the Celtics game tonight, do you think?')).toEqual(['celtics', 'tonight']);
     });
 });
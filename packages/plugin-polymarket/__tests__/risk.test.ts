@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseMarket } from '../src/model';
+import type { OpenOrderSummary } from '../src/portfolio';
+import { checkOrderRisk, evaluateRiskPolicy, getRiskPolicy, RISK_LOG_TYPE } from '../src/risk';
+import { createTestRuntime, withCatalog } from './utils/runtime';
+
+const order = { tokenId: 'token-yes', side: 'BUY' as const, amount: 10, price: 0.5 };
+const logTarget = { userId: 'user-1' as any, roomId: 'room-1' as any };
+
+function openBuy(orderId: string, tokenId: string, remainingSize: number, price: number): OpenOrderSummary {
+    return {
+        orderId, market: 'market-1', tokenId, outcome: 'Yes', side: 'BUY', price, originalSize: remainingSize, sizeMatched: 0,
+        remainingSize, status: 'LIVE', type: 'GTC', createdAt: null, expiration: null,
+    };
+}
+
+const context = {
+    marketId: 'market-1',
+    marketTags: ['NBA', 'Sports'],
+    midPrice: 0.5,
+    marketExposure: 0,
+    dailyLoss: 0,
+};
+
+describe('Risk policy', () => {
+    it('should parse limits and tag lists from settings', () => {
+        const policy = getRiskPolicy(createTestRuntime({
+            POLYMARKET_MAX_STAKE_PER_BET: '25',
+            POLYMARKET_PRICE_BAND: '0.05',
+            POLYMARKET_BLOCKED_TAGS: 'Politics, Crypto',
+        }));
+
+        expect(policy).toMatchObject({
+            maxStakePerBet: 25,
+            priceBand: 0.05,
+            blockedTags: ['politics', 'crypto'],
+        });
+        expect(policy.maxDailyLoss).toBeUndefined();
+    });
+
+    it('should allow orders within every limit', () => {
+        const decision = evaluateRiskPolicy({ maxStakePerBet: 20, priceBand: 0.05, allowedTags: ['nba'] }, order, context);
+        expect(decision.allowed).toBe(true);
+        expect(decision.violations).toEqual([]);
+    });
+
+    it('should report every violated limit', () => {
+        const decision = evaluateRiskPolicy(
+            { maxStakePerBet: 5, maxDailyLoss: 15, maxMarketExposure: 12, priceBand: 0.05, blockedTags: ['sports'] },
+            { ...order, price: 0.7 },
+            { ...context, dailyLoss: 10, marketExposure: 5 }
+        );
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.violations).toHaveLength(5);
+    });
+
+    it('should not count sells against loss and exposure limits', () => {
+        const decision = evaluateRiskPolicy(
+            { maxDailyLoss: 1, maxMarketExposure: 1 },
+            { ...order, side: 'SELL' },
+            { ...context, dailyLoss: 10, marketExposure: 10 }
+        );
+        expect(decision.allowed).toBe(true);
+    });
+
+    it('should refuse when the price band cannot be verified', () => {
+        const decision = evaluateRiskPolicy({ priceBand: 0.05 }, order, { ...context, midPrice: null });
+        expect(decision.allowed).toBe(false);
+    });
+
+    it('should log each decision to the logs table', async () => {
+        const runtime = createTestRuntime({ POLYMARKET_MAX_STAKE_PER_BET: '5' });
+        const client = {
+            getOrderBook: vi.fn().mockResolvedValue({ market: 'market-1', bids: [], asks: [] }),
+            getMarket: vi.fn().mockResolvedValue({ condition_id: 'market-1', tags: ['NBA'], tokens: [{ token_id: 'token-yes' }, { token_id: 'token-no' }] }),
+            getMidpoint: vi.fn().mockResolvedValue({ mid: '0.5' }),
+        } as any;
+
+        const decision = await checkOrderRisk(runtime, client, order, [], [], logTarget);
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.context.marketTags).toEqual(['NBA']);
+        expect(runtime.databaseAdapter.log).toHaveBeenCalledWith(expect.objectContaining({
+            type: RISK_LOG_TYPE,
+            userId: 'user-1',
+            roomId: 'room-1',
+            body: expect.objectContaining({ allowed: false }),
+        }));
+    });
+
+    it('should refuse tag-restricted orders when the market lookup fails', async () => {
+        const runtime = createTestRuntime({ POLYMARKET_BLOCKED_TAGS: 'politics' });
+        const client = {
+            getOrderBook: vi.fn().mockResolvedValue({ error: 'No orderbook exists for the requested token id' }),
+            getMidpoint: vi.fn().mockResolvedValue({ mid: '0.5' }),
+        } as any;
+
+        const decision = await checkOrderRisk(runtime, client, order, [], [], logTarget);
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.context.marketTags).toBeNull();
+        expect(decision.violations).toEqual(["The market's tags could not be looked up, so the tag rules cannot be verified"]);
+    });
+
+    it('should read the market from the catalog and count resting buys against the limits', async () => {
+        const market = parseMarket({
+            condition_id: 'market-1', question: 'Lakers win?', tags: ['NBA'],
+            tokens: [{ token_id: 'token-yes', outcome: 'Yes' }, { token_id: 'token-no', outcome: 'No' }],
+        })!;
+        const runtime = createTestRuntime(
+            { POLYMARKET_MAX_DAILY_LOSS: '30', POLYMARKET_MAX_MARKET_EXPOSURE: '20', POLYMARKET_ALLOWED_TAGS: 'nba' },
+            withCatalog([market])
+        );
+        const client = { getOrderBook: vi.fn(), getMidpoint: vi.fn().mockResolvedValue({ mid: '0.5' }) } as any;
+        const openOrders = [openBuy('resting-no', 'token-no', 20, 0.4), openBuy('elsewhere', 'token-other', 30, 0.5)];
+
+        const decision = await checkOrderRisk(runtime, client, order, [], openOrders, logTarget);
+
+        expect(client.getOrderBook).not.toHaveBeenCalled();
+        expect(decision.context).toMatchObject({ marketId: 'market-1', marketTags: ['NBA'], marketExposure: 8, dailyLoss: 23 });
+        expect(decision.violations).toEqual([
+            "Today's worst-case loss would reach 33.00 USDC, above the daily limit of 30 USDC",
+        ]);
+
+        // The order being replaced doesn't count against its replacement
+        const replacement = await checkOrderRisk(runtime, client, { ...order, replacesOrderId: 'elsewhere' }, [], openOrders, logTarget);
+        expect(replacement.allowed).toBe(true);
+    });
+});
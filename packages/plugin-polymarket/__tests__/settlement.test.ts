@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseMarket } from '../src/model';
+import { getPaperLedger, type PaperPosition } from '../src/paperTrading';
+import type { TradeSummary } from '../src/portfolio';
+import { getSettledBets, settlePaperBets, settleResolvedBets, summarizeBetRecord, type SettledBet } from '../src/settlement';
+import { createTestRuntime, withCatalog } from './utils/runtime';
+
+function binary(conditionId: string, yesPrice: number, resolved?: 'Yes' | 'No') {
+    return {
+        condition_id: conditionId,
+        question: `Market ${conditionId}?`,
+        active: true,
+        closed: resolved !== undefined,
+        tokens: [
+            { token_id: `${conditionId}-yes`, outcome: 'Yes', price: yesPrice, winner: resolved === 'Yes' },
+            { token_id: `${conditionId}-no`, outcome: 'No', price: 1 - yesPrice, winner: resolved === 'No' },
+        ],
+    };
+}
+
+function createRuntime(catalog: Record<string, unknown>[], settings: Record<string, string> = {}) {
+    return createTestRuntime(settings, withCatalog(catalog.map((raw) => parseMarket(raw))));
+}
+
+function trade(tokenId: string, side: 'BUY' | 'SELL', price: number, size: number, market = tokenId.split('-')[0]): TradeSummary {
+    return {
+        tradeId: `${tokenId}-${side}-${price}`, market, tokenId, outcome: '', side, role: 'TAKER', price, size,
+        notional: price * size, status: 'CONFIRMED', matchTime: '2024-11-01T00:00:00.000Z', transactionHash: null,
+    };
+}
+
+function paperPosition(tokenId: string, size: number, avgPrice: number): PaperPosition {
+    return {
+        tokenId, size, avgPrice, realizedPnl: 0, sharesBought: size, sharesSold: 0, staked: size * avgPrice, proceeds: 0,
+        openedAt: 'then', updatedAt: 'then',
+    };
+}
+
+function bet(entryPrice: number, won: boolean): SettledBet {
+    return {
+        tokenId: `t-${entryPrice}-${won}`, conditionId: 'c', question: 'q', outcome: 'Yes', mode: 'live', won, entryPrice,
+        sharesBought: 10, sharesHeld: 10, staked: entryPrice * 10, proceeds: 0, payout: won ? 10 : 0,
+        realizedPnl: won ? 10 - entryPrice * 10 : -entryPrice * 10, openedAt: null, settledAt: 'now',
+    };
+}
+
+describe('Bet settlement', () => {
+    it('should settle bets on resolved markets with payout and realized P&L, once', async () => {
+        const runtime = createRuntime([binary('won', 0.4, 'Yes'), binary('lost', 0.7, 'No'), binary('open', 0.5)]);
+        const client = { getMarket: vi.fn(async (id: string) => binary(id, 0.5)) } as any;
+        const trades = [
+            trade('won-yes', 'BUY', 0.4, 20),
+            trade('won-yes', 'SELL', 0.6, 5),
+            trade('lost-yes', 'BUY', 0.7, 10),
+            trade('open-yes', 'BUY', 0.5, 10),
+        ];
+
+        const settled = await settleResolvedBets(runtime, client, trades, 'live');
+
+        expect(settled).toHaveLength(2);
+        expect(settled.find((b) => b.tokenId === 'won-yes')).toMatchObject({
+            won: true, entryPrice: 0.4, staked: 8, proceeds: 3, sharesHeld: 15, payout: 15, realizedPnl: 10,
+        });
+        expect(settled.find((b) => b.tokenId === 'lost-yes')).toMatchObject({ won: false, payout: 0, realizedPnl: -7 });
+        // The open market was checked for a fresh resolution instead of trusting the catalog
+        expect(client.getMarket).toHaveBeenCalledWith('open');
+
+        expect(await settleResolvedBets(runtime, client, trades, 'live')).toEqual([]);
+        expect(await getSettledBets(runtime, 'live')).toHaveLength(2);
+    });
+
+    it('should find paper bets by token and pay them out in the ledger', async () => {
+        const runtime = createRuntime([binary('won', 0.4, 'Yes')], { POLYMARKET_PAPER_TRADING: 'true' });
+        const ledger = await getPaperLedger(runtime);
+        ledger.cash = 992;
+        ledger.positions['won-yes'] = paperPosition('won-yes', 20, 0.4);
+        await runtime.cacheManager.set('polymarket/paper/ledger', ledger);
+
+        const settled = await settleResolvedBets(runtime, {} as any, [trade('won-yes', 'BUY', 0.4, 20, '')]);
+
+        expect(settled).toMatchObject([{ mode: 'paper', conditionId: 'won', won: true, realizedPnl: 12 }]);
+        const redeemed = await getPaperLedger(runtime);
+        expect(redeemed.cash).toBe(1012);
+        expect(redeemed.positions['won-yes']).toMatchObject({ size: 0, realizedPnl: 12 });
+    });
+
+    it('should settle paper bets from the position totals once their fills are trimmed', async () => {
+        const runtime = createRuntime([binary('won', 0.4, 'Yes'), binary('lost', 0.7, 'No')], { POLYMARKET_PAPER_TRADING: 'true' });
+        const ledger = await getPaperLedger(runtime);
+        ledger.positions['won-yes'] = paperPosition('won-yes', 20, 0.4);
+        ledger.positions['lost-yes'] = paperPosition('lost-yes', 10, 0.7);
+        await runtime.cacheManager.set('polymarket/paper/ledger', ledger);
+
+        const settled = await settlePaperBets(runtime, {} as any);
+
+        expect(settled.map((b) => `${b.tokenId}:${b.won}:${b.realizedPnl}`).sort()).toEqual(['lost-yes:false:-7', 'won-yes:true:12']);
+        expect(await settlePaperBets(runtime, {} as any)).toEqual([]);
+    });
+
+    it('should not settle a closed market before a winner is declared', async () => {
+        const pending = { ...binary('pending', 0.5), closed: true };
+        const runtime = createRuntime([pending]);
+        expect(await settleResolvedBets(runtime, {} as any, [trade('pending-yes', 'BUY', 0.5, 10)], 'live')).toEqual([]);
+    });
+});
+
+describe('Bet record', () => {
+    it('should report win rate, ROI, Brier score and calibration buckets', () => {
+        const record = summarizeBetRecord('agent-1', 'live', [bet(0.7, true), bet(0.7, true), bet(0.75, false), bet(0.3, true)]);
+
+        expect(record).toMatchObject({ bets: 4, wins: 3, losses: 1, winRate: 0.75, staked: 24.5, realizedPnl: 5.5, roi: 0.2245 });
+        expect(record.brierScore).toBeCloseTo((0.09 + 0.09 + 0.5625 + 0.49) / 4, 4);
+        expect(record.calibration).toEqual([
+            { range: '20-40%', bets: 1, expectedWinRate: 0.3, actualWinRate: 1 },
+            { range: '60-80%', bets: 3, expectedWinRate: 0.7167, actualWinRate: 0.6667 },
+        ]);
+    });
+
+    it('should report no rates without settled bets', () => {
+        expect(summarizeBetRecord('agent-1', 'paper', [])).toMatchObject({ bets: 0, winRate: null, roi: null, brierScore: null, calibration: [] });
+    });
+});
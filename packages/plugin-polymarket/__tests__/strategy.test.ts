@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateText } from '@elizaos/core';
+import {
+    describeStrategy,
+    getStrategies,
+    getStrategyJournal,
+    parseStrategies,
+    pickStrategyOutcome,
+    selectStrategyMarkets,
+    STRATEGY_LOG_TYPE,
+    StrategyError,
+} from '../src/strategy';
+import { StrategyRunnerService } from '../src/strategyService';
+import { getPolymarketClient } from '../src/provider';
+import { parseMarket } from '../src/model';
+import { startMockClobServer, type MockClobServer } from './utils/mockClobServer';
+import { FED_MARKET_ID, FED_YES_TOKEN } from './utils/clobFixtures';
+import { createTestRuntime } from './utils/runtime';
+
+vi.mock('@elizaos/core', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@elizaos/core')>()),
+    generateText: vi.fn(async () => 'Generated reply'),
+}));
+
+const fedMovers = {
+    id: 'fed-movers',
+    every: '1h',
+    markets: { tags: ['Fed Rates'] },
+    trigger: { type: 'price_move', minMove: 0.05, window: '1d' },
+    order: { outcome: 'favorite', side: 'BUY', amount: 5 },
+};
+
+function createRuntime(settings: Record<string, unknown> = {}) {
+    return createTestRuntime({ POLYMARKET_PAPER_TRADING: 'true', ...settings });
+}
+
+describe('Betting strategies', () => {
+    it('should fill in defaults and read the settings block', () => {
+        const [strategy] = getStrategies(createRuntime({ polymarket: { strategies: [fedMovers] } }));
+
+        expect(strategy).toMatchObject({ everyMinutes: 60, enabled: true, maxOrdersPerRun: 1, cooldownHours: 24, dryRun: false });
+        expect(strategy.order.orderType).toBe('GTC');
+        expect(strategy.trigger).toMatchObject({ direction: 'any' });
+        expect(describeStrategy(strategy)).toBe(
+            'every 1h, BUY up to $5 of the favorite on markets tagged Fed Rates where it moved 5c or more in 1d'
+        );
+        expect(getStrategies(createRuntime({ POLYMARKET_STRATEGIES: JSON.stringify(fedMovers) }))).toHaveLength(1);
+    });
+
+    it('should name the strategy and field that are wrong', () => {
+        expect(() => parseStrategies([{ ...fedMovers, every: 'hourly' }])).toThrow(
+            'Polymarket strategy "fed-movers" is invalid: every:'
+        );
+        expect(() => parseStrategies([{ ...fedMovers, order: { amount: 5, orderType: 'GTD' } }])).toThrow('needs an expiry');
+        expect(() => parseStrategies([fedMovers, fedMovers])).toThrow(StrategyError);
+    });
+
+    it('should pick open markets by tag and the favorite or a named outcome', () => {
+        const markets = [
+            parseMarket({ condition_id: 'a', question: 'Lakers win?', active: true, accepting_orders: true, tags: ['NBA'], liquidity: 10, tokens: [{ token_id: 'a-yes', outcome: 'Yes', price: 0.3 }, { token_id: 'a-no', outcome: 'No', price: 0.7 }] })!,
+            parseMarket({ condition_id: 'b', question: 'Celtics win?', active: true, accepting_orders: false, tags: ['NBA'], tokens: [] })!,
+            parseMarket({ condition_id: 'c', question: 'Fed cut?', active: true, accepting_orders: true, tags: ['Fed Rates'], tokens: [] })!,
+        ];
+        const [strategy] = parseStrategies([{ ...fedMovers, markets: { tags: ['nba'] } }]);
+
+        const selected = selectStrategyMarkets(strategy, markets);
+        expect(selected.map((market) => market.conditionId)).toEqual(['a']);
+        expect(pickStrategyOutcome(selected[0], 'favorite')?.outcome).toBe('No');
+        expect(pickStrategyOutcome(selected[0], 'underdog')?.outcome).toBe('Yes');
+        expect(pickStrategyOutcome(selected[0], 'yes')?.tokenId).toBe('a-yes');
+    });
+
+    describe('runner', () => {
+        let clob: MockClobServer;
+        let restoreClobUrl: () => void;
+
+        beforeEach(async () => {
+            clob = await startMockClobServer();
+            restoreClobUrl = clob.useAsClobApi();
+            vi.spyOn(console, 'log').mockImplementation(() => {});
+        });
+
+        afterEach(async () => {
+            restoreClobUrl();
+            await clob.close();
+            vi.restoreAllMocks();
+        });
+
+        it('should place the order through the bet path, journal it and cool down', async () => {
+            const runtime = createRuntime({ polymarket: { strategies: [fedMovers] } });
+            const service = new StrategyRunnerService();
+            await service.initialize(runtime);
+            service.stop(runtime);
+            const client = await getPolymarketClient(runtime);
+            const now = Date.now();
+
+            const [decision] = await service.runDue(runtime, client, now);
+            expect(decision).toMatchObject({
+                strategyId: 'fed-movers',
+                conditionId: FED_MARKET_ID,
+                tokenId: FED_YES_TOKEN,
+                decision: 'ordered',
+                order: { side: 'BUY', amount: 5, price: 0.62 },
+            });
+            expect(decision.reason).toContain('Yes moved +0.07 in 1d (0.55 → 0.62)');
+            expect(decision.orderId).toBeTruthy();
+            expect(runtime.databaseAdapter.log).toHaveBeenCalledWith(expect.objectContaining({ type: STRATEGY_LOG_TYPE }));
+            // Nobody reads the reply, so none is generated
+            expect(runtime.composeState).not.toHaveBeenCalled();
+            expect(generateText).not.toHaveBeenCalled();
+
+            // Not due again until the hour is up, then the outcome is cooling down
+            expect(await service.runDue(runtime, client, now + 10 * 60 * 1000)).toEqual([]);
+            const [later] = await service.runDue(runtime, client, now + 61 * 60 * 1000);
+            expect(later).toMatchObject({ decision: 'skipped' });
+            expect(later.reason).toContain('cooling down');
+
+            expect((await getStrategyJournal(runtime, 'fed-movers')).map((entry) => entry.decision)).toEqual(['ordered', 'skipped']);
+        });
+
+        it('should journal refusals from the risk policy and skipped triggers without ordering', async () => {
+            const runtime = createRuntime({
+                polymarket: { strategies: [fedMovers, { ...fedMovers, id: 'big-movers', trigger: { type: 'price_move', minMove: 0.2 } }] },
+                POLYMARKET_MAX_STAKE_PER_BET: '2',
+            });
+            const service = new StrategyRunnerService();
+            await service.initialize(runtime);
+            service.stop(runtime);
+
+            const decisions = await service.runDue(runtime, await getPolymarketClient(runtime));
+
+            expect(decisions.map((entry) => `${entry.strategyId}:${entry.decision}`)).toEqual(['fed-movers:refused', 'big-movers:skipped']);
+            expect(decisions[0].reason).toContain('exceeds the maximum of 2 USDC per bet');
+            expect(decisions[1].reason).toContain('less than the 0.2 required');
+        });
+
+        it('should refuse to order when orders need confirmation, but still dry run', async () => {
+            const runtime = createRuntime({
+                polymarket: { strategies: [fedMovers, { ...fedMovers, id: 'fed-dry-run', dryRun: true }] },
+                POLYMARKET_REQUIRE_CONFIRMATION: 'true',
+            });
+            const service = new StrategyRunnerService();
+            await service.initialize(runtime);
+            service.stop(runtime);
+
+            const decisions = await service.runDue(runtime, await getPolymarketClient(runtime));
+
+            expect(decisions.map((entry) => `${entry.strategyId}:${entry.decision}`)).toEqual(['fed-movers:refused', 'fed-dry-run:dry_run']);
+            expect(decisions[0].reason).toContain('orders wait for confirmation');
+            expect(decisions[0].orderId).toBeNull();
+        });
+    });
+});
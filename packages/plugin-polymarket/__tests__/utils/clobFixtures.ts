@@ -0,0 +1,187 @@
+// Responses recorded from the public CLOB API (trimmed to a few markets and
+// with account data anonymized). Served by the mock CLOB server.
+
+export const FED_MARKET_ID = '0x5f65177b394277fd294cd75650044e32ba009a95022d88a0c1d565897d72f8f1';
+export const BTC_MARKET_ID = '0x9c1a953fe92c8357f1b646ba25d983aa83e90c525992db14fb726fa895cb5763';
+export const ELECTION_MARKET_ID = '0xdd22472e552920b8438158ea7238bfadfa4f736aa4cee91a6b86c39ead110917';
+
+export const FED_YES_TOKEN = '71321045679252212594626385532706912750332728571942532289631379312455583992563';
+export const FED_NO_TOKEN = '52114319501245915516055106046884209969926127482827954674443846427813813222426';
+export const BTC_YES_TOKEN = '110911393156699128240765920158928840337199547754402639514182164506911446042781';
+export const BTC_NO_TOKEN = '12174885425237946011553539186541211592125436584536432539436106473315208116069';
+
+export const ACCOUNT_ADDRESS = '0x2a4c5b0f4f1e5a52cbd0a0d1e7c0b3f7d9e4c81a';
+
+// The API credentials the account's signer derives; L2 requests must carry this key
+export const API_CREDENTIALS = {
+    apiKey: 'test-api-key',
+    secret: 'dGVzdC1zZWNyZXQtZm9yLW1vY2stY2xvYg==',
+    passphrase: 'test-passphrase',
+};
+
+export interface RecordedBook {
+    market: string;
+    bids: { price: string; size: string }[];
+    asks: { price: string; size: string }[];
+}
+
+export interface ClobFixtures {
+    markets: Record<string, unknown>[];
+    books: Record<string, RecordedBook>;
+    priceHistory: Record<string, { t: number; p: number }[]>;
+    balance: { balance: string; allowance: string };
+    openOrders: Record<string, unknown>[];
+    trades: Record<string, unknown>[];
+    // Null until the signer creates an API key
+    apiCredentials: { apiKey: string; secret: string; passphrase: string } | null;
+}
+
+function binaryMarket(overrides: Record<string, unknown>, yesToken: string, noToken: string, yesPrice: number) {
+    return {
+        enable_order_book: true,
+        active: true,
+        closed: false,
+        archived: false,
+        accepting_orders: true,
+        accepting_order_timestamp: '2024-01-05T17:20:11Z',
+        minimum_order_size: 5,
+        minimum_tick_size: 0.01,
+        description: '',
+        end_date_iso: '2030-12-31T00:00:00Z',
+        game_start_time: null,
+        seconds_delay: 0,
+        fpmm: '',
+        maker_base_fee: 0,
+        taker_base_fee: 0,
+        notifications_enabled: true,
+        neg_risk: false,
+        neg_risk_market_id: '',
+        neg_risk_request_id: '',
+        icon: '',
+        image: '',
+        rewards: { rates: null, min_size: 0, max_spread: 0 },
+        is_50_50_outcome: false,
+        tags: [],
+        tokens: [
+            { token_id: yesToken, outcome: 'Yes', price: yesPrice, winner: false },
+            { token_id: noToken, outcome: 'No', price: Math.round((1 - yesPrice) * 1000) / 1000, winner: false },
+        ],
+        ...overrides,
+    };
+}
+
+// Fresh copies so a test can mutate its fixtures without leaking into others
+export function createClobFixtures(): ClobFixtures {
+    return {
+        markets: [
+            binaryMarket({
+                condition_id: FED_MARKET_ID,
+                question_id: '0x8a2f3f3b5e0c3c9e4d4c7f6a1b2e9d0c8f7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c',
+                question: 'Will the Fed cut rates in December?',
+                description: 'Resolves YES if the FOMC lowers the federal funds target range at its December meeting.',
+                market_slug: 'fed-rate-cut-in-december',
+                tags: ['Economy', 'Fed Rates'],
+                end_date_iso: '2030-12-10T00:00:00Z',
+            }, FED_YES_TOKEN, FED_NO_TOKEN, 0.62),
+            binaryMarket({
+                condition_id: BTC_MARKET_ID,
+                question_id: '0x1b3d5f7a9c2e4f6a8b0d2c4e6f8a0b2d4c6e8f0a2b4d6c8e0f2a4b6d8c0e2f4a',
+                question: 'Will Bitcoin reach $150k by the end of the year?',
+                market_slug: 'bitcoin-150k-by-end-of-year',
+                tags: ['Crypto', 'Bitcoin'],
+                end_date_iso: '2030-12-31T00:00:00Z',
+            }, BTC_YES_TOKEN, BTC_NO_TOKEN, 0.18),
+            binaryMarket({
+                condition_id: ELECTION_MARKET_ID,
+                question_id: '0x2c4e6a8b0d2f4a6c8e0b2d4f6a8c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c',
+                question: 'Will the incumbent win the 2024 election?',
+                market_slug: 'incumbent-wins-2024-election',
+                tags: ['Politics', 'Elections'],
+                active: true,
+                closed: true,
+                accepting_orders: false,
+                end_date_iso: '2024-11-05T00:00:00Z',
+                tokens: [
+                    { token_id: '98765432109876543210', outcome: 'Yes', price: 0, winner: false },
+                    { token_id: '12345678901234567890', outcome: 'No', price: 1, winner: true },
+                ],
+            }, '98765432109876543210', '12345678901234567890', 0),
+        ],
+        books: {
+            [FED_YES_TOKEN]: {
+                market: FED_MARKET_ID,
+                bids: [
+                    { price: '0.59', size: '1200' },
+                    { price: '0.6', size: '850.5' },
+                    { price: '0.61', size: '300' },
+                ],
+                asks: [
+                    { price: '0.65', size: '2100' },
+                    { price: '0.64', size: '640' },
+                    { price: '0.63', size: '410' },
+                ],
+            },
+            [FED_NO_TOKEN]: {
+                market: FED_MARKET_ID,
+                bids: [{ price: '0.36', size: '900' }, { price: '0.37', size: '410' }],
+                asks: [{ price: '0.4', size: '1500' }, { price: '0.39', size: '300' }],
+            },
+            [BTC_YES_TOKEN]: {
+                market: BTC_MARKET_ID,
+                bids: [{ price: '0.17', size: '5000' }],
+                asks: [{ price: '0.19', size: '4200' }],
+            },
+        },
+        priceHistory: {
+            [FED_YES_TOKEN]: [
+                { t: 1733000400, p: 0.55 },
+                { t: 1733004000, p: 0.58 },
+                { t: 1733007600, p: 0.6 },
+                { t: 1733011200, p: 0.62 },
+            ],
+        },
+        balance: { balance: '250000000', allowance: '1000000000' },
+        apiCredentials: { ...API_CREDENTIALS },
+        openOrders: [
+            {
+                id: '0xa1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90',
+                status: 'LIVE',
+                owner: 'test-api-key',
+                market: FED_MARKET_ID,
+                asset_id: FED_YES_TOKEN,
+                side: 'BUY',
+                original_size: '50',
+                size_matched: '10',
+                price: '0.55',
+                associate_trades: [],
+                outcome: 'Yes',
+                outcome_index: 0,
+                created_at: 1733004000,
+                expiration: '0',
+                type: 'GTC',
+            },
+        ],
+        trades: [
+            {
+                id: 'f1e2d3c4-b5a6-4978-8a9b-0c1d2e3f4a5b',
+                taker_order_id: '0x7f6e5d4c3b2a1908f7e6d5c4b3a29180f7e6d5c4b3a29180f7e6d5c4b3a29180',
+                market: FED_MARKET_ID,
+                asset_id: FED_YES_TOKEN,
+                side: 'BUY',
+                size: '20',
+                fee_rate_bps: '0',
+                price: '0.5',
+                status: 'CONFIRMED',
+                match_time: '1733000400',
+                last_update: '1733000460',
+                outcome: 'Yes',
+                bucket_index: 0,
+                owner: 'test-api-key',
+                maker_address: ACCOUNT_ADDRESS,
+                maker_orders: [],
+                transaction_hash: '0x3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d',
+                trader_side: 'TAKER',
+            },
+        ],
+    };
+}
@@ -0,0 +1,346 @@
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { type ClobFixtures, createClobFixtures } from './clobFixtures';
+
+// Offline stand-in for the Polymarket CLOB API. It serves the recorded
+// fixtures for the market, order book, price, balance, order and API key
+// endpoints the plugin uses, keeps posted orders in memory, and can be told to
+// fail the next requests to a path with a given status (401, 429, 5xx, ...).
+//
+//     const clob = await startMockClobServer();
+//     const restore = clob.useAsClobApi(); // points CLOB_API_URL at the server
+//     ...
+//     restore();
+//     await clob.close();
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    query: Record<string, string>;
+    headers: IncomingHttpHeaders;
+    body: any;
+}
+
+export interface InjectedFailure {
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+    // How many matching requests fail before the route recovers (default 1)
+    times?: number;
+}
+
+export interface MockClobServerOptions {
+    fixtures?: Partial<ClobFixtures>;
+    // Markets per /markets page, paged with base64 offset cursors like the real API
+    pageSize?: number;
+}
+
+export interface MockClobServer {
+    url: string;
+    fixtures: ClobFixtures;
+    requests: RecordedRequest[];
+    fail(method: string, path: string, failure: InjectedFailure): void;
+    requestsTo(method: string, path: string): RecordedRequest[];
+    useAsClobApi(): () => void;
+    close(): Promise<void>;
+}
+
+interface Reply {
+    status?: number;
+    body: unknown;
+    headers?: Record<string, string>;
+}
+
+type Route = (request: RecordedRequest, params: string[]) => Reply;
+
+const END_CURSOR = 'LTE=';
+
+const DEFAULT_ERROR_BODIES: Record<number, unknown> = {
+    401: { error: 'Unauthorized/Invalid api key' },
+    404: { error: 'Not found' },
+    429: { error: 'Too Many Requests' },
+    500: { error: 'Internal Server Error' },
+    502: { error: 'Bad Gateway' },
+    503: { error: 'Service Unavailable' },
+};
+
+function encodeCursor(offset: number): string {
+    return Buffer.from(`${offset}`).toString('base64');
+}
+
+function decodeCursor(cursor: string | undefined): number {
+    if (!cursor) {
+        return 0;
+    }
+    const offset = Number.parseInt(Buffer.from(cursor, 'base64').toString(), 10);
+    return Number.isFinite(offset) ? offset : 0;
+}
+
+// L1 endpoints (API key management) need the wallet-signed POLY_* headers
+function isWalletSigned(request: RecordedRequest): boolean {
+    return Boolean(request.headers.poly_address && request.headers.poly_signature && request.headers.poly_nonce !== undefined);
+}
+
+// L2 endpoints need the HMAC-signed POLY_* headers with the account's API key
+function isAuthenticated(request: RecordedRequest, fixtures: ClobFixtures): boolean {
+    return Boolean(
+        request.headers.poly_address &&
+        request.headers.poly_signature &&
+        request.headers.poly_api_key &&
+        request.headers.poly_api_key === fixtures.apiCredentials?.apiKey
+    );
+}
+
+function bestPrice(levels: { price: string }[], pick: (...values: number[]) => number): number | null {
+    return levels.length > 0 ? pick(...levels.map((level) => Number.parseFloat(level.price))) : null;
+}
+
+function createRoutes(fixtures: ClobFixtures, pageSize: number): [string, RegExp, Route, boolean][] {
+    let nextOrder = 1;
+    let nextApiKey = 1;
+
+    const bookFor = (tokenId: string) => fixtures.books[tokenId];
+    const noBook: Reply = { status: 404, body: { error: 'No orderbook exists for the requested token id' } };
+
+    const cancel = (orderIds: string[]) => {
+        const canceled: string[] = [];
+        const notCanceled: Record<string, string> = {};
+        for (const orderId of orderIds) {
+            const index = fixtures.openOrders.findIndex((order) => order.id === orderId);
+            if (index === -1) {
+                notCanceled[orderId] = 'Order not found or already canceled';
+            } else {
+                fixtures.openOrders.splice(index, 1);
+                canceled.push(orderId);
+            }
+        }
+        return { body: { canceled, not_canceled: notCanceled } };
+    };
+
+    const walletSigned = (route: Route): Route => (request, params) =>
+        isWalletSigned(request) ? route(request, params) : { status: 401, body: { error: 'Invalid L1 Request headers' } };
+
+    return [
+        ['GET', /^\/time$/, () => ({ body: Math.floor(Date.now() / 1000) }), false],
+        ['GET', /^\/derive-api-key$/, walletSigned(() =>
+            fixtures.apiCredentials
+                ? { body: fixtures.apiCredentials }
+                : { status: 400, body: { error: 'Could not derive api key!' } }
+        ), false],
+        ['POST', /^\/create-api-key$/, walletSigned(() => {
+            fixtures.apiCredentials = {
+                apiKey: `created-api-key-${nextApiKey++}`,
+                secret: Buffer.from(`created-secret-${nextApiKey}`).toString('base64'),
+                passphrase: `created-passphrase-${nextApiKey}`,
+            };
+            return { body: fixtures.apiCredentials };
+        }), false],
+        ['GET', /^\/get-api-keys$/, () => ({ body: { apiKeys: [fixtures.apiCredentials?.apiKey] } }), true],
+        ['GET', /^\/markets$/, (request) => {
+            const offset = decodeCursor(request.query.next_cursor);
+            const data = fixtures.markets.slice(offset, offset + pageSize);
+            const end = offset + pageSize >= fixtures.markets.length;
+            return {
+                body: { limit: pageSize, count: data.length, next_cursor: end ? END_CURSOR : encodeCursor(offset + pageSize), data },
+            };
+        }, false],
+        ['GET', /^\/markets\/([^/]+)$/, (_request, [conditionId]) => {
+            const market = fixtures.markets.find((candidate) => candidate.condition_id === conditionId);
+            return market ? { body: market } : { status: 404, body: { error: 'market not found' } };
+        }, false],
+        ['GET', /^\/book$/, (request) => {
+            const book = bookFor(request.query.token_id);
+            if (!book) {
+                return noBook;
+            }
+            return {
+                body: {
+                    market: book.market,
+                    asset_id: request.query.token_id,
+                    timestamp: `${Date.now()}`,
+                    hash: `0x${Buffer.from(request.query.token_id).toString('hex').slice(0, 40)}`,
+                    bids: book.bids,
+                    asks: book.asks,
+                    min_order_size: '5',
+                    tick_size: '0.01',
+                    neg_risk: false,
+                },
+            };
+        }, false],
+        ['GET', /^\/midpoint$/, (request) => {
+            const book = bookFor(request.query.token_id);
+            const bid = book && bestPrice(book.bids, Math.max);
+            const ask = book && bestPrice(book.asks, Math.min);
+            return bid != null && ask != null ? { body: { mid: `${(bid + ask) / 2}` } } : noBook;
+        }, false],
+        ['GET', /^\/price$/, (request) => {
+            const book = bookFor(request.query.token_id);
+            // BUY is quoted at the best ask, SELL at the best bid
+            const price = book && (request.query.side === 'SELL' ? bestPrice(book.bids, Math.max) : bestPrice(book.asks, Math.min));
+            return price != null ? { body: { price: `${price}` } } : noBook;
+        }, false],
+        ['GET', /^\/prices-history$/, (request) => ({ body: { history: fixtures.priceHistory[request.query.market] ?? [] } }), false],
+        ['GET', /^\/balance-allowance$/, () => ({ body: fixtures.balance }), true],
+        ['GET', /^\/orders$/, (request) => ({
+            body: fixtures.openOrders.filter((order) =>
+                (!request.query.market || order.market === request.query.market) &&
+                (!request.query.asset_id || order.asset_id === request.query.asset_id) &&
+                (!request.query.id || order.id === request.query.id)
+            ),
+        }), true],
+        ['GET', /^\/order\/([^/]+)$/, (_request, [orderId]) => {
+            const order = fixtures.openOrders.find((candidate) => candidate.id === orderId);
+            return order ? { body: order } : { status: 404, body: { error: 'order not found' } };
+        }, true],
+        ['GET', /^\/trades$/, () => ({ body: fixtures.trades }), true],
+        ['POST', /^\/order$/, (request) => {
+            const { order, owner, orderType } = request.body ?? {};
+            if (!order?.tokenId || !order?.signature) {
+                return { status: 400, body: { error: 'Invalid order payload' } };
+            }
+
+            // Amounts are in 6-decimal base units: BUY pays USDC for shares, SELL the reverse
+            const maker = Number(order.makerAmount) / 1e6;
+            const taker = Number(order.takerAmount) / 1e6;
+            const size = order.side === 'BUY' ? taker : maker;
+            const price = order.side === 'BUY' ? maker / taker : taker / maker;
+            const id = `0x${(nextOrder++).toString(16).padStart(64, '0')}`;
+            const market = fixtures.markets.find((candidate) =>
+                (candidate.tokens as any[]).some((token) => token.token_id === order.tokenId)
+            );
+            const outcome = (market?.tokens as any[] | undefined)?.find((token) => token.token_id === order.tokenId)?.outcome;
+
+            // Market orders fill against the book on arrival and never rest
+            if (orderType === 'FOK' || orderType === 'FAK') {
+                return { body: { success: true, errorMsg: '', orderID: id, transactionsHashes: [], status: 'matched' } };
+            }
+
+            fixtures.openOrders.push({
+                id,
+                status: 'LIVE',
+                owner,
+                market: market?.condition_id ?? '',
+                asset_id: order.tokenId,
+                side: order.side,
+                original_size: `${Math.round(size * 100) / 100}`,
+                size_matched: '0',
+                price: `${Math.round(price * 1000) / 1000}`,
+                associate_trades: [],
+                outcome: outcome ?? '',
+                outcome_index: outcome === 'No' ? 1 : 0,
+                created_at: Math.floor(Date.now() / 1000),
+                expiration: order.expiration ?? '0',
+                type: orderType ?? 'GTC',
+            });
+            return { body: { success: true, errorMsg: '', orderID: id, transactionsHashes: [], status: 'live' } };
+        }, true],
+        ['DELETE', /^\/order$/, (request) => cancel([request.body?.orderID]), true],
+        ['DELETE', /^\/orders$/, (request) => cancel(Array.isArray(request.body) ? request.body : []), true],
+        ['DELETE', /^\/cancel-all$/, () => cancel(fixtures.openOrders.map((order) => `${order.id}`)), true],
+    ];
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('error', reject);
+        req.on('end', () => {
+            const text = Buffer.concat(chunks).toString();
+            if (!text) {
+                resolve(undefined);
+                return;
+            }
+            try {
+                resolve(JSON.parse(text));
+            } catch {
+                resolve(text);
+            }
+        });
+    });
+}
+
+function send(res: ServerResponse, reply: Reply): void {
+    res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json', ...reply.headers });
+    res.end(JSON.stringify(reply.body));
+}
+
+export async function startMockClobServer(options: MockClobServerOptions = {}): Promise<MockClobServer> {
+    const fixtures: ClobFixtures = { ...createClobFixtures(), ...options.fixtures };
+    const routes = createRoutes(fixtures, options.pageSize ?? 100);
+    const failures = new Map<string, InjectedFailure[]>();
+    const requests: RecordedRequest[] = [];
+
+    const server = createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const request: RecordedRequest = {
+            method: req.method ?? 'GET',
+            path: url.pathname,
+            query: Object.fromEntries(url.searchParams),
+            headers: req.headers,
+            body: await readBody(req),
+        };
+        requests.push(request);
+
+        const queued = failures.get(`${request.method} ${request.path}`);
+        const failure = queued?.[0];
+        if (failure) {
+            failure.times = (failure.times ?? 1) - 1;
+            if (failure.times <= 0) {
+                queued.shift();
+            }
+            send(res, {
+                status: failure.status,
+                body: failure.body ?? DEFAULT_ERROR_BODIES[failure.status] ?? { error: `HTTP ${failure.status}` },
+                headers: failure.headers,
+            });
+            return;
+        }
+
+        for (const [method, pattern, route, authenticated] of routes) {
+            const match = request.method === method ? pattern.exec(request.path) : null;
+            if (!match) {
+                continue;
+            }
+            if (authenticated && !isAuthenticated(request, fixtures)) {
+                send(res, { status: 401, body: DEFAULT_ERROR_BODIES[401] });
+                return;
+            }
+            send(res, route(request, match.slice(1).map(decodeURIComponent)));
+            return;
+        }
+
+        send(res, { status: 404, body: { error: `No mock route for ${request.method} ${request.path}` } });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        fixtures,
+        requests,
+        fail(method, path, failure) {
+            const key = `${method.toUpperCase()} ${path}`;
+            failures.set(key, [...(failures.get(key) ?? []), { ...failure }]);
+        },
+        requestsTo(method, path) {
+            return requests.filter((request) => request.method === method.toUpperCase() && request.path === path);
+        },
+        useAsClobApi() {
+            const previous = process.env.CLOB_API_URL;
+            process.env.CLOB_API_URL = url;
+            return () => {
+                if (previous === undefined) {
+                    delete process.env.CLOB_API_URL;
+                } else {
+                    process.env.CLOB_API_URL = previous;
+                }
+            };
+        },
+        close() {
+            server.closeAllConnections();
+            return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+        },
+    };
+}
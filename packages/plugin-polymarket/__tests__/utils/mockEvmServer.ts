@@ -0,0 +1,241 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { parse as parseTransaction } from '@ethersproject/transactions';
+import { Chain } from '@polymarket/clob-client';
+import { POLYMARKET_CONTRACTS } from '../../src/allowances';
+
+// Offline stand-in for a Polygon JSON-RPC node. It answers the calls ethers
+// makes to read and send ERC-20 allowances and ERC-1155 operator approvals,
+// mines every raw transaction into its own block right away, and applies
+// approve / setApprovalForAll to its in-memory state.
+//
+//     const evm = await startMockEvmServer();
+//     evm.approveAll(OWNER); // or leave the owner unapproved
+//     const restore = evm.useAsRpc(); // points RPC_PROVIDER_URL at the server
+//     ...
+//     restore();
+//     await evm.close();
+
+const SELECTORS = {
+    allowance: '0xdd62ed3e',
+    approve: '0x095ea7b3',
+    isApprovedForAll: '0xe985e9c5',
+    setApprovalForAll: '0xa22cb465',
+};
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+
+export interface SentTransaction {
+    hash: string;
+    from: string;
+    to: string;
+    data: string;
+    blockNumber: number;
+    // Whether the call was one the stand-in understands; others revert
+    status: 0 | 1;
+}
+
+export interface MockEvmServer {
+    url: string;
+    chainId: number;
+    methods: string[];
+    transactions: SentTransaction[];
+    allowance(token: string, owner: string, spender: string): bigint;
+    setAllowance(token: string, owner: string, spender: string, amount: bigint): void;
+    isApprovedForAll(token: string, owner: string, operator: string): boolean;
+    setApprovalForAll(token: string, owner: string, operator: string, approved: boolean): void;
+    // Every approval the Polymarket contracts on this chain need, as if trading was enabled
+    approveAll(owner: string): void;
+    useAsRpc(): () => void;
+    close(): Promise<void>;
+}
+
+function word(data: string, index: number): string {
+    return data.slice(10 + index * 64, 10 + (index + 1) * 64);
+}
+
+function wordAddress(data: string, index: number): string {
+    return `0x${word(data, index).slice(24)}`.toLowerCase();
+}
+
+function encodeWord(value: bigint): string {
+    return `0x${value.toString(16).padStart(64, '0')}`;
+}
+
+function hex(value: number | bigint): string {
+    return `0x${value.toString(16)}`;
+}
+
+export async function startMockEvmServer(options: { chainId?: number } = {}): Promise<MockEvmServer> {
+    const chainId = options.chainId ?? Chain.POLYGON;
+    const allowances = new Map<string, bigint>();
+    const operators = new Set<string>();
+    const nonces = new Map<string, number>();
+    const methods: string[] = [];
+    const transactions: SentTransaction[] = [];
+    let blockNumber = 1;
+
+    const key = (...parts: string[]) => parts.map((part) => part.toLowerCase()).join(':');
+
+    const call = (to: string, data: string): string => {
+        const selector = data.slice(0, 10);
+        if (selector === SELECTORS.allowance) {
+            return encodeWord(allowances.get(key(to, wordAddress(data, 0), wordAddress(data, 1))) ?? 0n);
+        }
+        if (selector === SELECTORS.isApprovedForAll) {
+            return encodeWord(operators.has(key(to, wordAddress(data, 0), wordAddress(data, 1))) ? 1n : 0n);
+        }
+        throw new Error(`execution reverted: unknown call ${selector}`);
+    };
+
+    const execute = (from: string, to: string, data: string): 0 | 1 => {
+        const selector = data.slice(0, 10);
+        if (selector === SELECTORS.approve) {
+            allowances.set(key(to, from, wordAddress(data, 0)), BigInt(`0x${word(data, 1)}`));
+            return 1;
+        }
+        if (selector === SELECTORS.setApprovalForAll) {
+            const operator = key(to, from, wordAddress(data, 0));
+            if (BigInt(`0x${word(data, 1)}`) === 0n) {
+                operators.delete(operator);
+            } else {
+                operators.add(operator);
+            }
+            return 1;
+        }
+        return 0;
+    };
+
+    const block = (number: number) => ({
+        number: hex(number),
+        hash: `0x${number.toString(16).padStart(64, '0')}`,
+        parentHash: number > 0 ? `0x${(number - 1).toString(16).padStart(64, '0')}` : ZERO_HASH,
+        nonce: '0x0000000000000000',
+        timestamp: hex(Math.floor(Date.now() / 1000)),
+        difficulty: '0x0',
+        gasLimit: hex(30_000_000),
+        gasUsed: '0x0',
+        miner: `0x${'0'.repeat(40)}`,
+        extraData: '0x',
+        baseFeePerGas: hex(30_000_000_000),
+        transactions: transactions.filter((tx) => tx.blockNumber === number).map((tx) => tx.hash),
+    });
+
+    const receipt = (tx: SentTransaction) => ({
+        transactionHash: tx.hash,
+        transactionIndex: '0x0',
+        blockHash: block(tx.blockNumber).hash,
+        blockNumber: hex(tx.blockNumber),
+        from: tx.from,
+        to: tx.to,
+        contractAddress: null,
+        cumulativeGasUsed: hex(50_000),
+        gasUsed: hex(50_000),
+        effectiveGasPrice: hex(30_000_000_000),
+        logs: [],
+        logsBloom: `0x${'0'.repeat(512)}`,
+        status: hex(tx.status),
+        type: '0x0',
+    });
+
+    const handlers: Record<string, (params: any[]) => unknown> = {
+        eth_chainId: () => hex(chainId),
+        net_version: () => `${chainId}`,
+        eth_blockNumber: () => hex(blockNumber),
+        eth_getBlockByNumber: ([tag]) => block(tag === 'latest' || tag === 'pending' ? blockNumber : Number(tag)),
+        eth_gasPrice: () => hex(30_000_000_000),
+        eth_estimateGas: () => hex(60_000),
+        eth_getTransactionCount: ([address]) => hex(nonces.get(address.toLowerCase()) ?? 0),
+        eth_call: ([{ to, data }]) => call(to, data),
+        eth_sendRawTransaction: ([raw]) => {
+            const parsed = parseTransaction(raw);
+            const from = parsed.from!.toLowerCase();
+            const to = parsed.to!.toLowerCase();
+            nonces.set(from, (nonces.get(from) ?? 0) + 1);
+            blockNumber += 1;
+            const tx: SentTransaction = { hash: parsed.hash!, from, to, data: parsed.data, blockNumber, status: 0 };
+            tx.status = execute(from, to, parsed.data);
+            transactions.push(tx);
+            return tx.hash;
+        },
+        eth_getTransactionReceipt: ([hash]) => {
+            const tx = transactions.find((candidate) => candidate.hash === hash);
+            return tx ? receipt(tx) : null;
+        },
+        eth_getTransactionByHash: ([hash]) => {
+            const tx = transactions.find((candidate) => candidate.hash === hash);
+            return tx
+                ? { hash: tx.hash, from: tx.from, to: tx.to, input: tx.data, blockNumber: hex(tx.blockNumber), blockHash: block(tx.blockNumber).hash, transactionIndex: '0x0', nonce: '0x0', gas: hex(60_000), gasPrice: hex(30_000_000_000), value: '0x0', chainId: hex(chainId), v: '0x0', r: ZERO_HASH, s: ZERO_HASH, type: '0x0' }
+                : null;
+        },
+    };
+
+    const answer = (request: { id: unknown; method: string; params?: any[] }) => {
+        methods.push(request.method);
+        const handler = handlers[request.method];
+        if (!handler) {
+            return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method ${request.method} not supported` } };
+        }
+        try {
+            return { jsonrpc: '2.0', id: request.id, result: handler(request.params ?? []) };
+        } catch (error) {
+            return { jsonrpc: '2.0', id: request.id, error: { code: 3, message: error instanceof Error ? error.message : String(error) } };
+        }
+    };
+
+    const server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+            const body = JSON.parse(Buffer.concat(chunks).toString());
+            const reply = Array.isArray(body) ? body.map(answer) : answer(body);
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(reply));
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const evm: MockEvmServer = {
+        url,
+        chainId,
+        methods,
+        transactions,
+        allowance: (token, owner, spender) => allowances.get(key(token, owner, spender)) ?? 0n,
+        setAllowance: (token, owner, spender, amount) => {
+            allowances.set(key(token, owner, spender), amount);
+        },
+        isApprovedForAll: (token, owner, operator) => operators.has(key(token, owner, operator)),
+        setApprovalForAll: (token, owner, operator, approved) => {
+            if (approved) {
+                operators.add(key(token, owner, operator));
+            } else {
+                operators.delete(key(token, owner, operator));
+            }
+        },
+        approveAll(owner) {
+            const contracts = POLYMARKET_CONTRACTS[chainId as Chain];
+            for (const spender of contracts?.spenders ?? []) {
+                evm.setAllowance(contracts.collateral, owner, spender.address, 2n ** 256n - 1n);
+                evm.setApprovalForAll(contracts.conditionalTokens, owner, spender.address, true);
+            }
+        },
+        useAsRpc() {
+            const previous = process.env.RPC_PROVIDER_URL;
+            process.env.RPC_PROVIDER_URL = url;
+            return () => {
+                if (previous === undefined) {
+                    delete process.env.RPC_PROVIDER_URL;
+                } else {
+                    process.env.RPC_PROVIDER_URL = previous;
+                }
+            };
+        },
+        close() {
+            server.closeAllConnections();
+            return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+        },
+    };
+    return evm;
+}
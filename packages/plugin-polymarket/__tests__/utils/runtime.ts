@@ -0,0 +1,56 @@
+import type { Character, ICacheManager, IAgentRuntime, IDatabaseAdapter, UUID } from '@elizaos/core';
+import { vi } from 'vitest';
+import { buildMarketSearchIndex } from '../../src/marketCatalog';
+import type { Market } from '../../src/model';
+
+// A runtime with just what the plugin uses: settings from a plain object and a
+// cache backed by a Map. Values are cloned into the cache, as a real cache
+// serializes them, so tests can't mutate what was stored.
+
+export interface TestRuntime extends IAgentRuntime {
+    // What the cache holds, for tests that inspect stored values
+    cache: Map<string, unknown>;
+}
+
+export function createTestRuntime(
+    settings: Record<string, unknown> = {},
+    overrides: Partial<IAgentRuntime> = {}
+): TestRuntime {
+    const cache = new Map<string, unknown>();
+    const cacheManager: ICacheManager = {
+        get: vi.fn(async (key: string) => cache.get(key)) as ICacheManager['get'],
+        set: vi.fn(async <T>(key: string, value: T) => {
+            cache.set(key, structuredClone(value));
+        }),
+        delete: vi.fn(async (key: string) => {
+            cache.delete(key);
+        }),
+    };
+
+    const runtime: Partial<TestRuntime> = {
+        agentId: 'agent-1' as UUID,
+        character: { name: 'Modi' } as Character,
+        cache,
+        // Read on every call, so tests can change settings after creating the runtime
+        getSetting: vi.fn((key: string) => (settings[key] ?? null) as string | null),
+        getService: vi.fn(() => null),
+        composeState: vi.fn(async () => ({ recentMessages: '' }) as unknown as Awaited<ReturnType<IAgentRuntime['composeState']>>),
+        updateRecentMessageState: vi.fn(async (state) => state),
+        cacheManager,
+        databaseAdapter: { log: vi.fn() } as unknown as IDatabaseAdapter,
+        ...overrides,
+    };
+    return runtime as TestRuntime;
+}
+
+// A runtime whose market catalog service has these markets loaded
+export function withCatalog(markets: Market[]): Partial<IAgentRuntime> {
+    const catalog = { markets, fetchedAt: 'now', nextCursor: null };
+    const index = buildMarketSearchIndex(markets);
+    return {
+        getService: vi.fn(() => ({
+            getCatalog: vi.fn().mockResolvedValue(catalog),
+            getLoadedCatalog: vi.fn(() => ({ catalog, index })),
+        })) as unknown as IAgentRuntime['getService'],
+    };
+}
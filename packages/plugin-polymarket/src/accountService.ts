@@ -0,0 +1,63 @@
+import { type IAgentRuntime, Service, type ServiceType } from "@elizaos/core";
+import { PolymarketServiceType } from "./serviceTypes";
+import {
+    describeSignatureType,
+    getPolymarketConfig,
+    getPolymarketConnection,
+    isAutoApproveEnabled,
+    isPolymarketTradingConfigured,
+} from "./config";
+import { PolymarketCredentialsError, validateApiCredentials } from "./credentials";
+import { requiresOrderConfirmation } from "./orderIntents";
+import { isPaperTradingEnabled } from "./paperTrading";
+
+// Checks each character's Polymarket wallet setup when the agent starts, so a
+// missing funder or a malformed key stops the agent with a clear error instead
+// of surfacing on the first bet. The API credentials are derived (or read from
+// the settings) and checked once here too. Read-only characters only need a
+// valid host and chain. The trading modes are logged here too, since each
+// character's settings can turn them on or off.
+
+export class PolymarketAccountService extends Service {
+    static get serviceType(): ServiceType {
+        return PolymarketServiceType.POLYMARKET_ACCOUNT;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        const connection = getPolymarketConnection(runtime);
+
+        if (isPaperTradingEnabled(runtime)) {
+            console.log(`📝 ${runtime.character?.name ?? runtime.agentId}: Polymarket paper trading, bets fill against a simulated USDC ledger`);
+        }
+        if (requiresOrderConfirmation(runtime)) {
+            console.log(`✋ ${runtime.character?.name ?? runtime.agentId}: Polymarket bets wait for the user to confirm before executing`);
+        }
+
+        if (!isPolymarketTradingConfigured(runtime)) {
+            console.log(`📖 ${runtime.character?.name ?? runtime.agentId}: Polymarket read-only via ${connection.host} (chain ${connection.chainId})`);
+            return;
+        }
+
+        const config = getPolymarketConfig(runtime);
+        console.log(
+            `🔐 ${runtime.character?.name ?? runtime.agentId}: Polymarket trading from ${config.funderAddress} ` +
+            `signed by ${config.signerAddress}, ${describeSignatureType(config.signatureType)}, via ${config.host} (chain ${config.chainId})`
+        );
+        if (isAutoApproveEnabled(runtime)) {
+            console.log(`✅ ${runtime.character?.name ?? runtime.agentId}: Polymarket trades send missing USDC and conditional-token approvals first`);
+        }
+
+        try {
+            const credentials = await validateApiCredentials(runtime, config);
+            console.log(`🔑 ${runtime.character?.name ?? runtime.agentId}: Polymarket API credentials accepted (${credentials.source === "settings" ? "from settings" : credentials.source})`);
+        } catch (error) {
+            if (error instanceof PolymarketCredentialsError) {
+                throw error;
+            }
+            // The API being down shouldn't keep the agent from starting; the first trade derives again
+            console.warn(`⚠️ ${runtime.character?.name ?? runtime.agentId}: Polymarket API credentials not checked: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+}
+
+export const polymarketAccountService = new PolymarketAccountService();
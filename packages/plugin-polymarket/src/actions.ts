@@ -9,79 +9,112 @@ import {
     composeContext,
     generateObject,
 } from "@elizaos/core";
-import { ClobClient, OrderType, Side, AssetType } from "@polymarket/clob-client";
-import { Wallet } from "@ethersproject/wallet";
+import { PolymarketServiceType } from "./serviceTypes";
+import { type ClobClient, type OrderResponse, Side, AssetType, type TradeParams } from "@polymarket/clob-client";
 import { getPolymarketClient } from "./provider";
+import { getPolymarketConfig, isAutoApproveEnabled, isPolymarketTradingConfigured } from "./config";
+import {
+    AllowanceError,
+    approveCollateral,
+    checkCollateralAllowances,
+    describeApproval,
+    ensureTradeAllowance,
+    formatMissingApprovals,
+    type SentApproval,
+} from "./allowances";
+import { createTradingClient, getApiCredentials } from "./credentials";
+import { executePaperOrder, getPaperLedger, getPaperPortfolio, isPaperTradingEnabled, type PaperFill } from "./paperTrading";
+import {
+    buildPositions,
+    markPositions,
+    summarizeOpenOrders,
+    summarizeTrades,
+    totalPositions,
+    type OpenOrderSummary,
+    type PortfolioPosition,
+    type PortfolioTotals,
+    type TradeSummary,
+} from "./portfolio";
+import { checkOrderRisk, formatRiskRefusal, type RiskOrder } from "./risk";
+import {
+    claimOrderIntent,
+    createOrderIntent,
+    formatOrderIntent,
+    getPendingOrderIntents,
+    requiresOrderConfirmation,
+} from "./orderIntents";
+import {
+    BET_ORDER_TYPES,
+    type BetOrderType,
+    crossesBook,
+    describeOrderType,
+    getGtdExpiration,
+    getOrderConstraints,
+    getReplacementOptions,
+    isMarketOrder,
+    type OrderOptions,
+    OrderValidationError,
+    pickOrderOptions,
+    quoteMarketOrder,
+    validateOrderOptions,
+    validateOrderSize,
+} from "./orderTypes";
+import {
+    fetchMarketsPage,
+    getMarketCatalog,
+    getMarketSearchIndex,
+    searchMarkets,
+} from "./marketCatalog";
+import { assertClobResponse, type Market, parseMarket, parseOrderBook } from "./model";
+import { getMarketsCursor, recordMarketsCursor, recordShownMarkets, resolveMarketReference } from "./marketResolver";
+import {
+    getBetMode,
+    getSettledBets,
+    settlePaperBets,
+    settleResolvedBets,
+    summarizeBetRecord,
+    type SettledBet,
+} from "./settlement";
+import type { BetSettlementService } from "./settlementService";
+import {
+    createWatchRule,
+    describeWatchRule,
+    getActiveWatchRules,
+    observeMarket,
+    removeWatchRule,
+    WatchRuleError,
+    type WatchRuleType,
+} from "./marketWatch";
+import {
+    getPriceHistory,
+    PRICE_HISTORY_INTERVALS,
+    PRICE_HISTORY_RANGES,
+    type PriceHistoryInterval,
+    type PriceHistoryRange,
+    resolveMarketTokens,
+    summarizeOrderBook,
+} from "./marketData";
+import {
+    formatMispricingScan,
+    getMispricingThresholds,
+    MISPRICING_KINDS,
+    type MispricingKind,
+    scanMispricing,
+} from "./mispricing";
 import { z } from "zod";
 
-// Type definitions for API responses
-interface PolymarketMarket {
-    condition_id?: string;
-    conditionId?: string;
-    id?: string;
-    question_id?: string;
-    questionId?: string;
-    question?: string;
-    title?: string;
-    name?: string;
-    description?: string;
-    market_slug?: string;
-    slug?: string;
-    active?: boolean;
-    closed?: boolean;
-    archived?: boolean;
-    accepting_orders?: boolean;
-    end_date_iso?: string;
-    endDate?: string;
-    created_date?: string;
-    createdAt?: string;
-    minimum_order_size?: string;
-    minOrderSize?: string;
-    minimum_tick_size?: string;
-    tickSize?: string;
-    icon?: string;
-    image?: string;
-    volume?: string;
-    volume24hr?: string;
-    totalVolume?: string;
-    liquidity?: string;
-    neg_risk?: boolean;
-    is_50_50_outcome?: boolean;
-    tags?: string[];
-    tokens?: PolymarketToken[];
-    outcomes?: PolymarketToken[];
-    rewards?: {
-        min_size?: string;
-        max_spread?: string;
-        rates?: any[];
-        daily_rate?: string;
-    };
-}
-
-interface PolymarketToken {
-    token_id?: string;
-    tokenId?: string;
-    id?: string;
-    outcome?: string;
-    name?: string;
-    title?: string;
-    price?: string;
-    lastPrice?: string;
-    winner?: boolean;
-    volume?: string;
-}
-
-interface PolymarketApiResponse {
-    data?: PolymarketMarket[];
-    markets?: PolymarketMarket[];
-}
-
 // Schema definitions for action parameters
 const PlaceBetSchema = z.object({
-    tokenId: z.string().describe("The token ID of the market outcome"),
+    tokenId: z.string().optional().describe("The outcome token ID, only if it appears literally in the conversation"),
+    market: z.string().optional().describe("How the user referred to the market, e.g. \"Fed rate cut\" or \"Trump\""),
+    outcome: z.string().optional().describe("The outcome to bet on, e.g. \"Yes\", \"No\" or a named outcome"),
+    listPosition: z.number().int().positive().optional().describe("1-based position in a list of markets shown earlier, e.g. 2 for \"the second market\""),
     side: z.enum(["BUY", "SELL"]).describe("Whether to buy or sell the outcome"),
     amount: z.number().positive().describe("Amount of USDC to bet"),
-    price: z.number().min(0.01).max(0.99).describe("Price per share (0.01 to 0.99)"),
+    price: z.number().min(0.01).max(0.99).optional().describe("Limit price per share (0.01 to 0.99), if the user named one"),
+    orderType: z.enum(BET_ORDER_TYPES as [BetOrderType, ...BetOrderType[]]).optional().describe("GTC for a limit order (default), GTD for a limit order with an expiry, FOK for a market order filled in full or not at all, FAK for a market order that takes what the book has"),
+    expiresInMinutes: z.number().positive().optional().describe("GTD only: minutes until the order expires, e.g. 120 for \"good for 2 hours\""),
+    postOnly: z.boolean().optional().describe("Whether the order must only rest on the book and never take liquidity"),
 });
 
 const CheckBalanceSchema = z.object({});
@@ -96,90 +129,585 @@ const GetMarketSchema = z.object({
 });
 
 const GetMoreMarketsSchema = z.object({
-    cursor: z.string().describe("The cursor for pagination to get next batch of markets"),
+    cursor: z.string().optional().describe("The next_cursor returned with the previous batch of markets"),
     limit: z.number().optional().describe("Maximum number of markets to return"),
 });
 
+const SearchMarketsSchema = z.object({
+    query: z.string().optional().describe("Keywords to match against market questions, descriptions, slugs and tags"),
+    tags: z.array(z.string()).optional().describe("Only include markets with at least one of these tags"),
+    endDateFrom: z.string().optional().describe("Only include markets ending on or after this ISO date"),
+    endDateTo: z.string().optional().describe("Only include markets ending on or before this ISO date"),
+    minLiquidity: z.number().optional().describe("Minimum market liquidity in USDC"),
+    acceptingOrders: z.boolean().optional().describe("Only include markets currently accepting orders"),
+    limit: z.number().optional().describe("Maximum number of markets to return"),
+});
+
+const GetOrderBookSchema = z.object({
+    marketId: z.string().describe("The market condition ID or an outcome token ID"),
+    depth: z.number().optional().describe("Number of price levels per side to return"),
+});
+
+const GetPriceHistorySchema = z.object({
+    marketId: z.string().describe("The market condition ID or an outcome token ID"),
+    interval: z.enum(Object.keys(PRICE_HISTORY_INTERVALS) as [PriceHistoryInterval, ...PriceHistoryInterval[]]).optional().describe("Spacing between price points"),
+    range: z.enum(Object.keys(PRICE_HISTORY_RANGES) as [PriceHistoryRange, ...PriceHistoryRange[]]).optional().describe("How far back the series goes"),
+});
+
 const CancelOrderSchema = z.object({
     orderId: z.string().describe("The ID of the order to cancel"),
 });
 
-// Helper function to create authenticated Polymarket client with signer
-async function getAuthenticatedPolymarketClient(runtime: IAgentRuntime) {
-    // Get wallet private key for signing transactions
-    const PRIVATE_KEY = runtime.getSetting("PK") || 
-                       runtime.getSetting("PRIVATE_KEY") || 
-                       runtime.getSetting("WALLET_PRIVATE_KEY");
-    if (!PRIVATE_KEY) {
-        throw new Error("Private key not found in environment variables or character secrets. Please set PK, PRIVATE_KEY, or WALLET_PRIVATE_KEY in your .env file or character secrets.");
-    }
+const ReplaceOrderSchema = z.object({
+    orderId: z.string().describe("The ID of the order to replace"),
+    price: z.number().min(0.01).max(0.99).optional().describe("New price per share (0.01 to 0.99), keeps the current price if omitted"),
+    size: z.number().positive().optional().describe("New number of shares, keeps the remaining size if omitted"),
+});
+
+const GetOpenOrdersSchema = z.object({
+    market: z.string().optional().describe("Only return orders for this market condition ID"),
+});
+
+const GetTradeHistorySchema = z.object({
+    market: z.string().optional().describe("Only return trades for this market condition ID"),
+    limit: z.number().optional().describe("Maximum number of trades to return"),
+});
+
+const WatchMarketSchema = z.object({
+    market: z.string().optional().describe("How the user referred to the market, e.g. \"Bucks game\""),
+    outcome: z.string().optional().describe("The outcome to watch, e.g. \"Yes\", \"No\" or a named outcome"),
+    listPosition: z.number().int().positive().optional().describe("1-based position in a list of markets shown earlier"),
+    tokenId: z.string().optional().describe("The outcome token ID, only if it appears literally in the conversation"),
+    type: z.enum(["price_cross", "spread_narrow", "volume_spike", "closing_soon"]).describe("What to watch for"),
+    direction: z.enum(["above", "below"]).optional().describe("For price alerts, whether to fire when the price rises above or falls below the level"),
+    threshold: z.number().positive().optional().describe("Price level (0-1), widest spread (0-1), volume multiple, or hours before close"),
+});
+
+const RemoveWatchSchema = z.object({
+    watchId: z.string().optional().describe("The ID of the watch to remove"),
+    all: z.boolean().optional().describe("Whether to remove all of the user's watches in this conversation"),
+});
+
+const ScanMispricingSchema = z.object({
+    kinds: z.array(z.enum(MISPRICING_KINDS as [MispricingKind, ...MispricingKind[]])).optional().describe("Only these checks: binary_sum (YES + NO off 1), neg_risk_sum (a multi-outcome event's prices off 1), wide_spread (wide spreads on liquid markets)"),
+    limit: z.number().int().positive().optional().describe("Maximum number of findings to list"),
+    minLiquidity: z.number().nonnegative().optional().describe("Minimum market liquidity in USDC for the spread check"),
+});
+
+async function loadCatalogMarkets(runtime: IAgentRuntime): Promise<Market[]> {
+    const catalog = await getMarketCatalog(runtime, await getPolymarketClient(runtime));
+    return [...catalog.markets];
+}
+
+// Open, tradable, not yet ended and with outcomes to bet on
+function isListableMarket(market: Market): boolean {
+    const notExpired = !market.endDate || new Date(market.endDate) > new Date();
+    return market.active && market.acceptingOrders && !market.closed && !market.archived && notExpired && market.tokens.length > 0;
+}
+
+function activityScore(market: Market): number {
+    return market.volume24hr + market.liquidity * 0.1; // Weight volume more heavily
+}
 
-    // Get Polymarket API credentials for authentication
-    const API_KEY = runtime.getSetting("POLYMARKET_API_KEY");
-    const SECRET = runtime.getSetting("POLYMARKET_SECRET");
-    const PASSPHRASE = runtime.getSetting("POLYMARKET_PASSPHRASE");
-    
-    if (!API_KEY || !SECRET || !PASSPHRASE) {
-        throw new Error("Polymarket API credentials not found. Please set POLYMARKET_API_KEY, POLYMARKET_SECRET, and POLYMARKET_PASSPHRASE in your character secrets.");
+// Accepting orders first, then 24h volume, then sooner end date, then newer markets
+function compareByActivityAndUrgency(a: Market, b: Market): number {
+    if (a.acceptingOrders !== b.acceptingOrders) {
+        return a.acceptingOrders ? -1 : 1;
+    }
+    if (a.volume24hr !== b.volume24hr) {
+        return b.volume24hr - a.volume24hr;
+    }
+    if (a.endDate && b.endDate) {
+        return new Date(a.endDate).getTime() - new Date(b.endDate).getTime();
+    }
+    if (a.createdAt && b.createdAt) {
+        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     }
+    return 0;
+}
+
+// Row returned in `content.markets` by the listing actions, keeping the
+// snake_case keys clients already read.
+function toMarketListing(market: Market, descriptionLength: number) {
+    const endDate = new Date(market.endDate || '2099-12-31');
+    const daysUntilEnd = Math.ceil((endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
+    return {
+        condition_id: market.conditionId,
+        question_id: market.questionId,
+        question: market.question,
+        description: market.description
+            ? (market.description.length > descriptionLength
+                ? `${market.description.substring(0, descriptionLength)}...`
+                : market.description)
+            : 'No description available',
+        market_slug: market.slug,
+        active: market.active,
+        closed: market.closed,
+        archived: market.archived,
+        accepting_orders: market.acceptingOrders,
+        end_date_iso: market.endDate,
+        created_date: market.createdAt,
+        minimum_order_size: (market.minimumOrderSize ?? 1).toFixed(2),
+        minimum_tick_size: `${market.minimumTickSize ?? 0.01}`,
+        volume: `${market.volume}`,
+        volume24hr: `${market.volume24hr}`,
+        liquidity: `${market.liquidity}`,
+        neg_risk: market.negRisk,
+        neg_risk_market_id: market.negRiskMarketId,
+        tags: market.tags.slice(0, 5),
+        freshness_days: daysUntilEnd > 0 ? daysUntilEnd : 0,
+        activity_score: activityScore(market),
+        tokens: market.tokens.map((token) => ({
+            token_id: token.tokenId,
+            outcome: token.outcome,
+            price: token.price !== null ? `${token.price}` : 'N/A',
+            winner: token.winner,
+        })),
+        last_updated: new Date().toISOString(),
+    };
+}
 
-    const host = 'https://clob.polymarket.com';
-    const funder = runtime.getSetting("FUNDER_ADDRESS") || '0x993f563E24efee863BbD0E54FD5Ca3d010202c39';
-    const signer = new Wallet(PRIVATE_KEY);
-    const signatureType = 0; // Browser wallet type
+// Trading client for the character's wallet, signed with its L2 API credentials
+async function getAuthenticatedPolymarketClient(runtime: IAgentRuntime): Promise<ClobClient> {
+    // Host, chain, signer and funder come from the character's settings
+    const config = getPolymarketConfig(runtime);
+    return createTradingClient(config, await getApiCredentials(runtime, config));
+}
 
+// Simulated fill against the order book mid-price when paper trading is enabled
+async function placePaperBet(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    currentState: State | null,
+    parameters: BetParameters,
+    callback?: HandlerCallback,
+    options: ExecuteBetOptions = {}
+): Promise<boolean> {
     try {
-        // Create authenticated client with API credentials
-        // Try different approaches for authentication
-        let client;
-        
-        // Approach 1: Try passing credentials in constructor
-        try {
-            client = new ClobClient(host, 137, signer, {
-                apiKey: API_KEY,
-                secret: SECRET,
-                passphrase: PASSPHRASE
-            });
-            console.log("✅ Polymarket client created with credentials in constructor");
-        } catch (constructorError) {
-            console.log("Constructor with credentials failed, trying alternative approach");
-            
-            // Approach 2: Create client and set credentials after
-            client = new ClobClient(host, 137, signer);
-            
-            // Try setting credentials as properties
-            if (client) {
-                try {
-                    // Set credentials as properties if they exist
-                    if (typeof client.apiKey !== 'undefined') client.apiKey = API_KEY;
-                    if (typeof client.secret !== 'undefined') client.secret = SECRET;
-                    if (typeof client.passphrase !== 'undefined') client.passphrase = PASSPHRASE;
-                    
-                    // Try setting headers if the client supports it
-                    if (typeof client.setHeaders === 'function') {
-                        client.setHeaders({
-                            'X-API-Key': API_KEY,
-                            'X-Secret': SECRET,
-                            'X-Passphrase': PASSPHRASE
-                        });
-                    }
-                    
-                    console.log("✅ Polymarket client created and credentials set as properties");
-                } catch (propertyError) {
-                    console.log("Setting credentials as properties failed:", propertyError.message);
-                }
+        const { fill, ledger } = await executePaperOrder(runtime, client, {
+            tokenId: parameters.tokenId,
+            side: parameters.side,
+            amount: parameters.amount,
+            price: parameters.price,
+        });
+
+        const response = options.generateResponse === false
+            ? `Paper ${fill.side} filled: ${fill.amount} USDC at ${fill.price} for ${fill.size} shares`
+            : await generateText({
+                runtime,
+                context: composeContext({
+                    state: currentState,
+                    template: `{{recentMessages}}
+
+A PAPER TRADE (simulated, no real funds) was filled on Polymarket:
+- Side: ${fill.side}
+- Amount: ${fill.amount} USDC
+- Fill Price: ${fill.price} per share (${fill.priceSource} mid-price)
+- Shares: ${fill.size}
+- Realized P&L: ${fill.realizedPnl} USDC
+- Remaining paper balance: ${ledger.cash} USDC
+
+Generate a natural response confirming the paper trade. Make it clear this was simulated.`
+                }),
+                modelClass: ModelClass.LARGE,
+            });
+
+        callback?.({
+            text: response,
+            content: {
+                success: true,
+                paperTrading: true,
+                fill,
+                parameters,
+                balance: ledger.cash,
             }
+        });
+        return true;
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error("Paper order error:", errorMsg);
+        callback?.({
+            text: `Error placing paper bet: ${errorMsg}`,
+            content: { error: errorMsg, paperTrading: true },
+        });
+        return false;
+    }
+}
+
+// From @polymarket/order-utils, which the plugin doesn't depend on directly
+type SignedOrder = Awaited<ReturnType<ClobClient["createOrder"]>>;
+
+// What POST /order answers: the order's outcome, or an error for a refused one
+type PostOrderResponse = Partial<OrderResponse> & { error?: string };
+
+// clob-client 1.5's postOrder takes its OrderType enum, which has no FAK
+// member, and returns any. The API accepts every BetOrderType and postOrder
+// only copies the type into the request body, so the same call is typed here.
+function postOrder(client: ClobClient, signedOrder: SignedOrder, orderType: BetOrderType): Promise<PostOrderResponse | undefined> {
+    const post = client.postOrder as (order: SignedOrder, orderType: BetOrderType) => Promise<PostOrderResponse | undefined>;
+    return post.call(client, signedOrder, orderType);
+}
+
+async function signOrder(
+    client: ClobClient,
+    order: { tokenId: string; side: "BUY" | "SELL"; price: number; size: number; amount?: number; expiresInMinutes?: number },
+    orderType: BetOrderType
+): Promise<SignedOrder> {
+    if (isMarketOrder(orderType) && order.side === "BUY") {
+        return client.createMarketBuyOrder({
+            tokenID: order.tokenId,
+            price: order.price,
+            amount: order.amount ?? order.price * order.size,
+            feeRateBps: 0,
+        });
+    }
+    if (isMarketOrder(orderType)) {
+        // clob-client 1.5 has no market sell builder. A market SELL is signed
+        // for the quoted shares at the worst bid the quote reached; posted as
+        // FOK or FAK it takes the bids on arrival and never rests on the book.
+        return client.createOrder({
+            tokenID: order.tokenId,
+            price: order.price,
+            side: Side.SELL,
+            size: order.size,
+            feeRateBps: 0,
+        });
+    }
+    return client.createOrder({
+        tokenID: order.tokenId,
+        price: order.price,
+        side: order.side === "BUY" ? Side.BUY : Side.SELL,
+        size: order.size,
+        feeRateBps: 0,
+        expiration: orderType === "GTD" ? getGtdExpiration(order.expiresInMinutes ?? 0) : undefined,
+    });
+}
+
+// Sign an order and post it to the book, returning the exchange order ID. A
+// market BUY is sized in USDC; everything else, a market SELL included, in
+// shares at the given price.
+async function submitOrder(
+    client: ClobClient,
+    order: {
+        tokenId: string;
+        side: "BUY" | "SELL";
+        price: number;
+        size: number;
+        amount?: number;
+        orderType?: BetOrderType;
+        expiresInMinutes?: number;
+    }
+): Promise<{ orderId: string; response: PostOrderResponse }> {
+    const orderType = order.orderType ?? "GTC";
+    const response = await postOrder(client, await signOrder(client, order, orderType), orderType);
+    if (!response?.orderID) {
+        throw new Error(response?.errorMsg || response?.error || "Order was rejected by the exchange");
+    }
+    return { orderId: response.orderID, response };
+}
+
+// API key and wallet addresses that identify our side of a trade
+async function getAccountIdentifiers(runtime: IAgentRuntime, client: ClobClient): Promise<string[]> {
+    const identifiers = [
+        client.creds?.key,
+        getPolymarketConfig(runtime).funderAddress,
+    ];
+    try {
+        if (client.signer) {
+            identifiers.push(await client.signer.getAddress());
         }
-        
-        if (!client) {
-            throw new Error("Failed to create Polymarket client");
+    } catch (error) {
+        console.log("Could not resolve signer address:", error instanceof Error ? error.message : error);
+    }
+    return identifiers.filter((id): id is string => typeof id === "string" && id.length > 0);
+}
+
+// Filled trades for the account, from the paper ledger or the CLOB
+export async function loadAccountTrades(
+    runtime: IAgentRuntime,
+    client?: ClobClient,
+    params?: TradeParams
+): Promise<TradeSummary[]> {
+    if (isPaperTradingEnabled(runtime)) {
+        const ledger = await getPaperLedger(runtime);
+        return ledger.fills.map((fill) => ({
+            tradeId: fill.id,
+            market: "",
+            tokenId: fill.tokenId,
+            outcome: "",
+            side: fill.side,
+            role: "TAKER" as const,
+            price: fill.price,
+            size: fill.size,
+            notional: fill.price * fill.size,
+            status: "PAPER",
+            matchTime: fill.timestamp,
+            transactionHash: null,
+        }));
+    }
+
+    const authenticatedClient = client ?? await getAuthenticatedPolymarketClient(runtime);
+    return summarizeTrades(
+        assertClobResponse(await authenticatedClient.getTrades(params), "Trade history lookup"),
+        await getAccountIdentifiers(runtime, authenticatedClient)
+    );
+}
+
+// Orders resting on the book; paper orders fill at once, so there are none
+async function loadOpenOrders(runtime: IAgentRuntime, client: ClobClient): Promise<OpenOrderSummary[]> {
+    if (isPaperTradingEnabled(runtime)) {
+        return [];
+    }
+    return summarizeOpenOrders(assertClobResponse(await client.getOpenOrders(), "Open orders lookup"));
+}
+
+// Run the character's risk policy and tell the user when an order is refused
+async function enforceRiskPolicy(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    message: Memory,
+    order: RiskOrder,
+    callback?: HandlerCallback
+): Promise<boolean> {
+    const decision = await checkOrderRisk(
+        runtime,
+        client,
+        order,
+        await loadAccountTrades(runtime, client),
+        await loadOpenOrders(runtime, client),
+        { userId: message.userId, roomId: message.roomId }
+    );
+
+    if (!decision.allowed) {
+        const refusal = formatRiskRefusal(decision);
+        callback?.({
+            text: refusal,
+            content: { error: refusal, riskBlocked: true, violations: decision.violations, order },
+        });
+    }
+    return decision.allowed;
+}
+
+export interface BetParameters extends OrderOptions {
+    tokenId: string;
+    side: "BUY" | "SELL";
+    amount: number;
+    // Limit price, or for a market order the worst price it accepts, set from the book
+    price: number;
+}
+
+export interface ExecuteBetOptions {
+    // False when nobody reads the reply (strategy orders): the callback then
+    // gets a plain summary and no state is needed
+    generateResponse?: boolean;
+}
+
+// The content executeBet reports through its callback: the order or paper
+// fill when the bet was placed, the error when it wasn't
+export interface BetOutcomeContent {
+    success?: boolean;
+    error?: string;
+    parameters?: BetParameters;
+    orderId?: string;
+    fill?: PaperFill;
+}
+
+// Price a market order from the book and check the order against the market's
+// tick and minimum size, and a post-only order against the top of the book
+async function prepareOrder(client: ClobClient, parameters: BetParameters): Promise<BetParameters> {
+    validateOrderOptions(parameters);
+    if (!isMarketOrder(parameters.orderType) && !parameters.postOnly) {
+        validateOrderSize({ price: parameters.price, size: parameters.amount / parameters.price }, parameters);
+        return parameters;
+    }
+
+    const book = parseOrderBook(
+        assertClobResponse(await client.getOrderBook(parameters.tokenId), "Order book lookup"),
+        parameters.tokenId
+    );
+    if (isMarketOrder(parameters.orderType)) {
+        const quote = quoteMarketOrder(book, parameters.side, parameters.amount, parameters.orderType);
+        validateOrderSize(quote, parameters);
+        return { ...parameters, price: quote.price };
+    }
+
+    if (crossesBook(book, parameters.side, parameters.price)) {
+        const best = parameters.side === "BUY" ? `ask at ${book.asks[0].price}` : `bid at ${book.bids[0].price}`;
+        throw new OrderValidationError(
+            `A post-only ${parameters.side} at ${parameters.price} would trade against the best ${best}. Use a price that rests on the book, or drop post-only.`
+        );
+    }
+    validateOrderSize({ price: parameters.price, size: parameters.amount / parameters.price }, parameters);
+    return parameters;
+}
+
+// Risk-check and place a bet, in paper mode or live, and report it through the callback
+export async function executeBet(
+    runtime: IAgentRuntime,
+    message: Memory,
+    currentState: State | null,
+    requested: BetParameters,
+    callback?: HandlerCallback,
+    options: ExecuteBetOptions = {}
+): Promise<boolean> {
+    const paperTrading = isPaperTradingEnabled(runtime);
+    const client = paperTrading
+        ? await getPolymarketClient(runtime)
+        : await getAuthenticatedPolymarketClient(runtime);
+
+    let parameters: BetParameters;
+    try {
+        parameters = await prepareOrder(client, requested);
+    } catch (error) {
+        if (error instanceof OrderValidationError) {
+            callback?.({ text: error.message, content: { error: error.message, parameters: requested } });
+            return false;
         }
-        
-        console.log("🔐 Polymarket API credentials loaded successfully");
-        return client;
+        throw error;
+    }
+
+    if (!(await enforceRiskPolicy(runtime, client, message, {
+        tokenId: parameters.tokenId,
+        side: parameters.side,
+        amount: parameters.amount,
+        price: parameters.price,
+        replacesOrderId: parameters.replacesOrderId,
+    }, callback))) {
+        return false;
+    }
+
+    if (paperTrading) {
+        return await placePaperBet(runtime, client, currentState, parameters, callback, options);
+    }
+
+    // Check balance and allowance first
+    const balanceAllowance = assertClobResponse(await client.getBalanceAllowance({
+        asset_type: AssetType.COLLATERAL
+    }), "Balance lookup");
+
+    const balance = parseFloat(balanceAllowance.balance);
+    const requiredAmount = parameters.amount;
+
+    if (balance < requiredAmount) {
+        const errorMsg = `Insufficient USDC balance. You have ${balance} USDC but need ${requiredAmount} USDC for this bet.`;
+        callback?.({ 
+            text: errorMsg,
+            content: { error: errorMsg, balance, required: requiredAmount }
+        });
+        return false;
+    }
+
+    // The exchange must be approved to move the USDC (BUY) or the shares (SELL)
+    let approvals: SentApproval[] = [];
+    try {
+        approvals = await ensureTradeAllowance(
+            runtime,
+            getPolymarketConfig(runtime),
+            { side: parameters.side, amount: requiredAmount },
+            isAutoApproveEnabled(runtime)
+        );
     } catch (error) {
-        console.error("Failed to create authenticated Polymarket client:", error);
-        throw new Error(`Failed to create authenticated Polymarket client: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (error instanceof AllowanceError) {
+            callback?.({
+                text: error.message,
+                content: { error: error.message, missingApprovals: error.report?.missing ?? [] },
+            });
+            return false;
+        }
+        // Without a reachable RPC the allowance can't be read; the exchange still rejects an unapproved order
+        console.warn("Could not check collateral allowances:", error instanceof Error ? error.message : error);
+    }
+
+    // Calculate order size based on amount and price
+    const orderSize = parameters.amount / parameters.price;
+
+    // A replacement only cancels the order it replaces once every check has passed
+    const replacedOrderId = parameters.replacesOrderId;
+    if (replacedOrderId) {
+        try {
+            await cancelReplacedOrder(client, replacedOrderId);
+        } catch (error) {
+            const errorMsg = `Order ${replacedOrderId} could not be cancelled, so no replacement was placed: ${error instanceof Error ? error.message : String(error)}`;
+            callback?.({ text: errorMsg, content: { error: errorMsg } });
+            return false;
+        }
+    }
+
+    try {
+        // Place the order using the authenticated client
+        console.log("Placing order...");
+        const { orderId, response: orderResponse } = await submitOrder(client, {
+            tokenId: parameters.tokenId,
+            side: parameters.side,
+            price: parameters.price,
+            size: orderSize,
+            amount: parameters.amount,
+            orderType: parameters.orderType,
+            expiresInMinutes: parameters.expiresInMinutes,
+        });
+
+        console.log("Order placed successfully:", orderResponse);
+
+        const response = options.generateResponse === false
+            ? `Placed order ${orderId}: ${parameters.side} ${parameters.amount} USDC at ${parameters.price} (${describeOrderType(parameters)})${replacedOrderId ? `, replacing ${replacedOrderId}` : ""}`
+            : await generateText({
+                runtime,
+                context: composeContext({
+                    state: currentState,
+                    template: `{{recentMessages}}
+
+A bet was placed successfully on Polymarket:
+- Side: ${parameters.side}
+- Order type: ${describeOrderType(parameters)}
+- Amount: ${parameters.amount} USDC
+- Price: ${parameters.price} per share${isMarketOrder(parameters.orderType) ? " (worst price accepted)" : ""}
+- Shares: ${orderSize}
+- Order ID: ${orderId}${replacedOrderId ? `
+- Replaces order: ${replacedOrderId} (cancelled)` : ""}
+- Order Response: ${JSON.stringify(orderResponse)}
+
+Generate a natural response confirming the bet placement. Include the order ID so the user can refer to it later.`
+                }),
+                modelClass: ModelClass.LARGE,
+            });
+
+        callback?.({ 
+            text: response,
+            content: {
+                success: true,
+                orderId,
+                orderIds: [orderId],
+                order: orderResponse,
+                parameters,
+                orderSize,
+                orderType: parameters.orderType ?? "GTC",
+                cancelledOrderId: replacedOrderId,
+                approvals: approvals.map((sent) => sent.transactionHash),
+            }
+        });
+        return true;
+
+    } catch (orderError) {
+        const failure = orderError instanceof Error ? orderError.message : String(orderError);
+        // The replaced order is already gone, so say so rather than only reporting the failure
+        const errorMsg = replacedOrderId
+            ? `Order ${replacedOrderId} was cancelled, but its replacement failed: ${failure}`
+            : `Failed to place order: ${failure}`;
+        console.error("Order placement error:", errorMsg);
+        callback?.({
+            text: replacedOrderId ? errorMsg : `Error placing bet: ${errorMsg}`,
+            content: { error: errorMsg, cancelledOrderId: replacedOrderId },
+        });
+        return false;
+    }
+}
+
+async function cancelReplacedOrder(client: ClobClient, orderId: string): Promise<void> {
+    const cancelResponse = assertClobResponse(await client.cancelOrder({ orderID: orderId }), "Order cancellation");
+    const notCancelled: Record<string, string> = cancelResponse?.not_canceled ?? {};
+    if (notCancelled[orderId]) {
+        throw new Error(notCancelled[orderId]);
     }
 }
 
@@ -197,7 +725,6 @@ export const placeBetAction: Action = {
         callback?: HandlerCallback
     ): Promise<boolean> => {
         try {
-            const client = await getAuthenticatedPolymarketClient(runtime);
             let currentState = state ?? (await runtime.composeState(message));
             currentState = await runtime.updateRecentMessageState(currentState);
 
@@ -205,11 +732,17 @@ export const placeBetAction: Action = {
                 state: currentState,
                 template: `{{recentMessages}}
 
-Extract the following information for placing a bet:
-- tokenId: The token ID of the market outcome
+Extract the following information for placing a bet from the user's latest message:
+- market: How the user referred to the market (e.g. "Fed rate cut"), if they described it
+- outcome: The outcome to bet on (e.g. "Yes", "No", or a named outcome like "Trump")
+- listPosition: If the user pointed at a market in a list shown earlier ("the second market"), its 1-based position
+- tokenId: Only if an outcome token ID appears literally in the conversation; never make one up
 - side: Whether to BUY or SELL
 - amount: Amount of USDC to bet
-- price: Price per share (between 0.01 and 0.99)
+- price: Price per share (between 0.01 and 0.99), only if the user named one; "42c" is 0.42
+- orderType: "FOK" when the user wants to buy or sell "at market" (or "FAK" if they accept a partial fill), "GTD" when the order should expire ("good for 2 hours", "until 5pm"), otherwise "GTC"
+- expiresInMinutes: For a GTD order, how many minutes it stays on the book (2 hours is 120)
+- postOnly: true only if the user asked for a post-only or maker-only order
 
 Respond with a JSON object containing these parameters.`
             });
@@ -223,89 +756,86 @@ Respond with a JSON object containing these parameters.`
 
             const typedParameters = parameters as z.infer<typeof PlaceBetSchema>;
 
-            // Check balance and allowance first
-            const balanceAllowance = await client.getBalanceAllowance({
-                asset_type: AssetType.COLLATERAL
+            // The token always comes from a market the agent has seen, never from the model
+            const resolution = await resolveMarketReference(runtime, await getPolymarketClient(runtime), message.roomId, {
+                text: message.content?.text ?? "",
+                tokenId: typedParameters.tokenId,
+                market: typedParameters.market,
+                outcome: typedParameters.outcome,
+                position: typedParameters.listPosition,
+                price: typedParameters.price,
             });
 
-            const balance = parseFloat(balanceAllowance.balance);
-            const allowance = parseFloat(balanceAllowance.allowance);
-            const requiredAmount = typedParameters.amount;
-
-            if (balance < requiredAmount) {
-                const errorMsg = `Insufficient USDC balance. You have ${balance} USDC but need ${requiredAmount} USDC for this bet.`;
-                callback?.({ 
-                    text: errorMsg,
-                    content: { error: errorMsg, balance, required: requiredAmount }
+            if (resolution.status === "ambiguous") {
+                callback?.({
+                    text: resolution.question,
+                    content: {
+                        needsDisambiguation: true,
+                        candidates: resolution.candidates.map((market) => ({
+                            conditionId: market.conditionId,
+                            question: market.question,
+                            tokens: market.tokens,
+                        })),
+                    }
                 });
+                return true;
+            }
+            if (resolution.status === "not_found") {
+                callback?.({ text: resolution.message, content: { error: resolution.message } });
                 return false;
             }
 
-            // Note: Allowance update may need to be handled differently based on the actual API
-            if (allowance < requiredAmount) {
-                console.log("Allowance may need to be updated. Please check the Polymarket documentation for the correct method.");
-                // For now, we'll proceed and let the order fail if allowance is insufficient
+            const price = typedParameters.price ?? resolution.token.price;
+            if (!price || price < 0.01 || price > 0.99) {
+                const question = `What price per share do you want for ${resolution.token.outcome} on "${resolution.market.question}"?`;
+                callback?.({ text: question, content: { needsPrice: true, tokenId: resolution.token.tokenId } });
+                return true;
             }
 
-            // Calculate order size based on amount and price
-            const orderSize = typedParameters.amount / typedParameters.price;
-
+            const order: BetParameters = {
+                tokenId: resolution.token.tokenId,
+                side: typedParameters.side,
+                amount: typedParameters.amount,
+                price,
+                orderType: typedParameters.orderType ?? (typedParameters.expiresInMinutes ? "GTD" : undefined),
+                expiresInMinutes: typedParameters.expiresInMinutes,
+                postOnly: typedParameters.postOnly,
+                ...getOrderConstraints(resolution.market),
+            };
+
+            // Catch what the exchange would reject before asking for confirmation; market
+            // orders are priced and checked against the book when they are placed
             try {
-                // Place the order using the authenticated client
-                console.log("Placing order...");
-                // Note: The actual method name and parameters may vary based on the ClobClient version
-                // This is a placeholder - you'll need to check the actual API documentation
-                const orderResponse = await client.createOrder({
-                    tokenID: typedParameters.tokenId,
-                    price: typedParameters.price,
-                    side: typedParameters.side === "BUY" ? Side.BUY : Side.SELL,
-                    size: orderSize,
-                    feeRateBps: 0,
-                });
-
-                console.log("Order placed successfully:", orderResponse);
-
-                const responseContext = composeContext({
-                    state: currentState,
-                    template: `{{recentMessages}}
-
-A bet was placed successfully on Polymarket:
-- Side: ${typedParameters.side}
-- Amount: ${typedParameters.amount} USDC
-- Price: ${typedParameters.price} per share
-- Shares: ${orderSize}
-- Order Response: ${JSON.stringify(orderResponse)}
-
-Generate a natural response confirming the bet placement.`
-                });
+                validateOrderOptions(order);
+                if (!isMarketOrder(order.orderType)) {
+                    validateOrderSize({ price, size: order.amount / price }, order);
+                }
+            } catch (error) {
+                if (error instanceof OrderValidationError) {
+                    callback?.({ text: error.message, content: { error: error.message, order } });
+                    return false;
+                }
+                throw error;
+            }
+            console.log(`🎯 Resolved bet to ${resolution.token.outcome} on "${resolution.market.question}" (${resolution.via})`);
 
-                const response = await generateText({
-                    runtime,
-                    context: responseContext,
-                    modelClass: ModelClass.LARGE,
-                });
+            if (requiresOrderConfirmation(runtime)) {
+                const intent = await createOrderIntent(runtime, message, order);
 
-                callback?.({ 
-                    text: response,
+                callback?.({
+                    text: `${formatOrderIntent(intent)}\n\nReply "confirm" to place this order. Nothing has been traded yet.`,
                     content: {
                         success: true,
-                        order: orderResponse,
-                        parameters: typedParameters,
-                        orderSize
+                        pendingConfirmation: true,
+                        intentId: intent.id,
+                        intent,
                     }
                 });
                 return true;
-
-            } catch (orderError) {
-                const errorMsg = `Failed to place order: ${orderError instanceof Error ? orderError.message : String(orderError)}`;
-                console.error("Order placement error:", errorMsg);
-                callback?.({
-                    text: `Error placing bet: ${errorMsg}`,
-                    content: { error: errorMsg },
-                });
-                return false;
             }
 
+            return await executeBet(runtime, message, currentState, order, callback);
+
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             callback?.({
@@ -331,15 +861,63 @@ Generate a natural response confirming the bet placement.`
                 },
             },
         ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Put $25 on YES for the second market you listed",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Placing $25 on YES for \"Will the Fed cut rates in December?\" at the current price of $0.62.",
+                    action: "PLACE_BET",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Buy $20 of NO at market",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Placing a $20 fill-or-kill market order for NO, priced from the current asks.",
+                    action: "PLACE_BET",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Buy $15 of YES, limit at 42c, good for 2 hours",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Placing a $15 GTD limit order for YES at $0.42 that expires in 2 hours.",
+                    action: "PLACE_BET",
+                },
+            },
+        ],
     ],
 };
 
-// Check Balance Action
-export const checkBalanceAction: Action = {
-    name: "CHECK_BALANCE",
-    description: "Check USDC balance and allowance on Polymarket",
-    similes: ["balance", "funds", "money", "usdc", "check wallet"],
-    validate: async () => true,
+// Confirm Order Action - Executes a pending order intent created by PLACE_BET
+export const confirmOrderAction: Action = {
+    name: "CONFIRM_ORDER",
+    description: "Confirm and execute a pending Polymarket order that is waiting for the user's approval",
+    similes: ["confirm", "confirm order", "confirm bet", "yes place it", "go ahead", "execute order", "approve order"],
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const pending = await getPendingOrderIntents(runtime, message.roomId);
+        return pending.some((intent) => intent.userId === message.userId);
+    },
     handler: async (
         runtime: IAgentRuntime,
         message: Memory,
@@ -348,26 +926,133 @@ export const checkBalanceAction: Action = {
         callback?: HandlerCallback
     ): Promise<boolean> => {
         try {
-            const client = await getAuthenticatedPolymarketClient(runtime);
             let currentState = state ?? (await runtime.composeState(message));
+            currentState = await runtime.updateRecentMessageState(currentState);
 
-            const balanceAllowance = await client.getBalanceAllowance({
-                asset_type: AssetType.COLLATERAL
-            });
+            const pending = (await getPendingOrderIntents(runtime, message.roomId))
+                .filter((intent) => intent.userId === message.userId);
+            const text = message.content?.text ?? "";
+            const intent = pending.find((candidate) => text.includes(candidate.id)) ?? pending[0];
 
-            const responseContext = composeContext({
-                state: currentState,
-                template: `{{recentMessages}}
+            if (!intent) {
+                callback?.({
+                    text: "There is no pending order waiting for your confirmation. It may have expired, so place the bet again if you still want it.",
+                    content: { error: "No pending order intent" },
+                });
+                return false;
+            }
 
-Polymarket wallet balance information:
-- USDC Balance: ${balanceAllowance.balance}
-- USDC Allowance: ${balanceAllowance.allowance}
+            const confirmed = await claimOrderIntent(runtime, intent.id, message.userId);
+            console.log(`✅ Order intent ${confirmed.id} confirmed by ${message.userId}`);
 
-Generate a natural response with the balance information.`
+            return await executeBet(runtime, message, currentState, {
+                tokenId: confirmed.tokenId,
+                side: confirmed.side,
+                amount: confirmed.amount,
+                price: confirmed.price,
+                ...pickOrderOptions(confirmed),
+            }, callback);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error confirming order: ${errorMessage}`,
+                content: { error: errorMessage },
             });
-
-            const response = await generateText({
-                runtime,
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Confirm",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Confirmed. Your $10 bet on YES at $0.65 has been placed.",
+                    action: "CONFIRM_ORDER",
+                },
+            },
+        ],
+    ],
+};
+
+// Check Balance Action
+export const checkBalanceAction: Action = {
+    name: "CHECK_BALANCE",
+    description: "Check USDC balance and allowance on Polymarket",
+    similes: ["balance", "funds", "money", "usdc", "check wallet"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            let currentState = state ?? (await runtime.composeState(message));
+
+            if (isPaperTradingEnabled(runtime)) {
+                const portfolio = await getPaperPortfolio(runtime, await getPolymarketClient(runtime));
+                const positionLines = portfolio.positions.map((p) =>
+                    `- ${p.tokenId}: ${p.size} shares @ avg ${p.avgPrice} (mark ${p.markPrice ?? 'N/A'}, unrealized P&L ${p.unrealizedPnl} USDC)`
+                ).join('\n') || '- No open positions';
+
+                const paperContext = composeContext({
+                    state: currentState,
+                    template: `{{recentMessages}}
+
+Polymarket PAPER TRADING account (simulated, no real funds):
+- Paper USDC Balance: ${portfolio.cash}
+- Open Positions Value: ${portfolio.positionsValue}
+- Total Equity: ${portfolio.equity} (started with ${portfolio.startingBalance})
+- Realized P&L: ${portfolio.realizedPnl} USDC
+- Unrealized P&L: ${portfolio.unrealizedPnl} USDC
+Open positions:
+${positionLines}
+
+Generate a natural response with the paper account information. Make it clear the balance is simulated.`
+                });
+
+                const paperResponse = await generateText({
+                    runtime,
+                    context: paperContext,
+                    modelClass: ModelClass.LARGE,
+                });
+
+                callback?.({
+                    text: paperResponse,
+                    content: {
+                        paperTrading: true,
+                        balance: portfolio.cash,
+                        portfolio
+                    }
+                });
+                return true;
+            }
+
+            const client = await getAuthenticatedPolymarketClient(runtime);
+            const balanceAllowance = assertClobResponse(await client.getBalanceAllowance({
+                asset_type: AssetType.COLLATERAL
+            }), "Balance lookup");
+
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Polymarket wallet balance information:
+- USDC Balance: ${balanceAllowance.balance}
+- USDC Allowance: ${balanceAllowance.allowance}
+
+Generate a natural response with the balance information.`
+            });
+
+            const response = await generateText({
+                runtime,
                 context: responseContext,
                 modelClass: ModelClass.LARGE,
             });
@@ -408,11 +1093,91 @@ Generate a natural response with the balance information.`
     ],
 };
 
-// Get Latest Markets Action - Updated to use CLOB API for fresh active markets
-export const getMarketsAction: Action = {
-    name: "GET_MARKETS",
-    description: "Get latest active markets from Polymarket using CLOB API",
-    similes: ["markets", "betting markets", "available bets", "what can I bet on", "latest markets", "newest markets", "fresh markets", "current markets", "active markets"],
+const PAPER_NO_OPEN_ORDERS = "Paper trades fill immediately, so there are no open paper orders to cancel or replace.";
+
+// Approve Collateral Action - Let the exchange contracts move the wallet's USDC and outcome shares
+export const approveCollateralAction: Action = {
+    name: "APPROVE_COLLATERAL",
+    description: "Check the USDC and conditional-token approvals the Polymarket exchange contracts need before the wallet can trade, and send the missing ones",
+    similes: ["approve usdc", "approve collateral", "set allowance", "approve exchange", "enable trading", "fix allowance"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            if (isPaperTradingEnabled(runtime)) {
+                callback?.({
+                    text: "Paper trading doesn't need approvals: bets fill against the simulated ledger.",
+                    content: { paperTrading: true, sent: [] },
+                });
+                return true;
+            }
+            if (!isPolymarketTradingConfigured(runtime)) {
+                const errorMessage = "No trading wallet is configured. Set WALLET_PRIVATE_KEY to trade on Polymarket.";
+                callback?.({ text: errorMessage, content: { error: errorMessage } });
+                return false;
+            }
+
+            const config = getPolymarketConfig(runtime);
+            const report = await checkCollateralAllowances(runtime, config);
+            if (report.missing.length === 0) {
+                callback?.({
+                    text: `Wallet ${report.owner} already has every approval it needs on chain ${report.chainId}:\n${report.approvals.map((approval) => `- ${describeApproval(approval)}`).join("\n")}`,
+                    content: { success: true, report, sent: [] },
+                });
+                return true;
+            }
+            if (!report.canApprove) {
+                const errorMessage = formatMissingApprovals(report, config);
+                callback?.({ text: errorMessage, content: { error: errorMessage, report, sent: [] } });
+                return false;
+            }
+
+            const sent = await approveCollateral(runtime, config, report.missing);
+            callback?.({
+                text: `Sent ${sent.length} approval${sent.length === 1 ? "" : "s"} from ${report.owner}:\n${sent.map(({ approval, transactionHash }) =>
+                    `- ${describeApproval(approval)} (tx ${transactionHash})`
+                ).join("\n")}`,
+                content: { success: true, report, sent },
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: error instanceof AllowanceError ? errorMessage : `Error approving collateral: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "My orders keep failing with an allowance error, can you fix it?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Sent 2 approvals from 0x2c75...5c23:\n- USDC: approve(CTF Exchange, unlimited)\n- Conditional Tokens: setApprovalForAll(CTF Exchange, true)",
+                    action: "APPROVE_COLLATERAL",
+                },
+            },
+        ],
+    ],
+};
+
+// Cancel Order Action
+export const cancelOrderAction: Action = {
+    name: "CANCEL_ORDER",
+    description: "Cancel a single open Polymarket order by its order ID",
+    similes: ["cancel order", "cancel bet", "pull order", "remove order", "kill order"],
     validate: async () => true,
     handler: async (
         runtime: IAgentRuntime,
@@ -423,70 +1188,1182 @@ export const getMarketsAction: Action = {
     ): Promise<boolean> => {
         try {
             let currentState = state ?? (await runtime.composeState(message));
+            currentState = await runtime.updateRecentMessageState(currentState);
+
+            if (isPaperTradingEnabled(runtime)) {
+                callback?.({ text: PAPER_NO_OPEN_ORDERS, content: { paperTrading: true, cancelled: [] } });
+                return true;
+            }
 
             const parameterContext = composeContext({
                 state: currentState,
                 template: `{{recentMessages}}
 
-Extract parameters for getting the latest markets:
-- limit: Maximum number of markets to return (optional, default 10, max 20)
-- active: Filter for active markets only (optional, default true)
+Extract the ID of the Polymarket order the user wants to cancel:
+- orderId: The order ID (as returned when the order was placed or listed)
 
-Respond with a JSON object.`
+Respond with a JSON object containing the orderId.`
             });
 
             const { object: parameters } = await generateObject({
                 runtime,
                 context: parameterContext,
                 modelClass: ModelClass.LARGE,
-                schema: GetMarketsSchema,
+                schema: CancelOrderSchema,
             });
 
-            const typedParameters = parameters as z.infer<typeof GetMarketsSchema>;
-            const limit = Math.min(typedParameters.limit || 10, 20);
-            const activeOnly = typedParameters.active !== false; // Default to true
-            
-            // Temporary debug option - set to true to disable filtering and show all markets
-            const debugShowAll = process.env.DEBUG_SHOW_ALL_MARKETS === 'true';
+            const typedParameters = parameters as z.infer<typeof CancelOrderSchema>;
+            const client = await getAuthenticatedPolymarketClient(runtime);
+            const cancelResponse = assertClobResponse(
+                await client.cancelOrder({ orderID: typedParameters.orderId }),
+                "Order cancellation"
+            );
+
+            const cancelled: string[] = cancelResponse?.canceled ?? cancelResponse?.cancelled ?? [];
+            const notCancelled: Record<string, string> = cancelResponse?.not_canceled ?? {};
+            if (cancelled.length === 0 && Object.keys(notCancelled).length > 0) {
+                const reason = notCancelled[typedParameters.orderId] ?? Object.values(notCancelled)[0];
+                throw new Error(`Order ${typedParameters.orderId} was not cancelled: ${reason}`);
+            }
 
-            console.log(`Fetching ${limit} latest markets, active only: ${activeOnly}, debug show all: ${debugShowAll}`);
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
 
-            try {
-                // Use CLOB API to get markets
-                const client = await getPolymarketClient();
-                const marketsResponse = await client.getMarkets();
-                
-                let markets: any[] = [];
-                if (Array.isArray(marketsResponse)) {
-                    markets = marketsResponse;
-                } else if (marketsResponse && typeof marketsResponse === 'object') {
-                    const response = marketsResponse as any;
-                    if (response.data && Array.isArray(response.data)) {
-                        markets = response.data;
-                    }
+The Polymarket order ${typedParameters.orderId} was cancelled.
+- Cancel Response: ${JSON.stringify(cancelResponse)}
+
+Generate a short natural response confirming the cancellation, including the order ID.`
+            });
+
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
+
+            callback?.({
+                text: responseText,
+                content: {
+                    success: true,
+                    orderId: typedParameters.orderId,
+                    cancelled: cancelled.length > 0 ? cancelled : [typedParameters.orderId],
+                    response: cancelResponse,
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error cancelling order: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Cancel order 0x8f3a2c",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Done, order 0x8f3a2c has been cancelled.",
+                    action: "CANCEL_ORDER",
+                },
+            },
+        ],
+    ],
+};
+
+// Cancel All Orders Action
+export const cancelAllOrdersAction: Action = {
+    name: "CANCEL_ALL_ORDERS",
+    description: "Cancel every open Polymarket order for this account",
+    similes: ["cancel all orders", "cancel everything", "pull all orders", "clear my orders"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const currentState = state ?? (await runtime.composeState(message));
+
+            if (isPaperTradingEnabled(runtime)) {
+                callback?.({ text: PAPER_NO_OPEN_ORDERS, content: { paperTrading: true, cancelled: [] } });
+                return true;
+            }
+
+            const client = await getAuthenticatedPolymarketClient(runtime);
+            const cancelResponse = assertClobResponse(await client.cancelAll(), "Order cancellation");
+            const cancelled: string[] = cancelResponse?.canceled ?? cancelResponse?.cancelled ?? [];
+            const notCancelled: Record<string, string> = cancelResponse?.not_canceled ?? {};
+
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+All open Polymarket orders were cancelled.
+- Cancelled order IDs: ${cancelled.length > 0 ? cancelled.join(', ') : 'none (there were no open orders)'}
+- Orders that could not be cancelled: ${Object.keys(notCancelled).length > 0 ? JSON.stringify(notCancelled) : 'none'}
+
+Generate a short natural response confirming how many orders were cancelled.`
+            });
+
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
+
+            callback?.({
+                text: responseText,
+                content: {
+                    success: true,
+                    cancelled,
+                    notCancelled,
+                    count: cancelled.length,
+                    response: cancelResponse,
                 }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error cancelling orders: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Pull all my open orders",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "All 3 of your open orders have been cancelled.",
+                    action: "CANCEL_ALL_ORDERS",
+                },
+            },
+        ],
+    ],
+};
+
+// Replace Order Action - Cancel an open order and re-post it with a new price or size
+export const replaceOrderAction: Action = {
+    name: "REPLACE_ORDER",
+    description: "Amend an open Polymarket order by cancelling it and posting a replacement with a new price or size",
+    similes: ["replace order", "amend order", "modify order", "change order price", "move my order", "update order"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            let currentState = state ?? (await runtime.composeState(message));
+            currentState = await runtime.updateRecentMessageState(currentState);
+
+            if (isPaperTradingEnabled(runtime)) {
+                callback?.({ text: PAPER_NO_OPEN_ORDERS, content: { paperTrading: true } });
+                return true;
+            }
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract the following information for amending an open order:
+- orderId: The ID of the order to replace
+- price: The new price per share between 0.01 and 0.99 (optional)
+- size: The new number of shares (optional)
+
+Respond with a JSON object containing these parameters.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.LARGE,
+                schema: ReplaceOrderSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof ReplaceOrderSchema>;
+            const client = await getAuthenticatedPolymarketClient(runtime);
+
+            const existing = assertClobResponse(await client.getOrder(typedParameters.orderId), "Order lookup");
+            if (!existing?.id) {
+                throw new Error(`Order ${typedParameters.orderId} not found`);
+            }
+
+            const [original] = summarizeOpenOrders([existing]);
+            const price = typedParameters.price ?? original.price;
+            const size = typedParameters.size ?? original.remainingSize;
+            if (size <= 0) {
+                throw new Error(`Order ${typedParameters.orderId} has nothing left to replace`);
+            }
+
+            // The replacement goes through the same path as PLACE_BET: confirmation,
+            // order checks, risk limits and allowances, keeping the original's type and expiry
+            let order: BetParameters;
+            try {
+                order = {
+                    tokenId: original.tokenId,
+                    side: original.side === "SELL" ? "SELL" : "BUY",
+                    amount: Math.round(price * size * 1e6) / 1e6,
+                    price,
+                    ...getReplacementOptions(original),
+                };
+                validateOrderOptions(order);
+                validateOrderSize({ price, size }, order);
+            } catch (error) {
+                if (error instanceof OrderValidationError) {
+                    callback?.({ text: error.message, content: { error: error.message, previous: original } });
+                    return false;
+                }
+                throw error;
+            }
+
+            if (requiresOrderConfirmation(runtime)) {
+                const intent = await createOrderIntent(runtime, message, order);
+
+                callback?.({
+                    text: `${formatOrderIntent(intent)}\n\nReply "confirm" to replace the order. Nothing has been cancelled or traded yet.`,
+                    content: {
+                        success: true,
+                        pendingConfirmation: true,
+                        intentId: intent.id,
+                        intent,
+                        previous: original,
+                    }
+                });
+                return true;
+            }
+
+            return await executeBet(runtime, message, currentState, order, callback);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error replacing order: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Move order 0x8f3a2c up to 45 cents",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Cancelled 0x8f3a2c and re-posted it at $0.45. The new order ID is 0x91bc77.",
+                    action: "REPLACE_ORDER",
+                },
+            },
+        ],
+    ],
+};
+
+// Get Positions Action - Share positions per outcome token with unrealized P&L
+export const getPositionsAction: Action = {
+    name: "GET_POSITIONS",
+    description: "List current Polymarket share positions per outcome token with average price and unrealized P&L",
+    similes: ["positions", "my positions", "portfolio", "holdings", "my bets", "open positions", "pnl"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const currentState = state ?? (await runtime.composeState(message));
+
+            let positions: PortfolioPosition[];
+            let totals: PortfolioTotals;
+            const paperTrading = isPaperTradingEnabled(runtime);
+
+            if (paperTrading) {
+                const portfolio = await getPaperPortfolio(runtime, await getPolymarketClient(runtime));
+                positions = portfolio.positions.map((p) => ({
+                    tokenId: p.tokenId,
+                    market: "",
+                    outcome: "",
+                    size: p.size,
+                    avgPrice: p.avgPrice,
+                    costBasis: p.avgPrice * p.size,
+                    realizedPnl: p.realizedPnl,
+                    markPrice: p.markPrice,
+                    marketValue: p.marketValue,
+                    unrealizedPnl: p.unrealizedPnl,
+                }));
+                totals = { ...totalPositions(positions), realizedPnl: portfolio.realizedPnl };
+            } else {
+                const client = await getAuthenticatedPolymarketClient(runtime);
+                const trades = summarizeTrades(
+                    assertClobResponse(await client.getTrades(), "Trade history lookup"),
+                    await getAccountIdentifiers(runtime, client)
+                );
+                positions = await markPositions(client, buildPositions(trades));
+                totals = totalPositions(positions);
+            }
+
+            const openPositions = positions.filter((p) => p.size > 0);
+            const positionSummary = openPositions.map((p, index) =>
+                `${index + 1}. ${p.outcome || 'Outcome'} (token ${p.tokenId}${p.market ? `, market ${p.market}` : ''})
+   Shares: ${p.size} @ avg $${p.avgPrice} | Mark: ${p.markPrice !== null ? `$${p.markPrice}` : 'N/A'}
+   Value: $${p.marketValue} | Unrealized P&L: $${p.unrealizedPnl}`
+            ).join('\n\n') || 'No open positions.';
+
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Current Polymarket positions${paperTrading ? ' (PAPER TRADING, simulated)' : ''}:
+
+${positionSummary}
+
+Totals: ${totals.positionCount} open positions | Cost basis: $${totals.costBasis} | Market value: $${totals.marketValue}
+Unrealized P&L: $${totals.unrealizedPnl} | Realized P&L: $${totals.realizedPnl}
+
+Generate a natural summary of these positions and their profit and loss.`
+            });
+
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
+
+            callback?.({
+                text: responseText,
+                content: {
+                    positions: openPositions,
+                    totals,
+                    paperTrading,
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error getting positions: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "What positions do I have open right now?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "You're holding 15.38 YES shares on the Trump market at an average of $0.65, currently marked at $0.70 for +$0.77 unrealized.",
+                    action: "GET_POSITIONS",
+                },
+            },
+        ],
+    ],
+};
+
+// Get Open Orders Action - Resting orders on the CLOB
+export const getOpenOrdersAction: Action = {
+    name: "GET_OPEN_ORDERS",
+    description: "List open (unfilled or partially filled) Polymarket orders",
+    similes: ["open orders", "my orders", "pending orders", "resting orders", "active orders"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const currentState = state ?? (await runtime.composeState(message));
+            const paperTrading = isPaperTradingEnabled(runtime);
+
+            let orders: OpenOrderSummary[] = [];
+            if (!paperTrading) {
+                const parameterContext = composeContext({
+                    state: currentState,
+                    template: `{{recentMessages}}
+
+Extract parameters for listing open orders:
+- market: Market condition ID to filter by (optional)
+
+Respond with a JSON object.`
+                });
+
+                const { object: parameters } = await generateObject({
+                    runtime,
+                    context: parameterContext,
+                    modelClass: ModelClass.SMALL,
+                    schema: GetOpenOrdersSchema,
+                });
+
+                const typedParameters = parameters as z.infer<typeof GetOpenOrdersSchema>;
+                const client = await getAuthenticatedPolymarketClient(runtime);
+                orders = summarizeOpenOrders(
+                    assertClobResponse(
+                        await client.getOpenOrders(typedParameters.market ? { market: typedParameters.market } : undefined),
+                        "Open orders lookup"
+                    )
+                );
+            }
+
+            const orderSummary = orders.map((o, index) =>
+                `${index + 1}. ${o.side} ${o.outcome || 'outcome'} (token ${o.tokenId}) @ $${o.price}
+   Order ID: ${o.orderId} | Filled: ${o.sizeMatched}/${o.originalSize} | Remaining: ${o.remainingSize} | Status: ${o.status}`
+            ).join('\n\n') || (paperTrading
+                ? 'No open orders. Paper trades fill immediately, so nothing rests on the book.'
+                : 'No open orders.');
+
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Open Polymarket orders${paperTrading ? ' (PAPER TRADING, simulated)' : ''}:
+
+${orderSummary}
+
+Generate a natural summary of these open orders, including their order IDs.`
+            });
+
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
+
+            callback?.({
+                text: responseText,
+                content: {
+                    orders,
+                    count: orders.length,
+                    paperTrading,
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error getting open orders: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Do I have any orders still open?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "You have one open order: BUY 20 YES shares at $0.42, 5 filled so far.",
+                    action: "GET_OPEN_ORDERS",
+                },
+            },
+        ],
+    ],
+};
+
+// Get Trade History Action - Filled trades
+export const getTradeHistoryAction: Action = {
+    name: "GET_TRADE_HISTORY",
+    description: "List filled Polymarket trades",
+    similes: ["trade history", "my trades", "filled orders", "fills", "past bets", "bet history"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const currentState = state ?? (await runtime.composeState(message));
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract parameters for listing trade history:
+- market: Market condition ID to filter by (optional)
+- limit: Maximum number of trades to return (optional, default 20)
+
+Respond with a JSON object.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.SMALL,
+                schema: GetTradeHistorySchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof GetTradeHistorySchema>;
+            const limit = Math.min(typedParameters.limit || 20, 50);
+            const paperTrading = isPaperTradingEnabled(runtime);
+
+            let trades = await loadAccountTrades(
+                runtime,
+                undefined,
+                typedParameters.market ? { market: typedParameters.market } : undefined
+            );
+
+            trades = trades
+                .sort((a, b) => (b.matchTime ?? "").localeCompare(a.matchTime ?? ""))
+                .slice(0, limit);
+
+            const tradeSummary = trades.map((t, index) =>
+                `${index + 1}. ${t.side} ${t.size} ${t.outcome || 'shares'} (token ${t.tokenId}) @ $${t.price} = $${t.notional.toFixed(2)}
+   ${t.matchTime ? new Date(t.matchTime).toLocaleString() : 'Unknown time'} | ${t.role} | Status: ${t.status}`
+            ).join('\n\n') || 'No trades found.';
+
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Recent Polymarket trades${paperTrading ? ' (PAPER TRADING, simulated)' : ''} (${trades.length} shown):
+
+${tradeSummary}
+
+Generate a natural summary of this trade history.`
+            });
+
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
+
+            callback?.({
+                text: responseText,
+                content: {
+                    trades,
+                    count: trades.length,
+                    paperTrading,
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error getting trade history: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show me my last few trades",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are your most recent fills: you bought 15.38 YES shares at $0.65 yesterday...",
+                    action: "GET_TRADE_HISTORY",
+                },
+            },
+        ],
+    ],
+};
+
+// Get Latest Markets Action - Updated to use CLOB API for fresh active markets
+export const getMarketsAction: Action = {
+    name: "GET_MARKETS",
+    description: "Get latest active markets from Polymarket using CLOB API",
+    similes: ["markets", "betting markets", "available bets", "what can I bet on", "latest markets", "newest markets", "fresh markets", "current markets", "active markets"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            let currentState = state ?? (await runtime.composeState(message));
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract parameters for getting the latest markets:
+- limit: Maximum number of markets to return (optional, default 10, max 20)
+- active: Filter for active markets only (optional, default true)
+
+Respond with a JSON object.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.LARGE,
+                schema: GetMarketsSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof GetMarketsSchema>;
+            const limit = Math.min(typedParameters.limit || 10, 20);
+            const activeOnly = typedParameters.active !== false; // Default to true
+            
+            // Temporary debug option - set to true to disable filtering and show all markets
+            const debugShowAll = process.env.DEBUG_SHOW_ALL_MARKETS === 'true';
+
+            console.log(`Fetching ${limit} latest markets, active only: ${activeOnly}, debug show all: ${debugShowAll}`);
+
+            try {
+                // Read from the local market catalog kept warm by the catalog service
+                const markets = await loadCatalogMarkets(runtime);
+
+                console.log(`Found ${markets.length} total markets in the local catalog`);
+
+                if (markets.length === 0) {
+                    callback?.({
+                        text: "No markets found at this time. The Polymarket CLOB API may be experiencing issues.",
+                        content: { markets: [], totalCount: 0 }
+                    });
+                    return true;
+                }
+
+                // Very lenient filtering - only filter out closed or archived markets
+                let filteredMarkets = markets;
+                if (activeOnly && !debugShowAll) {
+                    filteredMarkets = markets.filter((market) => !market.closed && !market.archived);
+                    console.log(`After lenient filtering: ${filteredMarkets.length} of ${markets.length} markets remain`);
+                } else if (debugShowAll) {
+                    console.log("DEBUG: Showing all markets without filtering");
+                }
+
+                if (filteredMarkets.length === 0) {
+                    console.log("Warning: All markets were filtered out. Showing all markets with status indicators.");
+                    filteredMarkets = markets;
+                }
+
+                // Sort markets by activity and volume for better presentation
+                filteredMarkets.sort(compareByActivityAndUrgency);
+
+                // Process markets with comprehensive data
+                const shownMarkets = filteredMarkets.slice(0, limit);
+                const processedMarkets = shownMarkets.map((market) => toMarketListing(market, 200));
+                await recordShownMarkets(runtime, message.roomId, shownMarkets);
+
+                // Create enhanced market summary with activity indicators
+                const marketSummary = processedMarkets.map((market: any, index: number) => {
+                    const outcomes = market.tokens.length > 0 ? 
+                        market.tokens.map((t: any) => `${t.outcome} ($${t.price})`).join(' vs ') :
+                        'No outcomes available';
+                    
+                    // Enhanced status indicators
+                    const statusEmoji = market.accepting_orders ? "🟢" : 
+                        (market.active ? "🟡" : 
+                        (market.closed ? "🔴" : "⚪"));
+                    
+                    const activityEmoji = market.activity_score > 10000 ? "🔥" : 
+                        (market.activity_score > 1000 ? "⚡" : 
+                        (market.activity_score > 100 ? "📈" : "📊"));
+                    
+                    const urgencyEmoji = market.freshness_days <= 1 ? "🚨" : 
+                        (market.freshness_days <= 7 ? "⏰" : 
+                        (market.freshness_days <= 30 ? "📅" : "📆"));
+                    
+                    const tags = market.tags.length > 0 ? market.tags.slice(0, 3).join(', ') : 'No tags';
+                    const endDate = market.end_date_iso ? new Date(market.end_date_iso).toLocaleDateString() : 'No end date';
+                    const volume24hr = market.volume24hr ? `$${parseFloat(market.volume24hr).toLocaleString()}` : 'N/A';
+                    const liquidity = market.liquidity ? `$${parseFloat(market.liquidity).toLocaleString()}` : 'N/A';
+                    
+                    return `${index + 1}. ${statusEmoji}${activityEmoji}${urgencyEmoji} ${market.question.substring(0, 70)}${market.question.length > 70 ? '...' : ''}
+   📊 Outcomes: ${outcomes}
+   📈 24h Volume: ${volume24hr} | 💧 Liquidity: ${liquidity} | 🏷️ Tags: ${tags}
+   💵 Min Order: $${market.minimum_order_size} | 📅 Ends: ${endDate}
+   🎯 Condition ID: ${market.condition_id || 'N/A'}
+   ⏱️  Days remaining: ${market.freshness_days} | 🔥 Activity Score: ${market.activity_score.toFixed(0)}`;
+                }).join('\n\n');
+
+                const responseContext = composeContext({
+                    state: currentState,
+                    template: `{{recentMessages}}
+
+Found ${processedMarkets.length} current active betting markets on Polymarket (using CLOB API):
+
+Legend: 
+🟢 Accepting Orders | 🟡 Active | 🔴 Closed | ⚪ Unknown
+🔥 High Activity (10k+) | ⚡ Medium Activity (1k+) | 📈 Low Activity (100+) | 📊 New
+🚨 Ending Today | ⏰ Ending This Week | 📅 Ending This Month | 📆 Long Term
+
+${marketSummary}
+
+These are the most current and active markets available for betting right now, sorted by activity level and urgency.
+
+Generate a response highlighting these current active markets with their key details, emphasizing which ones are most active, have high volume, and are ending soon.`
+                });
+
+                const responseText = await generateText({
+                    runtime,
+                    context: responseContext,
+                    modelClass: ModelClass.LARGE,
+                });
+
+                callback?.({ 
+                    text: responseText,
+                    content: { 
+                        markets: processedMarkets,
+                        totalCount: markets.length,
+                        displayedCount: processedMarkets.length,
+                        activeCount: processedMarkets.filter(m => m.active).length,
+                        acceptingOrdersCount: processedMarkets.filter(m => m.accepting_orders).length,
+                        timestamp: new Date().toISOString(),
+                        source: "CLOB-API",
+                        sorting: "activity_and_urgency",
+                        filters_applied: activeOnly ? ["active_only", "accepting_orders", "not_expired", "has_outcomes"] : [],
+                        activity_stats: {
+                            high_activity: processedMarkets.filter(m => m.activity_score > 10000).length,
+                            medium_activity: processedMarkets.filter(m => m.activity_score > 1000 && m.activity_score <= 10000).length,
+                            low_activity: processedMarkets.filter(m => m.activity_score <= 1000).length,
+                            ending_soon: processedMarkets.filter(m => m.freshness_days <= 7).length
+                        }
+                    }
+                });
+                return true;
+                
+            } catch (apiError) {
+                console.error("CLOB API failed:", apiError);
+                throw new Error(`Failed to fetch current active markets from CLOB API: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
+            }
+            
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error("Get current active markets error:", errorMessage);
+            callback?.({
+                text: `Error getting current active markets: ${errorMessage}. Please check your internet connection and try again.`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "What are the current active betting markets?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are the current active betting markets on Polymarket, sorted by activity level and urgency...",
+                    action: "GET_MARKETS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show me the latest active markets on Polymarket",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "I'll fetch the latest and most current active markets for you, sorted by activity and urgency...",
+                    action: "GET_MARKETS",
+                },
+            },
+        ],
+    ],
+};
+
+// Get More Markets Action - Updated to use CLOB API
+export const getMoreMarketsAction: Action = {
+    name: "GET_MORE_MARKETS",
+    description: "Get next batch of markets using CLOB API",
+    similes: ["more markets", "next page", "continue", "see more"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            let currentState = state ?? (await runtime.composeState(message));
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract parameters for getting more markets:
+- cursor: A market page cursor, only if one appears literally in the conversation (optional)
+- limit: Maximum number of markets to return (optional, default 10)
+
+Respond with a JSON object.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.LARGE,
+                schema: GetMoreMarketsSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof GetMoreMarketsSchema>;
+            const limit = Math.min(typedParameters.limit || 10, 20);
+            
+            try {
+                // Use CLOB API to get the page after the given cursor, or after the last page shown in the room
+                const client = await getPolymarketClient(runtime);
+                const cursor = typedParameters.cursor || (await getMarketsCursor(runtime, message.roomId));
+                const page = await fetchMarketsPage(client, cursor);
+                const markets = page.markets;
+                await recordMarketsCursor(runtime, message.roomId, page.nextCursor);
+
+                if (markets.length === 0) {
+                    callback?.({
+                        text: "No additional markets available at this time.",
+                        content: { endOfResults: true }
+                    });
+                    return true;
+                }
+
+                // Apply enhanced filtering for active markets (same logic as getHighActivityMarketsAction)
+                const filteredMarkets = markets.filter(isListableMarket);
+
+                // Sort markets by activity and volume (same logic as getMarketsAction)
+                filteredMarkets.sort(compareByActivityAndUrgency);
+
+                // Process markets
+                const shownMarkets = filteredMarkets.slice(0, limit);
+                const processedMarkets = shownMarkets.map((market) => toMarketListing(market, 150));
+                await recordShownMarkets(runtime, message.roomId, shownMarkets);
+
+                const marketSummary = processedMarkets.map((market: any, index: number) => {
+                    const outcomes = market.tokens.length > 0 ? 
+                        market.tokens.map((t: any) => `${t.outcome} ($${t.price})`).join(' vs ') :
+                        'No outcomes available';
+                    
+                    // Enhanced status indicators
+                    const statusEmoji = market.accepting_orders ? "🟢" : 
+                        (market.active ? "🟡" : (market.closed ? "🔴" : "⚪"));
+                    
+                    const activityEmoji = market.activity_score > 10000 ? "🔥" : 
+                        (market.activity_score > 1000 ? "⚡" : 
+                        (market.activity_score > 100 ? "📈" : "📊"));
+                    
+                    const urgencyEmoji = market.freshness_days <= 1 ? "🚨" : 
+                        (market.freshness_days <= 7 ? "⏰" : 
+                        (market.freshness_days <= 30 ? "📅" : "📆"));
+                    
+                    const tags = market.tags.length > 0 ? market.tags.slice(0, 3).join(', ') : 'No tags';
+                    const volume24hr = market.volume24hr ? `$${parseFloat(market.volume24hr).toLocaleString()}` : 'N/A';
+                    const liquidity = market.liquidity ? `$${parseFloat(market.liquidity).toLocaleString()}` : 'N/A';
+                    
+                    return `${index + 1}. ${statusEmoji}${activityEmoji}${urgencyEmoji} ${market.question.substring(0, 60)}${market.question.length > 60 ? '...' : ''}
+   Outcomes: ${outcomes}
+   24h Volume: ${volume24hr} | Liquidity: ${liquidity} | Tags: ${tags}
+   Min Order: $${market.minimum_order_size}
+   Ends: ${market.end_date_iso ? new Date(market.end_date_iso).toLocaleDateString() : 'No end date'}
+   Activity Score: ${market.activity_score.toFixed(0)} | Days remaining: ${market.freshness_days}`;
+                }).join('\n\n');
+
+                const responseContext = composeContext({
+                    state: currentState,
+                    template: `{{recentMessages}}
+
+Additional current active markets from Polymarket (${processedMarkets.length} shown):
+
+Legend: 
+🟢 Accepting Orders | 🟡 Active | 🔴 Closed | ⚪ Unknown
+🔥 High Activity | ⚡ Medium Activity | 📈 Low Activity | 📊 New
+🚨 Ending Today | ⏰ Ending This Week | 📅 Ending This Month | 📆 Long Term
+
+${marketSummary}
+
+Generate a response showing these additional current active markets with their key details, emphasizing activity levels and urgency.`
+                });
+
+                const responseText = await generateText({
+                    runtime,
+                    context: responseContext,
+                    modelClass: ModelClass.LARGE,
+                });
+
+                callback?.({ 
+                    text: responseText,
+                    content: { 
+                        markets: processedMarkets,
+                        count: processedMarkets.length,
+                        hasMore: page.nextCursor !== null,
+                        nextCursor: page.nextCursor,
+                        source: "CLOB-API",
+                        sorting: "activity_and_urgency",
+                        filters_applied: ["active_only", "accepting_orders", "not_expired", "has_outcomes"]
+                    }
+                });
+                return true;
+                
+            } catch (error) {
+                console.error("Failed to fetch more markets:", error);
+                throw new Error(`Failed to get more current active markets: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error getting more current active markets: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show me more current active markets",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are additional current active markets from Polymarket, sorted by activity level and urgency...",
+                    action: "GET_MORE_MARKETS",
+                },
+            },
+        ],
+    ],
+};
+
+// Get Market Action - Complete implementation using CLOB API
+export const getMarketAction: Action = {
+    name: "GET_MARKET",
+    description: "Get details of a specific market on Polymarket using CLOB API",
+    similes: ["market details", "specific market", "market info"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            let currentState = state ?? (await runtime.composeState(message));
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract the condition ID for the market to get details for.
+
+Respond with a JSON object containing the conditionId.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.LARGE,
+                schema: GetMarketSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof GetMarketSchema>;
+
+            try {
+                // Look the market up in the local catalog, falling back to the CLOB API
+                const client = await getPolymarketClient(runtime);
+                const markets = await loadCatalogMarkets(runtime);
+                let market = markets.find((m) => m.conditionId === typedParameters.conditionId);
+                if (!market) {
+                    const raw = await client.getMarket(typedParameters.conditionId).catch(() => null);
+                    market = raw && !raw.error ? parseMarket(raw) : null;
+                }
+
+                if (!market) {
+                    throw new Error(`Market with condition ID ${typedParameters.conditionId} not found`);
+                }
+
+                console.log("Market details:", market);
+                await recordShownMarkets(runtime, message.roomId, [market]);
+
+                // Create comprehensive market summary
+                const liquidity = market.liquidity ? `$${market.liquidity.toLocaleString()}` : 'N/A';
+                const endDate = market.endDate ? new Date(market.endDate).toLocaleString() : 'N/A';
+                const volume24hr = market.volume24hr ? `$${market.volume24hr.toLocaleString()}` : 'N/A';
+                const tagsString = market.tags.length > 0 ? market.tags.slice(0, 5).join(', ') : 'No tags';
+
+                const tokenDetails = market.tokens.map((token, index) => {
+                    const price = token.price ?? 'N/A';
+                    const outcome = token.outcome || `Outcome ${index + 1}`;
+                    const winner = token.winner ? ' (Winner)' : '';
+                    return `   ${index + 1}. ${outcome}: $${price}${winner}`;
+                }).join('\n');
+
+                const marketDetails = `
+📌 Market: ${market.question}
+📄 Description: ${market.description || 'No description available'}
+📅 Ends: ${endDate}
+💧 Liquidity: ${liquidity}
+📈 24h Volume: ${volume24hr}
+🏷️ Tags: ${tagsString}
+
+📊 Outcomes & Prices:
+${tokenDetails}
+                `;
+
+                const responseContext = composeContext({
+                    state: currentState,
+                    template: `{{recentMessages}}
+
+Fetched detailed information for market condition ID: ${typedParameters.conditionId} using CLOB API
+
+${marketDetails}
+
+Generate a natural summary of this market, highlighting the question, prices, volume, and outcomes.`
+                });
+
+                const responseText = await generateText({
+                    runtime,
+                    context: responseContext,
+                    modelClass: ModelClass.LARGE,
+                });
+
+                callback?.({
+                    text: responseText,
+                    content: {
+                        market,
+                        tokens: market.tokens,
+                        conditionId: typedParameters.conditionId,
+                        source: "CLOB-API"
+                    }
+                });
+
+                return true;
+
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                console.error("Failed to fetch specific market:", errorMessage);
+                callback?.({
+                    text: `Error getting market details: ${errorMessage}`,
+                    content: { error: errorMessage }
+                });
+                return false;
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error extracting condition ID: ${errorMessage}`,
+                content: { error: errorMessage }
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Can you show me details about the market with condition ID xyz123?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are the details for market xyz123 using the CLOB API: it's about whether Biden will win in 2024, with outcomes YES ($0.62) and NO ($0.38)...",
+                    action: "GET_MARKET",
+                },
+            },
+        ],
+    ],
+};
+// Get High Activity Markets Action - New action for high-volume markets
+export const getHighActivityMarketsAction: Action = {
+    name: "GET_HIGH_ACTIVITY_MARKETS",
+    description: "Get markets with high activity levels (high volume and liquidity) from Polymarket",
+    similes: ["high volume markets", "busy markets", "popular markets", "trending markets", "hot markets", "active trading"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            let currentState = state ?? (await runtime.composeState(message));
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract parameters for getting high activity markets:
+- limit: Maximum number of markets to return (optional, default 10, max 20)
+- minVolume: Minimum 24h volume threshold in USD (optional, default 1000)
+
+Respond with a JSON object.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.LARGE,
+                schema: GetMarketsSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof GetMarketsSchema>;
+            const limit = Math.min(typedParameters.limit || 10, 20);
+            const minVolume = 1000; // Default minimum volume threshold
 
-                if (!Array.isArray(markets)) {
-                    console.log("Unexpected response format:", marketsResponse);
-                    markets = [];
-                }
+            console.log(`Fetching ${limit} high activity markets with minimum volume of $${minVolume}`);
 
-                console.log(`Found ${markets.length} total markets from CLOB API`);
-
-                // Debug: Log market data structure
-                if (markets.length > 0) {
-                    const sampleMarket = markets[0];
-                    console.log("Sample market structure:", {
-                        question: sampleMarket.question || sampleMarket.title || 'No title',
-                        active: sampleMarket.active,
-                        closed: sampleMarket.closed,
-                        archived: sampleMarket.archived,
-                        accepting_orders: sampleMarket.accepting_orders,
-                        end_date: sampleMarket.end_date_iso || sampleMarket.endDate,
-                        has_tokens: sampleMarket.tokens && Array.isArray(sampleMarket.tokens),
-                        tokens_count: sampleMarket.tokens ? sampleMarket.tokens.length : 0
-                    });
-                }
+            try {
+                // Read from the local market catalog kept warm by the catalog service
+                const markets = await loadCatalogMarkets(runtime);
+
+                console.log(`Found ${markets.length} total markets in the local catalog`);
 
                 if (markets.length === 0) {
                     callback?.({
@@ -496,159 +2373,29 @@ Respond with a JSON object.`
                     return true;
                 }
 
-                // Enhanced filtering for active markets
-                let filteredMarkets = markets;
-                if (activeOnly && !debugShowAll) {
-                    console.log(`Starting with ${markets.length} total markets`);
-                    
-                    // Debug: Show sample market data
-                    if (markets.length > 0) {
-                        console.log("Sample market data structure:", {
-                            question: markets[0].question || markets[0].title,
-                            active: markets[0].active,
-                            closed: markets[0].closed,
-                            archived: markets[0].archived,
-                            accepting_orders: markets[0].accepting_orders,
-                            end_date: markets[0].end_date_iso || markets[0].endDate
-                        });
-                    }
-                    
-                    // Very lenient filtering - only filter out obviously closed/archived markets
-                    filteredMarkets = markets.filter((market: any) => {
-                        // Only filter out explicitly closed or archived markets
-                        const isNotClosed = market.closed !== true;
-                        const isNotArchived = market.archived !== true;
-                        
-                        // Log what we're filtering out
-                        if (!isNotClosed) console.log(`Filtered out: ${market.question || market.title} - explicitly closed`);
-                        if (!isNotArchived) console.log(`Filtered out: ${market.question || market.title} - explicitly archived`);
-                        
-                        return isNotClosed && isNotArchived;
-                    });
-                    
-                    console.log(`After lenient filtering: ${filteredMarkets.length} markets remain`);
-                    
-                    // If we filtered out too many, show all markets with a warning
-                    if (filteredMarkets.length === 0 && markets.length > 0) {
-                        console.log("Warning: All markets were filtered out. Showing all markets with status indicators.");
-                        filteredMarkets = markets;
-                    }
-                } else if (debugShowAll) {
-                    console.log("DEBUG: Showing all markets without filtering");
-                    filteredMarkets = markets;
-                }
+                // Tradable markets with high activity (volume and liquidity)
+                let filteredMarkets = markets.filter((market) =>
+                    isListableMarket(market) && (market.volume24hr >= minVolume || market.liquidity >= minVolume * 0.1)
+                );
+
+                console.log(`Filtered to ${filteredMarkets.length} high activity markets`);
 
                 if (filteredMarkets.length === 0) {
-                    // If no markets after filtering, try showing all markets with a warning
-                    if (markets.length > 0) {
-                        console.log("Warning: All markets were filtered out. Showing all markets with status indicators.");
-                        filteredMarkets = markets;
-                    } else {
-                        callback?.({
-                            text: "No markets found at this time. The Polymarket CLOB API may be experiencing issues.",
-                            content: { markets: [], totalCount: 0 }
-                        });
-                        return true;
-                    }
+                    console.log("Warning: All markets were filtered out. Showing all markets with status indicators.");
+                    filteredMarkets = markets;
                 }
 
-                // Sort markets by activity and volume for better presentation
-                filteredMarkets.sort((a: any, b: any) => {
-                    // First priority: accepting orders
-                    const aAccepting = a.accepting_orders !== false;
-                    const bAccepting = b.accepting_orders !== false;
-                    if (aAccepting !== bAccepting) {
-                        return aAccepting ? -1 : 1;
-                    }
-                    
-                    // Second priority: 24h volume (higher volume first)
-                    const aVolume = parseFloat(a.volume24hr || a.volume || '0');
-                    const bVolume = parseFloat(b.volume24hr || b.volume || '0');
-                    if (aVolume !== bVolume) {
-                        return bVolume - aVolume;
-                    }
-                    
-                    // Third priority: end date (sooner ending first for urgency)
-                    const aEndDate = a.end_date_iso || a.endDate;
-                    const bEndDate = b.end_date_iso || b.endDate;
-                    if (aEndDate && bEndDate) {
-                        const aEnd = new Date(aEndDate);
-                        const bEnd = new Date(bEndDate);
-                        return aEnd.getTime() - bEnd.getTime();
-                    }
-                    
-                    // Fourth priority: creation date (newer first)
-                    const aCreated = a.created_date || a.createdAt;
-                    const bCreated = b.created_date || b.createdAt;
-                    if (aCreated && bCreated) {
-                        const aCreate = new Date(aCreated);
-                        const bCreate = new Date(bCreated);
-                        return bCreate.getTime() - aCreate.getTime();
-                    }
-                    
-                    return 0;
-                });
+                // Sort markets by activity score (volume + liquidity)
+                filteredMarkets.sort((a, b) => activityScore(b) - activityScore(a));
 
                 // Process markets with comprehensive data
-                const processedMarkets = filteredMarkets.slice(0, limit).map((market: any, index: number) => {
-                    const tokens = market.tokens || market.outcomes || [];
-                    const tokenArray = Array.isArray(tokens) ? tokens : [];
-                    
-                    // Calculate freshness indicator and time remaining
-                    const endDate = new Date(market.end_date_iso || market.endDate || '2099-12-31');
-                    const now = new Date();
-                    const daysUntilEnd = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-                    const freshness = daysUntilEnd > 0 ? daysUntilEnd : 0;
-                    
-                    // Calculate market activity score
-                    const volume24hr = parseFloat(market.volume24hr || market.volume || '0');
-                    const liquidity = parseFloat(market.liquidity || '0');
-                    const activityScore = volume24hr + (liquidity * 0.1); // Weight volume more heavily
-                    
-                    return {
-                        condition_id: market.condition_id || market.conditionId || market.id,
-                        question_id: market.question_id || market.questionId,
-                        question: market.question || market.title || market.name || 'Unknown Market',
-                        description: market.description ? 
-                            (market.description.length > 200 ? 
-                                market.description.substring(0, 200) + '...' : 
-                                market.description) : 
-                            'No description available',
-                        market_slug: market.market_slug || market.slug,
-                        active: market.active,
-                        closed: market.closed,
-                        archived: market.archived,
-                        accepting_orders: market.accepting_orders,
-                        end_date_iso: market.end_date_iso || market.endDate,
-                        created_date: market.created_date || market.createdAt,
-                        minimum_order_size: market.minimum_order_size || market.minOrderSize || '1.00',
-                        minimum_tick_size: market.minimum_tick_size || market.tickSize || '0.01',
-                        icon: market.icon,
-                        image: market.image,
-                        volume: market.volume || market.volume24hr || market.totalVolume,
-                        volume24hr: market.volume24hr,
-                        liquidity: market.liquidity,
-                        neg_risk: market.neg_risk,
-                        is_50_50_outcome: market.is_50_50_outcome,
-                        tags: Array.isArray(market.tags) ? market.tags.slice(0, 5) : [],
-                        freshness_days: freshness,
-                        activity_score: activityScore,
-                        tokens: tokenArray.map((token: any) => ({
-                            token_id: token.token_id || token.tokenId || token.id,
-                            outcome: token.outcome || token.name || token.title,
-                            price: token.price || token.lastPrice || '0.50',
-                            winner: token.winner,
-                            volume: token.volume
-                        })),
-                        rewards: market.rewards ? {
-                            min_size: market.rewards.min_size,
-                            max_spread: market.rewards.max_spread,
-                            rates_count: market.rewards.rates?.length || 0,
-                            daily_rate: market.rewards.daily_rate
-                        } : null,
-                        last_updated: new Date().toISOString()
-                    };
-                });
+                const shownMarkets = filteredMarkets.slice(0, limit);
+                await recordShownMarkets(runtime, message.roomId, shownMarkets);
+                const processedMarkets = shownMarkets.map((market) => ({
+                    ...toMarketListing(market, 200),
+                    volume_usd: market.volume24hr,
+                    liquidity_usd: market.liquidity,
+                }));
 
                 // Create enhanced market summary with activity indicators
                 const marketSummary = processedMarkets.map((market: any, index: number) => {
@@ -656,14 +2403,10 @@ Respond with a JSON object.`
                         market.tokens.map((t: any) => `${t.outcome} ($${t.price})`).join(' vs ') :
                         'No outcomes available';
                     
-                    // Enhanced status indicators
-                    const statusEmoji = market.accepting_orders ? "🟢" : 
-                        (market.active ? "🟡" : 
-                        (market.closed ? "🔴" : "⚪"));
-                    
-                    const activityEmoji = market.activity_score > 10000 ? "🔥" : 
-                        (market.activity_score > 1000 ? "⚡" : 
-                        (market.activity_score > 100 ? "📈" : "📊"));
+                    // Activity level indicators
+                    const activityLevel = market.activity_score > 50000 ? "🔥🔥🔥" : 
+                        (market.activity_score > 20000 ? "🔥🔥" : 
+                        (market.activity_score > 10000 ? "🔥" : "⚡"));
                     
                     const urgencyEmoji = market.freshness_days <= 1 ? "🚨" : 
                         (market.freshness_days <= 7 ? "⏰" : 
@@ -674,30 +2417,29 @@ Respond with a JSON object.`
                     const volume24hr = market.volume24hr ? `$${parseFloat(market.volume24hr).toLocaleString()}` : 'N/A';
                     const liquidity = market.liquidity ? `$${parseFloat(market.liquidity).toLocaleString()}` : 'N/A';
                     
-                    return `${index + 1}. ${statusEmoji}${activityEmoji}${urgencyEmoji} ${market.question.substring(0, 70)}${market.question.length > 70 ? '...' : ''}
+                    return `${index + 1}. ${activityLevel}${urgencyEmoji} ${market.question.substring(0, 70)}${market.question.length > 70 ? '...' : ''}
    📊 Outcomes: ${outcomes}
-   📈 24h Volume: ${volume24hr} | 💧 Liquidity: ${liquidity} | 🏷️ Tags: ${tags}
+   💰 24h Volume: ${volume24hr} | 💧 Liquidity: ${liquidity} | 🏷️ Tags: ${tags}
    💵 Min Order: $${market.minimum_order_size} | 📅 Ends: ${endDate}
    🎯 Condition ID: ${market.condition_id || 'N/A'}
-   ⏱️  Days remaining: ${market.freshness_days} | 🔥 Activity Score: ${market.activity_score.toFixed(0)}`;
+   ⏱️  Days remaining: ${market.freshness_days} | 🔥 Activity Score: $${market.activity_score.toLocaleString()}`;
                 }).join('\n\n');
 
                 const responseContext = composeContext({
                     state: currentState,
                     template: `{{recentMessages}}
 
-Found ${processedMarkets.length} current active betting markets on Polymarket (using CLOB API):
+Found ${processedMarkets.length} high activity betting markets on Polymarket (minimum $${minVolume} volume):
 
 Legend: 
-🟢 Accepting Orders | 🟡 Active | 🔴 Closed | ⚪ Unknown
-🔥 High Activity (10k+) | ⚡ Medium Activity (1k+) | 📈 Low Activity (100+) | 📊 New
+🔥🔥🔥 Ultra High Activity (50k+) | 🔥🔥 Very High Activity (20k+) | 🔥 High Activity (10k+) | ⚡ Medium Activity
 🚨 Ending Today | ⏰ Ending This Week | 📅 Ending This Month | 📆 Long Term
 
 ${marketSummary}
 
-These are the most current and active markets available for betting right now, sorted by activity level and urgency.
+These are the most active and liquid markets available for betting, sorted by activity level. High activity indicates more trading opportunities and better liquidity.
 
-Generate a response highlighting these current active markets with their key details, emphasizing which ones are most active, have high volume, and are ending soon.`
+Generate a response highlighting these high activity markets, emphasizing their trading volume, liquidity, and why they're popular for betting.`
                 });
 
                 const responseText = await generateText({
@@ -716,12 +2458,14 @@ Generate a response highlighting these current active markets with their key det
                         acceptingOrdersCount: processedMarkets.filter(m => m.accepting_orders).length,
                         timestamp: new Date().toISOString(),
                         source: "CLOB-API",
-                        sorting: "activity_and_urgency",
-                        filters_applied: activeOnly ? ["active_only", "accepting_orders", "not_expired", "has_outcomes"] : [],
+                        sorting: "activity_score_desc",
+                        filters_applied: ["active_only", "accepting_orders", "not_expired", "has_outcomes", "high_activity"],
+                        minVolume,
                         activity_stats: {
-                            high_activity: processedMarkets.filter(m => m.activity_score > 10000).length,
-                            medium_activity: processedMarkets.filter(m => m.activity_score > 1000 && m.activity_score <= 10000).length,
-                            low_activity: processedMarkets.filter(m => m.activity_score <= 1000).length,
+                            ultra_high: processedMarkets.filter(m => m.activity_score > 50000).length,
+                            very_high: processedMarkets.filter(m => m.activity_score > 20000 && m.activity_score <= 50000).length,
+                            high: processedMarkets.filter(m => m.activity_score > 10000 && m.activity_score <= 20000).length,
+                            medium: processedMarkets.filter(m => m.activity_score <= 10000).length,
                             ending_soon: processedMarkets.filter(m => m.freshness_days <= 7).length
                         }
                     }
@@ -730,14 +2474,301 @@ Generate a response highlighting these current active markets with their key det
                 
             } catch (apiError) {
                 console.error("CLOB API failed:", apiError);
-                throw new Error(`Failed to fetch current active markets from CLOB API: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
+                throw new Error(`Failed to fetch high activity markets from CLOB API: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
             }
             
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error("Get current active markets error:", errorMessage);
+            console.error("Get high activity markets error:", errorMessage);
+            callback?.({
+                text: `Error getting high activity markets: ${errorMessage}. Please check your internet connection and try again.`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show me the high volume markets",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are the high activity markets on Polymarket, sorted by trading volume and liquidity...",
+                    action: "GET_HIGH_ACTIVITY_MARKETS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "What are the most popular betting markets right now?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "I'll fetch the most active and popular markets for you, focusing on high volume and liquidity...",
+                    action: "GET_HIGH_ACTIVITY_MARKETS",
+                },
+            },
+        ],
+    ],
+};
+
+// Search Markets Action - Full-text search over the local market catalog
+export const searchMarketsAction: Action = {
+    name: "SEARCH_MARKETS",
+    description: "Search Polymarket markets by keyword, tag, end date, liquidity and accepting-orders status",
+    similes: ["search markets", "find market", "find markets", "look up market", "market about", "markets ending", "markets tagged"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const currentState = state ?? (await runtime.composeState(message));
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Current date: ${new Date().toISOString()}
+
+Extract parameters for searching Polymarket markets from the latest request:
+- query: Keywords describing the market, e.g. "Lakers Celtics" (optional)
+- tags: Category tags such as "Crypto", "Sports" or "Politics" (optional)
+- endDateFrom: Earliest end date as an ISO date (optional)
+- endDateTo: Latest end date as an ISO date, e.g. the end of this week for "ending this week" (optional)
+- minLiquidity: Minimum liquidity in USDC (optional)
+- acceptingOrders: true if only tradable markets are wanted (optional)
+- limit: Maximum number of markets to return (optional, default 10, max 20)
+
+Respond with a JSON object.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.LARGE,
+                schema: SearchMarketsSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof SearchMarketsSchema>;
+            const limit = Math.min(typedParameters.limit || 10, 20);
+
+            const catalog = await getMarketCatalog(runtime, await getPolymarketClient(runtime));
+            const results = searchMarkets(getMarketSearchIndex(runtime, catalog), {
+                text: typedParameters.query,
+                tags: typedParameters.tags,
+                endDateFrom: typedParameters.endDateFrom,
+                endDateTo: typedParameters.endDateTo,
+                minLiquidity: typedParameters.minLiquidity,
+                acceptingOrders: typedParameters.acceptingOrders,
+                limit,
+            });
+
+            const filters = [
+                typedParameters.query && `matching "${typedParameters.query}"`,
+                typedParameters.tags?.length && `tagged ${typedParameters.tags.join(", ")}`,
+                typedParameters.endDateFrom && `ending after ${typedParameters.endDateFrom}`,
+                typedParameters.endDateTo && `ending before ${typedParameters.endDateTo}`,
+                typedParameters.minLiquidity !== undefined && `with at least $${typedParameters.minLiquidity} liquidity`,
+                typedParameters.acceptingOrders && "accepting orders",
+            ].filter(Boolean).join(", ");
+
+            if (results.length === 0) {
+                callback?.({
+                    text: `No markets found${filters ? ` ${filters}` : ""} among ${catalog.markets.length} indexed markets.`,
+                    content: { markets: [], totalIndexed: catalog.markets.length, parameters: typedParameters },
+                });
+                return true;
+            }
+
+            await recordShownMarkets(runtime, message.roomId, results.map((result) => result.market));
+
+            const marketSummary = results.map(({ market }, index) => {
+                const outcomes = market.tokens.length > 0
+                    ? market.tokens.map((t) => `${t.outcome} ($${t.price ?? 'N/A'})`).join(' vs ')
+                    : 'No outcomes available';
+                const endDate = market.endDate ? new Date(market.endDate).toLocaleDateString() : 'No end date';
+                const status = market.acceptingOrders ? "🟢" : (market.closed ? "🔴" : "🟡");
+                return `${index + 1}. ${status} ${market.question}
+   📊 Outcomes: ${outcomes}
+   💧 Liquidity: $${market.liquidity.toLocaleString()} | 🏷️ Tags: ${market.tags.slice(0, 3).join(', ') || 'No tags'} | 📅 Ends: ${endDate}
+   🎯 Condition ID: ${market.conditionId}`;
+            }).join('\n\n');
+
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Found ${results.length} Polymarket markets${filters ? ` ${filters}` : ""} (searched ${catalog.markets.length} indexed markets):
+
+${marketSummary}
+
+Generate a response presenting these search results, keeping the condition IDs so the user can act on them.`
+            });
+
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
+
+            callback?.({
+                text: responseText,
+                content: {
+                    markets: results.map(({ market, score }) => ({ ...market, score })),
+                    totalIndexed: catalog.markets.length,
+                    catalogFetchedAt: catalog.fetchedAt,
+                    parameters: typedParameters,
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error("Search markets error:", errorMessage);
+            callback?.({
+                text: `Error searching markets: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Find the market about the Lakers vs Celtics game",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "I found the Lakers vs. Celtics market: Lakers ($0.42) vs Celtics ($0.58), ending Friday.",
+                    action: "SEARCH_MARKETS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Which crypto markets end this week?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are the crypto markets ending this week, sorted by relevance and liquidity...",
+                    action: "SEARCH_MARKETS",
+                },
+            },
+        ],
+    ],
+};
+
+// Get Order Book Action - Top-of-book depth, spread and midpoint per outcome
+export const getOrderBookAction: Action = {
+    name: "GET_ORDER_BOOK",
+    description: "Get the Polymarket order book for a market or outcome token: top-of-book depth, spread and midpoint",
+    similes: ["order book", "orderbook", "market depth", "bid ask", "spread", "liquidity depth", "best bid", "best ask"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const currentState = state ?? (await runtime.composeState(message));
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract parameters for getting a Polymarket order book:
+- marketId: The market condition ID (0x...) or outcome token ID (required)
+- depth: Number of price levels per side (optional, default 5, max 20)
+
+Respond with a JSON object.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.LARGE,
+                schema: GetOrderBookSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof GetOrderBookSchema>;
+            const depth = Math.min(typedParameters.depth || 5, 20);
+
+            const client = await getPolymarketClient(runtime);
+            const market = await resolveMarketTokens(runtime, client, typedParameters.marketId);
+            const books = await Promise.all(market.tokens.map(async (token) =>
+                summarizeOrderBook(
+                    parseOrderBook(assertClobResponse(await client.getOrderBook(token.tokenId), "Order book lookup"), token.tokenId),
+                    token.outcome,
+                    depth
+                )
+            ));
+
+            const bookSummary = books.map((book) => {
+                const levels = (side: typeof book.bids) => side.map((level) => `$${level.price} x ${level.size}`).join(', ') || 'empty';
+                return `${book.outcome || 'Outcome'} (token ${book.tokenId})
+   Best bid: ${book.bestBid !== null ? `$${book.bestBid}` : 'N/A'} | Best ask: ${book.bestAsk !== null ? `$${book.bestAsk}` : 'N/A'} | Spread: ${book.spread ?? 'N/A'} | Midpoint: ${book.midpoint ?? 'N/A'}
+   Bids: ${levels(book.bids)}
+   Asks: ${levels(book.asks)}
+   Depth (top ${depth}): $${book.bidDepth} bid / $${book.askDepth} ask`;
+            }).join('\n\n');
+
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Order book for ${market.question ?? typedParameters.marketId}:
+
+${bookSummary}
+
+Generate a response describing the spread, depth and implied odds from this order book. Only use the numbers shown.`
+            });
+
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
+
+            callback?.({
+                text: responseText,
+                content: {
+                    conditionId: market.conditionId,
+                    question: market.question,
+                    depth,
+                    books,
+                    chart: { type: "depth", xKey: "price", yKey: "cumulativeSize", series: ["bids", "asks"] },
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error("Get order book error:", errorMessage);
             callback?.({
-                text: `Error getting current active markets: ${errorMessage}. Please check your internet connection and try again.`,
+                text: `Error getting order book: ${errorMessage}`,
                 content: { error: errorMessage },
             });
             return false;
@@ -748,40 +2779,25 @@ Generate a response highlighting these current active markets with their key det
             {
                 user: "{{user1}}",
                 content: {
-                    text: "What are the current active betting markets?",
-                },
-            },
-            {
-                user: "{{agentName}}",
-                content: {
-                    text: "Here are the current active betting markets on Polymarket, sorted by activity level and urgency...",
-                    action: "GET_MARKETS",
-                },
-            },
-        ],
-        [
-            {
-                user: "{{user1}}",
-                content: {
-                    text: "Show me the latest active markets on Polymarket",
+                    text: "What does the order book look like for 0x1234...abcd?",
                 },
             },
             {
                 user: "{{agentName}}",
                 content: {
-                    text: "I'll fetch the latest and most current active markets for you, sorted by activity and urgency...",
-                    action: "GET_MARKETS",
+                    text: "YES is bid $0.61 and offered $0.63, a 2 cent spread with about $4,200 resting within the top 5 levels on each side.",
+                    action: "GET_ORDER_BOOK",
                 },
             },
         ],
     ],
 };
 
-// Get More Markets Action - Updated to use CLOB API
-export const getMoreMarketsAction: Action = {
-    name: "GET_MORE_MARKETS",
-    description: "Get next batch of markets using CLOB API",
-    similes: ["more markets", "next page", "continue", "see more"],
+// Get Price History Action - Price time series per outcome at a chosen interval
+export const getPriceHistoryAction: Action = {
+    name: "GET_PRICE_HISTORY",
+    description: "Get a Polymarket price time series for a market or outcome token at a chosen interval",
+    similes: ["price history", "price chart", "odds history", "historical prices", "price over time", "chart"],
     validate: async () => true,
     handler: async (
         runtime: IAgentRuntime,
@@ -791,15 +2807,16 @@ export const getMoreMarketsAction: Action = {
         callback?: HandlerCallback
     ): Promise<boolean> => {
         try {
-            let currentState = state ?? (await runtime.composeState(message));
+            const currentState = state ?? (await runtime.composeState(message));
 
             const parameterContext = composeContext({
                 state: currentState,
                 template: `{{recentMessages}}
 
-Extract parameters for getting more markets:
-- cursor: The cursor for pagination (optional)
-- limit: Maximum number of markets to return (optional, default 10)
+Extract parameters for getting Polymarket price history:
+- marketId: The market condition ID (0x...) or outcome token ID (required)
+- interval: Spacing between points, one of ${Object.keys(PRICE_HISTORY_INTERVALS).join(", ")} (optional, default 1h)
+- range: How far back to go, one of ${Object.keys(PRICE_HISTORY_RANGES).join(", ")} (optional, default 1w)
 
 Respond with a JSON object.`
             });
@@ -808,218 +2825,57 @@ Respond with a JSON object.`
                 runtime,
                 context: parameterContext,
                 modelClass: ModelClass.LARGE,
-                schema: GetMoreMarketsSchema,
+                schema: GetPriceHistorySchema,
             });
 
-            const typedParameters = parameters as z.infer<typeof GetMoreMarketsSchema>;
-            const limit = Math.min(typedParameters.limit || 10, 20);
-            
-            try {
-                // Use CLOB API to get markets
-                const client = await getPolymarketClient();
-                const marketsResponse = await client.getMarkets();
-                
-                let markets: any[] = [];
-                if (Array.isArray(marketsResponse)) {
-                    markets = marketsResponse;
-                } else if (marketsResponse && typeof marketsResponse === 'object') {
-                    const response = marketsResponse as any;
-                    if (response.data && Array.isArray(response.data)) {
-                        markets = response.data;
-                    }
-                }
-
-                if (!Array.isArray(markets)) {
-                    markets = [];
-                }
-
-                if (markets.length === 0) {
-                    callback?.({
-                        text: "No additional markets available at this time.",
-                        content: { endOfResults: true }
-                    });
-                    return true;
-                }
-
-                // Apply enhanced filtering for active markets (same logic as getMarketsAction)
-                let filteredMarkets = markets.filter((market: any) => {
-                    // Check if market is active and accepting orders
-                    const isActive = market.active !== false;
-                    const isAcceptingOrders = market.accepting_orders !== false;
-                    const isNotClosed = market.closed !== true;
-                    const isNotArchived = market.archived !== true;
-                    
-                    // Check if market has a valid end date that hasn't passed
-                    const hasValidEndDate = market.end_date_iso || market.endDate;
-                    let isNotExpired = true;
-                    if (hasValidEndDate) {
-                        const endDate = new Date(hasValidEndDate);
-                        const now = new Date();
-                        isNotExpired = endDate > now;
-                    }
-                    
-                    // Check if market has valid tokens/outcomes
-                    const hasValidTokens = market.tokens && Array.isArray(market.tokens) && market.tokens.length > 0;
-                    const hasValidOutcomes = market.outcomes && Array.isArray(market.outcomes) && market.outcomes.length > 0;
-                    const hasOutcomes = hasValidTokens || hasValidOutcomes;
-                    
-                    return isActive && isAcceptingOrders && isNotClosed && isNotArchived && isNotExpired && hasOutcomes;
-                });
-
-                // Sort markets by activity and volume (same logic as getMarketsAction)
-                filteredMarkets.sort((a: any, b: any) => {
-                    // First priority: accepting orders
-                    const aAccepting = a.accepting_orders !== false;
-                    const bAccepting = b.accepting_orders !== false;
-                    if (aAccepting !== bAccepting) {
-                        return aAccepting ? -1 : 1;
-                    }
-                    
-                    // Second priority: 24h volume (higher volume first)
-                    const aVolume = parseFloat(a.volume24hr || a.volume || '0');
-                    const bVolume = parseFloat(b.volume24hr || b.volume || '0');
-                    if (aVolume !== bVolume) {
-                        return bVolume - aVolume;
-                    }
-                    
-                    // Third priority: end date (sooner ending first for urgency)
-                    const aEndDate = a.end_date_iso || a.endDate;
-                    const bEndDate = b.end_date_iso || b.endDate;
-                    if (aEndDate && bEndDate) {
-                        const aEnd = new Date(aEndDate);
-                        const bEnd = new Date(bEndDate);
-                        return aEnd.getTime() - bEnd.getTime();
-                    }
-                    
-                    // Fourth priority: creation date (newer first)
-                    const aCreated = a.created_date || a.createdAt;
-                    const bCreated = b.created_date || b.createdAt;
-                    if (aCreated && bCreated) {
-                        const aCreate = new Date(aCreated);
-                        const bCreate = new Date(bCreated);
-                        return bCreate.getTime() - aCreate.getTime();
-                    }
-                    
-                    return 0;
-                });
-
-                // Process markets
-                const processedMarkets = filteredMarkets.slice(0, limit).map((market: any) => {
-                    const tokens = market.tokens || market.outcomes || [];
-                    const tokenArray = Array.isArray(tokens) ? tokens : [];
-                    
-                    // Calculate activity score
-                    const volume24hr = parseFloat(market.volume24hr || market.volume || '0');
-                    const liquidity = parseFloat(market.liquidity || '0');
-                    const activityScore = volume24hr + (liquidity * 0.1);
-                    
-                    // Calculate freshness
-                    const endDate = new Date(market.end_date_iso || market.endDate || '2099-12-31');
-                    const now = new Date();
-                    const daysUntilEnd = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-                    const freshness = daysUntilEnd > 0 ? daysUntilEnd : 0;
-                    
-                    return {
-                        condition_id: market.condition_id || market.conditionId || market.id,
-                        question: market.question || market.title || 'Unknown Market',
-                        description: market.description ? 
-                            (market.description.length > 150 ? 
-                                market.description.substring(0, 150) + '...' : 
-                                market.description) : 
-                            'No description',
-                        active: market.active,
-                        closed: market.closed,
-                        accepting_orders: market.accepting_orders,
-                        end_date_iso: market.end_date_iso || market.endDate,
-                        minimum_order_size: market.minimum_order_size || '1.00',
-                        volume24hr: market.volume24hr,
-                        liquidity: market.liquidity,
-                        tags: Array.isArray(market.tags) ? market.tags.slice(0, 5) : [],
-                        activity_score: activityScore,
-                        freshness_days: freshness,
-                        tokens: tokenArray.map((token: any) => ({
-                            token_id: token.token_id || token.tokenId || token.id,
-                            outcome: token.outcome || token.name,
-                            price: token.price || token.lastPrice || '0.50',
-                            winner: token.winner
-                        }))
-                    };
-                });
+            const typedParameters = parameters as z.infer<typeof GetPriceHistorySchema>;
+            const interval: PriceHistoryInterval = typedParameters.interval ?? "1h";
+            const range: PriceHistoryRange = typedParameters.range ?? "1w";
 
-                const marketSummary = processedMarkets.map((market: any, index: number) => {
-                    const outcomes = market.tokens.length > 0 ? 
-                        market.tokens.map((t: any) => `${t.outcome} ($${t.price})`).join(' vs ') :
-                        'No outcomes available';
-                    
-                    // Enhanced status indicators
-                    const statusEmoji = market.accepting_orders ? "🟢" : 
-                        (market.active ? "🟡" : (market.closed ? "🔴" : "⚪"));
-                    
-                    const activityEmoji = market.activity_score > 10000 ? "🔥" : 
-                        (market.activity_score > 1000 ? "⚡" : 
-                        (market.activity_score > 100 ? "📈" : "📊"));
-                    
-                    const urgencyEmoji = market.freshness_days <= 1 ? "🚨" : 
-                        (market.freshness_days <= 7 ? "⏰" : 
-                        (market.freshness_days <= 30 ? "📅" : "📆"));
-                    
-                    const tags = market.tags.length > 0 ? market.tags.slice(0, 3).join(', ') : 'No tags';
-                    const volume24hr = market.volume24hr ? `$${parseFloat(market.volume24hr).toLocaleString()}` : 'N/A';
-                    const liquidity = market.liquidity ? `$${parseFloat(market.liquidity).toLocaleString()}` : 'N/A';
-                    
-                    return `${index + 1}. ${statusEmoji}${activityEmoji}${urgencyEmoji} ${market.question.substring(0, 60)}${market.question.length > 60 ? '...' : ''}
-   Outcomes: ${outcomes}
-   24h Volume: ${volume24hr} | Liquidity: ${liquidity} | Tags: ${tags}
-   Min Order: $${market.minimum_order_size}
-   Ends: ${market.end_date_iso ? new Date(market.end_date_iso).toLocaleDateString() : 'No end date'}
-   Activity Score: ${market.activity_score.toFixed(0)} | Days remaining: ${market.freshness_days}`;
-                }).join('\n\n');
+            const client = await getPolymarketClient(runtime);
+            const market = await resolveMarketTokens(runtime, client, typedParameters.marketId);
+            const series = await Promise.all(market.tokens.map((token) => getPriceHistory(client, token, interval, range)));
 
-                const responseContext = composeContext({
-                    state: currentState,
-                    template: `{{recentMessages}}
+            const seriesSummary = series.map((s) =>
+                `${s.outcome || 'Outcome'} (token ${s.tokenId}): ${s.points.length} points
+   Open: ${s.open ?? 'N/A'} | Close: ${s.close ?? 'N/A'} | High: ${s.high ?? 'N/A'} | Low: ${s.low ?? 'N/A'} | Change: ${s.change ?? 'N/A'}`
+            ).join('\n\n');
 
-Additional current active markets from Polymarket (${processedMarkets.length} shown):
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
 
-Legend: 
-🟢 Accepting Orders | 🟡 Active | 🔴 Closed | ⚪ Unknown
-🔥 High Activity | ⚡ Medium Activity | 📈 Low Activity | 📊 New
-🚨 Ending Today | ⏰ Ending This Week | 📅 Ending This Month | 📆 Long Term
+Price history for ${market.question ?? typedParameters.marketId} over the last ${range} at ${interval} intervals:
 
-${marketSummary}
+${seriesSummary}
 
-Generate a response showing these additional current active markets with their key details, emphasizing activity levels and urgency.`
-                });
+Generate a response describing how the price has moved. Only use the numbers shown.`
+            });
 
-                const responseText = await generateText({
-                    runtime,
-                    context: responseContext,
-                    modelClass: ModelClass.LARGE,
-                });
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
 
-                callback?.({ 
-                    text: responseText,
-                    content: { 
-                        markets: processedMarkets,
-                        count: processedMarkets.length,
-                        hasMore: filteredMarkets.length > limit,
-                        nextCursor: (processedMarkets.length + limit).toString(),
-                        source: "CLOB-API",
-                        sorting: "activity_and_urgency",
-                        filters_applied: ["active_only", "accepting_orders", "not_expired", "has_outcomes"]
-                    }
-                });
-                return true;
-                
-            } catch (error) {
-                console.error("Failed to fetch more markets:", error);
-                throw new Error(`Failed to get more current active markets: ${error instanceof Error ? error.message : String(error)}`);
-            }
-            
+            callback?.({
+                text: responseText,
+                content: {
+                    conditionId: market.conditionId,
+                    question: market.question,
+                    interval,
+                    range,
+                    series,
+                    chart: { type: "line", xKey: "t", yKey: "p", xUnit: "unix_seconds" },
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error("Get price history error:", errorMessage);
             callback?.({
-                text: `Error getting more current active markets: ${errorMessage}`,
+                text: `Error getting price history: ${errorMessage}`,
                 content: { error: errorMessage },
             });
             return false;
@@ -1030,25 +2886,25 @@ Generate a response showing these additional current active markets with their k
             {
                 user: "{{user1}}",
                 content: {
-                    text: "Show me more current active markets",
+                    text: "How has the price moved on 0x1234...abcd over the last week?",
                 },
             },
             {
                 user: "{{agentName}}",
                 content: {
-                    text: "Here are additional current active markets from Polymarket, sorted by activity level and urgency...",
-                    action: "GET_MORE_MARKETS",
+                    text: "YES opened the week at $0.48 and closed at $0.57, with a high of $0.60 on Thursday.",
+                    action: "GET_PRICE_HISTORY",
                 },
             },
         ],
     ],
 };
 
-// Get Market Action - Complete implementation using CLOB API
-export const getMarketAction: Action = {
-    name: "GET_MARKET",
-    description: "Get details of a specific market on Polymarket using CLOB API",
-    similes: ["market details", "specific market", "market info"],
+// Watch Market Action - Ask to be alerted later about a market
+export const watchMarketAction: Action = {
+    name: "WATCH_MARKET",
+    description: "Watch a Polymarket market and alert the user in this conversation when the price crosses a level, the spread narrows, volume spikes, or the market is about to close",
+    similes: ["watch market", "price alert", "alert me", "notify me", "tell me when", "let me know if", "set alert"],
     validate: async () => true,
     handler: async (
         runtime: IAgentRuntime,
@@ -1059,129 +2915,154 @@ export const getMarketAction: Action = {
     ): Promise<boolean> => {
         try {
             let currentState = state ?? (await runtime.composeState(message));
+            currentState = await runtime.updateRecentMessageState(currentState);
 
             const parameterContext = composeContext({
                 state: currentState,
                 template: `{{recentMessages}}
 
-Extract the condition ID for the market to get details for.
+Extract the market alert the user is asking for in their latest message:
+- market: How the user referred to the market, if they described it
+- outcome: The outcome to watch (e.g. "Yes", "No", or a named outcome), if any
+- listPosition: If the user pointed at a market in a list shown earlier ("the second market"), its 1-based position
+- tokenId: Only if an outcome token ID appears literally in the conversation; never make one up
+- type: "price_cross" for a price level, "spread_narrow" for a tighter spread, "volume_spike" for a jump in trading volume, "closing_soon" for an upcoming close
+- direction: For price alerts, "above" or "below"
+- threshold: The price level or spread as a decimal (60 cents = 0.6), the volume multiple (e.g. 3 for "triples"), or hours before close
 
-Respond with a JSON object containing the conditionId.`
+Respond with a JSON object containing these parameters.`
             });
 
             const { object: parameters } = await generateObject({
                 runtime,
                 context: parameterContext,
                 modelClass: ModelClass.LARGE,
-                schema: GetMarketSchema,
+                schema: WatchMarketSchema,
             });
 
-            const typedParameters = parameters as z.infer<typeof GetMarketSchema>;
-
-            try {
-                // Use CLOB API to get all markets and find the specific one
-                const client = await getPolymarketClient();
-                const marketsResponse = await client.getMarkets();
-                
-                let markets: any[] = [];
-                if (Array.isArray(marketsResponse)) {
-                    markets = marketsResponse;
-                } else if (marketsResponse && typeof marketsResponse === 'object') {
-                    const response = marketsResponse as any;
-                    if (response.data && Array.isArray(response.data)) {
-                        markets = response.data;
-                    }
-                }
-
-                // Find the specific market by condition ID
-                const market = markets.find((m: any) => 
-                    m.condition_id === typedParameters.conditionId || 
-                    m.conditionId === typedParameters.conditionId ||
-                    m.id === typedParameters.conditionId
-                );
-
-                if (!market) {
-                    throw new Error(`Market with condition ID ${typedParameters.conditionId} not found`);
-                }
-
-                console.log("Market details from CLOB API:", market);
-
-                // Process tokens
-                const tokens = market.tokens || market.outcomes || [];
-                const tokenArray = Array.isArray(tokens) ? tokens : [];
-                
-                // Create comprehensive market summary
-                const liquidity = market.liquidity ? `$${parseFloat(market.liquidity).toLocaleString()}` : 'N/A';
-                const endDate = market.end_date_iso ? new Date(market.end_date_iso).toLocaleString() : 'N/A';
-                const volume24hr = market.volume24hr ? `$${parseFloat(market.volume24hr).toLocaleString()}` : 'N/A';
-                const tagsString = Array.isArray(market.tags) ? market.tags.slice(0, 5).join(', ') : 'No tags';
-                const rewardInfo = market.rewards ? 
-                    `Rewards available: Min size $${market.rewards.min_size}, Max spread ${market.rewards.max_spread}` : 
-                    'No rewards available';
-                
-                const tokenDetails = tokenArray.map((token: any, index: number) => {
-                    const price = token.price || token.lastPrice || '0.50';
-                    const outcome = token.outcome || token.name || token.title || `Outcome ${index + 1}`;
-                    const winner = token.winner ? ' (Winner)' : '';
-                    return `   ${index + 1}. ${outcome}: $${price}${winner}`;
-                }).join('\n');
-
-                const marketDetails = `
-📌 Market: ${market.question || market.title || 'Unknown Market'}
-📄 Description: ${market.description || 'No description available'}
-📅 Ends: ${endDate}
-💧 Liquidity: ${liquidity}
-📈 24h Volume: ${volume24hr}
-🏷️ Tags: ${tagsString}
-🎁 ${rewardInfo}
-
-📊 Outcomes & Prices:
-${tokenDetails}
-                `;
-
-                const responseContext = composeContext({
-                    state: currentState,
-                    template: `{{recentMessages}}
-
-Fetched detailed information for market condition ID: ${typedParameters.conditionId} using CLOB API
-
-${marketDetails}
-
-Generate a natural summary of this market, highlighting the question, prices, volume, and outcomes.`
-                });
-
-                const responseText = await generateText({
-                    runtime,
-                    context: responseContext,
-                    modelClass: ModelClass.LARGE,
-                });
+            const typedParameters = parameters as z.infer<typeof WatchMarketSchema>;
+            const type = typedParameters.type as WatchRuleType;
+            const client = await getPolymarketClient(runtime);
+
+            // The level in "above 60c" is the alert threshold, not a price to match outcomes against
+            const resolution = await resolveMarketReference(runtime, client, message.roomId, {
+                text: message.content?.text ?? "",
+                tokenId: typedParameters.tokenId,
+                market: typedParameters.market,
+                outcome: typedParameters.outcome,
+                position: typedParameters.listPosition,
+                price: null,
+            });
 
+            // Volume and closing alerts are about the whole market, so an open outcome choice is fine
+            const marketLevel = type === "volume_spike" || type === "closing_soon";
+            let target: { market: Market; tokenId: string | null; outcome: string | null };
+            if (resolution.status === "resolved") {
+                target = { market: resolution.market, tokenId: resolution.token.tokenId, outcome: resolution.token.outcome };
+            } else if (resolution.status === "ambiguous" && marketLevel && resolution.candidates.length === 1) {
+                target = { market: resolution.candidates[0], tokenId: null, outcome: null };
+            } else if (resolution.status === "ambiguous") {
                 callback?.({
-                    text: responseText,
+                    text: resolution.question,
                     content: {
-                        market,
-                        tokens: tokenArray,
-                        conditionId: typedParameters.conditionId,
-                        source: "CLOB-API"
+                        needsDisambiguation: true,
+                        candidates: resolution.candidates.map((market) => ({
+                            conditionId: market.conditionId,
+                            question: market.question,
+                            tokens: market.tokens,
+                        })),
                     }
                 });
-
                 return true;
-
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                console.error("Failed to fetch specific market:", errorMessage);
-                callback?.({
-                    text: `Error getting market details: ${errorMessage}`,
-                    content: { error: errorMessage }
-                });
+            } else {
+                callback?.({ text: resolution.message, content: { error: resolution.message } });
                 return false;
             }
+
+            const observation = await observeMarket(runtime, client, {
+                conditionId: target.market.conditionId,
+                tokenId: target.tokenId,
+                outcome: target.outcome,
+            });
+
+            const rule = await createWatchRule(runtime, { userId: message.userId, roomId: message.roomId }, {
+                conditionId: target.market.conditionId,
+                question: target.market.question,
+                tokenId: target.tokenId,
+                outcome: target.outcome,
+                type,
+                direction: typedParameters.direction,
+                threshold: typedParameters.threshold,
+                baseline: type === "price_cross" ? observation.price : type === "volume_spike" ? observation.volume24hr : null,
+            });
+
+            const current = observation.price !== null ? ` It's at $${observation.price} right now.` : "";
+            callback?.({
+                text: `Watching: I'll post here when ${describeWatchRule(rule)}.${current} (watch ${rule.id})`,
+                content: {
+                    success: true,
+                    watchId: rule.id,
+                    watch: rule,
+                    observation,
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: error instanceof WatchRuleError ? errorMessage : `Error creating watch: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Ping me if YES on the Fed rate cut market goes above 60 cents",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Watching: I'll post here when Yes on \"Will the Fed cut rates in March?\" goes above 60¢. It's at $0.52 right now.",
+                    action: "WATCH_MARKET",
+                },
+            },
+        ],
+    ],
+};
+
+// List Watches Action - The user's active market alerts in this conversation
+export const listWatchesAction: Action = {
+    name: "LIST_WATCHES",
+    description: "List the user's active Polymarket market watches and price alerts in this conversation",
+    similes: ["my alerts", "my watches", "list alerts", "what am I watching", "active alerts"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const watches = await getActiveWatchRules(runtime, { userId: message.userId, roomId: message.roomId });
+            const text = watches.length > 0
+                ? `You have ${watches.length} active ${watches.length === 1 ? "watch" : "watches"} here:\n${watches.map((rule, index) =>
+                    `${index + 1}. When ${describeWatchRule(rule)} (watch ${rule.id})`
+                ).join("\n")}`
+                : "You don't have any active watches in this conversation.";
+
+            callback?.({ text, content: { watches } });
+            return true;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             callback?.({
-                text: `Error extracting condition ID: ${errorMessage}`,
-                content: { error: errorMessage }
+                text: `Error listing watches: ${errorMessage}`,
+                content: { error: errorMessage },
             });
             return false;
         }
@@ -1191,24 +3072,25 @@ Generate a natural summary of this market, highlighting the question, prices, vo
             {
                 user: "{{user1}}",
                 content: {
-                    text: "Can you show me details about the market with condition ID xyz123?",
+                    text: "What alerts do I have set?",
                 },
             },
             {
                 user: "{{agentName}}",
                 content: {
-                    text: "Here are the details for market xyz123 using the CLOB API: it's about whether Biden will win in 2024, with outcomes YES ($0.62) and NO ($0.38)...",
-                    action: "GET_MARKET",
+                    text: "You have 1 active watch here:\n1. When Yes on \"Will the Fed cut rates in March?\" goes above 60¢",
+                    action: "LIST_WATCHES",
                 },
             },
         ],
     ],
 };
-// Get High Activity Markets Action - New action for high-volume markets
-export const getHighActivityMarketsAction: Action = {
-    name: "GET_HIGH_ACTIVITY_MARKETS",
-    description: "Get markets with high activity levels (high volume and liquidity) from Polymarket",
-    similes: ["high volume markets", "busy markets", "popular markets", "trending markets", "hot markets", "active trading"],
+
+// Remove Watch Action - Stop one or all of the user's market alerts
+export const removeWatchAction: Action = {
+    name: "REMOVE_WATCH",
+    description: "Remove one of the user's Polymarket market watches by ID, or all of their watches in this conversation",
+    similes: ["remove alert", "cancel alert", "stop watching", "delete watch", "remove watch", "clear alerts"],
     validate: async () => true,
     handler: async (
         runtime: IAgentRuntime,
@@ -1219,283 +3101,168 @@ export const getHighActivityMarketsAction: Action = {
     ): Promise<boolean> => {
         try {
             let currentState = state ?? (await runtime.composeState(message));
+            currentState = await runtime.updateRecentMessageState(currentState);
 
             const parameterContext = composeContext({
                 state: currentState,
                 template: `{{recentMessages}}
 
-Extract parameters for getting high activity markets:
-- limit: Maximum number of markets to return (optional, default 10, max 20)
-- minVolume: Minimum 24h volume threshold in USD (optional, default 1000)
+Extract which market watch the user wants to remove from their latest message:
+- watchId: The ID of the watch, if one was given or was clearly referred to in the conversation
+- all: true if the user wants all of their watches removed
 
-Respond with a JSON object.`
+Respond with a JSON object containing these parameters.`
             });
 
             const { object: parameters } = await generateObject({
                 runtime,
                 context: parameterContext,
-                modelClass: ModelClass.LARGE,
-                schema: GetMarketsSchema,
+                modelClass: ModelClass.SMALL,
+                schema: RemoveWatchSchema,
             });
 
-            const typedParameters = parameters as z.infer<typeof GetMarketsSchema>;
-            const limit = Math.min(typedParameters.limit || 10, 20);
-            const minVolume = 1000; // Default minimum volume threshold
-
-            console.log(`Fetching ${limit} high activity markets with minimum volume of $${minVolume}`);
-
-            try {
-                // Use CLOB API to get markets
-                const client = await getPolymarketClient();
-                const marketsResponse = await client.getMarkets();
-                
-                let markets: any[] = [];
-                if (Array.isArray(marketsResponse)) {
-                    markets = marketsResponse;
-                } else if (marketsResponse && typeof marketsResponse === 'object') {
-                    const response = marketsResponse as any;
-                    if (response.data && Array.isArray(response.data)) {
-                        markets = response.data;
-                    }
-                }
-
-                if (!Array.isArray(markets)) {
-                    console.log("Unexpected response format:", marketsResponse);
-                    markets = [];
-                }
+            const typedParameters = parameters as z.infer<typeof RemoveWatchSchema>;
+            const active = await getActiveWatchRules(runtime, { userId: message.userId, roomId: message.roomId });
+
+            let ids: string[];
+            if (typedParameters.watchId) {
+                ids = [typedParameters.watchId];
+            } else if (typedParameters.all || active.length === 1) {
+                ids = active.map((rule) => rule.id);
+            } else {
+                const text = active.length === 0
+                    ? "You don't have any active watches in this conversation."
+                    : `Which watch should I remove?\n${active.map((rule, index) => `${index + 1}. When ${describeWatchRule(rule)} (watch ${rule.id})`).join("\n")}`;
+                callback?.({ text, content: { needsWatchId: active.length > 0, watches: active } });
+                return true;
+            }
 
-                console.log(`Found ${markets.length} total markets from CLOB API`);
-
-                // Debug: Log market data structure
-                if (markets.length > 0) {
-                    const sampleMarket = markets[0];
-                    console.log("Sample market structure:", {
-                        question: sampleMarket.question || sampleMarket.title || 'No title',
-                        active: sampleMarket.active,
-                        closed: sampleMarket.closed,
-                        archived: sampleMarket.archived,
-                        accepting_orders: sampleMarket.accepting_orders,
-                        end_date: sampleMarket.end_date_iso || sampleMarket.endDate,
-                        has_tokens: sampleMarket.tokens && Array.isArray(sampleMarket.tokens),
-                        tokens_count: sampleMarket.tokens ? sampleMarket.tokens.length : 0
-                    });
-                }
+            const removed = [];
+            for (const id of ids) {
+                removed.push(await removeWatchRule(runtime, id, message.userId));
+            }
 
-                if (markets.length === 0) {
-                    callback?.({
-                        text: "No markets found at this time. The Polymarket CLOB API may be experiencing issues.",
-                        content: { markets: [], totalCount: 0 }
-                    });
-                    return true;
-                }
+            callback?.({
+                text: removed.length === 1
+                    ? `Stopped watching: ${describeWatchRule(removed[0])}.`
+                    : `Removed ${removed.length} watches.`,
+                content: { success: true, removed: removed.map((rule) => rule.id) },
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: error instanceof WatchRuleError ? errorMessage : `Error removing watch: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Cancel my Fed alert",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Stopped watching: Yes on \"Will the Fed cut rates in March?\" goes above 60¢.",
+                    action: "REMOVE_WATCH",
+                },
+            },
+        ],
+    ],
+};
 
-                // Enhanced filtering for active markets with high activity
-                let filteredMarkets = markets.filter((market: any) => {
-                    // Check if market is active and accepting orders
-                    const isActive = market.active !== false;
-                    const isAcceptingOrders = market.accepting_orders !== false;
-                    const isNotClosed = market.closed !== true;
-                    const isNotArchived = market.archived !== true;
-                    
-                    // Check if market has a valid end date that hasn't passed
-                    const hasValidEndDate = market.end_date_iso || market.endDate;
-                    let isNotExpired = true;
-                    if (hasValidEndDate) {
-                        const endDate = new Date(hasValidEndDate);
-                        const now = new Date();
-                        isNotExpired = endDate > now;
-                    }
-                    
-                    // Check if market has valid tokens/outcomes
-                    const hasValidTokens = market.tokens && Array.isArray(market.tokens) && market.tokens.length > 0;
-                    const hasValidOutcomes = market.outcomes && Array.isArray(market.outcomes) && market.outcomes.length > 0;
-                    const hasOutcomes = hasValidTokens || hasValidOutcomes;
-                    
-                    // Check for high activity (volume and liquidity)
-                    const volume24hr = parseFloat(market.volume24hr || market.volume || '0');
-                    const liquidity = parseFloat(market.liquidity || '0');
-                    const hasHighActivity = volume24hr >= minVolume || liquidity >= minVolume * 0.1;
-                    
-                    return isActive && isAcceptingOrders && isNotClosed && isNotArchived && isNotExpired && hasOutcomes && hasHighActivity;
-                });
+const percent = (value: number | null) => (value === null ? "N/A" : `${Math.round(value * 1000) / 10}%`);
 
-                console.log(`Filtered to ${filteredMarkets.length} high activity markets`);
+// Get Bet Record Action - Settled results of the agent's bets
+export const getBetRecordAction: Action = {
+    name: "GET_BET_RECORD",
+    description: "Report the agent's settled Polymarket bet record: wins and losses on resolved markets, realized P&L, win rate, ROI and calibration",
+    similes: ["bet record", "track record", "win rate", "record", "roi", "how sharp are you", "receipts", "results"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            const currentState = state ?? (await runtime.composeState(message));
+            const mode = getBetMode(runtime);
 
-                if (filteredMarkets.length === 0) {
-                    // If no markets after filtering, try showing all markets with a warning
-                    if (markets.length > 0) {
-                        console.log("Warning: All markets were filtered out. Showing all markets with status indicators.");
-                        filteredMarkets = markets;
-                    } else {
-                        callback?.({
-                            text: "No markets found at this time. The Polymarket CLOB API may be experiencing issues.",
-                            content: { markets: [], totalCount: 0 }
-                        });
-                        return true;
-                    }
+            // Settle anything that resolved since the last scheduled run; a
+            // failure here still leaves the bets settled so far to report
+            let settlementError: string | null = null;
+            try {
+                const service = runtime.getService<BetSettlementService>(PolymarketServiceType.BET_SETTLEMENT);
+                if (service) {
+                    await service.settle(runtime);
+                } else if (isPaperTradingEnabled(runtime)) {
+                    await settlePaperBets(runtime, await getPolymarketClient(runtime));
+                } else {
+                    await settleResolvedBets(runtime, await getPolymarketClient(runtime), await loadAccountTrades(runtime));
                 }
+            } catch (error) {
+                settlementError = error instanceof Error ? error.message : String(error);
+                console.log("Could not settle bets before reporting the record:", settlementError);
+            }
 
-                // Sort markets by activity score (volume + liquidity)
-                filteredMarkets.sort((a: any, b: any) => {
-                    const aVolume = parseFloat(a.volume24hr || a.volume || '0');
-                    const bVolume = parseFloat(b.volume24hr || b.volume || '0');
-                    const aLiquidity = parseFloat(a.liquidity || '0');
-                    const bLiquidity = parseFloat(b.liquidity || '0');
-                    
-                    const aActivityScore = aVolume + (aLiquidity * 0.1);
-                    const bActivityScore = bVolume + (bLiquidity * 0.1);
-                    
-                    return bActivityScore - aActivityScore;
-                });
-
-                // Process markets with comprehensive data
-                const processedMarkets = filteredMarkets.slice(0, limit).map((market: any, index: number) => {
-                    const tokens = market.tokens || market.outcomes || [];
-                    const tokenArray = Array.isArray(tokens) ? tokens : [];
-                    
-                    // Calculate activity metrics
-                    const volume24hr = parseFloat(market.volume24hr || market.volume || '0');
-                    const liquidity = parseFloat(market.liquidity || '0');
-                    const activityScore = volume24hr + (liquidity * 0.1);
-                    
-                    // Calculate freshness
-                    const endDate = new Date(market.end_date_iso || market.endDate || '2099-12-31');
-                    const now = new Date();
-                    const daysUntilEnd = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-                    const freshness = daysUntilEnd > 0 ? daysUntilEnd : 0;
-                    
-                    return {
-                        condition_id: market.condition_id || market.conditionId || market.id,
-                        question_id: market.question_id || market.questionId,
-                        question: market.question || market.title || market.name || 'Unknown Market',
-                        description: market.description ? 
-                            (market.description.length > 200 ? 
-                                market.description.substring(0, 200) + '...' : 
-                                market.description) : 
-                            'No description available',
-                        market_slug: market.market_slug || market.slug,
-                        active: market.active,
-                        closed: market.closed,
-                        archived: market.archived,
-                        accepting_orders: market.accepting_orders,
-                        end_date_iso: market.end_date_iso || market.endDate,
-                        created_date: market.created_date || market.createdAt,
-                        minimum_order_size: market.minimum_order_size || market.minOrderSize || '1.00',
-                        minimum_tick_size: market.minimum_tick_size || market.tickSize || '0.01',
-                        icon: market.icon,
-                        image: market.image,
-                        volume: market.volume || market.volume24hr || market.totalVolume,
-                        volume24hr: market.volume24hr,
-                        liquidity: market.liquidity,
-                        neg_risk: market.neg_risk,
-                        is_50_50_outcome: market.is_50_50_outcome,
-                        tags: Array.isArray(market.tags) ? market.tags.slice(0, 5) : [],
-                        freshness_days: freshness,
-                        activity_score: activityScore,
-                        volume_usd: volume24hr,
-                        liquidity_usd: liquidity,
-                        tokens: tokenArray.map((token: any) => ({
-                            token_id: token.token_id || token.tokenId || token.id,
-                            outcome: token.outcome || token.name || token.title,
-                            price: token.price || token.lastPrice || '0.50',
-                            winner: token.winner,
-                            volume: token.volume
-                        })),
-                        rewards: market.rewards ? {
-                            min_size: market.rewards.min_size,
-                            max_spread: market.rewards.max_spread,
-                            rates_count: market.rewards.rates?.length || 0,
-                            daily_rate: market.rewards.daily_rate
-                        } : null,
-                        last_updated: new Date().toISOString()
-                    };
-                });
-
-                // Create enhanced market summary with activity indicators
-                const marketSummary = processedMarkets.map((market: any, index: number) => {
-                    const outcomes = market.tokens.length > 0 ? 
-                        market.tokens.map((t: any) => `${t.outcome} ($${t.price})`).join(' vs ') :
-                        'No outcomes available';
-                    
-                    // Activity level indicators
-                    const activityLevel = market.activity_score > 50000 ? "🔥🔥🔥" : 
-                        (market.activity_score > 20000 ? "🔥🔥" : 
-                        (market.activity_score > 10000 ? "🔥" : "⚡"));
-                    
-                    const urgencyEmoji = market.freshness_days <= 1 ? "🚨" : 
-                        (market.freshness_days <= 7 ? "⏰" : 
-                        (market.freshness_days <= 30 ? "📅" : "📆"));
-                    
-                    const tags = market.tags.length > 0 ? market.tags.slice(0, 3).join(', ') : 'No tags';
-                    const endDate = market.end_date_iso ? new Date(market.end_date_iso).toLocaleDateString() : 'No end date';
-                    const volume24hr = market.volume24hr ? `$${parseFloat(market.volume24hr).toLocaleString()}` : 'N/A';
-                    const liquidity = market.liquidity ? `$${parseFloat(market.liquidity).toLocaleString()}` : 'N/A';
-                    
-                    return `${index + 1}. ${activityLevel}${urgencyEmoji} ${market.question.substring(0, 70)}${market.question.length > 70 ? '...' : ''}
-   📊 Outcomes: ${outcomes}
-   💰 24h Volume: ${volume24hr} | 💧 Liquidity: ${liquidity} | 🏷️ Tags: ${tags}
-   💵 Min Order: $${market.minimum_order_size} | 📅 Ends: ${endDate}
-   🎯 Condition ID: ${market.condition_id || 'N/A'}
-   ⏱️  Days remaining: ${market.freshness_days} | 🔥 Activity Score: $${market.activity_score.toLocaleString()}`;
-                }).join('\n\n');
+            const bets = await getSettledBets(runtime, mode);
+            const record = summarizeBetRecord(runtime.agentId, mode, bets);
+            const recent: SettledBet[] = [...bets].sort((a, b) => b.settledAt.localeCompare(a.settledAt)).slice(0, 5);
 
-                const responseContext = composeContext({
-                    state: currentState,
-                    template: `{{recentMessages}}
+            const calibrationSummary = record.calibration.map((bucket) =>
+                `- Bought at ${bucket.range}: ${bucket.bets} bets, priced to win ${percent(bucket.expectedWinRate)}, actually won ${percent(bucket.actualWinRate)}`
+            ).join('\n') || '- No settled bets yet';
+            const recentSummary = recent.map((bet) =>
+                `- ${bet.won ? 'WON' : 'LOST'}: ${bet.outcome} on "${bet.question}" @ $${bet.entryPrice}, P&L $${bet.realizedPnl}`
+            ).join('\n') || '- None';
 
-Found ${processedMarkets.length} high activity betting markets on Polymarket (minimum $${minVolume} volume):
+            const responseContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
 
-Legend: 
-🔥🔥🔥 Ultra High Activity (50k+) | 🔥🔥 Very High Activity (20k+) | 🔥 High Activity (10k+) | ⚡ Medium Activity
-🚨 Ending Today | ⏰ Ending This Week | 📅 Ending This Month | 📆 Long Term
+Settled Polymarket bet record${mode === 'paper' ? ' (PAPER TRADING, simulated)' : ''}:
+- Bets settled: ${record.bets} (${record.wins} won, ${record.losses} lost)
+- Win rate: ${percent(record.winRate)}
+- Staked: $${record.staked} | Realized P&L: $${record.realizedPnl} | ROI: ${percent(record.roi)}
+- Brier score: ${record.brierScore ?? 'N/A'} (0 is perfect, 0.25 is a coin flip)
 
-${marketSummary}
+Calibration:
+${calibrationSummary}
 
-These are the most active and liquid markets available for betting, sorted by activity level. High activity indicates more trading opportunities and better liquidity.
+Most recent settlements:
+${recentSummary}
 
-Generate a response highlighting these high activity markets, emphasizing their trading volume, liquidity, and why they're popular for betting.`
-                });
+Generate an honest summary of this betting record. Only use the numbers shown; if there are no settled bets, say so.`
+            });
 
-                const responseText = await generateText({
-                    runtime,
-                    context: responseContext,
-                    modelClass: ModelClass.LARGE,
-                });
+            const responseText = await generateText({
+                runtime,
+                context: responseContext,
+                modelClass: ModelClass.LARGE,
+            });
 
-                callback?.({ 
-                    text: responseText,
-                    content: { 
-                        markets: processedMarkets,
-                        totalCount: markets.length,
-                        displayedCount: processedMarkets.length,
-                        activeCount: processedMarkets.filter(m => m.active).length,
-                        acceptingOrdersCount: processedMarkets.filter(m => m.accepting_orders).length,
-                        timestamp: new Date().toISOString(),
-                        source: "CLOB-API",
-                        sorting: "activity_score_desc",
-                        filters_applied: ["active_only", "accepting_orders", "not_expired", "has_outcomes", "high_activity"],
-                        minVolume,
-                        activity_stats: {
-                            ultra_high: processedMarkets.filter(m => m.activity_score > 50000).length,
-                            very_high: processedMarkets.filter(m => m.activity_score > 20000 && m.activity_score <= 50000).length,
-                            high: processedMarkets.filter(m => m.activity_score > 10000 && m.activity_score <= 20000).length,
-                            medium: processedMarkets.filter(m => m.activity_score <= 10000).length,
-                            ending_soon: processedMarkets.filter(m => m.freshness_days <= 7).length
-                        }
-                    }
-                });
-                return true;
-                
-            } catch (apiError) {
-                console.error("CLOB API failed:", apiError);
-                throw new Error(`Failed to fetch high activity markets from CLOB API: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
-            }
-            
+            callback?.({
+                text: responseText,
+                content: {
+                    record,
+                    recent,
+                    settlementError,
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error("Get high activity markets error:", errorMessage);
             callback?.({
-                text: `Error getting high activity markets: ${errorMessage}. Please check your internet connection and try again.`,
+                text: `Error getting bet record: ${errorMessage}`,
                 content: { error: errorMessage },
             });
             return false;
@@ -1506,29 +3273,117 @@ Generate a response highlighting these high activity markets, emphasizing their
             {
                 user: "{{user1}}",
                 content: {
-                    text: "Show me the high volume markets",
+                    text: "You keep saying you're sharp. What's your actual record?",
                 },
             },
             {
                 user: "{{agentName}}",
                 content: {
-                    text: "Here are the high activity markets on Polymarket, sorted by trading volume and liquidity...",
-                    action: "GET_HIGH_ACTIVITY_MARKETS",
+                    text: "12 settled bets, 7 won. That's a 58% win rate and +14% ROI on $240 staked. The favorites I bought at 60-80% hit 75% of the time.",
+                    action: "GET_BET_RECORD",
                 },
             },
         ],
+    ],
+};
+
+// Scan Mispricing Action - Price sums off 1 and wide spreads across the catalog
+export const scanMispricingAction: Action = {
+    name: "SCAN_MISPRICING",
+    description: "Scan the Polymarket catalog for mispricing: binary markets whose YES and NO prices don't sum to 1, multi-outcome (neg-risk) events whose prices sum above or below 1 beyond fees, and wide spreads on liquid markets, ranked with the math",
+    similes: ["arbitrage", "arb", "mispricing", "mispriced markets", "find value", "inefficiencies", "scan markets", "free money"],
+    validate: async () => true,
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State | undefined,
+        options?: Record<string, unknown>,
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        try {
+            let currentState = state ?? (await runtime.composeState(message));
+            currentState = await runtime.updateRecentMessageState(currentState);
+
+            const parameterContext = composeContext({
+                state: currentState,
+                template: `{{recentMessages}}
+
+Extract the mispricing scan the user wants from their latest message:
+- kinds: Only if the user asked for specific checks: "binary_sum" (YES + NO not summing to 1), "neg_risk_sum" (multi-outcome event prices not summing to 1), "wide_spread" (wide bid/ask spreads)
+- limit: How many results they want, if they said
+- minLiquidity: Minimum liquidity in USDC for the spread check, if they said
+
+Respond with a JSON object containing these parameters.`
+            });
+
+            const { object: parameters } = await generateObject({
+                runtime,
+                context: parameterContext,
+                modelClass: ModelClass.SMALL,
+                schema: ScanMispricingSchema,
+            });
+
+            const typedParameters = parameters as z.infer<typeof ScanMispricingSchema>;
+            const client = await getPolymarketClient(runtime);
+            const catalog = await getMarketCatalog(runtime, client);
+            const thresholds = getMispricingThresholds(runtime);
+            if (typedParameters.minLiquidity !== undefined) {
+                thresholds.minLiquidity = typedParameters.minLiquidity;
+            }
+
+            const scan = await scanMispricing(
+                client,
+                catalog.markets,
+                thresholds,
+                typedParameters.kinds?.length ? typedParameters.kinds : MISPRICING_KINDS
+            );
+            const limit = typedParameters.limit ?? 10;
+            const shown = scan.findings.slice(0, limit);
+
+            // The markets behind the findings, in ranked order, for follow-ups like "bet on the first one"
+            const byId = new Map(catalog.markets.map((market) => [market.conditionId, market]));
+            await recordShownMarkets(
+                runtime,
+                message.roomId,
+                shown.flatMap((finding) => finding.markets.map((market) => byId.get(market.conditionId))).filter((market): market is Market => market !== undefined)
+            );
+
+            callback?.({
+                text: formatMispricingScan(scan, limit),
+                content: {
+                    findings: shown,
+                    totalFindings: scan.findings.length,
+                    marketsScanned: scan.marketsScanned,
+                    eventsScanned: scan.eventsScanned,
+                    booksScanned: scan.booksScanned,
+                    thresholds: scan.thresholds,
+                    catalogFetchedAt: catalog.fetchedAt,
+                    timestamp: new Date().toISOString(),
+                }
+            });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            callback?.({
+                text: `Error scanning for mispricing: ${errorMessage}`,
+                content: { error: errorMessage },
+            });
+            return false;
+        }
+    },
+    examples: [
         [
             {
                 user: "{{user1}}",
                 content: {
-                    text: "What are the most popular betting markets right now?",
+                    text: "Any arbitrage or mispriced markets right now?",
                 },
             },
             {
                 user: "{{agentName}}",
                 content: {
-                    text: "I'll fetch the most active and popular markets for you, focusing on high volume and liquidity...",
-                    action: "GET_HIGH_ACTIVITY_MARKETS",
+                    text: "Scanned 412 open markets, 18 neg-risk events and 20 order books. Ranked by edge:\n1. Event prices off 1: \"3-outcome event: ...\"\n   YES 0.45 + 0.3 + 0.2 = 0.95; YES in all 3 markets costs 0.95 and exactly one pays $1 → 5¢ per set (5.3%)",
+                    action: "SCAN_MISPRICING",
                 },
             },
         ],
@@ -0,0 +1,223 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { Contract } from "@ethersproject/contracts";
+import { StaticJsonRpcProvider } from "@ethersproject/providers";
+import { Wallet } from "@ethersproject/wallet";
+import { Chain } from "@polymarket/clob-client";
+import { describeSignatureType, getPolymarketRpcUrl, type PolymarketConfig } from "./config";
+
+// Orders settle on-chain: the exchange moves USDC out of the funder's wallet
+// for a BUY and outcome shares (ERC-1155 conditional tokens) for a SELL, so the
+// funder has to approve the exchange contracts for both first. An EOA wallet
+// can send the approvals itself; proxy wallets get them from Polymarket when
+// trading is enabled on polymarket.com.
+
+const USDC_DECIMALS = 6;
+const MAX_UINT256 = `0x${"f".repeat(64)}`;
+const APPROVAL_TIMEOUT_MS = 120 * 1000;
+
+const ERC20_ABI = [
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+];
+const ERC1155_ABI = [
+    "function isApprovedForAll(address account, address operator) view returns (bool)",
+    "function setApprovalForAll(address operator, bool approved)",
+];
+
+export interface PolymarketContracts {
+    collateral: string;
+    conditionalTokens: string;
+    // The exchange orders from this client settle on comes first
+    spenders: { name: string; address: string }[];
+}
+
+export const POLYMARKET_CONTRACTS: Partial<Record<Chain, PolymarketContracts>> = {
+    [Chain.POLYGON]: {
+        collateral: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
+        conditionalTokens: "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045",
+        spenders: [
+            { name: "CTF Exchange", address: "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E" },
+            { name: "Neg Risk CTF Exchange", address: "0xC5d563A36AE78145C45a50134d48A1215220f80a" },
+            { name: "Neg Risk Adapter", address: "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296" },
+        ],
+    },
+    [Chain.MUMBAI]: {
+        collateral: "0x2E8DCfE708D44ae2e406a1c02DFE2Fa13012f961",
+        conditionalTokens: "0x7D8610E9567d2a6C9FBf66a5A13E9Ba8bb120d43",
+        spenders: [{ name: "CTF Exchange", address: "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E" }],
+    },
+};
+
+export type ApprovalKind = "collateral" | "conditional";
+
+export interface CollateralApproval {
+    kind: ApprovalKind;
+    token: string;
+    spender: string;
+    spenderName: string;
+    // USDC the spender may move, in dollars; null for conditional-token approvals
+    allowance: number | null;
+    approved: boolean;
+}
+
+export interface AllowanceReport {
+    owner: string;
+    chainId: Chain;
+    approvals: CollateralApproval[];
+    missing: CollateralApproval[];
+    // Only an EOA funder can send its own approvals
+    canApprove: boolean;
+}
+
+export interface AllowanceCheck {
+    // Only the exchange this client trades on, instead of every Polymarket spender
+    exchangeOnly?: boolean;
+    // USDC the collateral allowances must cover; any allowance counts without it
+    requiredUsdc?: number;
+    // Which approvals to check; both by default
+    kinds?: ApprovalKind[];
+}
+
+export interface SentApproval {
+    approval: CollateralApproval;
+    transactionHash: string;
+}
+
+export class AllowanceError extends Error {
+    constructor(message: string, public readonly report: AllowanceReport | null = null) {
+        super(message);
+        this.name = "AllowanceError";
+    }
+}
+
+function getContracts(config: PolymarketConfig): PolymarketContracts {
+    const contracts = POLYMARKET_CONTRACTS[config.chainId];
+    if (!contracts) {
+        throw new AllowanceError(`Polymarket contract addresses for chain ${config.chainId} are not known.`);
+    }
+    return contracts;
+}
+
+function getProvider(runtime: IAgentRuntime, config: PolymarketConfig): StaticJsonRpcProvider {
+    return new StaticJsonRpcProvider(getPolymarketRpcUrl(runtime), config.chainId);
+}
+
+export async function checkCollateralAllowances(
+    runtime: IAgentRuntime,
+    config: PolymarketConfig,
+    check: AllowanceCheck = {}
+): Promise<AllowanceReport> {
+    const contracts = getContracts(config);
+    const provider = getProvider(runtime, config);
+    const collateral = new Contract(contracts.collateral, ERC20_ABI, provider);
+    const conditionalTokens = new Contract(contracts.conditionalTokens, ERC1155_ABI, provider);
+    const spenders = check.exchangeOnly ? contracts.spenders.slice(0, 1) : contracts.spenders;
+    const kinds = check.kinds ?? ["collateral", "conditional"];
+    const owner = config.funderAddress;
+
+    const approvals: CollateralApproval[] = [];
+    for (const spender of spenders) {
+        if (kinds.includes("collateral")) {
+            const raw = await collateral.allowance(owner, spender.address);
+            const allowance = Number(BigInt(raw.toString())) / 10 ** USDC_DECIMALS;
+            approvals.push({
+                kind: "collateral",
+                token: contracts.collateral,
+                spender: spender.address,
+                spenderName: spender.name,
+                allowance,
+                approved: check.requiredUsdc !== undefined ? allowance >= check.requiredUsdc : allowance > 0,
+            });
+        }
+        if (kinds.includes("conditional")) {
+            approvals.push({
+                kind: "conditional",
+                token: contracts.conditionalTokens,
+                spender: spender.address,
+                spenderName: spender.name,
+                allowance: null,
+                approved: Boolean(await conditionalTokens.isApprovedForAll(owner, spender.address)),
+            });
+        }
+    }
+
+    return {
+        owner,
+        chainId: config.chainId,
+        approvals,
+        missing: approvals.filter((approval) => !approval.approved),
+        canApprove: config.signatureType === "EOA",
+    };
+}
+
+// The contract call that grants the approval, for the user to check or send
+export function describeApproval(approval: CollateralApproval): string {
+    return approval.kind === "collateral"
+        ? `USDC (${approval.token}): approve(${approval.spender}, unlimited) for the ${approval.spenderName}` +
+            (approval.allowance !== null ? `, allowance now $${approval.allowance}` : "")
+        : `Conditional Tokens (${approval.token}): setApprovalForAll(${approval.spender}, true) for the ${approval.spenderName}`;
+}
+
+export function formatMissingApprovals(report: AllowanceReport, config: PolymarketConfig): string {
+    const calls = report.missing.map((approval) => `- ${describeApproval(approval)}`).join("\n");
+    const remedy = report.canApprove
+        ? `Send them from ${report.owner} with APPROVE_COLLATERAL, or set POLYMARKET_AUTO_APPROVE=true to approve automatically before a trade. Each approval is a transaction paying gas in MATIC.`
+        : `${report.owner} is a ${describeSignatureType(config.signatureType)}, which the agent can't approve from. Log in on polymarket.com with that wallet and enable trading, which sets these approvals.`;
+    return `Wallet ${report.owner} is missing ${report.missing.length} approval${report.missing.length === 1 ? "" : "s"} on chain ${report.chainId}:\n${calls}\n${remedy}`;
+}
+
+// Send the approvals from the EOA funder, one transaction each, waiting for
+// every one to be mined
+export async function approveCollateral(
+    runtime: IAgentRuntime,
+    config: PolymarketConfig,
+    approvals: CollateralApproval[]
+): Promise<SentApproval[]> {
+    if (config.signatureType !== "EOA") {
+        throw new AllowanceError(
+            `Approvals for ${config.funderAddress} (${describeSignatureType(config.signatureType)}) have to be set from polymarket.com: log in with that wallet and enable trading.`
+        );
+    }
+
+    const provider = getProvider(runtime, config);
+    const wallet = new Wallet(config.privateKey, provider);
+    const sent: SentApproval[] = [];
+    for (const approval of approvals) {
+        // Legacy gas pricing: the default EIP-1559 tip is below what Polygon accepts
+        const overrides = { gasPrice: await provider.getGasPrice() };
+        const transaction = approval.kind === "collateral"
+            ? await new Contract(approval.token, ERC20_ABI, wallet).approve(approval.spender, MAX_UINT256, overrides)
+            : await new Contract(approval.token, ERC1155_ABI, wallet).setApprovalForAll(approval.spender, true, overrides);
+
+        const receipt = await provider.waitForTransaction(transaction.hash, 1, APPROVAL_TIMEOUT_MS);
+        if (receipt.status !== 1) {
+            throw new AllowanceError(`Approval transaction ${transaction.hash} for the ${approval.spenderName} reverted.`);
+        }
+        console.log(`✅ Approved the ${approval.spenderName} for ${approval.kind === "collateral" ? "USDC" : "conditional tokens"}: ${transaction.hash}`);
+        sent.push({ approval: { ...approval, approved: true }, transactionHash: transaction.hash });
+    }
+    return sent;
+}
+
+// Pre-trade check on the exchange this client trades on: USDC for a BUY,
+// outcome shares for a SELL. Missing approvals are sent when auto-approve is
+// on; otherwise the trade stops with the approvals it needs.
+export async function ensureTradeAllowance(
+    runtime: IAgentRuntime,
+    config: PolymarketConfig,
+    order: { side: "BUY" | "SELL"; amount: number },
+    autoApprove: boolean
+): Promise<SentApproval[]> {
+    const report = await checkCollateralAllowances(runtime, config, {
+        exchangeOnly: true,
+        kinds: [order.side === "BUY" ? "collateral" : "conditional"],
+        requiredUsdc: order.side === "BUY" ? order.amount : undefined,
+    });
+    if (report.missing.length === 0) {
+        return [];
+    }
+    if (!autoApprove || !report.canApprove) {
+        throw new AllowanceError(formatMissingApprovals(report, config), report);
+    }
+    return approveCollateral(runtime, config, report.missing);
+}
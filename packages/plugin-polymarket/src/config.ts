@@ -0,0 +1,207 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { Wallet } from "@ethersproject/wallet";
+import { Chain } from "@polymarket/clob-client";
+
+// Per-character connection and wallet settings. Each value is read from the
+// character's `settings.polymarket` block first, then from the flat settings
+// and secrets (POLYMARKET_FUNDER_ADDRESS, ...), then from the environment:
+//
+//     "settings": {
+//         "polymarket": {
+//             "funderAddress": "0x...",
+//             "signatureType": "POLY_PROXY",
+//             "host": "https://clob.polymarket.com",
+//             "chainId": 137,
+//             "rpcUrl": "https://polygon-rpc.com",
+//             "autoApprove": false
+//         }
+//     }
+
+const DEFAULT_HOST = "https://clob.polymarket.com";
+const DEFAULT_RPC_URL = "https://polygon-rpc.com";
+
+// Signature types understood by the CLOB: who signs the order versus whose
+// wallet holds the funds
+export const POLYMARKET_SIGNATURE_TYPES = {
+    // The signing key's own wallet holds the funds
+    EOA: 0,
+    // Magic / email login proxy wallet
+    POLY_PROXY: 1,
+    // Browser wallet (MetaMask, ...) proxy, a Gnosis Safe
+    POLY_GNOSIS_SAFE: 2,
+} as const;
+
+export type PolymarketSignatureType = keyof typeof POLYMARKET_SIGNATURE_TYPES;
+
+const SIGNATURE_TYPE_ALIASES: Record<string, PolymarketSignatureType> = {
+    "0": "EOA",
+    eoa: "EOA",
+    "1": "POLY_PROXY",
+    poly_proxy: "POLY_PROXY",
+    proxy: "POLY_PROXY",
+    magic: "POLY_PROXY",
+    email: "POLY_PROXY",
+    "2": "POLY_GNOSIS_SAFE",
+    poly_gnosis_safe: "POLY_GNOSIS_SAFE",
+    gnosis_safe: "POLY_GNOSIS_SAFE",
+    safe: "POLY_GNOSIS_SAFE",
+    browser: "POLY_GNOSIS_SAFE",
+};
+
+const SIGNATURE_TYPE_LABELS: Record<PolymarketSignatureType, string> = {
+    EOA: "EOA wallet",
+    POLY_PROXY: "Magic/email proxy wallet",
+    POLY_GNOSIS_SAFE: "browser proxy wallet",
+};
+
+export interface PolymarketConnection {
+    host: string;
+    chainId: Chain;
+}
+
+export interface PolymarketConfig extends PolymarketConnection {
+    signatureType: PolymarketSignatureType;
+    // Wallet that holds the funds and places the orders; the signer's own address for EOA
+    funderAddress: string;
+    privateKey: string;
+    signerAddress: string;
+}
+
+export class PolymarketConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PolymarketConfigError";
+    }
+}
+
+// `blockKey` is null for secrets, which never come from the settings block
+type SettingReader = (blockKey: string | null, ...flatKeys: string[]) => string | null;
+
+function settingsBlock(runtime: IAgentRuntime): Record<string, unknown> {
+    const block = runtime.getSetting("polymarket") as unknown;
+    return block && typeof block === "object" ? (block as Record<string, unknown>) : {};
+}
+
+function settingReader(runtime: IAgentRuntime): SettingReader {
+    const settings = settingsBlock(runtime);
+
+    return (blockKey, ...flatKeys) => {
+        const candidates = [blockKey ? settings[blockKey] : undefined, ...flatKeys.map((key) => runtime.getSetting(key) ?? process.env[key])];
+        const value = candidates.find((candidate) => candidate !== undefined && candidate !== null && `${candidate}`.trim() !== "");
+        return value === undefined ? null : `${value}`.trim();
+    };
+}
+
+// Host and chain only: enough for the public market data endpoints
+export function getPolymarketConnection(runtime: IAgentRuntime): PolymarketConnection {
+    const read = settingReader(runtime);
+
+    const host = read("host", "CLOB_API_URL") ?? DEFAULT_HOST;
+    try {
+        const url = new URL(host);
+        if (url.protocol !== "https:" && url.protocol !== "http:") {
+            throw new Error(url.protocol);
+        }
+    } catch {
+        throw new PolymarketConfigError(`Polymarket host "${host}" is not an http(s) URL.`);
+    }
+
+    const chainSetting = read("chainId", "POLYMARKET_CHAIN_ID", "CHAIN_ID");
+    const chainId = chainSetting === null ? Chain.POLYGON : Number.parseInt(chainSetting, 10);
+    if (!Object.values(Chain).includes(chainId)) {
+        const supported = Object.values(Chain).filter((value) => typeof value === "number").join(", ");
+        throw new PolymarketConfigError(`Polymarket chain ID "${chainSetting}" is not supported. Use one of ${supported}.`);
+    }
+
+    return { host: host.replace(/\/+$/, ""), chainId: chainId as Chain };
+}
+
+// JSON-RPC endpoint for on-chain reads and approvals on the configured chain
+export function getPolymarketRpcUrl(runtime: IAgentRuntime): string {
+    return settingReader(runtime)("rpcUrl", "POLYMARKET_RPC_URL", "RPC_PROVIDER_URL") ?? DEFAULT_RPC_URL;
+}
+
+// Whether a trade may send the missing collateral approvals itself
+export function isAutoApproveEnabled(runtime: IAgentRuntime): boolean {
+    return settingReader(runtime)("autoApprove", "POLYMARKET_AUTO_APPROVE")?.toLowerCase() === "true";
+}
+
+// Raw strategy specs: the settings block's `strategies` list, or POLYMARKET_STRATEGIES as JSON
+export function getStrategySettings(runtime: IAgentRuntime): unknown[] {
+    const fromBlock = settingsBlock(runtime).strategies;
+    if (fromBlock !== undefined) {
+        return Array.isArray(fromBlock) ? fromBlock : [fromBlock];
+    }
+
+    const flat = settingReader(runtime)(null, "POLYMARKET_STRATEGIES");
+    if (flat === null) {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(flat);
+        return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+        throw new PolymarketConfigError("POLYMARKET_STRATEGIES is not valid JSON. Set it to a list of strategies, or use `strategies` in the character's polymarket settings.");
+    }
+}
+
+export function isPolymarketTradingConfigured(runtime: IAgentRuntime): boolean {
+    return settingReader(runtime)(null, "PK", "PRIVATE_KEY", "WALLET_PRIVATE_KEY") !== null;
+}
+
+export function parseSignatureType(value: string | null): PolymarketSignatureType {
+    if (value === null) {
+        return "EOA";
+    }
+    const signatureType = SIGNATURE_TYPE_ALIASES[value.toLowerCase()];
+    if (!signatureType) {
+        throw new PolymarketConfigError(
+            `Polymarket signature type "${value}" is not recognized. Use EOA (0), POLY_PROXY (1, Magic/email) or POLY_GNOSIS_SAFE (2, browser wallet).`
+        );
+    }
+    return signatureType;
+}
+
+export function describeSignatureType(signatureType: PolymarketSignatureType): string {
+    return `${signatureType} (${POLYMARKET_SIGNATURE_TYPES[signatureType]}, ${SIGNATURE_TYPE_LABELS[signatureType]})`;
+}
+
+// The full trading setup. Proxy wallets must name their funder: orders are never
+// placed from a shared or guessed address.
+export function getPolymarketConfig(runtime: IAgentRuntime): PolymarketConfig {
+    const read = settingReader(runtime);
+    const connection = getPolymarketConnection(runtime);
+
+    const privateKey = read(null, "PK", "PRIVATE_KEY", "WALLET_PRIVATE_KEY");
+    if (!privateKey) {
+        throw new PolymarketConfigError("Private key not found in environment variables or character secrets. Please set PK, PRIVATE_KEY, or WALLET_PRIVATE_KEY in your .env file or character secrets.");
+    }
+    let signerAddress: string;
+    try {
+        signerAddress = new Wallet(privateKey).address;
+    } catch {
+        throw new PolymarketConfigError("The Polymarket private key is not a valid hex private key.");
+    }
+
+    const signatureType = parseSignatureType(read("signatureType", "POLYMARKET_SIGNATURE_TYPE"));
+    const funderSetting = read("funderAddress", "POLYMARKET_FUNDER_ADDRESS", "FUNDER_ADDRESS");
+    if (funderSetting && !/^0x[0-9a-fA-F]{40}$/.test(funderSetting)) {
+        throw new PolymarketConfigError(`Polymarket funder address "${funderSetting}" is not a valid 0x address.`);
+    }
+
+    if (signatureType === "EOA") {
+        if (funderSetting && funderSetting.toLowerCase() !== signerAddress.toLowerCase()) {
+            throw new PolymarketConfigError(
+                `Polymarket funder ${funderSetting} differs from the signing wallet ${signerAddress}, but signature type EOA trades from the signing wallet itself. Set POLYMARKET_SIGNATURE_TYPE to POLY_PROXY or POLY_GNOSIS_SAFE to trade from a proxy wallet.`
+            );
+        }
+        return { ...connection, signatureType, funderAddress: signerAddress, privateKey, signerAddress };
+    }
+
+    if (!funderSetting) {
+        throw new PolymarketConfigError(
+            `Polymarket signature type ${describeSignatureType(signatureType)} trades from a proxy wallet, but no funder address is set. Set POLYMARKET_FUNDER_ADDRESS (or settings.polymarket.funderAddress) to the proxy wallet address shown on your Polymarket profile.`
+        );
+    }
+    return { ...connection, signatureType, funderAddress: funderSetting, privateKey, signerAddress };
+}
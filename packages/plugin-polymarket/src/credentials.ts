@@ -0,0 +1,223 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import type { IAgentRuntime } from "@elizaos/core";
+import { Wallet } from "@ethersproject/wallet";
+import { type ApiKeyCreds, ClobClient } from "@polymarket/clob-client";
+import { z } from "zod";
+import { getPolymarketConfig, POLYMARKET_SIGNATURE_TYPES, type PolymarketConfig } from "./config";
+
+// L2 API credentials (key, secret, passphrase) sign every authenticated CLOB
+// call. They belong to the signing wallet: when the character doesn't set
+// POLYMARKET_API_KEY, POLYMARKET_SECRET and POLYMARKET_PASSPHRASE, they are
+// derived from the private key (or created on first use) and kept in the
+// agent's cache, encrypted with a key only the private key can produce.
+
+const CACHE_PREFIX = "polymarket/credentials";
+const CREDENTIAL_SETTINGS = ["POLYMARKET_API_KEY", "POLYMARKET_SECRET", "POLYMARKET_PASSPHRASE"] as const;
+
+export type CredentialSource = "settings" | "derived" | "created";
+
+export interface PolymarketCredentials extends ApiKeyCreds {
+    source: CredentialSource;
+}
+
+export class PolymarketCredentialsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PolymarketCredentialsError";
+    }
+}
+
+interface SealedCredentials {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+function cacheKey(config: PolymarketConfig): string {
+    return `${CACHE_PREFIX}/${config.chainId}/${config.signerAddress.toLowerCase()}`;
+}
+
+function sealingKey(config: PolymarketConfig): Buffer {
+    return createHash("sha256").update(`polymarket-api-credentials:${config.privateKey.toLowerCase()}`).digest();
+}
+
+function seal(config: PolymarketConfig, credentials: PolymarketCredentials): SealedCredentials {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", sealingKey(config), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), "utf8"), cipher.final()]);
+    return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+}
+
+// Null when the entry was sealed with another key or has been tampered with
+function unseal(config: PolymarketConfig, sealed: SealedCredentials): PolymarketCredentials | null {
+    try {
+        const decipher = createDecipheriv("aes-256-gcm", sealingKey(config), Buffer.from(sealed.iv, "base64"));
+        decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+        const text = Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]).toString("utf8");
+        return JSON.parse(text) as PolymarketCredentials;
+    } catch {
+        return null;
+    }
+}
+
+// The CLOB answers /derive-api-key and /create-api-key with `apiKey`, while the
+// client expects `key`
+const CredentialsResponseSchema = z.object({
+    key: z.string().nullish(),
+    apiKey: z.string().nullish(),
+    secret: z.string().nullish(),
+    passphrase: z.string().nullish(),
+});
+
+// clob-client resolves failed requests to the error body, whatever the declared type
+function normalizeCredentials(response: unknown, source: CredentialSource): PolymarketCredentials | null {
+    const parsed = CredentialsResponseSchema.safeParse(response);
+    if (!parsed.success) {
+        return null;
+    }
+    const { secret, passphrase } = parsed.data;
+    const key = parsed.data.key || parsed.data.apiKey;
+    if (!key || !secret || !passphrase) {
+        return null;
+    }
+    return { key, secret, passphrase, source };
+}
+
+function getError(response: unknown): unknown {
+    return typeof response === "object" && response !== null && "error" in response ? response.error : null;
+}
+
+function describeError(response: unknown): string {
+    const error = getError(response);
+    if (!error) {
+        return "no credentials in the response";
+    }
+    return typeof error === "string" ? error : JSON.stringify(error);
+}
+
+// A refusal from the API, as opposed to a network error or an outage
+function isRejection(response: unknown): boolean {
+    return /unauthori[sz]ed|invalid|api key|forbidden|not allowed|could not/i.test(describeError(response));
+}
+
+function readConfiguredCredentials(runtime: IAgentRuntime): PolymarketCredentials | null {
+    const [key, secret, passphrase] = CREDENTIAL_SETTINGS.map((name) => {
+        const value = runtime.getSetting(name);
+        return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+    });
+    if (!key && !secret && !passphrase) {
+        return null;
+    }
+    if (!key || !secret || !passphrase) {
+        const missing = CREDENTIAL_SETTINGS.filter((_name, index) => ![key, secret, passphrase][index]);
+        throw new PolymarketCredentialsError(
+            `Polymarket API credentials are incomplete: ${missing.join(", ")} ${missing.length === 1 ? "is" : "are"} not set. Set all three, or remove ${CREDENTIAL_SETTINGS.join(", ")} to derive them from the private key.`
+        );
+    }
+    return { key, secret, passphrase, source: "settings" };
+}
+
+// Derive the signer's existing API key, or create one if it has none yet
+async function requestCredentials(config: PolymarketConfig): Promise<PolymarketCredentials> {
+    const client = new ClobClient(config.host, config.chainId, new Wallet(config.privateKey));
+
+    const derived = await client.deriveApiKey();
+    const derivedCredentials = normalizeCredentials(derived, "derived");
+    if (derivedCredentials) {
+        return derivedCredentials;
+    }
+    if (!isRejection(derived)) {
+        throw new Error(`Could not reach Polymarket at ${config.host} to derive API credentials: ${describeError(derived)}`);
+    }
+
+    const created = await client.createApiKey();
+    const createdCredentials = normalizeCredentials(created, "created");
+    if (createdCredentials) {
+        return createdCredentials;
+    }
+    throw new PolymarketCredentialsError(
+        `Polymarket at ${config.host} would neither derive nor create API credentials for signer ${config.signerAddress}: ${describeError(created)}. Check that the private key belongs to a wallet that has signed in to Polymarket on chain ${config.chainId}, or set POLYMARKET_API_KEY, POLYMARKET_SECRET and POLYMARKET_PASSPHRASE.`
+    );
+}
+
+async function deriveAndCache(runtime: IAgentRuntime, config: PolymarketConfig): Promise<PolymarketCredentials> {
+    const credentials = await requestCredentials(config);
+    await runtime.cacheManager.set(cacheKey(config), seal(config, credentials));
+    console.log(`🔑 Polymarket API key ${credentials.source} for signer ${config.signerAddress}`);
+    return credentials;
+}
+
+// Configured credentials first, then the cached ones, then derived from the signer
+export async function getApiCredentials(
+    runtime: IAgentRuntime,
+    config: PolymarketConfig = getPolymarketConfig(runtime)
+): Promise<PolymarketCredentials> {
+    const configured = readConfiguredCredentials(runtime);
+    if (configured) {
+        return configured;
+    }
+
+    const sealed = await runtime.cacheManager.get<SealedCredentials>(cacheKey(config));
+    const cached = sealed ? unseal(config, sealed) : null;
+    return cached ?? deriveAndCache(runtime, config);
+}
+
+export async function forgetApiCredentials(runtime: IAgentRuntime, config: PolymarketConfig = getPolymarketConfig(runtime)): Promise<void> {
+    await runtime.cacheManager.delete(cacheKey(config));
+}
+
+export function createTradingClient(config: PolymarketConfig, credentials: ApiKeyCreds): ClobClient {
+    const { key, secret, passphrase } = credentials;
+    return new ClobClient(
+        config.host,
+        config.chainId,
+        new Wallet(config.privateKey),
+        { key, secret, passphrase },
+        POLYMARKET_SIGNATURE_TYPES[config.signatureType],
+        config.funderAddress
+    );
+}
+
+// Null when the credentials work or the API could not be reached, otherwise the refusal
+async function checkCredentials(config: PolymarketConfig, credentials: PolymarketCredentials): Promise<string | null> {
+    const response: unknown = await createTradingClient(config, credentials).getApiKeys();
+    if (!getError(response)) {
+        return null;
+    }
+    if (!isRejection(response)) {
+        console.warn(`⚠️ Could not check the Polymarket API key at ${config.host} (${describeError(response)}); continuing`);
+        return null;
+    }
+    return describeError(response);
+}
+
+// One cheap authenticated call. Derived credentials the API no longer accepts
+// (revoked, or cached from another deployment) are derived again once;
+// configured ones that fail stop with what to change.
+export async function validateApiCredentials(
+    runtime: IAgentRuntime,
+    config: PolymarketConfig = getPolymarketConfig(runtime)
+): Promise<PolymarketCredentials> {
+    let credentials = await getApiCredentials(runtime, config);
+    let refusal = await checkCredentials(config, credentials);
+    if (!refusal) {
+        return credentials;
+    }
+
+    if (credentials.source === "settings") {
+        throw new PolymarketCredentialsError(
+            `Polymarket rejected the configured API credentials (${refusal}). API credentials belong to the wallet that created them, and this character signs with ${config.signerAddress} on ${config.host}. Remove POLYMARKET_API_KEY, POLYMARKET_SECRET and POLYMARKET_PASSPHRASE to derive them from the private key, or replace them with credentials created by ${config.signerAddress}.`
+        );
+    }
+
+    await forgetApiCredentials(runtime, config);
+    credentials = await deriveAndCache(runtime, config);
+    refusal = await checkCredentials(config, credentials);
+    if (refusal) {
+        await forgetApiCredentials(runtime, config);
+        throw new PolymarketCredentialsError(
+            `Polymarket rejected the API key it derived for signer ${config.signerAddress} (${refusal}). Check that ${config.host} serves chain ${config.chainId}, or set POLYMARKET_API_KEY, POLYMARKET_SECRET and POLYMARKET_PASSPHRASE.`
+        );
+    }
+    return credentials;
+}
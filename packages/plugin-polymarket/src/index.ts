@@ -3,11 +3,33 @@ import { polymarketProvider } from "./provider";
 import { 
     placeBetAction, 
     checkBalanceAction, 
+    approveCollateralAction,
     getMarketsAction, 
     getMoreMarketsAction,
     getMarketAction,
-    getHighActivityMarketsAction
+    getHighActivityMarketsAction,
+    searchMarketsAction,
+    getOrderBookAction,
+    getPriceHistoryAction,
+    getPositionsAction,
+    getOpenOrdersAction,
+    getTradeHistoryAction,
+    cancelOrderAction,
+    cancelAllOrdersAction,
+    replaceOrderAction,
+    confirmOrderAction,
+    watchMarketAction,
+    listWatchesAction,
+    removeWatchAction,
+    getBetRecordAction,
+    scanMispricingAction
 } from "./actions";
+import { polymarketAccountService } from "./accountService";
+import { orderConfirmationService } from "./orderConfirmationService";
+import { marketCatalogService } from "./marketCatalogService";
+import { marketWatchService } from "./marketWatchService";
+import { betSettlementService } from "./settlementService";
+import { strategyRunnerService } from "./strategyService";
 
 // Initial banner
 console.log("\n┌════════════════════════════════════════┐");
@@ -22,28 +44,46 @@ const initializeActions = () => {
         // Test environment variables
         const host = process.env.CLOB_API_URL || "https://clob.polymarket.com";
         const chainId = process.env.CHAIN_ID || "137"; // Default to Polygon mainnet
-        const apiKey = process.env.POLYMARKET_API_KEY;
-        const secret = process.env.POLYMARKET_SECRET;
-        const passphrase = process.env.POLYMARKET_PASSPHRASE;
+        const privateKey = process.env.PK || process.env.PRIVATE_KEY || process.env.WALLET_PRIVATE_KEY;
 
-        console.log(`🌐 Polymarket Host: ${host}`);
-        console.log(`⛓️  Chain ID: ${chainId}`);
+        // Characters can override these in their settings; each one's wallet setup is checked when its agent starts
+        console.log(`🌐 Default Polymarket Host: ${host}`);
+        console.log(`⛓️  Default Chain ID: ${chainId}`);
         
-        if (apiKey && secret && passphrase) {
-            console.log("🔐 Authenticated mode: Trading actions available");
+        if (privateKey) {
+            console.log("🔐 Authenticated mode: Trading actions available, API credentials derived from the wallet unless set");
         } else {
             console.log("📖 Read-only mode: Only market data actions available");
-            console.log("   To enable trading, set POLYMARKET_API_KEY, POLYMARKET_SECRET, and POLYMARKET_PASSPHRASE");
+            console.log("   To enable trading, set WALLET_PRIVATE_KEY (API credentials are derived from it)");
         }
 
+        // Paper trading, confirmation and auto-approve are per character and
+        // logged as each agent starts (see accountService.ts)
+
         // Return all actions - they will handle auth internally
         const actions = [
             getMarketsAction,
             getMoreMarketsAction, 
             getMarketAction,
             getHighActivityMarketsAction,
+            searchMarketsAction,
+            scanMispricingAction,
+            getOrderBookAction,
+            getPriceHistoryAction,
             checkBalanceAction,
-            placeBetAction
+            approveCollateralAction,
+            getPositionsAction,
+            getOpenOrdersAction,
+            getTradeHistoryAction,
+            getBetRecordAction,
+            placeBetAction,
+            confirmOrderAction,
+            cancelOrderAction,
+            cancelAllOrdersAction,
+            replaceOrderAction,
+            watchMarketAction,
+            listWatchesAction,
+            removeWatchAction
         ];
 
         console.log("✔ Polymarket actions initialized successfully.");
@@ -61,7 +101,7 @@ export const polymarketPlugin: Plugin = {
     description: "Polymarket prediction markets integration plugin - get market data and place bets",
     providers: [polymarketProvider],
     evaluators: [],
-    services: [],
+    services: [polymarketAccountService, orderConfirmationService, marketCatalogService, marketWatchService, betSettlementService, strategyRunnerService],
     actions: initializeActions(),
 };
 
@@ -71,10 +111,181 @@ export default polymarketPlugin;
 export {
     placeBetAction,
     checkBalanceAction, 
+    approveCollateralAction,
     getMarketsAction,
     getMoreMarketsAction,
     getMarketAction,
-    getHighActivityMarketsAction
+    getHighActivityMarketsAction,
+    searchMarketsAction,
+    getOrderBookAction,
+    getPriceHistoryAction,
+    getPositionsAction,
+    getOpenOrdersAction,
+    getTradeHistoryAction,
+    cancelOrderAction,
+    cancelAllOrdersAction,
+    replaceOrderAction,
+    confirmOrderAction,
+    watchMarketAction,
+    listWatchesAction,
+    removeWatchAction,
+    getBetRecordAction,
+    scanMispricingAction,
+    executeBet,
+    loadAccountTrades
 } from "./actions";
 
-export { polymarketProvider, getPolymarketClient } from "./provider";
\ No newline at end of file
+export { polymarketProvider, getPolymarketClient } from "./provider";
+export {
+    getPolymarketConfig,
+    getPolymarketConnection,
+    isPolymarketTradingConfigured,
+    getPolymarketRpcUrl,
+    getStrategySettings,
+    isAutoApproveEnabled,
+    parseSignatureType,
+    describeSignatureType,
+    POLYMARKET_SIGNATURE_TYPES,
+    PolymarketConfigError
+} from "./config";
+export type { PolymarketConfig, PolymarketConnection, PolymarketSignatureType } from "./config";
+export { PolymarketAccountService } from "./accountService";
+export {
+    createTradingClient,
+    forgetApiCredentials,
+    getApiCredentials,
+    PolymarketCredentialsError,
+    validateApiCredentials
+} from "./credentials";
+export type { CredentialSource, PolymarketCredentials } from "./credentials";
+export {
+    POLYMARKET_CONTRACTS,
+    checkCollateralAllowances,
+    approveCollateral,
+    ensureTradeAllowance,
+    describeApproval,
+    formatMissingApprovals,
+    AllowanceError
+} from "./allowances";
+export type {
+    PolymarketContracts,
+    ApprovalKind,
+    CollateralApproval,
+    AllowanceReport,
+    AllowanceCheck,
+    SentApproval
+} from "./allowances";
+
+export {
+    BET_ORDER_TYPES,
+    isMarketOrder,
+    getOrderConstraints,
+    validateOrderOptions,
+    validateOrderSize,
+    quoteMarketOrder,
+    crossesBook,
+    getGtdExpiration,
+    describeOrderType,
+    OrderValidationError
+} from "./orderTypes";
+export type { BetOrderType, OrderOptions, MarketOrderQuote } from "./orderTypes";
+
+export {
+    isPaperTradingEnabled,
+    getPaperLedger,
+    getPaperPortfolio,
+    updatePaperLedger,
+    executePaperOrder,
+    PaperTradingError
+} from "./paperTrading";
+export {
+    requiresOrderConfirmation,
+    createOrderIntent,
+    getOrderIntent,
+    getPendingOrderIntents,
+    claimOrderIntent,
+    OrderIntentError
+} from "./orderIntents";
+export {
+    getMarketCatalog,
+    refreshMarketCatalog,
+    buildMarketSearchIndex,
+    searchMarkets,
+    fetchMarketsPage
+} from "./marketCatalog";
+export { assertClobResponse, parseMarket, parseMarketsPage, parseOrderBook, parseOutcome, parsePriceHistory, reportSchemaDrift } from "./model";
+export type { Market, Outcome, OrderBook, OrderBookLevel, MarketsPage } from "./model";
+export {
+    summarizeOrderBook,
+    summarizePriceSeries,
+    getPriceHistory,
+    resolveMarketTokens,
+    PRICE_HISTORY_INTERVALS,
+    PRICE_HISTORY_RANGES
+} from "./marketData";
+export type {
+    DepthLevel,
+    OrderBookSnapshot,
+    PricePoint,
+    PriceSeries,
+    PriceHistoryInterval,
+    PriceHistoryRange
+} from "./marketData";
+export {
+    scanMispricing,
+    findBinarySumMispricing,
+    findNegRiskSumMispricing,
+    findWideSpread,
+    formatMispricingScan,
+    getMispricingThresholds,
+    DEFAULT_MISPRICING_THRESHOLDS,
+    MISPRICING_KINDS
+} from "./mispricing";
+export type { Mispricing, MispricingKind, MispricingScan, MispricingThresholds } from "./mispricing";
+export { recordShownMarkets, getShownMarkets, parseMarketReference, resolveMarketReference } from "./marketResolver";
+export type { MarketReference, MarketResolution, ParsedMarketReference } from "./marketResolver";
+export { MarketCatalogService } from "./marketCatalogService";
+export {
+    getWatchRules,
+    getActiveWatchRules,
+    createWatchRule,
+    removeWatchRule,
+    evaluateWatchRule,
+    describeWatchRule,
+    formatWatchAlert,
+    observeMarket,
+    DEFAULT_WATCH_THRESHOLDS,
+    WatchRuleError
+} from "./marketWatch";
+export type { WatchRule, WatchRuleSpec, WatchRuleType, WatchRuleStatus, WatchObservation, WatchEvaluation } from "./marketWatch";
+export { MarketWatchService } from "./marketWatchService";
+export type { WatchAlert } from "./marketWatchService";
+export { getBetMode, getSettledBets, settlePaperBets, settleResolvedBets, summarizeBetRecord } from "./settlement";
+export type { BetMode, SettledBet, BetRecordSummary, CalibrationBucket } from "./settlement";
+export { BetSettlementService } from "./settlementService";
+export {
+    getStrategies,
+    parseStrategies,
+    describeStrategy,
+    selectStrategyMarkets,
+    pickStrategyOutcome,
+    evaluateStrategyTrigger,
+    getStrategyJournal,
+    getStrategyState,
+    STRATEGY_LOG_TYPE,
+    StrategyError
+} from "./strategy";
+export type { BettingStrategy, StrategyTrigger, StrategyDecision, StrategyDecisionType, StrategyState } from "./strategy";
+export { StrategyRunnerService } from "./strategyService";
+export { createMarketStore, SqliteMarketStore, CacheMarketStore } from "./marketStore";
+export type { MarketStore, MarketSyncState } from "./marketStore";
+export type { MarketCatalog, MarketSearchQuery, MarketSearchResult } from "./marketCatalog";
+export { OrderConfirmationService } from "./orderConfirmationService";
+export type { OrderConfirmationResult } from "./orderConfirmationService";
+export { PolymarketServiceType } from "./serviceTypes";
+export { getRiskPolicy, evaluateRiskPolicy, checkOrderRisk, RISK_LOG_TYPE } from "./risk";
+export type { RiskPolicy, RiskOrder, RiskContext, RiskDecision } from "./risk";
+export type { PortfolioPosition, PortfolioTotals, OpenOrderSummary, TradeSummary } from "./portfolio";
+export type { OrderIntent, OrderIntentStatus } from "./orderIntents";
+export type { BetParameters, ExecuteBetOptions } from "./actions";
+export type { PaperLedger, PaperFill, PaperPosition, PaperPortfolio } from "./paperTrading";
@@ -0,0 +1,255 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import { PolymarketServiceType } from "./serviceTypes";
+import type { ClobClient } from "@polymarket/clob-client";
+import type { MarketCatalogService } from "./marketCatalogService";
+import { assertClobResponse, type Market, type MarketsPage, parseMarketsPage } from "./model";
+
+// A local, searchable copy of the CLOB market list. Markets are normalized into
+// flat rows, kept in the market store (see marketStore.ts) and indexed by the
+// words in their question, description, slug and tags so searches don't need
+// the API.
+
+const CATALOG_CACHE_KEY = "polymarket/catalog";
+const DEFAULT_CATALOG_TTL_SECONDS = 900;
+const DEFAULT_CATALOG_MAX_PAGES = 10;
+
+export interface MarketCatalog {
+    markets: Market[];
+    fetchedAt: string;
+    nextCursor: string | null;
+}
+
+export interface MarketSearchQuery {
+    text?: string;
+    tags?: string[];
+    endDateFrom?: string;
+    endDateTo?: string;
+    minLiquidity?: number;
+    acceptingOrders?: boolean;
+    // Rank markets matching any of the terms instead of requiring all of them
+    matchAny?: boolean;
+    limit?: number;
+}
+
+export interface MarketSearchResult {
+    market: Market;
+    score: number;
+}
+
+// The pinned clob-client only fetches the first page of /markets, so later
+// pages are requested directly with the `next_cursor` query parameter.
+export async function fetchMarketsPage(client: ClobClient, cursor?: string | null): Promise<MarketsPage> {
+    if (!cursor) {
+        return parseMarketsPage(assertClobResponse(await client.getMarkets(), "Markets lookup"));
+    }
+
+    const url = new URL("/markets", client.host);
+    url.searchParams.set("next_cursor", cursor);
+    const res = await fetch(url);
+    if (!res.ok) {
+        throw new Error(`Failed to fetch markets page ${cursor}: ${res.status} ${res.statusText}`);
+    }
+    return parseMarketsPage(await res.json());
+}
+
+function getSettingNumber(runtime: IAgentRuntime, key: string, fallback: number): number {
+    const configured = Number.parseInt(`${runtime.getSetting(key) ?? ""}`, 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+export async function refreshMarketCatalog(runtime: IAgentRuntime, client: ClobClient): Promise<MarketCatalog> {
+    const maxPages = getSettingNumber(runtime, "POLYMARKET_CATALOG_MAX_PAGES", DEFAULT_CATALOG_MAX_PAGES);
+    const byId = new Map<string, Market>();
+    let cursor: string | null = null;
+
+    for (let page = 0; page < maxPages; page++) {
+        const result = await fetchMarketsPage(client, cursor);
+        for (const market of result.markets) {
+            byId.set(market.conditionId, market);
+        }
+        cursor = result.nextCursor;
+        if (!cursor) {
+            break;
+        }
+    }
+
+    const catalog: MarketCatalog = {
+        markets: [...byId.values()],
+        fetchedAt: new Date().toISOString(),
+        nextCursor: cursor,
+    };
+    await runtime.cacheManager.set(CATALOG_CACHE_KEY, catalog);
+    console.log(`📚 Polymarket catalog indexed ${catalog.markets.length} markets${cursor ? " (page limit reached)" : ""}`);
+    return catalog;
+}
+
+// The catalog kept warm by MarketCatalogService. Without the service, a cached
+// catalog younger than POLYMARKET_CATALOG_TTL_SECONDS or else a fresh one; a
+// stale catalog is still used if that refresh fails.
+export async function getMarketCatalog(runtime: IAgentRuntime, client: ClobClient): Promise<MarketCatalog> {
+    const service = runtime.getService<MarketCatalogService>(PolymarketServiceType.MARKET_CATALOG);
+    if (service) {
+        return service.getCatalog(runtime, client);
+    }
+
+    const cached = await runtime.cacheManager.get<MarketCatalog>(CATALOG_CACHE_KEY);
+    const ttlMs = getSettingNumber(runtime, "POLYMARKET_CATALOG_TTL_SECONDS", DEFAULT_CATALOG_TTL_SECONDS) * 1000;
+
+    if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < ttlMs) {
+        return cached;
+    }
+
+    try {
+        return await refreshMarketCatalog(runtime, client);
+    } catch (error) {
+        if (cached) {
+            console.log("Using stale Polymarket catalog:", error instanceof Error ? error.message : error);
+            return cached;
+        }
+        throw error;
+    }
+}
+
+const STOP_WORDS = new Set([
+    "a", "about", "an", "and", "any", "are", "be", "bet", "bets", "by", "for", "game", "in", "is", "market",
+    "markets", "of", "on", "or", "the", "to", "vs", "will", "with",
+]);
+
+export function tokenizeSearchText(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((term) => term.length > 0 && !STOP_WORDS.has(term));
+}
+
+// Field weights for ranking: a hit in the question matters most.
+const FIELD_WEIGHTS = { question: 4, tags: 3, slug: 2, description: 1 } as const;
+
+export interface MarketSearchIndex {
+    markets: Market[];
+    terms: Map<string, Map<number, number>>;
+}
+
+export function buildMarketSearchIndex(markets: Market[]): MarketSearchIndex {
+    const terms = new Map<string, Map<number, number>>();
+
+    markets.forEach((market, position) => {
+        const fields: [keyof typeof FIELD_WEIGHTS, string][] = [
+            ["question", market.question],
+            ["tags", market.tags.join(" ")],
+            ["slug", market.slug ?? ""],
+            ["description", market.description],
+        ];
+        for (const [field, text] of fields) {
+            for (const term of new Set(tokenizeSearchText(text))) {
+                const postings = terms.get(term) ?? new Map<number, number>();
+                postings.set(position, (postings.get(position) ?? 0) + FIELD_WEIGHTS[field]);
+                terms.set(term, postings);
+            }
+        }
+    });
+
+    return { markets, terms };
+}
+
+// Scores for every market containing a word that starts with `term`, so
+// "celtic" still finds "Celtics". Exact word matches score higher.
+function lookupTerm(index: MarketSearchIndex, term: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    for (const [indexed, postings] of index.terms) {
+        if (!indexed.startsWith(term)) {
+            continue;
+        }
+        const boost = indexed === term ? 1 : 0.5;
+        for (const [position, weight] of postings) {
+            scores.set(position, Math.max(scores.get(position) ?? 0, weight * boost));
+        }
+    }
+    return scores;
+}
+
+function matchesFilters(market: Market, query: MarketSearchQuery): boolean {
+    if (query.acceptingOrders !== undefined && market.acceptingOrders !== query.acceptingOrders) {
+        return false;
+    }
+    if (query.minLiquidity !== undefined && market.liquidity < query.minLiquidity) {
+        return false;
+    }
+    if (query.endDateFrom || query.endDateTo) {
+        if (!market.endDate) {
+            return false;
+        }
+        const end = new Date(market.endDate).getTime();
+        if (query.endDateFrom && end < new Date(query.endDateFrom).getTime()) {
+            return false;
+        }
+        if (query.endDateTo && end > new Date(query.endDateTo).getTime()) {
+            return false;
+        }
+    }
+    if (query.tags && query.tags.length > 0) {
+        const tags = market.tags.map((tag) => tag.toLowerCase());
+        if (!query.tags.some((tag) => tags.includes(tag.toLowerCase()))) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Every search term must match somewhere in the market, unless `matchAny` is
+// set. Results are ranked by text score, then liquidity; without search text,
+// by liquidity alone.
+export function searchMarkets(index: MarketSearchIndex, query: MarketSearchQuery): MarketSearchResult[] {
+    const queryTerms = tokenizeSearchText(query.text ?? "");
+    let scored: Map<number, number>;
+
+    if (queryTerms.length === 0) {
+        scored = new Map(index.markets.map((_, position) => [position, 0]));
+    } else if (query.matchAny) {
+        scored = new Map();
+        for (const term of new Set(queryTerms)) {
+            for (const [position, score] of lookupTerm(index, term)) {
+                scored.set(position, (scored.get(position) ?? 0) + score);
+            }
+        }
+    } else {
+        scored = lookupTerm(index, queryTerms[0]);
+        for (const term of queryTerms.slice(1)) {
+            const termScores = lookupTerm(index, term);
+            for (const [position, score] of scored) {
+                const termScore = termScores.get(position);
+                if (termScore === undefined) {
+                    scored.delete(position);
+                } else {
+                    scored.set(position, score + termScore);
+                }
+            }
+        }
+    }
+
+    return [...scored]
+        .map(([position, score]) => ({ market: index.markets[position], score }))
+        .filter((result) => matchesFilters(result.market, query))
+        .sort((a, b) => b.score - a.score || b.market.liquidity - a.market.liquidity)
+        .slice(0, query.limit ?? 10);
+}
+
+// Indexes of catalogs not loaded by MarketCatalogService, per agent
+const cachedIndexes = new Map<UUID, { fetchedAt: string; index: MarketSearchIndex }>();
+
+// The service indexes the catalog it loads; otherwise rebuilding the agent's
+// index is only needed when its catalog itself changes.
+export function getMarketSearchIndex(runtime: IAgentRuntime, catalog: MarketCatalog): MarketSearchIndex {
+    const loaded = runtime.getService<MarketCatalogService>(PolymarketServiceType.MARKET_CATALOG)?.getLoadedCatalog(runtime);
+    if (loaded?.catalog === catalog) {
+        return loaded.index;
+    }
+
+    const cached = cachedIndexes.get(runtime.agentId);
+    if (cached?.fetchedAt === catalog.fetchedAt && cached.index.markets.length === catalog.markets.length) {
+        return cached.index;
+    }
+    const index = buildMarketSearchIndex(catalog.markets);
+    cachedIndexes.set(runtime.agentId, { fetchedAt: catalog.fetchedAt, index });
+    return index;
+}
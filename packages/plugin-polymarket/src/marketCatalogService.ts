@@ -0,0 +1,163 @@
+import { type IAgentRuntime, Service, type ServiceType, type UUID } from "@elizaos/core";
+import { PolymarketServiceType } from "./serviceTypes";
+import type { ClobClient } from "@polymarket/clob-client";
+import { buildMarketSearchIndex, fetchMarketsPage, type MarketCatalog, type MarketSearchIndex } from "./marketCatalog";
+import { createMarketStore, type MarketStore } from "./marketStore";
+import { getPolymarketClient } from "./provider";
+
+// Keeps a local copy of the full CLOB market list warm. Each refresh walks a
+// bounded number of pages from the stored `next_cursor`, so a large catalog is
+// filled in over several refreshes and a restart resumes where it stopped.
+// After each refresh the stored markets are loaded into memory once, with
+// their search index, so readers don't go back to the store on every message.
+
+const DEFAULT_REFRESH_SECONDS = 300;
+const DEFAULT_PAGES_PER_REFRESH = 10;
+
+interface AgentCatalog {
+    store: MarketStore;
+    timer: ReturnType<typeof setInterval> | null;
+    syncing: Promise<number> | null;
+    // What the store held after the last refresh; null until something is stored
+    loaded: { catalog: MarketCatalog; index: MarketSearchIndex } | null;
+}
+
+function getSettingNumber(runtime: IAgentRuntime, key: string, fallback: number): number {
+    const configured = Number.parseInt(`${runtime.getSetting(key) ?? ""}`, 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+export class MarketCatalogService extends Service {
+    private catalogs = new Map<UUID, AgentCatalog>();
+
+    static get serviceType(): ServiceType {
+        return PolymarketServiceType.MARKET_CATALOG;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        const catalog = this.getAgentCatalog(runtime);
+        if (catalog.timer) {
+            return;
+        }
+
+        const refreshMs = getSettingNumber(runtime, "POLYMARKET_CATALOG_REFRESH_SECONDS", DEFAULT_REFRESH_SECONDS) * 1000;
+        // Serve what a persistent store kept from before a restart until the
+        // first refresh finishes
+        await this.load(catalog);
+        const refresh = () => {
+            this.sync(runtime).catch((error) => {
+                console.error("Polymarket catalog sync failed:", error instanceof Error ? error.message : error);
+            });
+        };
+
+        catalog.timer = setInterval(refresh, refreshMs);
+        catalog.timer.unref?.();
+        refresh();
+    }
+
+    stop(runtime: IAgentRuntime): void {
+        const catalog = this.catalogs.get(runtime.agentId);
+        if (catalog?.timer) {
+            clearInterval(catalog.timer);
+            catalog.timer = null;
+        }
+    }
+
+    private getAgentCatalog(runtime: IAgentRuntime): AgentCatalog {
+        let catalog = this.catalogs.get(runtime.agentId);
+        if (!catalog) {
+            catalog = { store: createMarketStore(runtime), timer: null, syncing: null, loaded: null };
+            this.catalogs.set(runtime.agentId, catalog);
+        }
+        return catalog;
+    }
+
+    getStore(runtime: IAgentRuntime): MarketStore {
+        return this.getAgentCatalog(runtime).store;
+    }
+
+    // Fetch up to POLYMARKET_CATALOG_MAX_PAGES pages, continuing from the saved
+    // cursor. Concurrent callers share the run already in progress. Resolves to
+    // the number of markets stored.
+    sync(runtime: IAgentRuntime, client?: ClobClient): Promise<number> {
+        const catalog = this.getAgentCatalog(runtime);
+        if (!catalog.syncing) {
+            catalog.syncing = this.syncPages(runtime, catalog.store, client)
+                .then(async (stored) => {
+                    await this.load(catalog);
+                    return stored;
+                })
+                .finally(() => {
+                    catalog.syncing = null;
+                });
+        }
+        return catalog.syncing;
+    }
+
+    private async syncPages(runtime: IAgentRuntime, store: MarketStore, client?: ClobClient): Promise<number> {
+        const clobClient = client ?? (await getPolymarketClient(runtime));
+        const maxPages = getSettingNumber(runtime, "POLYMARKET_CATALOG_MAX_PAGES", DEFAULT_PAGES_PER_REFRESH);
+        const state = await store.getSyncState();
+        let stored = 0;
+
+        for (let page = 0; page < maxPages; page++) {
+            const result = await fetchMarketsPage(clobClient, state.cursor);
+            const now = new Date().toISOString();
+            const markets = result.markets;
+
+            await store.upsertMarkets(markets, now);
+            stored += markets.length;
+
+            state.cursor = result.nextCursor;
+            state.lastPageAt = now;
+            if (!result.nextCursor) {
+                state.lastFullSyncAt = now;
+            }
+            await store.saveSyncState(state);
+
+            if (!result.nextCursor) {
+                break;
+            }
+        }
+
+        console.log(`📚 Polymarket catalog synced ${stored} markets${state.cursor ? `, resuming from cursor ${state.cursor} next refresh` : ""}`);
+        return stored;
+    }
+
+    private async load(catalog: AgentCatalog): Promise<void> {
+        if ((await catalog.store.countMarkets()) === 0) {
+            return;
+        }
+
+        const state = await catalog.store.getSyncState();
+        const markets = await catalog.store.getMarkets();
+        catalog.loaded = {
+            catalog: {
+                markets,
+                fetchedAt: state.lastPageAt ?? new Date().toISOString(),
+                nextCursor: state.cursor,
+            },
+            index: buildMarketSearchIndex(markets),
+        };
+    }
+
+    // The catalog and search index in memory, without touching the store or
+    // the API. Null until the first refresh has stored markets.
+    getLoadedCatalog(runtime: IAgentRuntime): { catalog: MarketCatalog; index: MarketSearchIndex } | null {
+        return this.catalogs.get(runtime.agentId)?.loaded ?? null;
+    }
+
+    // The catalog in memory, syncing first if nothing has been stored yet.
+    async getCatalog(runtime: IAgentRuntime, client?: ClobClient): Promise<MarketCatalog> {
+        const catalog = this.getAgentCatalog(runtime);
+        if (!catalog.loaded) {
+            await this.load(catalog);
+        }
+        if (!catalog.loaded) {
+            await this.sync(runtime, client);
+        }
+        return catalog.loaded?.catalog ?? { markets: [], fetchedAt: new Date().toISOString(), nextCursor: null };
+    }
+}
+
+export const marketCatalogService = new MarketCatalogService();
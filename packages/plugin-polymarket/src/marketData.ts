@@ -0,0 +1,199 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { getMarketCatalog } from "./marketCatalog";
+import {
+    assertClobResponse,
+    type Market,
+    type OrderBook,
+    type OrderBookLevel,
+    parseMarket,
+    parsePriceHistory,
+    type PricePoint,
+} from "./model";
+
+// Order book and price history summaries shaped for charting: levels carry
+// cumulative size for depth charts, and price series are plain {t, p} points.
+
+export interface DepthLevel {
+    price: number;
+    size: number;
+    cumulativeSize: number;
+    cumulativeNotional: number;
+}
+
+export interface OrderBookSnapshot {
+    tokenId: string;
+    outcome: string;
+    market: string | null;
+    bids: DepthLevel[];
+    asks: DepthLevel[];
+    bestBid: number | null;
+    bestAsk: number | null;
+    spread: number | null;
+    midpoint: number | null;
+    bidDepth: number;
+    askDepth: number;
+    timestamp: string;
+}
+
+export type { PricePoint };
+
+export interface PriceSeries {
+    tokenId: string;
+    outcome: string;
+    points: PricePoint[];
+    open: number | null;
+    close: number | null;
+    high: number | null;
+    low: number | null;
+    change: number | null;
+}
+
+export interface MarketToken {
+    tokenId: string;
+    outcome: string;
+}
+
+export interface ResolvedMarket {
+    conditionId: string | null;
+    question: string | null;
+    tokens: MarketToken[];
+}
+
+export const PRICE_HISTORY_INTERVALS = {
+    "1m": 1,
+    "5m": 5,
+    "15m": 15,
+    "1h": 60,
+    "6h": 360,
+    "1d": 1440,
+} as const;
+
+export const PRICE_HISTORY_RANGES = {
+    "1d": 86_400,
+    "1w": 604_800,
+    "1m": 2_592_000,
+    "3m": 7_776_000,
+} as const;
+
+export type PriceHistoryInterval = keyof typeof PRICE_HISTORY_INTERVALS;
+export type PriceHistoryRange = keyof typeof PRICE_HISTORY_RANGES;
+
+const round = (value: number, decimals = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function toDepthLevels(levels: OrderBookLevel[], depth: number): DepthLevel[] {
+    let cumulativeSize = 0;
+    let cumulativeNotional = 0;
+    return levels.slice(0, depth).map((level) => {
+        cumulativeSize += level.size;
+        cumulativeNotional += level.size * level.price;
+        return {
+            price: level.price,
+            size: level.size,
+            cumulativeSize: round(cumulativeSize, 2),
+            cumulativeNotional: round(cumulativeNotional, 2),
+        };
+    });
+}
+
+// Top `depth` levels per side, best price first, with spread and midpoint.
+export function summarizeOrderBook(book: OrderBook, outcome: string, depth = 10): OrderBookSnapshot {
+    const bids = toDepthLevels(book.bids, depth);
+    const asks = toDepthLevels(book.asks, depth);
+    const bestBid = bids[0]?.price ?? null;
+    const bestAsk = asks[0]?.price ?? null;
+    const hasBothSides = bestBid !== null && bestAsk !== null;
+
+    return {
+        tokenId: book.tokenId,
+        outcome,
+        market: book.market,
+        bids,
+        asks,
+        bestBid,
+        bestAsk,
+        spread: hasBothSides ? round(bestAsk - bestBid) : null,
+        midpoint: hasBothSides ? round((bestAsk + bestBid) / 2) : null,
+        bidDepth: bids[bids.length - 1]?.cumulativeNotional ?? 0,
+        askDepth: asks[asks.length - 1]?.cumulativeNotional ?? 0,
+        timestamp: new Date().toISOString(),
+    };
+}
+
+export function summarizePriceSeries(tokenId: string, outcome: string, points: PricePoint[]): PriceSeries {
+    const sorted = [...points].sort((a, b) => a.t - b.t);
+    const prices = sorted.map((point) => point.p);
+    const open = prices[0] ?? null;
+    const close = prices[prices.length - 1] ?? null;
+
+    return {
+        tokenId,
+        outcome,
+        points: sorted,
+        open,
+        close,
+        high: prices.length > 0 ? Math.max(...prices) : null,
+        low: prices.length > 0 ? Math.min(...prices) : null,
+        change: open !== null && close !== null ? round(close - open) : null,
+    };
+}
+
+export async function getPriceHistory(
+    client: ClobClient,
+    token: MarketToken,
+    interval: PriceHistoryInterval,
+    range: PriceHistoryRange
+): Promise<PriceSeries> {
+    const endTs = Math.floor(Date.now() / 1000);
+    const points = parsePriceHistory(assertClobResponse(await client.getPricesHistory({
+        market: token.tokenId,
+        startTs: endTs - PRICE_HISTORY_RANGES[range],
+        endTs,
+        fidelity: PRICE_HISTORY_INTERVALS[interval],
+    }), "Price history lookup"));
+
+    return summarizePriceSeries(token.tokenId, token.outcome, points);
+}
+
+function fromMarket(market: Market): ResolvedMarket {
+    return {
+        conditionId: market.conditionId,
+        question: market.question,
+        tokens: market.tokens.map((token) => ({ tokenId: token.tokenId, outcome: token.outcome })),
+    };
+}
+
+// Accepts either a market condition ID (0x-prefixed hash) or an outcome token
+// ID and returns the tokens to query. The local catalog is consulted first.
+export async function resolveMarketTokens(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    marketOrTokenId: string
+): Promise<ResolvedMarket> {
+    const id = marketOrTokenId.trim();
+
+    try {
+        const catalog = await getMarketCatalog(runtime, client);
+        const byCondition = catalog.markets.find((market) => market.conditionId === id);
+        if (byCondition) {
+            return fromMarket(byCondition);
+        }
+        const byToken = catalog.markets.find((market) => market.tokens.some((token) => token.tokenId === id));
+        if (byToken) {
+            const resolved = fromMarket(byToken);
+            return { ...resolved, tokens: resolved.tokens.filter((token) => token.tokenId === id) };
+        }
+    } catch (error) {
+        console.log("Market catalog unavailable, resolving from the API:", error instanceof Error ? error.message : error);
+    }
+
+    if (id.startsWith("0x")) {
+        const market = parseMarket(assertClobResponse(await client.getMarket(id), "Market lookup"));
+        if (!market || market.tokens.length === 0) {
+            throw new Error(`Market with condition ID ${id} not found`);
+        }
+        return fromMarket(market);
+    }
+
+    return { conditionId: null, question: null, tokens: [{ tokenId: id, outcome: "" }] };
+}
@@ -0,0 +1,256 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { buildMarketSearchIndex, getMarketCatalog, getMarketSearchIndex, searchMarkets } from "./marketCatalog";
+import type { Market, Outcome } from "./model";
+
+// Maps the way people refer to markets in chat ("YES on the Fed rate cut
+// market", "the second market you listed", "Trump at 65 cents") to a real
+// outcome token. The model only describes the reference; the token ID always
+// comes from a market the agent has actually seen, either in a list it showed
+// in the room or in the market catalog. When more than one market fits, the
+// caller gets a disambiguation question instead of a guess.
+
+const SHOWN_MARKETS_PREFIX = "polymarket/shown-markets";
+const MARKETS_CURSOR_PREFIX = "polymarket/markets-cursor";
+const SHOWN_MARKETS_TTL_MS = 24 * 60 * 60 * 1000;
+const PRICE_TOLERANCE = 0.05;
+const MAX_CANDIDATES = 5;
+
+export interface MarketReference {
+    // The user's message, parsed for IDs, list positions, outcomes and prices
+    text: string;
+    tokenId?: string | null;
+    market?: string | null;
+    outcome?: string | null;
+    position?: number | null;
+    price?: number | null;
+}
+
+export interface ParsedMarketReference {
+    tokenId: string | null;
+    conditionId: string | null;
+    position: number | "last" | null;
+    outcome: string | null;
+    price: number | null;
+}
+
+export type MarketResolution =
+    | { status: "resolved"; market: Market; token: Outcome; via: "token" | "condition" | "position" | "search" }
+    | { status: "ambiguous"; question: string; candidates: Market[] }
+    | { status: "not_found"; message: string };
+
+const shownKey = (roomId: UUID) => `${SHOWN_MARKETS_PREFIX}/${roomId}`;
+
+// Remember the markets a listing action showed, in display order, so later
+// messages can point at them by position.
+export async function recordShownMarkets(runtime: IAgentRuntime, roomId: UUID, markets: Market[]): Promise<void> {
+    if (markets.length === 0) {
+        return;
+    }
+    await runtime.cacheManager.set(shownKey(roomId), markets, { expires: Date.now() + SHOWN_MARKETS_TTL_MS });
+}
+
+export async function getShownMarkets(runtime: IAgentRuntime, roomId: UUID): Promise<Market[]> {
+    return (await runtime.cacheManager.get<Market[]>(shownKey(roomId))) ?? [];
+}
+
+const cursorKey = (roomId: UUID) => `${MARKETS_CURSOR_PREFIX}/${roomId}`;
+
+// Remember where the last page of markets shown in the room ended. The cursor
+// never reaches the chat history, so "more markets" picks it up from here.
+export async function recordMarketsCursor(runtime: IAgentRuntime, roomId: UUID, cursor: string | null): Promise<void> {
+    if (cursor === null) {
+        await runtime.cacheManager.delete(cursorKey(roomId));
+        return;
+    }
+    await runtime.cacheManager.set(cursorKey(roomId), cursor, { expires: Date.now() + SHOWN_MARKETS_TTL_MS });
+}
+
+export async function getMarketsCursor(runtime: IAgentRuntime, roomId: UUID): Promise<string | null> {
+    return (await runtime.cacheManager.get<string>(cursorKey(roomId))) ?? null;
+}
+
+const ORDINALS: Record<string, number> = {
+    first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+function parsePosition(text: string): number | "last" | null {
+    const ordinal = text.match(
+        /\b(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last|\d{1,2}(?:st|nd|rd|th))\s+(?:one|market|option|pick|choice)\b/
+    );
+    if (ordinal) {
+        const word = ordinal[1];
+        return word === "last" ? "last" : ORDINALS[word] ?? Number.parseInt(word, 10);
+    }
+    const numbered = text.match(/(?:#|\bnumber\s+|\boption\s+|\bmarket\s+#?)(\d{1,2})\b/);
+    return numbered ? Number.parseInt(numbered[1], 10) : null;
+}
+
+function parsePrice(text: string): number | null {
+    const cents = text.match(/\b(\d{1,2}(?:\.\d+)?)\s*(?:¢|c\b|cents?\b)/);
+    if (cents) {
+        return Number.parseFloat(cents[1]) / 100;
+    }
+    const decimal = text.match(/(?:\bat\b|@)\s*\$?(0?\.\d{1,4})\b/);
+    return decimal ? Number.parseFloat(decimal[1]) : null;
+}
+
+export function parseMarketReference(text: string): ParsedMarketReference {
+    const lower = text.toLowerCase();
+    const outcome = lower.match(/\b(yes|no)\b/)?.[1];
+    return {
+        tokenId: text.match(/\b\d{20,}\b/)?.[0] ?? null,
+        conditionId: text.match(/\b0x[0-9a-fA-F]{64}\b/)?.[0] ?? null,
+        position: parsePosition(lower),
+        outcome: outcome ? `${outcome[0].toUpperCase()}${outcome.slice(1)}` : null,
+        price: parsePrice(lower),
+    };
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+const isYesNo = (outcome: string) => /^(yes|no)$/i.test(outcome.trim());
+const nearPrice = (token: Outcome, price: number) => token.price !== null && Math.abs(token.price - price) <= PRICE_TOLERANCE;
+
+function describeMarket(market: Market): string {
+    const prices = market.tokens
+        .map((token) => `${token.outcome} ${token.price !== null ? `$${token.price}` : "N/A"}`)
+        .join(" / ");
+    return `${market.question} (${prices})`;
+}
+
+// Tokens of the market that fit the outcome name: an exact outcome match, or
+// YES of a binary market whose question names the outcome ("Trump" in "Will
+// Trump win?").
+function outcomeTokens(market: Market, outcome: string | null): Outcome[] {
+    if (!outcome) {
+        return market.tokens;
+    }
+    const exact = market.tokens.filter((token) => sameName(token.outcome, outcome));
+    if (exact.length > 0 || isYesNo(outcome)) {
+        return exact;
+    }
+    const mentioned = market.question.toLowerCase().includes(outcome.trim().toLowerCase());
+    return mentioned ? market.tokens.filter((token) => sameName(token.outcome, "Yes")) : [];
+}
+
+function pickOutcome(
+    market: Market,
+    via: "token" | "condition" | "position" | "search",
+    outcome: string | null,
+    price: number | null
+): MarketResolution {
+    let tokens = outcomeTokens(market, outcome);
+    if (tokens.length > 1 && price !== null) {
+        const priced = tokens.filter((token) => nearPrice(token, price));
+        tokens = priced.length > 0 ? priced : tokens;
+    }
+
+    if (tokens.length === 1) {
+        return { status: "resolved", market, token: tokens[0], via };
+    }
+    if (tokens.length === 0 && outcome) {
+        return {
+            status: "not_found",
+            message: `"${market.question}" has no "${outcome}" outcome. Its outcomes are ${market.tokens.map((token) => token.outcome).join(", ")}.`,
+        };
+    }
+    return {
+        status: "ambiguous",
+        question: `Which outcome of "${market.question}" do you want: ${market.tokens.map((token) => token.outcome).join(" or ")}?`,
+        candidates: [market],
+    };
+}
+
+function searchCandidates(markets: Market[], text: string, acceptingOrders?: boolean): Market[] {
+    if (markets.length === 0) {
+        return [];
+    }
+    return searchMarkets(buildMarketSearchIndex(markets), { text, acceptingOrders, limit: 20 }).map((result) => result.market);
+}
+
+export async function resolveMarketReference(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    roomId: UUID,
+    reference: MarketReference
+): Promise<MarketResolution> {
+    const parsed = parseMarketReference(reference.text ?? "");
+    const outcome = reference.outcome?.trim() || parsed.outcome;
+    // `null` means the caller has no price in mind; undefined falls back to the text
+    const price = reference.price !== undefined ? reference.price : parsed.price;
+    const shown = await getShownMarkets(runtime, roomId);
+    const catalog = await getMarketCatalog(runtime, client);
+    const known = [...shown, ...catalog.markets];
+
+    // A token ID counts only when it belongs to a market we know about, so an
+    // invented one can never reach the order book.
+    for (const tokenId of [parsed.tokenId, reference.tokenId?.trim()].filter(Boolean)) {
+        const market = known.find((candidate) => candidate.tokens.some((token) => token.tokenId === tokenId));
+        if (market) {
+            return { status: "resolved", market, token: market.tokens.find((token) => token.tokenId === tokenId), via: "token" };
+        }
+    }
+
+    const conditionId = parsed.conditionId ?? reference.market?.match(/^0x[0-9a-fA-F]{64}$/)?.[0];
+    if (conditionId) {
+        const market = known.find((candidate) => candidate.conditionId.toLowerCase() === conditionId.toLowerCase());
+        return market
+            ? pickOutcome(market, "condition", outcome, price)
+            : { status: "not_found", message: `I couldn't find a market with condition ID ${conditionId}.` };
+    }
+
+    const position = parsed.position ?? reference.position ?? null;
+    if (position !== null) {
+        if (shown.length === 0) {
+            return { status: "not_found", message: "I haven't listed any markets in this conversation yet. Which market do you mean?" };
+        }
+        const market = position === "last" ? shown[shown.length - 1] : shown[position - 1];
+        if (!market) {
+            return { status: "not_found", message: `I only listed ${shown.length} markets. Which one do you mean?` };
+        }
+        return pickOutcome(market, "position", outcome, price);
+    }
+
+    // Free-text description: markets shown in the room take precedence over the catalog
+    const query = reference.market?.trim() || (outcome && !isYesNo(outcome) ? outcome : "");
+    let candidates: Market[];
+    if (query) {
+        candidates = searchCandidates(shown, query);
+        if (candidates.length === 0) {
+            candidates = searchMarkets(getMarketSearchIndex(runtime, catalog), { text: query, acceptingOrders: true, limit: 20 })
+                .map((result) => result.market);
+        }
+    } else {
+        candidates = shown.length === 1 ? shown : [];
+    }
+
+    if (candidates.length === 0) {
+        return {
+            status: "not_found",
+            message: query
+                ? `I couldn't find an open market matching "${query}".`
+                : "Which market do you want to bet on?",
+        };
+    }
+
+    // Narrow by the outcome name and the quoted price, keeping the wider set
+    // when nothing survives
+    const withOutcome = candidates.filter((market) => outcomeTokens(market, outcome).length > 0);
+    candidates = withOutcome.length > 0 ? withOutcome : candidates;
+    if (price !== null && candidates.length > 1) {
+        const priced = candidates.filter((market) => outcomeTokens(market, outcome).some((token) => nearPrice(token, price)));
+        candidates = priced.length > 0 ? priced : candidates;
+    }
+
+    if (candidates.length === 1) {
+        return pickOutcome(candidates[0], "search", outcome, price);
+    }
+
+    const options = candidates.slice(0, MAX_CANDIDATES);
+    await recordShownMarkets(runtime, roomId, options);
+    return {
+        status: "ambiguous",
+        question: `More than one market matches. Which one did you mean?\n${options.map((market, index) => `${index + 1}. ${describeMarket(market)}`).join("\n")}`,
+        candidates: options,
+    };
+}
@@ -0,0 +1,259 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { Market } from "./model";
+
+// Storage for the synced market catalog. With the SQLite adapter the rows live
+// in their own tables next to the agent's memories; other adapters fall back to
+// a single entry in the cache store.
+
+export interface MarketSyncState {
+    cursor: string | null;
+    lastPageAt: string | null;
+    lastFullSyncAt: string | null;
+}
+
+export interface MarketStore {
+    upsertMarkets(markets: Market[], syncedAt: string): Promise<void>;
+    getMarkets(): Promise<Market[]>;
+    getMarket(conditionId: string): Promise<Market | null>;
+    countMarkets(): Promise<number>;
+    getSyncState(): Promise<MarketSyncState>;
+    saveSyncState(state: MarketSyncState): Promise<void>;
+}
+
+const EMPTY_SYNC_STATE: MarketSyncState = { cursor: null, lastPageAt: null, lastFullSyncAt: null };
+
+// The parts of better-sqlite3 the store needs; avoids a hard dependency on the adapter.
+interface SqliteStatement {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+    transaction<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R;
+}
+
+const marketTables = `
+CREATE TABLE IF NOT EXISTS "polymarket_markets" (
+    "conditionId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "questionId" TEXT,
+    "question" TEXT NOT NULL,
+    "description" TEXT,
+    "slug" TEXT,
+    "tags" TEXT DEFAULT '[]' CHECK(json_valid("tags")),
+    "endDate" TEXT,
+    "createdAt" TEXT,
+    "active" INTEGER NOT NULL DEFAULT 1,
+    "closed" INTEGER NOT NULL DEFAULT 0,
+    "archived" INTEGER NOT NULL DEFAULT 0,
+    "acceptingOrders" INTEGER NOT NULL DEFAULT 0,
+    "liquidity" REAL NOT NULL DEFAULT 0,
+    "volume" REAL NOT NULL DEFAULT 0,
+    "volume24hr" REAL NOT NULL DEFAULT 0,
+    "negRisk" INTEGER NOT NULL DEFAULT 0,
+    "negRiskMarketId" TEXT,
+    "minimumOrderSize" REAL,
+    "minimumTickSize" REAL,
+    "tokens" TEXT DEFAULT '[]' CHECK(json_valid("tokens")),
+    "syncedAt" TEXT NOT NULL,
+    PRIMARY KEY ("agentId", "conditionId")
+);
+
+CREATE TABLE IF NOT EXISTS "polymarket_market_sync" (
+    "agentId" TEXT PRIMARY KEY,
+    "cursor" TEXT,
+    "lastPageAt" TEXT,
+    "lastFullSyncAt" TEXT
+);`;
+
+interface MarketRow {
+    conditionId: string;
+    questionId: string | null;
+    question: string;
+    description: string | null;
+    slug: string | null;
+    tags: string;
+    endDate: string | null;
+    createdAt: string | null;
+    active: number;
+    closed: number;
+    archived: number;
+    acceptingOrders: number;
+    liquidity: number;
+    volume: number;
+    volume24hr: number;
+    negRisk: number;
+    negRiskMarketId: string | null;
+    minimumOrderSize: number | null;
+    minimumTickSize: number | null;
+    tokens: string;
+}
+
+function rowToMarket(row: MarketRow): Market {
+    return {
+        conditionId: row.conditionId,
+        questionId: row.questionId,
+        question: row.question,
+        description: row.description ?? "",
+        slug: row.slug,
+        tags: JSON.parse(row.tags || "[]"),
+        endDate: row.endDate,
+        createdAt: row.createdAt,
+        active: row.active === 1,
+        closed: row.closed === 1,
+        archived: row.archived === 1,
+        acceptingOrders: row.acceptingOrders === 1,
+        liquidity: row.liquidity,
+        volume: row.volume,
+        volume24hr: row.volume24hr,
+        negRisk: row.negRisk === 1,
+        negRiskMarketId: row.negRiskMarketId,
+        minimumOrderSize: row.minimumOrderSize,
+        minimumTickSize: row.minimumTickSize,
+        tokens: JSON.parse(row.tokens || "[]"),
+    };
+}
+
+export class SqliteMarketStore implements MarketStore {
+    constructor(private db: SqliteDatabase, private agentId: string) {
+        this.db.exec(marketTables);
+    }
+
+    async upsertMarkets(markets: Market[], syncedAt: string): Promise<void> {
+        const statement = this.db.prepare(`
+            INSERT OR REPLACE INTO polymarket_markets (
+                conditionId, agentId, questionId, question, description, slug, tags, endDate, createdAt,
+                active, closed, archived, acceptingOrders, liquidity, volume, volume24hr,
+                negRisk, negRiskMarketId, minimumOrderSize, minimumTickSize, tokens, syncedAt
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+
+        const upsertAll = this.db.transaction((rows: Market[]) => {
+            for (const market of rows) {
+                statement.run(
+                    market.conditionId,
+                    this.agentId,
+                    market.questionId,
+                    market.question,
+                    market.description,
+                    market.slug,
+                    JSON.stringify(market.tags),
+                    market.endDate,
+                    market.createdAt,
+                    market.active ? 1 : 0,
+                    market.closed ? 1 : 0,
+                    market.archived ? 1 : 0,
+                    market.acceptingOrders ? 1 : 0,
+                    market.liquidity,
+                    market.volume,
+                    market.volume24hr,
+                    market.negRisk ? 1 : 0,
+                    market.negRiskMarketId,
+                    market.minimumOrderSize,
+                    market.minimumTickSize,
+                    JSON.stringify(market.tokens),
+                    syncedAt
+                );
+            }
+        });
+        upsertAll(markets);
+    }
+
+    async getMarkets(): Promise<Market[]> {
+        const rows = this.db
+            .prepare("SELECT * FROM polymarket_markets WHERE agentId = ?")
+            .all(this.agentId) as MarketRow[];
+        return rows.map(rowToMarket);
+    }
+
+    async getMarket(conditionId: string): Promise<Market | null> {
+        const row = this.db
+            .prepare("SELECT * FROM polymarket_markets WHERE agentId = ? AND conditionId = ?")
+            .get(this.agentId, conditionId) as MarketRow | undefined;
+        return row ? rowToMarket(row) : null;
+    }
+
+    async countMarkets(): Promise<number> {
+        const row = this.db
+            .prepare("SELECT COUNT(*) AS count FROM polymarket_markets WHERE agentId = ?")
+            .get(this.agentId) as { count: number };
+        return row.count;
+    }
+
+    async getSyncState(): Promise<MarketSyncState> {
+        const row = this.db
+            .prepare("SELECT cursor, lastPageAt, lastFullSyncAt FROM polymarket_market_sync WHERE agentId = ?")
+            .get(this.agentId) as MarketSyncState | undefined;
+        return row ?? { ...EMPTY_SYNC_STATE };
+    }
+
+    async saveSyncState(state: MarketSyncState): Promise<void> {
+        this.db
+            .prepare("INSERT OR REPLACE INTO polymarket_market_sync (agentId, cursor, lastPageAt, lastFullSyncAt) VALUES (?, ?, ?, ?)")
+            .run(this.agentId, state.cursor, state.lastPageAt, state.lastFullSyncAt);
+    }
+}
+
+const CACHE_STORE_KEY = "polymarket/catalog/store";
+
+interface CachedCatalog {
+    markets: Record<string, Market>;
+    sync: MarketSyncState;
+}
+
+export class CacheMarketStore implements MarketStore {
+    constructor(private runtime: IAgentRuntime) {}
+
+    private async load(): Promise<CachedCatalog> {
+        return (await this.runtime.cacheManager.get<CachedCatalog>(CACHE_STORE_KEY)) ?? {
+            markets: {},
+            sync: { ...EMPTY_SYNC_STATE },
+        };
+    }
+
+    async upsertMarkets(markets: Market[]): Promise<void> {
+        const catalog = await this.load();
+        for (const market of markets) {
+            catalog.markets[market.conditionId] = market;
+        }
+        await this.runtime.cacheManager.set(CACHE_STORE_KEY, catalog);
+    }
+
+    async getMarkets(): Promise<Market[]> {
+        return Object.values((await this.load()).markets);
+    }
+
+    async getMarket(conditionId: string): Promise<Market | null> {
+        return (await this.load()).markets[conditionId] ?? null;
+    }
+
+    async countMarkets(): Promise<number> {
+        return Object.keys((await this.load()).markets).length;
+    }
+
+    async getSyncState(): Promise<MarketSyncState> {
+        return (await this.load()).sync;
+    }
+
+    async saveSyncState(state: MarketSyncState): Promise<void> {
+        const catalog = await this.load();
+        await this.runtime.cacheManager.set(CACHE_STORE_KEY, { ...catalog, sync: state });
+    }
+}
+
+function isSqliteDatabase(db: unknown): db is SqliteDatabase {
+    const candidate = db as Partial<SqliteDatabase> | undefined;
+    return typeof candidate?.prepare === "function"
+        && typeof candidate?.exec === "function"
+        && typeof candidate?.transaction === "function";
+}
+
+export function createMarketStore(runtime: IAgentRuntime): MarketStore {
+    const db = runtime.databaseAdapter?.db;
+    if (isSqliteDatabase(db)) {
+        return new SqliteMarketStore(db, runtime.agentId);
+    }
+    return new CacheMarketStore(runtime);
+}
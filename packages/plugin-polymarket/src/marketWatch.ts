@@ -0,0 +1,255 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { getMarketCatalog } from "./marketCatalog";
+import { summarizeOrderBook } from "./marketData";
+import { assertClobResponse, parseOrderBook } from "./model";
+
+// Watch rules let a user ask to be pinged about a market later ("tell me if
+// the Bucks market goes above 60c"). Rules are stored per agent in the cache
+// store and checked by the market watch service on a schedule; a rule fires
+// once and is then marked triggered. Only active rules are kept in the store.
+
+const WATCH_CACHE_KEY = "polymarket/watches";
+
+export type WatchRuleType = "price_cross" | "spread_narrow" | "volume_spike" | "closing_soon";
+export type WatchRuleStatus = "active" | "triggered" | "removed";
+
+// Defaults for the rule threshold when the user didn't give one
+export const DEFAULT_WATCH_THRESHOLDS: Record<Exclude<WatchRuleType, "price_cross">, number> = {
+    spread_narrow: 0.02,
+    volume_spike: 2,
+    closing_soon: 24,
+};
+
+export interface WatchRule {
+    id: string;
+    userId: UUID;
+    roomId: UUID;
+    conditionId: string;
+    question: string;
+    tokenId: string | null;
+    outcome: string | null;
+    type: WatchRuleType;
+    // price_cross only
+    direction: "above" | "below" | null;
+    // Price level, widest acceptable spread, volume multiple, or hours before close
+    threshold: number;
+    // Last observed price for crossings, or the reference 24h volume for spikes
+    baseline: number | null;
+    status: WatchRuleStatus;
+    createdAt: string;
+    lastCheckedAt: string | null;
+    triggeredAt: string | null;
+}
+
+export interface WatchRuleSpec {
+    conditionId: string;
+    question: string;
+    tokenId: string | null;
+    outcome: string | null;
+    type: WatchRuleType;
+    direction?: "above" | "below" | null;
+    threshold?: number | null;
+    baseline?: number | null;
+}
+
+export interface WatchObservation {
+    price: number | null;
+    spread: number | null;
+    volume24hr: number | null;
+    endDate: string | null;
+    observedAt: string;
+}
+
+export interface WatchEvaluation {
+    fired: boolean;
+    baseline: number | null;
+}
+
+export class WatchRuleError extends Error {
+    constructor(message: string, public readonly status = 400) {
+        super(message);
+        this.name = "WatchRuleError";
+    }
+}
+
+export async function getWatchRules(runtime: IAgentRuntime): Promise<WatchRule[]> {
+    return (await runtime.cacheManager.get<WatchRule[]>(WATCH_CACHE_KEY)) ?? [];
+}
+
+// Triggered and removed rules are dropped, so every poll only rereads and
+// rewrites the rules it still has to check.
+export async function saveWatchRules(runtime: IAgentRuntime, rules: WatchRule[]): Promise<void> {
+    await runtime.cacheManager.set(WATCH_CACHE_KEY, rules.filter((rule) => rule.status === "active"));
+}
+
+export async function getActiveWatchRules(
+    runtime: IAgentRuntime,
+    filter: { userId?: UUID; roomId?: UUID } = {}
+): Promise<WatchRule[]> {
+    return (await getWatchRules(runtime)).filter((rule) =>
+        rule.status === "active" &&
+        (!filter.userId || rule.userId === filter.userId) &&
+        (!filter.roomId || rule.roomId === filter.roomId)
+    );
+}
+
+export async function createWatchRule(
+    runtime: IAgentRuntime,
+    target: { userId: UUID; roomId: UUID },
+    spec: WatchRuleSpec
+): Promise<WatchRule> {
+    if (spec.type === "price_cross") {
+        if (!spec.tokenId) {
+            throw new WatchRuleError("A price alert needs a specific outcome to watch");
+        }
+        if (!spec.direction || spec.threshold == null || spec.threshold <= 0 || spec.threshold >= 1) {
+            throw new WatchRuleError("A price alert needs a direction (above or below) and a price between 0 and 1");
+        }
+    }
+    if (spec.type === "spread_narrow" && !spec.tokenId) {
+        throw new WatchRuleError("A spread alert needs a specific outcome to watch");
+    }
+
+    const threshold = spec.threshold ?? DEFAULT_WATCH_THRESHOLDS[spec.type];
+    if (!(threshold > 0)) {
+        throw new WatchRuleError("The alert threshold must be a positive number");
+    }
+
+    const rule: WatchRule = {
+        id: crypto.randomUUID(),
+        userId: target.userId,
+        roomId: target.roomId,
+        conditionId: spec.conditionId,
+        question: spec.question,
+        tokenId: spec.tokenId,
+        outcome: spec.outcome,
+        type: spec.type,
+        direction: spec.type === "price_cross" ? spec.direction : null,
+        threshold,
+        baseline: spec.baseline ?? null,
+        status: "active",
+        createdAt: new Date().toISOString(),
+        lastCheckedAt: null,
+        triggeredAt: null,
+    };
+
+    await saveWatchRules(runtime, [...(await getWatchRules(runtime)), rule]);
+    console.log(`👀 Polymarket watch ${rule.id} (${rule.type}) created for ${target.userId} on ${rule.conditionId}`);
+    return rule;
+}
+
+// Only the user who created a rule may remove it.
+export async function removeWatchRule(runtime: IAgentRuntime, ruleId: string, userId: UUID): Promise<WatchRule> {
+    const rules = await getWatchRules(runtime);
+    const rule = rules.find((candidate) => candidate.id === ruleId);
+    if (!rule || rule.status === "removed") {
+        throw new WatchRuleError(`Watch ${ruleId} not found`, 404);
+    }
+    if (rule.userId !== userId) {
+        throw new WatchRuleError(`Watch ${ruleId} can only be removed by the user who created it`, 403);
+    }
+
+    const removed: WatchRule = { ...rule, status: "removed" };
+    await saveWatchRules(runtime, rules.map((candidate) => (candidate.id === ruleId ? removed : candidate)));
+    return removed;
+}
+
+// Crossings compare against the previous observation so a rule created on the
+// far side of its level only fires once the price actually moves through it.
+export function evaluateWatchRule(rule: WatchRule, observation: WatchObservation): WatchEvaluation {
+    switch (rule.type) {
+        case "price_cross": {
+            const { price } = observation;
+            if (price === null) {
+                return { fired: false, baseline: rule.baseline };
+            }
+            const previous = rule.baseline;
+            const fired = previous !== null && (rule.direction === "above"
+                ? previous < rule.threshold && price >= rule.threshold
+                : previous > rule.threshold && price <= rule.threshold);
+            return { fired, baseline: price };
+        }
+        case "spread_narrow":
+            return { fired: observation.spread !== null && observation.spread <= rule.threshold, baseline: observation.spread };
+        case "volume_spike": {
+            const { volume24hr } = observation;
+            if (volume24hr === null) {
+                return { fired: false, baseline: rule.baseline };
+            }
+            if (!rule.baseline) {
+                return { fired: false, baseline: volume24hr };
+            }
+            return { fired: volume24hr >= rule.baseline * rule.threshold, baseline: rule.baseline };
+        }
+        case "closing_soon": {
+            if (!observation.endDate) {
+                return { fired: false, baseline: null };
+            }
+            const hoursLeft = (new Date(observation.endDate).getTime() - new Date(observation.observedAt).getTime()) / 3_600_000;
+            return { fired: hoursLeft > 0 && hoursLeft <= rule.threshold, baseline: null };
+        }
+    }
+}
+
+const cents = (price: number) => `${Math.round(price * 1000) / 10}¢`;
+
+export function describeWatchRule(rule: WatchRule): string {
+    const target = rule.outcome ? `${rule.outcome} on "${rule.question}"` : `"${rule.question}"`;
+    switch (rule.type) {
+        case "price_cross":
+            return `${target} goes ${rule.direction} ${cents(rule.threshold)}`;
+        case "spread_narrow":
+            return `the spread on ${target} narrows to ${cents(rule.threshold)} or less`;
+        case "volume_spike":
+            return `24h volume on ${target} reaches ${rule.threshold}x its level when the watch started`;
+        case "closing_soon":
+            return `${target} is within ${rule.threshold} hours of closing`;
+    }
+}
+
+export function formatWatchAlert(rule: WatchRule, observation: WatchObservation): string {
+    const target = rule.outcome ? `${rule.outcome} on "${rule.question}"` : `"${rule.question}"`;
+    switch (rule.type) {
+        case "price_cross":
+            return `🔔 Price alert: ${target} is now ${cents(observation.price)}, ${rule.direction} your ${cents(rule.threshold)} level.`;
+        case "spread_narrow":
+            return `🔔 Spread alert: the spread on ${target} is down to ${cents(observation.spread)} (your trigger was ${cents(rule.threshold)}).`;
+        case "volume_spike":
+            return `🔔 Volume alert: 24h volume on ${target} is $${Math.round(observation.volume24hr).toLocaleString()}, ${Math.round((observation.volume24hr / rule.baseline) * 10) / 10}x what it was when you started watching.`;
+        case "closing_soon":
+            return `🔔 Closing soon: ${target} closes at ${new Date(observation.endDate).toUTCString()}.`;
+    }
+}
+
+// Current price and spread come from the outcome's order book; volume and end
+// date from the market catalog.
+export async function observeMarket(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    target: { conditionId: string; tokenId: string | null; outcome: string | null }
+): Promise<WatchObservation> {
+    const observation: WatchObservation = {
+        price: null,
+        spread: null,
+        volume24hr: null,
+        endDate: null,
+        observedAt: new Date().toISOString(),
+    };
+
+    if (target.tokenId) {
+        const book = parseOrderBook(assertClobResponse(await client.getOrderBook(target.tokenId), "Order book lookup"), target.tokenId);
+        const summary = summarizeOrderBook(book, target.outcome ?? "", 1);
+        observation.price = summary.midpoint;
+        observation.spread = summary.spread;
+    }
+
+    const catalog = await getMarketCatalog(runtime, client);
+    const market = catalog.markets.find((candidate) => candidate.conditionId === target.conditionId);
+    if (market) {
+        observation.volume24hr = market.volume24hr;
+        observation.endDate = market.endDate;
+    }
+
+    return observation;
+}
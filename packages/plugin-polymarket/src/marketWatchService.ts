@@ -0,0 +1,167 @@
+import {
+    getEmbeddingZeroVector,
+    type IAgentRuntime,
+    Service,
+    type ServiceType,
+    stringToUuid,
+    type UUID,
+} from "@elizaos/core";
+import { PolymarketServiceType } from "./serviceTypes";
+import type { ClobClient } from "@polymarket/clob-client";
+import {
+    evaluateWatchRule,
+    formatWatchAlert,
+    getWatchRules,
+    observeMarket,
+    saveWatchRules,
+    type WatchObservation,
+    type WatchRule,
+} from "./marketWatch";
+import { getPolymarketClient } from "./provider";
+
+// Polls the markets behind every active watch rule and, when a rule fires,
+// posts the alert as an agent message in the room the rule was created in.
+// This is the only part of the plugin that speaks without being asked.
+
+const DEFAULT_POLL_SECONDS = 60;
+
+export interface WatchAlert {
+    rule: WatchRule;
+    observation: WatchObservation;
+    text: string;
+}
+
+interface AgentWatch {
+    timer: ReturnType<typeof setInterval> | null;
+    polling: Promise<WatchAlert[]> | null;
+}
+
+function getPollSeconds(runtime: IAgentRuntime): number {
+    const configured = Number.parseInt(`${runtime.getSetting("POLYMARKET_WATCH_POLL_SECONDS") ?? ""}`, 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_POLL_SECONDS;
+}
+
+export class MarketWatchService extends Service {
+    private watches = new Map<UUID, AgentWatch>();
+
+    static get serviceType(): ServiceType {
+        return PolymarketServiceType.MARKET_WATCH;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        const watch = this.getAgentWatch(runtime);
+        if (watch.timer) {
+            return;
+        }
+
+        watch.timer = setInterval(() => {
+            this.poll(runtime).catch((error) => {
+                console.error("Polymarket watch poll failed:", error instanceof Error ? error.message : error);
+            });
+        }, getPollSeconds(runtime) * 1000);
+        watch.timer.unref?.();
+    }
+
+    stop(runtime: IAgentRuntime): void {
+        const watch = this.watches.get(runtime.agentId);
+        if (watch?.timer) {
+            clearInterval(watch.timer);
+            watch.timer = null;
+        }
+    }
+
+    private getAgentWatch(runtime: IAgentRuntime): AgentWatch {
+        let watch = this.watches.get(runtime.agentId);
+        if (!watch) {
+            watch = { timer: null, polling: null };
+            this.watches.set(runtime.agentId, watch);
+        }
+        return watch;
+    }
+
+    // Check every active rule once. Overlapping calls share the poll in
+    // progress. Resolves to the alerts that were sent.
+    poll(runtime: IAgentRuntime, client?: ClobClient): Promise<WatchAlert[]> {
+        const watch = this.getAgentWatch(runtime);
+        if (!watch.polling) {
+            watch.polling = this.checkRules(runtime, client).finally(() => {
+                watch.polling = null;
+            });
+        }
+        return watch.polling;
+    }
+
+    private async checkRules(runtime: IAgentRuntime, client?: ClobClient): Promise<WatchAlert[]> {
+        const active = (await getWatchRules(runtime)).filter((rule) => rule.status === "active");
+        if (active.length === 0) {
+            return [];
+        }
+
+        const clobClient = client ?? (await getPolymarketClient(runtime));
+        const observations = new Map<string, WatchObservation>();
+        const updates = new Map<string, WatchRule>();
+        const alerts: WatchAlert[] = [];
+
+        for (const rule of active) {
+            // Rules on the same outcome share one order book lookup per poll
+            const key = `${rule.conditionId}/${rule.tokenId ?? ""}`;
+            let observation = observations.get(key);
+            if (!observation) {
+                try {
+                    observation = await observeMarket(runtime, clobClient, rule);
+                } catch (error) {
+                    console.log(`Could not observe ${key} for watch ${rule.id}:`, error instanceof Error ? error.message : error);
+                    continue;
+                }
+                observations.set(key, observation);
+            }
+
+            const { fired, baseline } = evaluateWatchRule(rule, observation);
+            const updated: WatchRule = {
+                ...rule,
+                baseline,
+                lastCheckedAt: observation.observedAt,
+                ...(fired ? { status: "triggered" as const, triggeredAt: observation.observedAt } : {}),
+            };
+            updates.set(rule.id, updated);
+
+            if (fired) {
+                const alert = { rule: updated, observation, text: formatWatchAlert(rule, observation) };
+                await this.sendAlert(runtime, alert);
+                alerts.push(alert);
+            }
+        }
+
+        // Re-read before saving so rules created or removed during the poll are kept
+        const latest = await getWatchRules(runtime);
+        await saveWatchRules(runtime, latest.map((rule) =>
+            rule.status === "active" && updates.has(rule.id) ? updates.get(rule.id) : rule
+        ));
+
+        return alerts;
+    }
+
+    private async sendAlert(runtime: IAgentRuntime, alert: WatchAlert): Promise<void> {
+        const { rule, observation } = alert;
+        await runtime.messageManager.createMemory({
+            id: stringToUuid(`${rule.id}-alert-${runtime.agentId}`),
+            userId: runtime.agentId,
+            agentId: runtime.agentId,
+            roomId: rule.roomId,
+            content: {
+                text: alert.text,
+                action: "MARKET_ALERT",
+                source: "polymarket-watch",
+                watchId: rule.id,
+                conditionId: rule.conditionId,
+                tokenId: rule.tokenId,
+                observation,
+            },
+            embedding: getEmbeddingZeroVector(),
+            createdAt: Date.now(),
+        });
+        console.log(`🔔 Polymarket watch ${rule.id} fired in room ${rule.roomId}`);
+    }
+}
+
+export const marketWatchService = new MarketWatchService();
@@ -0,0 +1,271 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { assertClobResponse, type Market, parseOrderBook } from "./model";
+
+// Price inconsistencies in the market catalog. Outcome shares of a binary
+// market can be split from and merged back into $1 of USDC, and exactly one
+// market of a neg-risk event resolves YES, so their prices should sum to 1;
+// any gap beyond fees is edge. Wide spreads on liquid markets are reported too,
+// since a limit order inside the spread does better than crossing it.
+
+export type MispricingKind = "binary_sum" | "neg_risk_sum" | "wide_spread";
+
+export const MISPRICING_KINDS: MispricingKind[] = ["binary_sum", "neg_risk_sum", "wide_spread"];
+
+export interface MispricingThresholds {
+    // Gap from 1 a price sum must exceed, in dollars per $1 set; covers fees
+    minEdge: number;
+    // Bid/ask spread that counts as wide
+    minSpread: number;
+    // Only markets with at least this much liquidity are checked for spreads
+    minLiquidity: number;
+}
+
+export const DEFAULT_MISPRICING_THRESHOLDS: MispricingThresholds = {
+    minEdge: 0.02,
+    minSpread: 0.05,
+    minLiquidity: 1000,
+};
+
+// Order books fetched per scan for the spread check, most liquid markets first
+const MAX_SPREAD_BOOKS = 20;
+
+export interface Mispricing {
+    kind: MispricingKind;
+    // The market, or for a neg-risk event its neg_risk_market_id
+    id: string;
+    title: string;
+    markets: { conditionId: string; question: string }[];
+    // Dollars per $1 set for price sums; half the spread for wide spreads
+    edge: number;
+    math: string;
+    liquidity: number;
+}
+
+export interface MispricingScan {
+    findings: Mispricing[];
+    marketsScanned: number;
+    eventsScanned: number;
+    booksScanned: number;
+    thresholds: MispricingThresholds;
+}
+
+const round = (value: number, decimals = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+const cents = (value: number) => `${round(value * 100, 1)}¢`;
+const usd = (value: number) => `$${Math.round(value).toLocaleString("en-US")}`;
+
+function parseThreshold(value: unknown, fallback: number): number {
+    const parsed = Number.parseFloat(`${value ?? ""}`);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getMispricingThresholds(runtime: IAgentRuntime): MispricingThresholds {
+    return {
+        minEdge: parseThreshold(runtime.getSetting("POLYMARKET_MISPRICING_MIN_EDGE"), DEFAULT_MISPRICING_THRESHOLDS.minEdge),
+        minSpread: parseThreshold(runtime.getSetting("POLYMARKET_MISPRICING_MIN_SPREAD"), DEFAULT_MISPRICING_THRESHOLDS.minSpread),
+        minLiquidity: parseThreshold(runtime.getSetting("POLYMARKET_MISPRICING_MIN_LIQUIDITY"), DEFAULT_MISPRICING_THRESHOLDS.minLiquidity),
+    };
+}
+
+function isTradable(market: Market): boolean {
+    return market.active && !market.closed && !market.archived && market.acceptingOrders;
+}
+
+function yesPrice(market: Market): number | null {
+    const yes = market.tokens.find((token) => token.outcome.toLowerCase() === "yes") ?? market.tokens[0];
+    return yes?.price ?? null;
+}
+
+// YES + NO on a binary market. Below 1, buying one of each and merging them
+// returns $1; above 1, splitting $1 into both and selling them does.
+export function findBinarySumMispricing(market: Market, minEdge: number): Mispricing | null {
+    if (market.tokens.length !== 2 || market.tokens.some((token) => token.price === null)) {
+        return null;
+    }
+    const [first, second] = market.tokens;
+    const sum = round(first.price + second.price);
+    const gap = round(Math.abs(1 - sum));
+    if (gap <= minEdge) {
+        return null;
+    }
+
+    const trade = sum < 1
+        ? `buy one ${first.outcome} and one ${second.outcome} share for ${sum} and merge them into $1`
+        : `split $1 into a ${first.outcome} and a ${second.outcome} share and sell both for ${sum}`;
+    return {
+        kind: "binary_sum",
+        id: market.conditionId,
+        title: market.question,
+        markets: [{ conditionId: market.conditionId, question: market.question }],
+        edge: gap,
+        math: `${first.outcome} ${first.price} + ${second.outcome} ${second.price} = ${sum}; ${trade} → ${cents(gap)} per set (${round((gap / Math.min(sum, 1)) * 100, 1)}%)`,
+        liquidity: market.liquidity,
+    };
+}
+
+// YES prices across the markets of one neg-risk event. Below 1, YES in every
+// market costs the sum and exactly one pays $1; above 1, NO in every market
+// costs N - sum and all but one pay $1.
+export function findNegRiskSumMispricing(markets: Market[], minEdge: number): Mispricing | null {
+    const prices = markets.map(yesPrice);
+    if (markets.length < 2 || prices.some((price) => price === null)) {
+        return null;
+    }
+    const sum = round(prices.reduce((total, price) => total + price, 0));
+    const gap = round(Math.abs(1 - sum));
+    if (gap <= minEdge) {
+        return null;
+    }
+
+    const count = markets.length;
+    const cost = sum < 1 ? sum : round(count - sum);
+    const trade = sum < 1
+        ? `YES in all ${count} markets costs ${cost} and exactly one pays $1`
+        : `NO in all ${count} markets costs ${count} − ${sum} = ${cost} and ${count - 1} of them pay $1`;
+    return {
+        kind: "neg_risk_sum",
+        id: markets[0].negRiskMarketId ?? markets[0].conditionId,
+        title: `${count}-outcome event: ${markets.map((market) => market.question).join(" / ")}`,
+        markets: markets.map((market) => ({ conditionId: market.conditionId, question: market.question })),
+        edge: gap,
+        math: `YES ${prices.join(" + ")} = ${sum}; ${trade} → ${cents(gap)} per set (${round((gap / cost) * 100, 1)}%)`,
+        liquidity: markets.reduce((total, market) => total + market.liquidity, 0),
+    };
+}
+
+export function findWideSpread(
+    market: Market,
+    outcome: string,
+    bestBid: number | null,
+    bestAsk: number | null,
+    minSpread: number
+): Mispricing | null {
+    if (bestBid === null || bestAsk === null) {
+        return null;
+    }
+    const spread = round(bestAsk - bestBid);
+    if (spread < minSpread) {
+        return null;
+    }
+    const midpoint = round((bestAsk + bestBid) / 2);
+    return {
+        kind: "wide_spread",
+        id: market.conditionId,
+        title: market.question,
+        markets: [{ conditionId: market.conditionId, question: market.question }],
+        edge: round(spread / 2),
+        math: `${outcome} ask ${bestAsk} − bid ${bestBid} = ${cents(spread)} spread (${round((spread / midpoint) * 100, 1)}% of the ${midpoint} midpoint) on ${usd(market.liquidity)} liquidity; a limit order at the midpoint saves ${cents(spread / 2)} a share over crossing`,
+        liquidity: market.liquidity,
+    };
+}
+
+// A neg-risk question ID is its event's market ID plus the question's index,
+// which sits in the last byte.
+function questionIndex(market: Market): number | null {
+    const { questionId, negRiskMarketId } = market;
+    if (!questionId || !negRiskMarketId || questionId.length !== negRiskMarketId.length) {
+        return null;
+    }
+    if (questionId.slice(0, -2).toLowerCase() !== negRiskMarketId.slice(0, -2).toLowerCase()) {
+        return null;
+    }
+    const index = Number.parseInt(questionId.slice(-2), 16);
+    return Number.isNaN(index) ? null : index;
+}
+
+// The questions of an event are numbered from 0, so an event whose indexes run
+// 0..n-1 has all of its markets in the catalog.
+function isCompleteEvent(markets: Market[]): boolean {
+    const indexes = new Set(markets.map(questionIndex));
+    return indexes.size === markets.length && markets.every((_market, index) => indexes.has(index));
+}
+
+// Neg-risk markets grouped into their events. Only events with at least two
+// markets, all of them known and tradable, are kept: a sum over some of the
+// markets says nothing about the event.
+function groupNegRiskEvents(markets: Market[]): Market[][] {
+    const events = new Map<string, Market[]>();
+    for (const market of markets) {
+        if (market.negRisk && market.negRiskMarketId) {
+            events.set(market.negRiskMarketId, [...(events.get(market.negRiskMarketId) ?? []), market]);
+        }
+    }
+    return [...events.values()].filter((event) => event.length >= 2 && event.every(isTradable) && isCompleteEvent(event));
+}
+
+// Ranked by edge, then by liquidity, so the biggest and most tradable gaps come first
+export async function scanMispricing(
+    client: ClobClient,
+    markets: Market[],
+    thresholds: MispricingThresholds,
+    kinds: MispricingKind[] = MISPRICING_KINDS
+): Promise<MispricingScan> {
+    const tradable = markets.filter(isTradable);
+    const findings: Mispricing[] = [];
+
+    if (kinds.includes("binary_sum")) {
+        for (const market of tradable.filter((candidate) => !candidate.negRisk)) {
+            const finding = findBinarySumMispricing(market, thresholds.minEdge);
+            if (finding) {
+                findings.push(finding);
+            }
+        }
+    }
+
+    // Grouped over every market, so events with a closed or paused market are left out
+    const events = kinds.includes("neg_risk_sum") ? groupNegRiskEvents(markets) : [];
+    for (const event of events) {
+        const finding = findNegRiskSumMispricing(event, thresholds.minEdge);
+        if (finding) {
+            findings.push(finding);
+        }
+    }
+
+    let booksScanned = 0;
+    if (kinds.includes("wide_spread")) {
+        const liquid = tradable
+            .filter((market) => market.liquidity >= thresholds.minLiquidity && market.tokens.length > 0)
+            .sort((a, b) => b.liquidity - a.liquidity)
+            .slice(0, MAX_SPREAD_BOOKS);
+        for (const market of liquid) {
+            const token = market.tokens[0];
+            try {
+                const book = parseOrderBook(assertClobResponse(await client.getOrderBook(token.tokenId), "Order book lookup"), token.tokenId);
+                booksScanned++;
+                const finding = findWideSpread(market, token.outcome, book.bids[0]?.price ?? null, book.asks[0]?.price ?? null, thresholds.minSpread);
+                if (finding) {
+                    findings.push(finding);
+                }
+            } catch (error) {
+                console.log(`Skipped the spread check for ${market.conditionId}:`, error instanceof Error ? error.message : error);
+            }
+        }
+    }
+
+    findings.sort((a, b) => b.edge - a.edge || b.liquidity - a.liquidity);
+    return {
+        findings,
+        marketsScanned: tradable.length,
+        eventsScanned: events.length,
+        booksScanned,
+        thresholds,
+    };
+}
+
+export function formatMispricingScan(scan: MispricingScan, limit: number): string {
+    const header = `Scanned ${scan.marketsScanned} open markets, ${scan.eventsScanned} neg-risk events and ${scan.booksScanned} order books.`;
+    if (scan.findings.length === 0) {
+        return `${header} Nothing is mispriced by more than ${cents(scan.thresholds.minEdge)} per set, and no spread on a market with ${usd(scan.thresholds.minLiquidity)}+ liquidity is ${cents(scan.thresholds.minSpread)} or wider.`;
+    }
+
+    const labels: Record<MispricingKind, string> = {
+        binary_sum: "YES + NO off 1",
+        neg_risk_sum: "Event prices off 1",
+        wide_spread: "Wide spread",
+    };
+    const lines = scan.findings.slice(0, limit).map((finding, index) =>
+        `${index + 1}. ${labels[finding.kind]}: "${finding.title}"\n   ${finding.math}`
+    );
+    const more = scan.findings.length > limit ? `\n…and ${scan.findings.length - limit} more.` : "";
+    return `${header} Ranked by edge:\n${lines.join("\n")}${more}\n\nPrices move and quoted prices can be stale; check the order books before trading on any of these.`;
+}
@@ -0,0 +1,350 @@
+import { z } from "zod";
+
+// Canonical Polymarket domain model. Raw CLOB payloads use several aliases for
+// the same field (condition_id/conditionId/id, tokens/outcomes) and send
+// numbers as strings, so everything is parsed here once into Market, Outcome
+// and OrderBook. Payloads are parsed with zod schemas of the raw API shape and
+// the model is built from the parsed data. Fields that no longer match are
+// dropped and the rest is still used, and each mismatch is logged once as a
+// schema drift warning.
+
+const numeric = z.union([z.number(), z.string()]);
+const optionalString = z.string().nullish();
+const optionalBoolean = z.boolean().nullish();
+
+const RawOutcomeSchema = z.object({
+    token_id: numeric.nullish(),
+    tokenId: numeric.nullish(),
+    id: numeric.nullish(),
+    outcome: optionalString,
+    name: optionalString,
+    title: optionalString,
+    price: numeric.nullish(),
+    lastPrice: numeric.nullish(),
+    winner: optionalBoolean,
+    volume: numeric.nullish(),
+});
+
+const RawMarketSchema = z.object({
+    condition_id: optionalString,
+    conditionId: optionalString,
+    id: numeric.nullish(),
+    question_id: optionalString,
+    questionId: optionalString,
+    question: optionalString,
+    title: optionalString,
+    name: optionalString,
+    description: optionalString,
+    market_slug: optionalString,
+    slug: optionalString,
+    active: optionalBoolean,
+    closed: optionalBoolean,
+    archived: optionalBoolean,
+    accepting_orders: optionalBoolean,
+    acceptingOrders: optionalBoolean,
+    accepting_order_timestamp: optionalString,
+    end_date_iso: optionalString,
+    endDate: optionalString,
+    game_start_time: optionalString,
+    created_date: optionalString,
+    createdAt: optionalString,
+    minimum_order_size: numeric.nullish(),
+    minOrderSize: numeric.nullish(),
+    minimum_tick_size: numeric.nullish(),
+    tickSize: numeric.nullish(),
+    seconds_delay: numeric.nullish(),
+    fpmm: optionalString,
+    maker_base_fee: numeric.nullish(),
+    taker_base_fee: numeric.nullish(),
+    notifications_enabled: optionalBoolean,
+    icon: optionalString,
+    image: optionalString,
+    volume: numeric.nullish(),
+    volume24hr: numeric.nullish(),
+    totalVolume: numeric.nullish(),
+    liquidity: numeric.nullish(),
+    neg_risk: optionalBoolean,
+    negRisk: optionalBoolean,
+    neg_risk_market_id: optionalString,
+    negRiskMarketID: optionalString,
+    neg_risk_request_id: optionalString,
+    is_50_50_outcome: optionalBoolean,
+    enable_order_book: optionalBoolean,
+    tags: z.array(z.string()).nullish(),
+    // Each outcome is parsed on its own, so one bad outcome doesn't drop the rest
+    tokens: z.array(z.unknown()).nullish(),
+    outcomes: z.array(z.unknown()).nullish(),
+    rewards: z.record(z.unknown()).nullish(),
+});
+
+const RawMarketsPageSchema = z.object({
+    data: z.array(z.unknown()),
+    next_cursor: optionalString,
+    limit: numeric.nullish(),
+    count: numeric.nullish(),
+});
+
+const RawBookLevelSchema = z.object({ price: numeric, size: numeric });
+
+const RawOrderBookSchema = z.object({
+    market: optionalString,
+    asset_id: optionalString,
+    hash: optionalString,
+    timestamp: numeric.nullish(),
+    bids: z.array(z.unknown()).nullish(),
+    asks: z.array(z.unknown()).nullish(),
+    min_order_size: numeric.nullish(),
+    tick_size: numeric.nullish(),
+    neg_risk: optionalBoolean,
+});
+
+const RawPricePointSchema = z.object({ t: numeric, p: numeric });
+
+const RawPriceHistorySchema = z.object({ history: z.array(z.unknown()) });
+
+export interface Outcome {
+    tokenId: string;
+    outcome: string;
+    price: number | null;
+    winner: boolean | null;
+}
+
+export interface Market {
+    conditionId: string;
+    questionId: string | null;
+    question: string;
+    description: string;
+    slug: string | null;
+    tags: string[];
+    endDate: string | null;
+    createdAt: string | null;
+    active: boolean;
+    closed: boolean;
+    archived: boolean;
+    acceptingOrders: boolean;
+    liquidity: number;
+    volume: number;
+    volume24hr: number;
+    negRisk: boolean;
+    // Neg-risk markets sharing this ID are the mutually exclusive outcomes of one event
+    negRiskMarketId: string | null;
+    minimumOrderSize: number | null;
+    minimumTickSize: number | null;
+    tokens: Outcome[];
+}
+
+export interface OrderBookLevel {
+    price: number;
+    size: number;
+}
+
+export interface OrderBook {
+    market: string | null;
+    tokenId: string;
+    hash: string | null;
+    bids: OrderBookLevel[];
+    asks: OrderBookLevel[];
+}
+
+export interface PricePoint {
+    t: number;
+    p: number;
+}
+
+export interface MarketsPage {
+    markets: Market[];
+    nextCursor: string | null;
+}
+
+const END_CURSOR = "LTE=";
+const reportedDrift = new Set<string>();
+
+// Log each distinct mismatch once per process so a changed API is visible
+// without flooding the logs on every page.
+export function reportSchemaDrift(kind: string, detail: string): void {
+    const key = `${kind}: ${detail}`;
+    if (reportedDrift.has(key)) {
+        return;
+    }
+    reportedDrift.add(key);
+    console.warn(`⚠️ Polymarket schema drift in ${kind}: ${detail}`);
+}
+
+// Parse a raw payload against its schema. Fields that don't match are
+// reported and dropped, so a changed field doesn't lose the whole record.
+function parseRaw<T extends z.ZodRawShape>(kind: string, schema: z.ZodObject<T>, raw: unknown): z.infer<z.ZodObject<T>> | null {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        reportSchemaDrift(kind, `expected an object, got ${raw === null ? "null" : Array.isArray(raw) ? "array" : typeof raw}`);
+        return null;
+    }
+
+    for (const key of Object.keys(raw)) {
+        if (!(key in schema.shape)) {
+            reportSchemaDrift(kind, `unexpected field "${key}"`);
+        }
+    }
+
+    const result = schema.safeParse(raw);
+    if (result.success) {
+        return result.data;
+    }
+
+    const valid: Record<string, unknown> = { ...raw };
+    for (const issue of result.error.issues) {
+        reportSchemaDrift(kind, `${issue.path.join(".") || "(root)"} ${issue.message}`);
+        delete valid[`${issue.path[0]}`];
+    }
+    const retried = schema.safeParse(valid);
+    return retried.success ? retried.data : null;
+}
+
+function toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === "") {
+        return null;
+    }
+    const parsed = typeof value === "number" ? value : Number.parseFloat(`${value}`);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toText(value: unknown): string | null {
+    return typeof value === "string" && value.length > 0 ? value : typeof value === "number" ? `${value}` : null;
+}
+
+function toIsoDate(value: unknown): string | null {
+    if (!value) {
+        return null;
+    }
+    const time = new Date(`${value}`).getTime();
+    return Number.isFinite(time) ? new Date(time).toISOString() : null;
+}
+
+export function parseOutcome(raw: unknown): Outcome | null {
+    const outcome = parseRaw("outcome", RawOutcomeSchema, raw);
+    const tokenId = toText(outcome?.token_id) ?? toText(outcome?.tokenId) ?? toText(outcome?.id);
+    if (!tokenId) {
+        return null;
+    }
+    return {
+        tokenId,
+        outcome: toText(outcome.outcome) ?? toText(outcome.name) ?? toText(outcome.title) ?? "",
+        price: toNumber(outcome.price ?? outcome.lastPrice),
+        winner: outcome.winner ?? null,
+    };
+}
+
+export function parseMarket(raw: unknown): Market | null {
+    const market = parseRaw("market", RawMarketSchema, raw);
+
+    const conditionId = toText(market?.condition_id) ?? toText(market?.conditionId) ?? toText(market?.id);
+    if (!conditionId) {
+        reportSchemaDrift("market", "market without a condition ID skipped");
+        return null;
+    }
+
+    return {
+        conditionId,
+        questionId: toText(market.question_id) ?? toText(market.questionId),
+        question: toText(market.question) ?? toText(market.title) ?? toText(market.name) ?? "Unknown Market",
+        description: toText(market.description) ?? "",
+        slug: toText(market.market_slug) ?? toText(market.slug),
+        tags: market.tags ?? [],
+        endDate: toIsoDate(market.end_date_iso ?? market.endDate),
+        createdAt: toIsoDate(market.created_date ?? market.createdAt),
+        active: market.active !== false,
+        closed: market.closed === true,
+        archived: market.archived === true,
+        acceptingOrders: market.accepting_orders === true || market.acceptingOrders === true,
+        liquidity: toNumber(market.liquidity) ?? 0,
+        volume: toNumber(market.volume ?? market.totalVolume) ?? 0,
+        volume24hr: toNumber(market.volume24hr) ?? 0,
+        negRisk: market.neg_risk === true || market.negRisk === true,
+        negRiskMarketId: toText(market.neg_risk_market_id) ?? toText(market.negRiskMarketID),
+        minimumOrderSize: toNumber(market.minimum_order_size ?? market.minOrderSize),
+        minimumTickSize: toNumber(market.minimum_tick_size ?? market.tickSize),
+        tokens: (market.tokens ?? market.outcomes ?? [])
+            .map(parseOutcome)
+            .filter((outcome): outcome is Outcome => outcome !== null),
+    };
+}
+
+// /markets answers { data, next_cursor }; some deployments return a bare array.
+export function parseMarketsPage(response: unknown): MarketsPage {
+    if (Array.isArray(response)) {
+        return { markets: parseMarkets(response), nextCursor: null };
+    }
+
+    const page = RawMarketsPageSchema.safeParse(response);
+    if (!page.success) {
+        reportSchemaDrift("markets page", `expected { data: [] } or an array, got ${response === null ? "null" : typeof response}`);
+        return { markets: [], nextCursor: null };
+    }
+
+    const next = toText(page.data.next_cursor);
+    return {
+        markets: parseMarkets(page.data.data),
+        nextCursor: next && next !== END_CURSOR ? next : null,
+    };
+}
+
+function parseMarkets(rawMarkets: unknown[]): Market[] {
+    return rawMarkets.map(parseMarket).filter((market): market is Market => market !== null);
+}
+
+function parseLevels(levels: unknown[] | null | undefined, bestFirst: (a: number, b: number) => number): OrderBookLevel[] {
+    return (levels ?? [])
+        .flatMap((raw) => {
+            const level = RawBookLevelSchema.safeParse(raw);
+            const price = level.success ? toNumber(level.data.price) : null;
+            const size = level.success ? toNumber(level.data.size) : null;
+            return price !== null && size !== null ? [{ price, size }] : [];
+        })
+        .sort((a, b) => bestFirst(a.price, b.price));
+}
+
+// Levels are sorted best price first on both sides.
+export function parseOrderBook(raw: unknown, tokenId?: string): OrderBook {
+    const book = parseRaw("order book", RawOrderBookSchema, raw);
+    return {
+        market: toText(book?.market),
+        tokenId: toText(book?.asset_id) ?? tokenId ?? "",
+        hash: toText(book?.hash),
+        bids: parseLevels(book?.bids, (a, b) => b - a),
+        asks: parseLevels(book?.asks, (a, b) => a - b),
+    };
+}
+
+// /prices-history answers { history: [{ t, p }] }; older responses were a bare array.
+export function parsePriceHistory(response: unknown): PricePoint[] {
+    let rawPoints: unknown[] = [];
+    if (Array.isArray(response)) {
+        rawPoints = response;
+    } else {
+        const body = RawPriceHistorySchema.safeParse(response);
+        if (body.success) {
+            rawPoints = body.data.history;
+        } else {
+            reportSchemaDrift("price history", "expected { history: [] } or an array");
+        }
+    }
+
+    return rawPoints.flatMap((raw) => {
+        const point = RawPricePointSchema.safeParse(raw);
+        const t = point.success ? toNumber(point.data.t) : null;
+        const p = point.success ? toNumber(point.data.p) : null;
+        if (t === null || p === null) {
+            reportSchemaDrift("price history", "point without a numeric t and p skipped");
+            return [];
+        }
+        return [{ t, p }];
+    });
+}
+
+// clob-client resolves failed requests (401, 429, 5xx, ...) to the error body
+// instead of rejecting, so responses are checked before they are used.
+export function assertClobResponse<T>(response: T, operation: string): T {
+    const error = typeof response === "object" && response !== null && "error" in response ? response.error : null;
+    if (error) {
+        throw new Error(`${operation} failed: ${typeof error === "string" ? error : JSON.stringify(error)}`);
+    }
+    return response;
+}
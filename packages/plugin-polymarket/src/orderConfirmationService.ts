@@ -0,0 +1,87 @@
+import {
+    type Content,
+    getEmbeddingZeroVector,
+    type IAgentRuntime,
+    type Memory,
+    Service,
+    type ServiceType,
+    stringToUuid,
+    type UUID,
+} from "@elizaos/core";
+import { PolymarketServiceType } from "./serviceTypes";
+import { executeBet } from "./actions";
+import { pickOrderOptions } from "./orderTypes";
+import { claimOrderIntent, type OrderIntent, OrderIntentError } from "./orderIntents";
+
+export interface OrderConfirmationResult {
+    success: boolean;
+    // The HTTP status a client should answer with, e.g. 409 when already confirmed
+    status: number;
+    text: string;
+    content?: Content;
+}
+
+// Lets clients outside the chat loop (e.g. the direct client's REST API)
+// confirm a pending order intent on behalf of the user who created it.
+export class OrderConfirmationService extends Service {
+    static get serviceType(): ServiceType {
+        return PolymarketServiceType.ORDER_CONFIRMATION;
+    }
+
+    async initialize(_runtime: IAgentRuntime): Promise<void> {}
+
+    async confirmOrderIntent(
+        runtime: IAgentRuntime,
+        intentId: string,
+        userId: UUID
+    ): Promise<OrderConfirmationResult> {
+        let intent: OrderIntent;
+        try {
+            intent = await claimOrderIntent(runtime, intentId, userId);
+        } catch (error) {
+            if (error instanceof OrderIntentError) {
+                return { success: false, status: error.status, text: error.message };
+            }
+            throw error;
+        }
+
+        const message: Memory = {
+            id: stringToUuid(`${intentId}-confirm-${userId}`),
+            userId,
+            agentId: runtime.agentId,
+            roomId: intent.roomId,
+            content: { text: `Confirm order ${intentId}`, action: "CONFIRM_ORDER", source: "direct" },
+            createdAt: Date.now(),
+        };
+        const state = await runtime.composeState(message);
+
+        let response: Content | undefined;
+        const success = await executeBet(runtime, message, state, {
+            tokenId: intent.tokenId,
+            side: intent.side,
+            amount: intent.amount,
+            price: intent.price,
+            ...pickOrderOptions(intent),
+        }, async (content) => {
+            response = content;
+            return [];
+        });
+
+        const text = response?.text ?? (success ? "Order placed." : "Order could not be placed.");
+
+        // Record the outcome in the room so the chat history shows what happened
+        await runtime.messageManager.createMemory({
+            id: stringToUuid(`${intentId}-confirm-${runtime.agentId}`),
+            userId: runtime.agentId,
+            agentId: runtime.agentId,
+            roomId: intent.roomId,
+            content: { ...response, text, action: "CONFIRM_ORDER", source: "direct" },
+            embedding: getEmbeddingZeroVector(),
+            createdAt: Date.now(),
+        });
+
+        return { success, status: success ? 200 : 422, text, content: response };
+    }
+}
+
+export const orderConfirmationService = new OrderConfirmationService();
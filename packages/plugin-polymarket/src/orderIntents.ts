@@ -0,0 +1,170 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import { describeOrderType, isMarketOrder, type OrderOptions, pickOrderOptions } from "./orderTypes";
+
+// Pending order intents let PLACE_BET stop and ask for confirmation instead of
+// trading on a single, possibly ambiguous, chat message. Intents are stored per
+// room in the agent's cache store and expire on their own.
+
+const INTENT_CACHE_PREFIX = "polymarket/order-intents";
+const DEFAULT_INTENT_TTL_SECONDS = 300;
+
+export type OrderIntentStatus = "pending" | "confirmed" | "expired";
+
+export interface OrderIntent extends OrderOptions {
+    id: string;
+    roomId: UUID;
+    userId: UUID;
+    tokenId: string;
+    side: "BUY" | "SELL";
+    amount: number;
+    price: number;
+    size: number;
+    status: OrderIntentStatus;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export class OrderIntentError extends Error {
+    constructor(message: string, public readonly status = 400) {
+        super(message);
+        this.name = "OrderIntentError";
+    }
+}
+
+export function requiresOrderConfirmation(runtime: IAgentRuntime): boolean {
+    const setting = runtime.getSetting("POLYMARKET_REQUIRE_CONFIRMATION") as unknown;
+    return setting === true || String(setting ?? "").toLowerCase() === "true";
+}
+
+function getIntentTtlSeconds(runtime: IAgentRuntime): number {
+    const configured = Number.parseInt(`${runtime.getSetting("POLYMARKET_ORDER_INTENT_TTL_SECONDS") ?? ""}`, 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_INTENT_TTL_SECONDS;
+}
+
+const intentKey = (intentId: string) => `${INTENT_CACHE_PREFIX}/${intentId}`;
+const roomKey = (roomId: UUID) => `${INTENT_CACHE_PREFIX}/room/${roomId}`;
+
+function isExpired(intent: OrderIntent): boolean {
+    return new Date(intent.expiresAt).getTime() <= Date.now();
+}
+
+export async function createOrderIntent(
+    runtime: IAgentRuntime,
+    target: { userId: UUID; roomId: UUID },
+    order: OrderOptions & { tokenId: string; side: "BUY" | "SELL"; amount: number; price: number }
+): Promise<OrderIntent> {
+    const now = Date.now();
+    const expires = now + getIntentTtlSeconds(runtime) * 1000;
+    const intent: OrderIntent = {
+        id: crypto.randomUUID(),
+        roomId: target.roomId,
+        userId: target.userId,
+        tokenId: order.tokenId,
+        side: order.side,
+        amount: order.amount,
+        price: order.price,
+        size: Math.round((order.amount / order.price) * 100) / 100,
+        ...pickOrderOptions(order),
+        status: "pending",
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(expires).toISOString(),
+    };
+
+    await runtime.cacheManager.set(intentKey(intent.id), intent, { expires });
+
+    const roomIntentIds = (await runtime.cacheManager.get<string[]>(roomKey(target.roomId))) ?? [];
+    await runtime.cacheManager.set(roomKey(target.roomId), [...roomIntentIds, intent.id]);
+
+    console.log(`⏳ Polymarket order intent ${intent.id} created in room ${target.roomId}, expires ${intent.expiresAt}`);
+    return intent;
+}
+
+export async function getOrderIntent(runtime: IAgentRuntime, intentId: string): Promise<OrderIntent | null> {
+    const intent = await runtime.cacheManager.get<OrderIntent>(intentKey(intentId));
+    if (!intent) {
+        return null;
+    }
+    return intent.status === "pending" && isExpired(intent) ? { ...intent, status: "expired" } : intent;
+}
+
+// Pending intents in a room, newest first. Expired and settled intents are
+// pruned from the room index as a side effect.
+export async function getPendingOrderIntents(runtime: IAgentRuntime, roomId: UUID): Promise<OrderIntent[]> {
+    const roomIntentIds = (await runtime.cacheManager.get<string[]>(roomKey(roomId))) ?? [];
+    const pending: OrderIntent[] = [];
+
+    for (const intentId of roomIntentIds) {
+        const intent = await getOrderIntent(runtime, intentId);
+        if (intent?.status === "pending") {
+            pending.push(intent);
+        }
+    }
+
+    if (pending.length !== roomIntentIds.length) {
+        await runtime.cacheManager.set(roomKey(roomId), pending.map((intent) => intent.id));
+    }
+
+    return pending.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Claims in progress per agent and intent. The cache store has no
+// compare-and-set, so claims of one intent run one after another: the second
+// of two concurrent confirms reads the first one's "confirmed" and gets a 409.
+const claims = new Map<string, Promise<unknown>>();
+
+async function withIntentLock<T>(runtime: IAgentRuntime, intentId: string, claim: () => Promise<T>): Promise<T> {
+    const key = `${runtime.agentId}/${intentId}`;
+    const previous = claims.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(claim);
+    claims.set(key, current);
+    try {
+        return await current;
+    } finally {
+        if (claims.get(key) === current) {
+            claims.delete(key);
+        }
+    }
+}
+
+// Mark an intent as confirmed so it can only execute once. Only the user who
+// requested the order may confirm it, and only before it expires.
+export async function claimOrderIntent(
+    runtime: IAgentRuntime,
+    intentId: string,
+    userId: UUID
+): Promise<OrderIntent> {
+    return withIntentLock(runtime, intentId, () => claimPendingIntent(runtime, intentId, userId));
+}
+
+async function claimPendingIntent(runtime: IAgentRuntime, intentId: string, userId: UUID): Promise<OrderIntent> {
+    const intent = await getOrderIntent(runtime, intentId);
+    if (!intent) {
+        throw new OrderIntentError(`Order intent ${intentId} not found`, 404);
+    }
+    if (intent.userId !== userId) {
+        throw new OrderIntentError(`Order intent ${intentId} can only be confirmed by the user who requested it`, 403);
+    }
+    if (intent.status === "expired") {
+        throw new OrderIntentError(`Order intent ${intentId} expired at ${intent.expiresAt}`, 410);
+    }
+    if (intent.status !== "pending") {
+        throw new OrderIntentError(`Order intent ${intentId} was already ${intent.status}`, 409);
+    }
+
+    const confirmed: OrderIntent = { ...intent, status: "confirmed" };
+    await runtime.cacheManager.set(intentKey(intentId), confirmed, {
+        expires: new Date(intent.expiresAt).getTime(),
+    });
+    return confirmed;
+}
+
+export function formatOrderIntent(intent: OrderIntent): string {
+    return `Pending order ${intent.id}:
+- Token: ${intent.tokenId}
+- Side: ${intent.side}
+- Order type: ${describeOrderType(intent)}
+- Price: ${intent.price} per share${isMarketOrder(intent.orderType) ? " (current price; filled at market)" : ""}
+- Size: ${intent.size} shares (${intent.amount} USDC)
+- Expires: ${new Date(intent.expiresAt).toLocaleString()}${intent.replacesOrderId ? `
+- Replaces: order ${intent.replacesOrderId}, cancelled when you confirm` : ""}`;
+}
@@ -0,0 +1,165 @@
+import type { Market, OrderBook, OrderBookLevel } from "./model";
+
+// Order types the CLOB accepts for a bet:
+// - GTC: limit order resting on the book until filled or canceled (default)
+// - GTD: limit order that expires at a set time
+// - FOK: market order sized in USDC, filled in full right away or canceled
+// - FAK: market order sized in USDC, filled as far as the book allows, the rest canceled
+// Any limit order can be post-only: it must rest on the book and never take.
+
+export type BetOrderType = "GTC" | "GTD" | "FOK" | "FAK";
+
+export const BET_ORDER_TYPES: BetOrderType[] = ["GTC", "GTD", "FOK", "FAK"];
+
+const DEFAULT_TICK_SIZE = 0.01;
+// The CLOB only honors expirations at least a minute out, on top of the lifetime wanted
+const GTD_SECURITY_SECONDS = 60;
+
+export interface OrderOptions {
+    orderType?: BetOrderType;
+    // GTD only: how long the order stays on the book
+    expiresInMinutes?: number;
+    postOnly?: boolean;
+    // From the market's minimum_tick_size and minimum_order_size
+    tickSize?: number | null;
+    minOrderSize?: number | null;
+    // REPLACE_ORDER: the open order this one replaces, cancelled right before it is posted
+    replacesOrderId?: string;
+}
+
+export interface MarketOrderQuote {
+    // Worst price the order accepts: the deepest level it has to reach
+    price: number;
+    // Shares the USDC amount buys or has to sell at that price
+    size: number;
+    // USDC the book can absorb on that side
+    available: number;
+}
+
+export class OrderValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "OrderValidationError";
+    }
+}
+
+export function isMarketOrder(orderType: BetOrderType | undefined): boolean {
+    return orderType === "FOK" || orderType === "FAK";
+}
+
+export function getOrderConstraints(market: Market): Pick<OrderOptions, "tickSize" | "minOrderSize"> {
+    return { tickSize: market.minimumTickSize, minOrderSize: market.minimumOrderSize };
+}
+
+// Only the fields that travel with an order through confirmation
+export function pickOrderOptions(source: OrderOptions): OrderOptions {
+    const { orderType, expiresInMinutes, postOnly, tickSize, minOrderSize, replacesOrderId } = source;
+    return { orderType, expiresInMinutes, postOnly, tickSize, minOrderSize, replacesOrderId };
+}
+
+function onTick(price: number, tickSize: number): boolean {
+    const ticks = price / tickSize;
+    return Math.abs(ticks - Math.round(ticks)) < 1e-9;
+}
+
+// Order type combinations the exchange would reject, before anything is signed
+export function validateOrderOptions(options: OrderOptions): void {
+    const orderType = options.orderType ?? "GTC";
+    if (orderType === "GTD" && !(options.expiresInMinutes > 0)) {
+        throw new OrderValidationError("A good-til-date order needs an expiry, e.g. \"good for 2 hours\".");
+    }
+    if (orderType !== "GTD" && options.expiresInMinutes !== undefined) {
+        throw new OrderValidationError(`${orderType} orders don't expire; use a GTD order for an expiry.`);
+    }
+    if (options.postOnly && isMarketOrder(orderType)) {
+        throw new OrderValidationError("A market order takes liquidity, so it can't be post-only. Name a limit price instead.");
+    }
+}
+
+// Price on the market's tick and at least the market's minimum size in shares
+export function validateOrderSize(order: { price: number; size: number }, options: OrderOptions): void {
+    // clob-client rounds signed prices to the cent, so finer ticks are used at cent precision
+    const tickSize = Math.max(options.tickSize ?? DEFAULT_TICK_SIZE, DEFAULT_TICK_SIZE);
+    if (!onTick(order.price, tickSize)) {
+        const below = Math.floor(order.price / tickSize) * tickSize;
+        const nearest = [below, below + tickSize]
+            .map((price) => Math.round(price * 100) / 100)
+            .filter((price) => price > 0 && price < 1 && onTick(price, tickSize));
+        throw new OrderValidationError(
+            `Price ${order.price} is not on this market's ${tickSize} tick${nearest.length > 0 ? `; use ${nearest.join(" or ")}` : ""}.`
+        );
+    }
+    if (options.minOrderSize && order.size < options.minOrderSize) {
+        throw new OrderValidationError(
+            `The order is ${Math.round(order.size * 100) / 100} shares, below this market's minimum of ${options.minOrderSize} shares ` +
+            `(about $${Math.ceil(options.minOrderSize * order.price * 100) / 100} at ${order.price}).`
+        );
+    }
+}
+
+// Unix seconds the exchange should expire a GTD order at
+export function getGtdExpiration(expiresInMinutes: number, now = Date.now()): number {
+    return Math.floor(now / 1000) + GTD_SECURITY_SECONDS + Math.round(expiresInMinutes * 60);
+}
+
+// The order type of an open order, and for a GTD order the minutes it has left,
+// so its replacement rests on the book for no longer than it would have
+export function getReplacementOptions(
+    order: { orderId: string; type: string; expiration: string | null },
+    now = Date.now()
+): OrderOptions {
+    if (order.type !== "GTD") {
+        return { orderType: "GTC", replacesOrderId: order.orderId };
+    }
+    const expiresAt = order.expiration ? new Date(order.expiration).getTime() : Number.NaN;
+    const expiresInMinutes = Math.floor((expiresAt - now) / 60_000 - GTD_SECURITY_SECONDS / 60);
+    if (!(expiresInMinutes >= 1)) {
+        throw new OrderValidationError(`Order ${order.orderId} expires within a minute, so there is nothing left to replace. Place a new order instead.`);
+    }
+    return { orderType: "GTD", expiresInMinutes, replacesOrderId: order.orderId };
+}
+
+// Walk the opposite side of the book until the USDC amount is covered. A FOK
+// order the book can't fill in full is refused here rather than by the exchange.
+export function quoteMarketOrder(book: OrderBook, side: "BUY" | "SELL", amount: number, orderType: BetOrderType): MarketOrderQuote {
+    const levels: OrderBookLevel[] = side === "BUY" ? book.asks : book.bids;
+    if (levels.length === 0) {
+        throw new OrderValidationError(`There are no ${side === "BUY" ? "asks" : "bids"} on the book to ${side === "BUY" ? "buy from" : "sell to"}.`);
+    }
+
+    let covered = 0;
+    let price = levels[0].price;
+    for (const level of levels) {
+        price = level.price;
+        covered += level.price * level.size;
+        if (covered >= amount) {
+            break;
+        }
+    }
+    const available = Math.round(covered * 100) / 100;
+
+    if (covered < amount && orderType === "FOK") {
+        throw new OrderValidationError(
+            `The book only has $${available} on the ${side === "BUY" ? "ask" : "bid"} side, so a fill-or-kill order for $${amount} would be canceled. Use a smaller amount or fill-and-kill (FAK) to take what's there.`
+        );
+    }
+    return { price, size: Math.round((amount / price) * 100) / 100, available };
+}
+
+// A post-only order priced through the other side of the book would trade on arrival
+export function crossesBook(book: OrderBook, side: "BUY" | "SELL", price: number): boolean {
+    return side === "BUY"
+        ? book.asks.length > 0 && price >= book.asks[0].price
+        : book.bids.length > 0 && price <= book.bids[0].price;
+}
+
+export function describeOrderType(options: OrderOptions): string {
+    const orderType = options.orderType ?? "GTC";
+    const label = {
+        GTC: "limit, good til canceled",
+        GTD: `limit, good for ${options.expiresInMinutes} minutes`,
+        FOK: "market, fill or kill",
+        FAK: "market, fill and kill",
+    }[orderType];
+    return `${orderType} (${label}${options.postOnly ? ", post-only" : ""})`;
+}
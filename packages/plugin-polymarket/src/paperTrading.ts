@@ -0,0 +1,339 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { parseOrderBook } from "./model";
+
+// Paper trading keeps a simulated USDC ledger in the agent's cache store (the
+// database by default) so personas can trade without touching real funds.
+
+const LEDGER_CACHE_KEY = "polymarket/paper/ledger";
+const MIDPOINT_CACHE_PREFIX = "polymarket/paper/midpoint";
+const DEFAULT_STARTING_BALANCE = 1000;
+// Only the latest fills are kept for the trade history; settlement reads the
+// totals on each position, which are never trimmed.
+const MAX_FILLS_KEPT = 500;
+
+export interface PaperFill {
+    id: string;
+    tokenId: string;
+    side: "BUY" | "SELL";
+    price: number;
+    size: number;
+    amount: number;
+    realizedPnl: number;
+    priceSource: "live" | "cached";
+    timestamp: string;
+}
+
+export interface PaperPosition {
+    tokenId: string;
+    size: number;
+    avgPrice: number;
+    realizedPnl: number;
+    // Running totals over every fill of the token, for settling the bet
+    sharesBought: number;
+    sharesSold: number;
+    staked: number;
+    proceeds: number;
+    openedAt: string;
+    updatedAt: string;
+}
+
+export interface PaperLedger {
+    startingBalance: number;
+    cash: number;
+    positions: Record<string, PaperPosition>;
+    fills: PaperFill[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface PaperOrder {
+    tokenId: string;
+    side: "BUY" | "SELL";
+    amount: number;
+    price: number;
+}
+
+export interface MidPrice {
+    price: number;
+    source: "live" | "cached";
+    fetchedAt: string;
+}
+
+export interface PaperPortfolioPosition extends PaperPosition {
+    markPrice: number | null;
+    marketValue: number;
+    unrealizedPnl: number;
+}
+
+export interface PaperPortfolio {
+    cash: number;
+    startingBalance: number;
+    positions: PaperPortfolioPosition[];
+    positionsValue: number;
+    equity: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    totalPnl: number;
+    fillCount: number;
+}
+
+export class PaperTradingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PaperTradingError";
+    }
+}
+
+export function isPaperTradingEnabled(runtime: IAgentRuntime): boolean {
+    const setting = runtime.getSetting("POLYMARKET_PAPER_TRADING") as unknown;
+    return setting === true || String(setting ?? "").toLowerCase() === "true";
+}
+
+function getStartingBalance(runtime: IAgentRuntime): number {
+    const configured = Number.parseFloat(
+        `${runtime.getSetting("POLYMARKET_PAPER_STARTING_BALANCE") ?? ""}`
+    );
+    return Number.isFinite(configured) && configured > 0
+        ? configured
+        : DEFAULT_STARTING_BALANCE;
+}
+
+function round(value: number, decimals = 6): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+export async function getPaperLedger(runtime: IAgentRuntime): Promise<PaperLedger> {
+    const existing = await runtime.cacheManager.get<PaperLedger>(LEDGER_CACHE_KEY);
+    if (existing) {
+        return existing;
+    }
+
+    const startingBalance = getStartingBalance(runtime);
+    const now = new Date().toISOString();
+    return {
+        startingBalance,
+        cash: startingBalance,
+        positions: {},
+        fills: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+async function savePaperLedger(
+    runtime: IAgentRuntime,
+    ledger: PaperLedger
+): Promise<void> {
+    ledger.updatedAt = new Date().toISOString();
+    if (ledger.fills.length > MAX_FILLS_KEPT) {
+        ledger.fills = ledger.fills.slice(-MAX_FILLS_KEPT);
+    }
+    await runtime.cacheManager.set(LEDGER_CACHE_KEY, ledger);
+}
+
+// Ledger updates in progress per agent. The cache store has no compare-and-set,
+// so updates run one after another: a chat bet and a strategy run can't both
+// spend the same cash or lose each other's fill.
+const ledgerUpdates = new Map<string, Promise<unknown>>();
+
+// Read the ledger, apply `update` and save it, one update per agent at a time
+export async function updatePaperLedger<T>(
+    runtime: IAgentRuntime,
+    update: (ledger: PaperLedger) => T | Promise<T>
+): Promise<T> {
+    const key = runtime.agentId;
+    const previous = ledgerUpdates.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(async () => {
+        const ledger = await getPaperLedger(runtime);
+        const result = await update(ledger);
+        await savePaperLedger(runtime, ledger);
+        return result;
+    });
+    ledgerUpdates.set(key, current);
+    try {
+        return await current;
+    } finally {
+        if (ledgerUpdates.get(key) === current) {
+            ledgerUpdates.delete(key);
+        }
+    }
+}
+
+function parsePrice(value: unknown): number | null {
+    const price = Number.parseFloat(`${value ?? ""}`);
+    return Number.isFinite(price) && price > 0 && price < 1 ? price : null;
+}
+
+async function fetchLiveMidPrice(client: ClobClient, tokenId: string): Promise<number | null> {
+    try {
+        const midpoint = await client.getMidpoint(tokenId);
+        const mid = parsePrice(midpoint?.mid ?? midpoint);
+        if (mid !== null) {
+            return mid;
+        }
+    } catch (error) {
+        console.log(`Midpoint lookup failed for ${tokenId}, falling back to order book:`, error instanceof Error ? error.message : error);
+    }
+
+    const book = parseOrderBook(await client.getOrderBook(tokenId), tokenId);
+    const bestBid = book.bids[0]?.price;
+    const bestAsk = book.asks[0]?.price;
+    if (bestBid !== undefined && bestAsk !== undefined) {
+        return parsePrice((bestBid + bestAsk) / 2);
+    }
+    return null;
+}
+
+// Prefer a live quote and remember it; fall back to the last cached quote when
+// the order book is unreachable.
+export async function getMidPrice(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    tokenId: string
+): Promise<MidPrice> {
+    const cacheKey = `${MIDPOINT_CACHE_PREFIX}/${tokenId}`;
+
+    try {
+        const live = await fetchLiveMidPrice(client, tokenId);
+        if (live !== null) {
+            const quote: MidPrice = { price: live, source: "live", fetchedAt: new Date().toISOString() };
+            await runtime.cacheManager.set(cacheKey, quote);
+            return quote;
+        }
+    } catch (error) {
+        console.log(`Live order book unavailable for ${tokenId}:`, error instanceof Error ? error.message : error);
+    }
+
+    const cached = await runtime.cacheManager.get<MidPrice>(cacheKey);
+    if (cached) {
+        return { ...cached, source: "cached" };
+    }
+
+    throw new PaperTradingError(`No live or cached mid-price available for token ${tokenId}`);
+}
+
+// Fill a paper order at the current mid-price. Orders only fill when the limit
+// price is marketable against the mid; nothing rests on a simulated book.
+export async function executePaperOrder(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    order: PaperOrder
+): Promise<{ fill: PaperFill; ledger: PaperLedger }> {
+    const quote = await getMidPrice(runtime, client, order.tokenId);
+    const mid = quote.price;
+
+    if (order.side === "BUY" && order.price < mid) {
+        throw new PaperTradingError(`Limit price ${order.price} is below the current mid-price ${mid}; the paper order would not fill.`);
+    }
+    if (order.side === "SELL" && order.price > mid) {
+        throw new PaperTradingError(`Limit price ${order.price} is above the current mid-price ${mid}; the paper order would not fill.`);
+    }
+
+    return updatePaperLedger(runtime, (ledger) => {
+        const now = new Date().toISOString();
+        const size = round(order.amount / mid);
+        const position = ledger.positions[order.tokenId] ?? {
+            tokenId: order.tokenId,
+            size: 0,
+            avgPrice: 0,
+            realizedPnl: 0,
+            sharesBought: 0,
+            sharesSold: 0,
+            staked: 0,
+            proceeds: 0,
+            openedAt: now,
+            updatedAt: now,
+        };
+        let realizedPnl = 0;
+
+        if (order.side === "BUY") {
+            if (ledger.cash < order.amount) {
+                throw new PaperTradingError(`Insufficient paper USDC balance. You have ${round(ledger.cash, 2)} USDC but need ${order.amount} USDC for this bet.`);
+            }
+            const newSize = position.size + size;
+            position.avgPrice = round((position.avgPrice * position.size + mid * size) / newSize);
+            position.size = round(newSize);
+            position.sharesBought = round(position.sharesBought + size);
+            position.staked = round(position.staked + order.amount);
+            ledger.cash = round(ledger.cash - order.amount);
+        } else {
+            if (position.size < size) {
+                throw new PaperTradingError(`Insufficient paper shares. You hold ${round(position.size, 2)} shares of ${order.tokenId} but need ${round(size, 2)} to sell ${order.amount} USDC.`);
+            }
+            realizedPnl = round((mid - position.avgPrice) * size);
+            position.size = round(position.size - size);
+            position.realizedPnl = round(position.realizedPnl + realizedPnl);
+            position.sharesSold = round(position.sharesSold + size);
+            position.proceeds = round(position.proceeds + size * mid);
+            ledger.cash = round(ledger.cash + size * mid);
+        }
+        position.updatedAt = now;
+        ledger.positions[order.tokenId] = position;
+
+        const fill: PaperFill = {
+            id: crypto.randomUUID(),
+            tokenId: order.tokenId,
+            side: order.side,
+            price: mid,
+            size,
+            amount: order.amount,
+            realizedPnl,
+            priceSource: quote.source,
+            timestamp: now,
+        };
+        ledger.fills.push(fill);
+        console.log(`📝 Paper ${order.side} filled: ${size} shares of ${order.tokenId} @ ${mid} (${quote.source})`);
+
+        return { fill, ledger };
+    });
+}
+
+// Mark every open paper position to the current mid-price.
+export async function getPaperPortfolio(
+    runtime: IAgentRuntime,
+    client: ClobClient
+): Promise<PaperPortfolio> {
+    const ledger = await getPaperLedger(runtime);
+    const positions: PaperPortfolioPosition[] = [];
+    let realizedPnl = 0;
+
+    for (const position of Object.values(ledger.positions)) {
+        realizedPnl += position.realizedPnl;
+        if (position.size <= 0) {
+            continue;
+        }
+
+        let markPrice: number | null = null;
+        try {
+            markPrice = (await getMidPrice(runtime, client, position.tokenId)).price;
+        } catch (error) {
+            console.log(`Could not mark paper position ${position.tokenId}:`, error instanceof Error ? error.message : error);
+        }
+
+        const mark = markPrice ?? position.avgPrice;
+        positions.push({
+            ...position,
+            markPrice,
+            marketValue: round(position.size * mark),
+            unrealizedPnl: round((mark - position.avgPrice) * position.size),
+        });
+    }
+
+    const positionsValue = round(positions.reduce((sum, p) => sum + p.marketValue, 0));
+    const unrealizedPnl = round(positions.reduce((sum, p) => sum + p.unrealizedPnl, 0));
+    const equity = round(ledger.cash + positionsValue);
+
+    return {
+        cash: ledger.cash,
+        startingBalance: ledger.startingBalance,
+        positions,
+        positionsValue,
+        equity,
+        realizedPnl: round(realizedPnl),
+        unrealizedPnl,
+        totalPnl: round(equity - ledger.startingBalance),
+        fillCount: ledger.fills.length,
+    };
+}
@@ -0,0 +1,222 @@
+import type { ClobClient, OpenOrder, Trade } from "@polymarket/clob-client";
+
+// Helpers that turn raw CLOB orders and trades into the structured shapes the
+// portfolio actions return to the UI.
+
+export interface PortfolioPosition {
+    tokenId: string;
+    market: string;
+    outcome: string;
+    size: number;
+    avgPrice: number;
+    costBasis: number;
+    realizedPnl: number;
+    markPrice: number | null;
+    marketValue: number;
+    unrealizedPnl: number;
+}
+
+export interface PortfolioTotals {
+    positionCount: number;
+    costBasis: number;
+    marketValue: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+}
+
+export interface OpenOrderSummary {
+    orderId: string;
+    market: string;
+    tokenId: string;
+    outcome: string;
+    side: string;
+    price: number;
+    originalSize: number;
+    sizeMatched: number;
+    remainingSize: number;
+    status: string;
+    type: string;
+    createdAt: string | null;
+    expiration: string | null;
+}
+
+export interface TradeSummary {
+    tradeId: string;
+    market: string;
+    tokenId: string;
+    outcome: string;
+    side: "BUY" | "SELL";
+    role: "TAKER" | "MAKER";
+    price: number;
+    size: number;
+    notional: number;
+    status: string;
+    matchTime: string | null;
+    transactionHash: string | null;
+}
+
+function toNumber(value: unknown): number {
+    const parsed = Number.parseFloat(`${value ?? ""}`);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number, decimals = 6): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+function toIsoTime(value: unknown): string | null {
+    if (value === undefined || value === null || value === "") {
+        return null;
+    }
+    const numeric = Number(value);
+    const date = Number.isFinite(numeric)
+        ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+        : new Date(`${value}`);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function normalizeSide(side: unknown): "BUY" | "SELL" {
+    return `${side}`.toUpperCase() === "SELL" || side === 1 ? "SELL" : "BUY";
+}
+
+export function summarizeOpenOrders(orders: OpenOrder[]): OpenOrderSummary[] {
+    return (orders ?? []).map((order) => {
+        const originalSize = toNumber(order.original_size);
+        const sizeMatched = toNumber(order.size_matched);
+        return {
+            orderId: order.id,
+            market: order.market,
+            tokenId: order.asset_id,
+            outcome: order.outcome,
+            side: `${order.side}`.toUpperCase(),
+            price: toNumber(order.price),
+            originalSize,
+            sizeMatched,
+            remainingSize: round(originalSize - sizeMatched),
+            status: order.status,
+            type: order.type,
+            createdAt: toIsoTime(order.created_at),
+            expiration: order.expiration && order.expiration !== "0" ? toIsoTime(order.expiration) : null,
+        };
+    });
+}
+
+// A trade is reported from the taker's point of view. When one of our own
+// maker orders was filled instead, we take the opposite side for the amount
+// matched against that maker order.
+export function summarizeTrades(trades: Trade[], ownerIds: string[]): TradeSummary[] {
+    const owners = new Set(ownerIds.filter(Boolean).map((id) => id.toLowerCase()));
+
+    return (trades ?? []).map((trade) => {
+        const takerSide = normalizeSide(trade.side);
+        const ownMakerOrders = (trade.maker_orders ?? []).filter((maker) =>
+            owners.has(`${maker.owner}`.toLowerCase()) ||
+            owners.has(`${maker.maker_address}`.toLowerCase())
+        );
+        const isTaker = owners.size === 0 || owners.has(`${trade.owner}`.toLowerCase()) || ownMakerOrders.length === 0;
+
+        const side = isTaker ? takerSide : (takerSide === "BUY" ? "SELL" : "BUY");
+        const size = isTaker
+            ? toNumber(trade.size)
+            : ownMakerOrders.reduce((sum, maker) => sum + toNumber(maker.matched_amount), 0);
+        const price = isTaker ? toNumber(trade.price) : toNumber(ownMakerOrders[0].price);
+
+        return {
+            tradeId: trade.id,
+            market: trade.market,
+            tokenId: isTaker ? trade.asset_id : ownMakerOrders[0].asset_id,
+            outcome: isTaker ? trade.outcome : ownMakerOrders[0].outcome,
+            side,
+            role: isTaker ? "TAKER" : "MAKER",
+            price,
+            size,
+            notional: round(price * size),
+            status: trade.status,
+            matchTime: toIsoTime(trade.match_time),
+            transactionHash: trade.transaction_hash || null,
+        };
+    });
+}
+
+// Replay trades oldest-first to get the net share position and average entry
+// price per outcome token.
+export function buildPositions(trades: TradeSummary[]): PortfolioPosition[] {
+    const positions = new Map<string, PortfolioPosition>();
+    const ordered = [...trades].sort((a, b) =>
+        (a.matchTime ?? "").localeCompare(b.matchTime ?? "")
+    );
+
+    for (const trade of ordered) {
+        const position = positions.get(trade.tokenId) ?? {
+            tokenId: trade.tokenId,
+            market: trade.market,
+            outcome: trade.outcome,
+            size: 0,
+            avgPrice: 0,
+            costBasis: 0,
+            realizedPnl: 0,
+            markPrice: null,
+            marketValue: 0,
+            unrealizedPnl: 0,
+        };
+
+        if (trade.side === "BUY") {
+            const newSize = position.size + trade.size;
+            position.avgPrice = newSize > 0
+                ? round((position.avgPrice * position.size + trade.price * trade.size) / newSize)
+                : 0;
+            position.size = round(newSize);
+        } else {
+            const closed = Math.min(trade.size, position.size);
+            position.realizedPnl = round(position.realizedPnl + (trade.price - position.avgPrice) * closed);
+            position.size = round(position.size - closed);
+            if (position.size === 0) {
+                position.avgPrice = 0;
+            }
+        }
+        position.costBasis = round(position.avgPrice * position.size);
+        positions.set(trade.tokenId, position);
+    }
+
+    return Array.from(positions.values());
+}
+
+export async function markPositions(
+    client: ClobClient,
+    positions: PortfolioPosition[]
+): Promise<PortfolioPosition[]> {
+    return Promise.all(positions.map(async (position) => {
+        if (position.size <= 0) {
+            return position;
+        }
+
+        let markPrice: number | null = null;
+        try {
+            const midpoint = await client.getMidpoint(position.tokenId);
+            const mid = toNumber(midpoint?.mid ?? midpoint);
+            markPrice = mid > 0 ? mid : null;
+        } catch (error) {
+            console.log(`Could not fetch midpoint for ${position.tokenId}:`, error instanceof Error ? error.message : error);
+        }
+
+        const mark = markPrice ?? position.avgPrice;
+        return {
+            ...position,
+            markPrice,
+            marketValue: round(mark * position.size),
+            unrealizedPnl: round((mark - position.avgPrice) * position.size),
+        };
+    }));
+}
+
+export function totalPositions(positions: PortfolioPosition[]): PortfolioTotals {
+    const open = positions.filter((position) => position.size > 0);
+    return {
+        positionCount: open.length,
+        costBasis: round(open.reduce((sum, p) => sum + p.costBasis, 0)),
+        marketValue: round(open.reduce((sum, p) => sum + p.marketValue, 0)),
+        realizedPnl: round(positions.reduce((sum, p) => sum + p.realizedPnl, 0)),
+        unrealizedPnl: round(open.reduce((sum, p) => sum + p.unrealizedPnl, 0)),
+    };
+}
@@ -1,30 +1,33 @@
-import type { Provider, IAgentRuntime } from "@elizaos/core";
+import type { Provider, IAgentRuntime, Memory, UUID } from "@elizaos/core";
 import { ClobClient, Chain } from "@polymarket/clob-client";
+import {
+    buildMarketSearchIndex,
+    getMarketCatalog,
+    getMarketSearchIndex,
+    type MarketSearchIndex,
+    searchMarkets,
+    tokenizeSearchText,
+} from "./marketCatalog";
+import type { MarketCatalogService } from "./marketCatalogService";
+import { getPolymarketConnection } from "./config";
+import { PolymarketServiceType } from "./serviceTypes";
+import { getShownMarkets } from "./marketResolver";
+import { assertClobResponse, type Market } from "./model";
 
-export async function getPolymarketClient(): Promise<ClobClient> {
-    // Get configuration from environment variables
-    const host = process.env.CLOB_API_URL || "https://clob.polymarket.com";
-    const chainId = parseInt(`${process.env.CHAIN_ID || Chain.POLYGON}`) as Chain;
-    
-    // For authenticated operations, you might need these
-    const apiKey = process.env.POLYMARKET_API_KEY;
-    const secret = process.env.POLYMARKET_SECRET;
-    const passphrase = process.env.POLYMARKET_PASSPHRASE;
+// Public (unauthenticated) client. With a runtime, the host and chain come
+// from the character's settings; without one, from the environment.
+export async function getPolymarketClient(runtime?: IAgentRuntime): Promise<ClobClient> {
+    const { host, chainId } = runtime
+        ? getPolymarketConnection(runtime)
+        : {
+            host: process.env.CLOB_API_URL || "https://clob.polymarket.com",
+            chainId: Number.parseInt(`${process.env.CHAIN_ID || Chain.POLYGON}`, 10) as Chain,
+        };
 
     try {
         // Initialize ClobClient with host and chainId
         const client = new ClobClient(host, chainId);
-        
-        // If credentials are provided, you might need to authenticate
-        // This depends on the specific API requirements
-        if (apiKey && secret && passphrase) {
-            console.log("🔐 Polymarket credentials detected - authenticated mode");
-            // The authentication might be handled differently depending on the client version
-            // You may need to call specific auth methods here
-        } else {
-            console.log("📖 Polymarket running in read-only mode");
-        }
-        
+
         return client;
     } catch (error) {
         console.error("Failed to initialize Polymarket ClobClient:", error);
@@ -32,35 +35,185 @@ export async function getPolymarketClient(): Promise<ClobClient> {
     }
 }
 
+// The provider gives the model a short status line and, when the message is
+// about something Polymarket lists, the few most relevant markets with their
+// current prices. Both come from the cache and the local market catalog, so a
+// normal turn makes no API calls. The catalog is only read from memory; until
+// MarketCatalogService's first refresh has stored markets the provider says the
+// catalog is syncing instead of waiting on it.
+
+const STATUS_CACHE_KEY = "polymarket/provider/status";
+const DEFAULT_STATUS_TTL_SECONDS = 300;
+const RELEVANT_TTL_MS = 60 * 1000;
+const MAX_RELEVANT_CACHE_ENTRIES = 200;
+const MAX_RELEVANT_MARKETS = 3;
+// One exact word match in a market question
+const MIN_RELEVANCE = 4;
+const MIN_TERM_LENGTH = 3;
+const CATALOG_SYNCING = "Polymarket market catalog is still syncing; no markets to suggest yet.";
+
+// Chat words that say nothing about which market is meant
+const CHAT_WORDS = new Set([
+    "about", "any", "bet", "buy", "can", "chance", "chances", "could", "does", "doing", "get", "going", "good",
+    "got", "happen", "hello", "hey", "how", "just", "know", "like", "much", "need", "now", "odds", "price", "prices",
+    "really", "right", "sell", "should", "tell", "thanks", "that", "think", "this", "today", "want", "well", "what",
+    "would", "yeah", "yes", "you", "your",
+]);
+
+export interface ConnectionStatus {
+    connected: boolean;
+    checkedAt: string;
+    error: string | null;
+}
+
+function getStatusTtlMs(runtime: IAgentRuntime): number {
+    const configured = Number.parseInt(`${runtime.getSetting("POLYMARKET_STATUS_TTL_SECONDS") ?? ""}`, 10);
+    return (Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_STATUS_TTL_SECONDS) * 1000;
+}
+
+// Whether the CLOB answered recently, checked against the cheap /time endpoint
+// at most once per POLYMARKET_STATUS_TTL_SECONDS.
+export async function getConnectionStatus(runtime: IAgentRuntime, client: ClobClient): Promise<ConnectionStatus> {
+    const cached = await runtime.cacheManager.get<ConnectionStatus>(STATUS_CACHE_KEY);
+    if (cached) {
+        return cached;
+    }
+
+    let status: ConnectionStatus;
+    try {
+        assertClobResponse(await client.getServerTime(), "Server time lookup");
+        status = { connected: true, checkedAt: new Date().toISOString(), error: null };
+    } catch (error) {
+        status = { connected: false, checkedAt: new Date().toISOString(), error: error instanceof Error ? error.message : String(error) };
+    }
+    await runtime.cacheManager.set(STATUS_CACHE_KEY, status, { expires: Date.now() + getStatusTtlMs(runtime) });
+    return status;
+}
+
+export function extractMarketTerms(text: string): string[] {
+    return [...new Set(tokenizeSearchText(text))]
+        .filter((term) => term.length >= MIN_TERM_LENGTH && !CHAT_WORDS.has(term));
+}
+
+// The index of the catalog MarketCatalogService holds in memory, null while it
+// has none yet. Without the service, the cached catalog's (refreshed once
+// it is older than POLYMARKET_CATALOG_TTL_SECONDS).
+async function getCatalogIndex(runtime: IAgentRuntime, client: ClobClient): Promise<MarketSearchIndex | null> {
+    const service = runtime.getService<MarketCatalogService>(PolymarketServiceType.MARKET_CATALOG);
+    if (service) {
+        return service.getLoadedCatalog(runtime)?.index ?? null;
+    }
+    return getMarketSearchIndex(runtime, await getMarketCatalog(runtime, client));
+}
+
+// Markets the message mentions, preferring ones already shown in the room.
+// Conversation text rarely names every word of a question, so any term counts.
+export async function findRelevantMarkets(
+    runtime: IAgentRuntime,
+    catalogIndex: MarketSearchIndex,
+    roomId: UUID,
+    text: string
+): Promise<Market[]> {
+    const terms = extractMarketTerms(text);
+    if (terms.length === 0) {
+        return [];
+    }
+
+    const query = { text: terms.join(" "), matchAny: true, limit: MAX_RELEVANT_MARKETS };
+    const shown = await getShownMarkets(runtime, roomId);
+    const results = [
+        ...(shown.length > 0 ? searchMarkets(buildMarketSearchIndex(shown), query) : []),
+        ...searchMarkets(catalogIndex, { ...query, acceptingOrders: true }),
+    ];
+
+    const relevant = new Map<string, Market>();
+    for (const { market, score } of results) {
+        if (score >= MIN_RELEVANCE && !relevant.has(market.conditionId)) {
+            relevant.set(market.conditionId, market);
+        }
+    }
+    return [...relevant.values()].slice(0, MAX_RELEVANT_MARKETS);
+}
+
+// Relevant-market summaries for the last few messages, per agent runtime. Kept
+// in memory because nearly every message has its own terms, and the entries
+// only live for a minute.
+const relevantCaches = new WeakMap<IAgentRuntime, Map<string, { text: string | null; expires: number }>>();
+
+function getRelevantCache(runtime: IAgentRuntime): Map<string, { text: string | null; expires: number }> {
+    let cache = relevantCaches.get(runtime);
+    if (!cache) {
+        cache = new Map();
+        relevantCaches.set(runtime, cache);
+    }
+    return cache;
+}
+
+function cacheRelevantText(runtime: IAgentRuntime, key: string, text: string | null): void {
+    const cache = getRelevantCache(runtime);
+    const now = Date.now();
+    for (const [cachedKey, entry] of cache) {
+        if (entry.expires <= now) {
+            cache.delete(cachedKey);
+        }
+    }
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (cache.size >= MAX_RELEVANT_CACHE_ENTRIES) {
+        cache.delete(cache.keys().next().value);
+    }
+    cache.set(key, { text, expires: now + RELEVANT_TTL_MS });
+}
+
+function formatMarketContext(market: Market): string {
+    const prices = market.tokens
+        .map((token) => `${token.outcome} ${token.price !== null ? `$${token.price}` : "N/A"}`)
+        .join(" / ");
+    const ends = market.endDate ? `ends ${market.endDate.slice(0, 10)}` : "no end date";
+    return `- ${market.question} | ${prices} | ${ends} | condition ${market.conditionId}`;
+}
+
+async function getRelevantMarketContext(runtime: IAgentRuntime, client: ClobClient, message: Memory): Promise<string | null> {
+    const terms = extractMarketTerms(message.content?.text ?? "");
+    if (terms.length === 0) {
+        return null;
+    }
+
+    const cacheKey = `${message.roomId}/${[...terms].sort().join("+")}`;
+    const cached = getRelevantCache(runtime).get(cacheKey);
+    if (cached && cached.expires > Date.now()) {
+        return cached.text;
+    }
+
+    const catalogIndex = await getCatalogIndex(runtime, client);
+    if (!catalogIndex) {
+        // Not cached, so the markets show up once the catalog is there
+        return CATALOG_SYNCING;
+    }
+
+    const markets = await findRelevantMarkets(runtime, catalogIndex, message.roomId, message.content?.text ?? "");
+    const text = markets.length > 0
+        ? `Polymarket markets relevant to this conversation (question | prices | end date | ID):\n${markets.map(formatMarketContext).join("\n")}`
+        : null;
+    cacheRelevantText(runtime, cacheKey, text);
+    return text;
+}
+
 export const polymarketProvider: Provider = {
-    async get(runtime: IAgentRuntime): Promise<string | null> {
+    async get(runtime: IAgentRuntime, message: Memory): Promise<string | null> {
         try {
-            const client = await getPolymarketClient();
-            
-            // Test the connection by fetching markets and analyzing active ones
-            const markets = await client.getMarkets();
-            let totalCount = 0;
-            let activeCount = 0;
-            let acceptingOrdersCount = 0;
-            
-            if (Array.isArray(markets)) {
-                totalCount = markets.length;
-                // Count active markets
-                activeCount = markets.filter((market: any) => market.active !== false).length;
-                acceptingOrdersCount = markets.filter((market: any) => market.accepting_orders !== false).length;
-            } else if (markets && typeof markets === 'object') {
-                const response = markets as any;
-                if (response.data && Array.isArray(response.data)) {
-                    totalCount = response.data.length;
-                    activeCount = response.data.filter((market: any) => market.active !== false).length;
-                    acceptingOrdersCount = response.data.filter((market: any) => market.accepting_orders !== false).length;
-                }
+            const client = await getPolymarketClient(runtime);
+            const status = await getConnectionStatus(runtime, client);
+            const statusLine = status.connected
+                ? "Polymarket: 🟢 connected"
+                : `Polymarket: 🔴 unreachable (${status.error}), market data may be stale`;
+
+            // Don't wait on a catalog sync while the API is down
+            if (!status.connected) {
+                return statusLine;
             }
-            
-            const status = acceptingOrdersCount > 0 ? "🟢" : 
-                          (activeCount > 0 ? "🟡" : "🔴");
-            
-            return `Polymarket Client: ${status} Connected (${totalCount} total, ${activeCount} active, ${acceptingOrdersCount} accepting orders)`;
+
+            const marketContext = await getRelevantMarketContext(runtime, client, message);
+            return marketContext ? `${statusLine}\n${marketContext}` : statusLine;
         } catch (error) {
             console.error("Error in Polymarket provider:", error);
             return `❌ Error connecting to Polymarket: ${error instanceof Error ? error.message : 'Unknown error'}`;
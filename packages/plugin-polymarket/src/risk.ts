@@ -0,0 +1,245 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { getMarketCatalog } from "./marketCatalog";
+import { assertClobResponse, type Market, parseMarket, parseOrderBook } from "./model";
+import { getMidPrice } from "./paperTrading";
+import type { OpenOrderSummary, TradeSummary } from "./portfolio";
+
+// Guardrails applied to every agent-placed order. LLM parameter extraction can
+// hallucinate sizes and prices, so each order is checked against the
+// character's risk policy before it is signed, and every decision is logged.
+
+export interface RiskPolicy {
+    maxStakePerBet?: number;
+    maxDailyLoss?: number;
+    maxMarketExposure?: number;
+    priceBand?: number;
+    allowedTags?: string[];
+    blockedTags?: string[];
+}
+
+export interface RiskOrder {
+    tokenId: string;
+    side: "BUY" | "SELL";
+    amount: number;
+    price: number;
+    // The open order this one replaces; its stake is not counted twice
+    replacesOrderId?: string;
+}
+
+export interface RiskContext {
+    marketId: string | null;
+    // Null when the market could not be looked up
+    marketTags: string[] | null;
+    midPrice: number | null;
+    marketExposure: number;
+    dailyLoss: number;
+}
+
+export interface RiskDecision {
+    allowed: boolean;
+    violations: string[];
+    policy: RiskPolicy;
+    order: RiskOrder;
+    context: RiskContext;
+}
+
+export const RISK_LOG_TYPE = "polymarket_risk";
+
+function parseLimit(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === "") {
+        return undefined;
+    }
+    const parsed = Number.parseFloat(`${value}`);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function parseTags(value: unknown): string[] | undefined {
+    const tags = Array.isArray(value) ? value : `${value ?? ""}`.split(",");
+    const normalized = tags.map((tag) => `${tag}`.trim().toLowerCase()).filter(Boolean);
+    return normalized.length > 0 ? normalized : undefined;
+}
+
+export function getRiskPolicy(runtime: IAgentRuntime): RiskPolicy {
+    return {
+        maxStakePerBet: parseLimit(runtime.getSetting("POLYMARKET_MAX_STAKE_PER_BET")),
+        maxDailyLoss: parseLimit(runtime.getSetting("POLYMARKET_MAX_DAILY_LOSS")),
+        maxMarketExposure: parseLimit(runtime.getSetting("POLYMARKET_MAX_MARKET_EXPOSURE")),
+        priceBand: parseLimit(runtime.getSetting("POLYMARKET_PRICE_BAND")),
+        allowedTags: parseTags(runtime.getSetting("POLYMARKET_ALLOWED_TAGS")),
+        blockedTags: parseTags(runtime.getSetting("POLYMARKET_BLOCKED_TAGS")),
+    };
+}
+
+export function evaluateRiskPolicy(
+    policy: RiskPolicy,
+    order: RiskOrder,
+    context: RiskContext
+): RiskDecision {
+    const violations: string[] = [];
+    const addsRisk = order.side === "BUY";
+
+    if (policy.maxStakePerBet !== undefined && order.amount > policy.maxStakePerBet) {
+        violations.push(`Stake of ${order.amount} USDC exceeds the maximum of ${policy.maxStakePerBet} USDC per bet`);
+    }
+
+    if (addsRisk && policy.maxDailyLoss !== undefined && context.dailyLoss + order.amount > policy.maxDailyLoss) {
+        violations.push(`Today's worst-case loss would reach ${(context.dailyLoss + order.amount).toFixed(2)} USDC, above the daily limit of ${policy.maxDailyLoss} USDC`);
+    }
+
+    if (addsRisk && policy.maxMarketExposure !== undefined && context.marketExposure + order.amount > policy.maxMarketExposure) {
+        violations.push(`Exposure to this market would reach ${(context.marketExposure + order.amount).toFixed(2)} USDC, above the limit of ${policy.maxMarketExposure} USDC`);
+    }
+
+    if (policy.priceBand !== undefined) {
+        if (context.midPrice === null) {
+            violations.push("Current mid-price is unavailable, so the price band cannot be verified");
+        } else if (Math.abs(order.price - context.midPrice) > policy.priceBand) {
+            violations.push(`Price ${order.price} is more than ${policy.priceBand} away from the current mid-price ${context.midPrice}`);
+        }
+    }
+
+    if ((policy.allowedTags || policy.blockedTags) && context.marketTags === null) {
+        violations.push("The market's tags could not be looked up, so the tag rules cannot be verified");
+    }
+
+    const tags = (context.marketTags ?? []).map((tag) => tag.toLowerCase());
+    if (policy.allowedTags && context.marketTags && !tags.some((tag) => policy.allowedTags.includes(tag))) {
+        violations.push(`Market tags [${context.marketTags.join(", ") || "none"}] are not in the allowed list [${policy.allowedTags.join(", ")}]`);
+    }
+
+    const blocked = policy.blockedTags ? tags.filter((tag) => policy.blockedTags.includes(tag)) : [];
+    if (blocked.length > 0) {
+        violations.push(`Market is tagged with blocked tags [${blocked.join(", ")}]`);
+    }
+
+    return { allowed: violations.length === 0, violations, policy, order, context };
+}
+
+function startOfToday(): string {
+    const now = new Date();
+    now.setUTCHours(0, 0, 0, 0);
+    return now.toISOString();
+}
+
+// Worst-case loss committed today: USDC spent on buys minus sell proceeds,
+// plus what resting buys would spend if they filled.
+function computeDailyLoss(trades: TradeSummary[], openOrders: OpenOrderSummary[]): number {
+    const since = startOfToday();
+    return Math.max(0, trades
+        .filter((trade) => (trade.matchTime ?? "") >= since)
+        .reduce((sum, trade) => sum + (trade.side === "BUY" ? trade.notional : -trade.notional), 0)) +
+        computeOpenBuyNotional(openOrders);
+}
+
+// Net cost of the shares still held in any outcome token of the market, plus
+// resting buys on those tokens.
+function computeMarketExposure(trades: TradeSummary[], openOrders: OpenOrderSummary[], marketTokenIds: Set<string>): number {
+    return Math.max(0, trades
+        .filter((trade) => marketTokenIds.has(trade.tokenId))
+        .reduce((sum, trade) => sum + (trade.side === "BUY" ? trade.notional : -trade.notional), 0)) +
+        computeOpenBuyNotional(openOrders, marketTokenIds);
+}
+
+// USDC the unfilled part of open BUY orders would spend
+function computeOpenBuyNotional(openOrders: OpenOrderSummary[], tokenIds?: Set<string>): number {
+    return openOrders
+        .filter((order) => order.side === "BUY" && (!tokenIds || tokenIds.has(order.tokenId)))
+        .reduce((sum, order) => sum + order.remainingSize * order.price, 0);
+}
+
+interface RiskMarket {
+    marketId: string | null;
+    // Null when the market could not be looked up
+    tags: string[] | null;
+    tokenIds: string[];
+}
+
+function toRiskMarket(market: Market, tokenId: string): RiskMarket {
+    const tokenIds = market.tokens.map((token) => token.tokenId);
+    return { marketId: market.conditionId, tags: market.tags, tokenIds: tokenIds.length > 0 ? tokenIds : [tokenId] };
+}
+
+// The token's market from the local catalog, else from the CLOB. A lookup that
+// fails leaves the tags unknown so the tag rules refuse rather than pass.
+async function loadMarketForToken(runtime: IAgentRuntime, client: ClobClient, tokenId: string): Promise<RiskMarket> {
+    try {
+        const catalog = await getMarketCatalog(runtime, client);
+        const known = catalog.markets.find((market) => market.tokens.some((token) => token.tokenId === tokenId));
+        if (known) {
+            return toRiskMarket(known, tokenId);
+        }
+    } catch (error) {
+        console.log(`Market catalog unavailable for the risk check on ${tokenId}:`, error instanceof Error ? error.message : error);
+    }
+
+    try {
+        const book = parseOrderBook(assertClobResponse(await client.getOrderBook(tokenId), "Order book lookup"), tokenId);
+        if (!book.market) {
+            throw new Error("the order book names no market");
+        }
+        const market = parseMarket(assertClobResponse(await client.getMarket(book.market), "Market lookup"));
+        if (!market) {
+            throw new Error(`market ${book.market} could not be read`);
+        }
+        return toRiskMarket(market, tokenId);
+    } catch (error) {
+        console.log(`Could not load market for token ${tokenId}:`, error instanceof Error ? error.message : error);
+        return { marketId: null, tags: null, tokenIds: [tokenId] };
+    }
+}
+
+export async function checkOrderRisk(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    order: RiskOrder,
+    trades: TradeSummary[],
+    openOrders: OpenOrderSummary[],
+    logTarget: { userId: UUID; roomId: UUID }
+): Promise<RiskDecision> {
+    const policy = getRiskPolicy(runtime);
+    const market = await loadMarketForToken(runtime, client, order.tokenId);
+    const otherOpenOrders = openOrders.filter((open) => open.orderId !== order.replacesOrderId);
+
+    let midPrice: number | null = null;
+    try {
+        midPrice = (await getMidPrice(runtime, client, order.tokenId)).price;
+    } catch (error) {
+        console.log(`Could not fetch mid-price for risk check on ${order.tokenId}:`, error instanceof Error ? error.message : error);
+    }
+
+    const decision = evaluateRiskPolicy(policy, order, {
+        marketId: market.marketId,
+        marketTags: market.tags,
+        midPrice,
+        marketExposure: computeMarketExposure(trades, otherOpenOrders, new Set(market.tokenIds)),
+        dailyLoss: computeDailyLoss(trades, otherOpenOrders),
+    });
+
+    console.log(`${decision.allowed ? "✅" : "🛑"} Polymarket risk check ${decision.allowed ? "passed" : "blocked"} for ${order.side} ${order.amount} USDC on ${order.tokenId}`);
+
+    try {
+        await runtime.databaseAdapter.log({
+            body: {
+                agentId: runtime.agentId,
+                allowed: decision.allowed,
+                violations: decision.violations,
+                order: decision.order,
+                policy: decision.policy,
+                context: decision.context,
+                timestamp: new Date().toISOString(),
+            },
+            userId: logTarget.userId,
+            roomId: logTarget.roomId,
+            type: RISK_LOG_TYPE,
+        });
+    } catch (error) {
+        console.error("Failed to log Polymarket risk decision:", error);
+    }
+
+    return decision;
+}
+
+export function formatRiskRefusal(decision: RiskDecision): string {
+    return `Order blocked by risk policy:\n${decision.violations.map((violation) => `- ${violation}`).join("\n")}`;
+}
@@ -0,0 +1,13 @@
+import type { ServiceType } from "@elizaos/core";
+
+// Names the plugin's services register under. Core's ServiceType enum only
+// lists services shared across plugins, so these are plain strings typed as
+// ServiceType for Service.serviceType and runtime.getService.
+export const PolymarketServiceType = {
+    ORDER_CONFIRMATION: "order_confirmation" as string as ServiceType,
+    MARKET_CATALOG: "market_catalog" as string as ServiceType,
+    MARKET_WATCH: "market_watch" as string as ServiceType,
+    BET_SETTLEMENT: "bet_settlement" as string as ServiceType,
+    POLYMARKET_ACCOUNT: "polymarket_account" as string as ServiceType,
+    BETTING_STRATEGY: "betting_strategy" as string as ServiceType,
+} as const;
@@ -0,0 +1,294 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { getMarketCatalog } from "./marketCatalog";
+import { assertClobResponse, type Market, parseMarket } from "./model";
+import { getPaperLedger, isPaperTradingEnabled, type PaperLedger, updatePaperLedger } from "./paperTrading";
+import type { TradeSummary } from "./portfolio";
+
+// Settles the agent's bets once their markets resolve. Every outcome token the
+// agent bought is a bet: when its market is closed with a winner, the bet is
+// written to the agent's bet record with its realized P&L (sale proceeds plus
+// the payout on shares still held, minus everything paid for them). The
+// record is what GET_BET_RECORD turns into a win rate, ROI and calibration.
+
+const BET_RECORD_CACHE_KEY = "polymarket/bet-record";
+const CALIBRATION_BUCKET_WIDTH = 0.2;
+
+export type BetMode = "paper" | "live";
+
+export interface SettledBet {
+    tokenId: string;
+    conditionId: string;
+    question: string;
+    outcome: string;
+    mode: BetMode;
+    won: boolean;
+    // Average price paid per share, i.e. the probability the agent implicitly gave the outcome
+    entryPrice: number;
+    sharesBought: number;
+    sharesHeld: number;
+    staked: number;
+    proceeds: number;
+    payout: number;
+    realizedPnl: number;
+    openedAt: string | null;
+    settledAt: string;
+}
+
+export interface CalibrationBucket {
+    range: string;
+    bets: number;
+    // Average entry price of the bets in the bucket
+    expectedWinRate: number;
+    actualWinRate: number;
+}
+
+export interface BetRecordSummary {
+    agentId: string;
+    mode: BetMode;
+    bets: number;
+    wins: number;
+    losses: number;
+    winRate: number | null;
+    staked: number;
+    realizedPnl: number;
+    roi: number | null;
+    avgEntryPrice: number | null;
+    // Mean squared gap between entry price and result (0 is perfect, 0.25 is a coin flip)
+    brierScore: number | null;
+    calibration: CalibrationBucket[];
+}
+
+interface TokenActivity {
+    tokenId: string;
+    conditionId: string;
+    sharesBought: number;
+    sharesSold: number;
+    staked: number;
+    proceeds: number;
+    openedAt: string | null;
+}
+
+function round(value: number, decimals = 6): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+export function getBetMode(runtime: IAgentRuntime): BetMode {
+    return isPaperTradingEnabled(runtime) ? "paper" : "live";
+}
+
+export async function getSettledBets(runtime: IAgentRuntime, mode?: BetMode): Promise<SettledBet[]> {
+    const bets = (await runtime.cacheManager.get<SettledBet[]>(BET_RECORD_CACHE_KEY)) ?? [];
+    return mode ? bets.filter((bet) => bet.mode === mode) : bets;
+}
+
+// Buys and sells per outcome token, oldest trade first
+function groupTrades(trades: TradeSummary[]): TokenActivity[] {
+    const byToken = new Map<string, TokenActivity>();
+    const ordered = [...trades].sort((a, b) => (a.matchTime ?? "").localeCompare(b.matchTime ?? ""));
+
+    for (const trade of ordered) {
+        const activity = byToken.get(trade.tokenId) ?? {
+            tokenId: trade.tokenId,
+            conditionId: trade.market,
+            sharesBought: 0,
+            sharesSold: 0,
+            staked: 0,
+            proceeds: 0,
+            openedAt: trade.matchTime,
+        };
+        if (trade.side === "BUY") {
+            activity.sharesBought += trade.size;
+            activity.staked += trade.price * trade.size;
+        } else {
+            activity.sharesSold += trade.size;
+            activity.proceeds += trade.price * trade.size;
+        }
+        activity.conditionId ||= trade.market;
+        byToken.set(trade.tokenId, activity);
+    }
+
+    return [...byToken.values()].filter((activity) => activity.sharesBought > 0);
+}
+
+// Paper bets come from the totals on each ledger position, which outlive the
+// fills the ledger trims
+function groupPaperPositions(ledger: PaperLedger): TokenActivity[] {
+    return Object.values(ledger.positions)
+        .filter((position) => position.sharesBought > 0)
+        .map((position) => ({
+            tokenId: position.tokenId,
+            conditionId: "",
+            sharesBought: position.sharesBought,
+            sharesSold: position.sharesSold,
+            staked: position.staked,
+            proceeds: position.proceeds,
+            openedAt: position.openedAt,
+        }));
+}
+
+// A market counts as resolved once it is closed and one of its outcomes is marked the winner
+function resolvedOutcome(market: Market | null, tokenId: string): { market: Market; won: boolean; outcome: string } | null {
+    if (!market?.closed || !market.tokens.some((token) => token.winner === true)) {
+        return null;
+    }
+    const token = market.tokens.find((candidate) => candidate.tokenId === tokenId);
+    return token ? { market, won: token.winner === true, outcome: token.outcome } : null;
+}
+
+function settleBet(activity: TokenActivity, resolution: { market: Market; won: boolean; outcome: string }, mode: BetMode): SettledBet {
+    const sharesHeld = round(Math.max(activity.sharesBought - activity.sharesSold, 0));
+    const payout = resolution.won ? sharesHeld : 0;
+    return {
+        tokenId: activity.tokenId,
+        conditionId: resolution.market.conditionId,
+        question: resolution.market.question,
+        outcome: resolution.outcome,
+        mode,
+        won: resolution.won,
+        entryPrice: round(activity.staked / activity.sharesBought),
+        sharesBought: round(activity.sharesBought),
+        sharesHeld,
+        staked: round(activity.staked),
+        proceeds: round(activity.proceeds),
+        payout: round(payout),
+        realizedPnl: round(activity.proceeds + payout - activity.staked),
+        openedAt: activity.openedAt,
+        settledAt: new Date().toISOString(),
+    };
+}
+
+// Pay out resolved paper positions so the simulated balance reflects the result
+// and the positions stop being marked against a closed order book.
+async function redeemPaperPositions(runtime: IAgentRuntime, settled: SettledBet[]): Promise<void> {
+    await updatePaperLedger(runtime, (ledger) => {
+        for (const bet of settled) {
+            const position = ledger.positions[bet.tokenId];
+            if (!position || position.size <= 0) {
+                continue;
+            }
+            const payoutPrice = bet.won ? 1 : 0;
+            position.realizedPnl = round(position.realizedPnl + (payoutPrice - position.avgPrice) * position.size);
+            ledger.cash = round(ledger.cash + position.size * payoutPrice);
+            position.size = 0;
+            position.updatedAt = bet.settledAt;
+        }
+    });
+}
+
+// Settle every bet in `trades` whose market has resolved since the last run.
+// Already settled tokens are skipped, so the job can run as often as needed.
+export async function settleResolvedBets(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    trades: TradeSummary[],
+    mode: BetMode = getBetMode(runtime)
+): Promise<SettledBet[]> {
+    return settleActivity(runtime, client, groupTrades(trades), mode);
+}
+
+// Settle the paper ledger's positions whose market has resolved
+export async function settlePaperBets(runtime: IAgentRuntime, client: ClobClient): Promise<SettledBet[]> {
+    return settleActivity(runtime, client, groupPaperPositions(await getPaperLedger(runtime)), "paper");
+}
+
+async function settleActivity(
+    runtime: IAgentRuntime,
+    client: ClobClient,
+    activities: TokenActivity[],
+    mode: BetMode
+): Promise<SettledBet[]> {
+    const record = await getSettledBets(runtime);
+    const settledTokens = new Set(record.filter((bet) => bet.mode === mode).map((bet) => bet.tokenId));
+    const pending = activities.filter((activity) => !settledTokens.has(activity.tokenId));
+    if (pending.length === 0) {
+        return [];
+    }
+
+    const catalog = await getMarketCatalog(runtime, client);
+    const markets = new Map<string, Market | null>();
+    const lookupMarket = async (activity: TokenActivity): Promise<Market | null> => {
+        // Paper fills only know the token, so their market comes from the catalog
+        const known = catalog.markets.find((market) =>
+            activity.conditionId ? market.conditionId === activity.conditionId : market.tokens.some((token) => token.tokenId === activity.tokenId)
+        );
+        const conditionId = activity.conditionId || known?.conditionId;
+        if (known?.closed || !conditionId) {
+            return known ?? null;
+        }
+        // The catalog may predate the resolution, so ask for the current state
+        if (!markets.has(conditionId)) {
+            try {
+                markets.set(conditionId, parseMarket(assertClobResponse(await client.getMarket(conditionId), "Market lookup")));
+            } catch (error) {
+                console.log(`Could not check market ${conditionId} for settlement:`, error instanceof Error ? error.message : error);
+                markets.set(conditionId, null);
+            }
+        }
+        return markets.get(conditionId);
+    };
+
+    const settled: SettledBet[] = [];
+    for (const activity of pending) {
+        const resolution = resolvedOutcome(await lookupMarket(activity), activity.tokenId);
+        if (resolution) {
+            settled.push(settleBet(activity, resolution, mode));
+        }
+    }
+    if (settled.length === 0) {
+        return [];
+    }
+
+    if (mode === "paper") {
+        await redeemPaperPositions(runtime, settled);
+    }
+    // Re-read so a concurrent run can't drop bets it settled in the meantime
+    const latest = await getSettledBets(runtime);
+    const latestTokens = new Set(latest.filter((bet) => bet.mode === mode).map((bet) => bet.tokenId));
+    await runtime.cacheManager.set(BET_RECORD_CACHE_KEY, [...latest, ...settled.filter((bet) => !latestTokens.has(bet.tokenId))]);
+
+    for (const bet of settled) {
+        console.log(`🏁 Settled ${bet.mode} bet on ${bet.outcome} ("${bet.question}"): ${bet.won ? "won" : "lost"}, P&L ${bet.realizedPnl} USDC`);
+    }
+    return settled;
+}
+
+function bucketRange(index: number): string {
+    const from = Math.round(index * CALIBRATION_BUCKET_WIDTH * 100);
+    return `${from}-${Math.round(from + CALIBRATION_BUCKET_WIDTH * 100)}%`;
+}
+
+export function summarizeBetRecord(agentId: string, mode: BetMode, bets: SettledBet[]): BetRecordSummary {
+    const wins = bets.filter((bet) => bet.won).length;
+    const staked = round(bets.reduce((sum, bet) => sum + bet.staked, 0));
+    const realizedPnl = round(bets.reduce((sum, bet) => sum + bet.realizedPnl, 0));
+
+    const bucketCount = Math.round(1 / CALIBRATION_BUCKET_WIDTH);
+    const buckets = Array.from({ length: bucketCount }, () => [] as SettledBet[]);
+    for (const bet of bets) {
+        buckets[Math.min(Math.floor(bet.entryPrice / CALIBRATION_BUCKET_WIDTH), bucketCount - 1)].push(bet);
+    }
+
+    return {
+        agentId,
+        mode,
+        bets: bets.length,
+        wins,
+        losses: bets.length - wins,
+        winRate: bets.length > 0 ? round(wins / bets.length, 4) : null,
+        staked,
+        realizedPnl,
+        roi: staked > 0 ? round(realizedPnl / staked, 4) : null,
+        avgEntryPrice: bets.length > 0 ? round(bets.reduce((sum, bet) => sum + bet.entryPrice, 0) / bets.length, 4) : null,
+        brierScore: bets.length > 0
+            ? round(bets.reduce((sum, bet) => sum + (bet.entryPrice - (bet.won ? 1 : 0)) ** 2, 0) / bets.length, 4)
+            : null,
+        calibration: buckets.flatMap((bucket, index) => bucket.length === 0 ? [] : [{
+            range: bucketRange(index),
+            bets: bucket.length,
+            expectedWinRate: round(bucket.reduce((sum, bet) => sum + bet.entryPrice, 0) / bucket.length, 4),
+            actualWinRate: round(bucket.filter((bet) => bet.won).length / bucket.length, 4),
+        }]),
+    };
+}
@@ -0,0 +1,88 @@
+import { type IAgentRuntime, Service, type ServiceType, type UUID } from "@elizaos/core";
+import { PolymarketServiceType } from "./serviceTypes";
+import type { ClobClient } from "@polymarket/clob-client";
+import { loadAccountTrades } from "./actions";
+import { isPolymarketTradingConfigured } from "./config";
+import { isPaperTradingEnabled } from "./paperTrading";
+import { getPolymarketClient } from "./provider";
+import { type SettledBet, settlePaperBets, settleResolvedBets } from "./settlement";
+
+// Periodically settles the agent's bets on markets that have resolved, from the
+// paper ledger in paper trading mode or the account's CLOB trades otherwise.
+
+const DEFAULT_SETTLEMENT_SECONDS = 900;
+
+interface AgentSettlement {
+    timer: ReturnType<typeof setInterval> | null;
+    settling: Promise<SettledBet[]> | null;
+}
+
+function getSettlementSeconds(runtime: IAgentRuntime): number {
+    const configured = Number.parseInt(`${runtime.getSetting("POLYMARKET_SETTLEMENT_POLL_SECONDS") ?? ""}`, 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_SETTLEMENT_SECONDS;
+}
+
+export class BetSettlementService extends Service {
+    private settlements = new Map<UUID, AgentSettlement>();
+
+    static get serviceType(): ServiceType {
+        return PolymarketServiceType.BET_SETTLEMENT;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        const settlement = this.getAgentSettlement(runtime);
+        if (settlement.timer) {
+            return;
+        }
+
+        settlement.timer = setInterval(() => {
+            this.settle(runtime).catch((error) => {
+                console.error("Polymarket bet settlement failed:", error instanceof Error ? error.message : error);
+            });
+        }, getSettlementSeconds(runtime) * 1000);
+        settlement.timer.unref?.();
+    }
+
+    stop(runtime: IAgentRuntime): void {
+        const settlement = this.settlements.get(runtime.agentId);
+        if (settlement?.timer) {
+            clearInterval(settlement.timer);
+            settlement.timer = null;
+        }
+    }
+
+    private getAgentSettlement(runtime: IAgentRuntime): AgentSettlement {
+        let settlement = this.settlements.get(runtime.agentId);
+        if (!settlement) {
+            settlement = { timer: null, settling: null };
+            this.settlements.set(runtime.agentId, settlement);
+        }
+        return settlement;
+    }
+
+    // Settle whatever has resolved since the last run. Concurrent callers share
+    // the run in progress. Resolves to the bets settled by this run.
+    settle(runtime: IAgentRuntime, client?: ClobClient): Promise<SettledBet[]> {
+        const settlement = this.getAgentSettlement(runtime);
+        if (!settlement.settling) {
+            settlement.settling = this.settleTrades(runtime, client).finally(() => {
+                settlement.settling = null;
+            });
+        }
+        return settlement.settling;
+    }
+
+    private async settleTrades(runtime: IAgentRuntime, client?: ClobClient): Promise<SettledBet[]> {
+        if (isPaperTradingEnabled(runtime)) {
+            return settlePaperBets(runtime, client ?? (await getPolymarketClient(runtime)));
+        }
+        // Without a trading wallet there is no live trade history to settle
+        if (!isPolymarketTradingConfigured(runtime)) {
+            return [];
+        }
+        const trades = await loadAccountTrades(runtime);
+        return settleResolvedBets(runtime, client ?? (await getPolymarketClient(runtime)), trades);
+    }
+}
+
+export const betSettlementService = new BetSettlementService();
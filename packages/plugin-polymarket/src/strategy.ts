@@ -0,0 +1,254 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import type { ClobClient } from "@polymarket/clob-client";
+import { z } from "zod";
+import { getStrategySettings } from "./config";
+import { buildMarketSearchIndex, searchMarkets } from "./marketCatalog";
+import { getPriceHistory, PRICE_HISTORY_RANGES, type PriceHistoryRange } from "./marketData";
+import type { Market, Outcome } from "./model";
+import { BET_ORDER_TYPES, type BetOrderType, validateOrderOptions } from "./orderTypes";
+
+// Betting strategies are declared in the character's settings and run on a
+// schedule by the strategy runner service, e.g. "every hour, buy up to $5 on
+// markets tagged NBA where the favorite moved more than 10c in 24h":
+//
+//     "polymarket": { "strategies": [{
+//         "id": "nba-favorite-movers",
+//         "every": "1h",
+//         "markets": { "tags": ["NBA"] },
+//         "trigger": { "type": "price_move", "minMove": 0.1, "window": "1d" },
+//         "order": { "outcome": "favorite", "side": "BUY", "amount": 5 }
+//     }] }
+//
+// Every decision the runner makes on a candidate market is journaled.
+
+const JOURNAL_CACHE_KEY = "polymarket/strategies/journal";
+const STATE_CACHE_KEY = "polymarket/strategies/state";
+const MAX_JOURNAL_ENTRIES = 500;
+
+export const STRATEGY_LOG_TYPE = "polymarket_strategy";
+
+const price = z.number().gt(0).lt(1);
+
+const TriggerSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("price_move"),
+        // Absolute change in the outcome price over the window, 0.1 for 10c
+        minMove: z.number().positive().max(1),
+        window: z.enum(Object.keys(PRICE_HISTORY_RANGES) as [PriceHistoryRange, ...PriceHistoryRange[]]).default("1d"),
+        direction: z.enum(["up", "down", "any"]).default("any"),
+    }),
+    z.object({ type: z.literal("price_below"), price }),
+    z.object({ type: z.literal("price_above"), price }),
+]);
+
+const StrategySchema = z.object({
+    id: z.string().min(1),
+    enabled: z.boolean().default(true),
+    // "30m", "1h", "1d" or a number of minutes
+    every: z.union([z.number().positive(), z.string().regex(/^\d+(\.\d+)?\s*[mhd]$/, "use e.g. \"30m\", \"1h\" or \"1d\"")]),
+    markets: z.object({
+        tags: z.array(z.string()).optional(),
+        query: z.string().optional(),
+        minLiquidity: z.number().nonnegative().optional(),
+        endsWithinHours: z.number().positive().optional(),
+        // Candidates checked per run, most relevant and liquid first
+        limit: z.number().int().positive().default(25),
+    }).default({}),
+    trigger: TriggerSchema,
+    order: z.object({
+        // "favorite", "underdog" or an outcome name such as "Yes"
+        outcome: z.string().min(1).default("favorite"),
+        side: z.enum(["BUY", "SELL"]).default("BUY"),
+        amount: z.number().positive(),
+        // Skip the market instead of paying more than this per share
+        maxPrice: price.optional(),
+        orderType: z.enum(BET_ORDER_TYPES as [BetOrderType, ...BetOrderType[]]).default("GTC"),
+        expiresInMinutes: z.number().positive().optional(),
+    }),
+    maxOrdersPerRun: z.number().int().positive().default(1),
+    // Hours before the strategy trades the same outcome again
+    cooldownHours: z.number().nonnegative().default(24),
+    // Journal what would be ordered without placing anything
+    dryRun: z.boolean().default(false),
+});
+
+export type StrategyTrigger = z.infer<typeof TriggerSchema>;
+
+export type BettingStrategy = z.infer<typeof StrategySchema> & { everyMinutes: number };
+
+export type StrategyDecisionType = "ordered" | "dry_run" | "skipped" | "refused" | "failed";
+
+export interface StrategyDecision {
+    id: string;
+    strategyId: string;
+    runId: string;
+    conditionId: string;
+    question: string;
+    tokenId: string | null;
+    outcome: string | null;
+    decision: StrategyDecisionType;
+    reason: string;
+    order: { side: "BUY" | "SELL"; amount: number; price: number; orderType: BetOrderType } | null;
+    orderId: string | null;
+    timestamp: string;
+}
+
+export interface StrategyState {
+    lastRunAt: Record<string, string>;
+    // Keyed by `${strategyId}/${tokenId}`
+    lastOrderAt: Record<string, string>;
+}
+
+export interface TriggerEvaluation {
+    fired: boolean;
+    detail: string;
+}
+
+export class StrategyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "StrategyError";
+    }
+}
+
+const MINUTES_PER_UNIT = { m: 1, h: 60, d: 1440 };
+
+function toMinutes(every: number | string): number {
+    if (typeof every === "number") {
+        return every;
+    }
+    const match = every.trim().match(/^(\d+(?:\.\d+)?)\s*([mhd])$/);
+    return Number.parseFloat(match[1]) * MINUTES_PER_UNIT[match[2] as keyof typeof MINUTES_PER_UNIT];
+}
+
+// A strategy spec that names itself, valid or not, so errors can point to it
+function hasStrategyId(entry: unknown): entry is { id: string } {
+    return typeof entry === "object" && entry !== null && typeof (entry as { id?: unknown }).id === "string";
+}
+
+export function parseStrategies(raw: unknown[]): BettingStrategy[] {
+    const strategies: BettingStrategy[] = [];
+    raw.forEach((entry, index) => {
+        const parsed = StrategySchema.safeParse(entry);
+        const name = hasStrategyId(entry) ? `"${entry.id}"` : `#${index + 1}`;
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "strategy"}: ${issue.message}`).join("; ");
+            throw new StrategyError(`Polymarket strategy ${name} is invalid: ${issues}`);
+        }
+        if (strategies.some((strategy) => strategy.id === parsed.data.id)) {
+            throw new StrategyError(`Polymarket strategy ${name} is declared twice; strategy IDs must be unique.`);
+        }
+        try {
+            validateOrderOptions(parsed.data.order);
+        } catch (error) {
+            throw new StrategyError(`Polymarket strategy ${name} is invalid: ${error instanceof Error ? error.message : error}`);
+        }
+        strategies.push({ ...parsed.data, everyMinutes: toMinutes(parsed.data.every) });
+    });
+    return strategies;
+}
+
+export function getStrategies(runtime: IAgentRuntime): BettingStrategy[] {
+    return parseStrategies(getStrategySettings(runtime));
+}
+
+export function describeStrategy(strategy: BettingStrategy): string {
+    const { trigger, order, markets } = strategy;
+    const where = [
+        markets.tags?.length ? `tagged ${markets.tags.join(" or ")}` : null,
+        markets.query ? `matching "${markets.query}"` : null,
+        markets.minLiquidity !== undefined ? `with $${markets.minLiquidity}+ liquidity` : null,
+        markets.endsWithinHours !== undefined ? `ending within ${markets.endsWithinHours}h` : null,
+    ].filter(Boolean).join(", ");
+    const when = trigger.type === "price_move"
+        ? `moved ${trigger.direction === "any" ? "" : `${trigger.direction} `}${Math.round(trigger.minMove * 100)}c or more in ${trigger.window}`
+        : `is ${trigger.type === "price_below" ? "below" : "above"} ${trigger.price}`;
+    return `every ${strategy.every}${typeof strategy.every === "number" ? " minutes" : ""}, ${order.side} up to $${order.amount} of the ${order.outcome} on markets${where ? ` ${where}` : ""} where it ${when}` +
+        (order.maxPrice !== undefined ? `, paying at most ${order.maxPrice}` : "");
+}
+
+// Open markets the strategy looks at, best matches and most liquid first
+export function selectStrategyMarkets(strategy: BettingStrategy, markets: Market[], now = Date.now()): Market[] {
+    const { tags, query, minLiquidity, endsWithinHours, limit } = strategy.markets;
+    return searchMarkets(buildMarketSearchIndex(markets.filter((market) => market.active && !market.closed)), {
+        text: query,
+        tags,
+        minLiquidity,
+        endDateTo: endsWithinHours !== undefined ? new Date(now + endsWithinHours * 3600 * 1000).toISOString() : undefined,
+        acceptingOrders: true,
+        limit,
+    }).map((result) => result.market);
+}
+
+// The favorite is the highest-priced outcome, the underdog the lowest
+export function pickStrategyOutcome(market: Market, outcome: string): Outcome | null {
+    const priced = market.tokens.filter((token) => token.price !== null);
+    const wanted = outcome.toLowerCase();
+    if (wanted === "favorite" || wanted === "underdog") {
+        if (priced.length === 0) {
+            return null;
+        }
+        const sorted = [...priced].sort((a, b) => b.price - a.price);
+        return wanted === "favorite" ? sorted[0] : sorted[sorted.length - 1];
+    }
+    return market.tokens.find((token) => token.outcome.toLowerCase() === wanted) ?? null;
+}
+
+export async function evaluateStrategyTrigger(
+    client: ClobClient,
+    trigger: StrategyTrigger,
+    token: Outcome
+): Promise<TriggerEvaluation> {
+    if (trigger.type !== "price_move") {
+        if (token.price === null) {
+            return { fired: false, detail: `${token.outcome} has no price` };
+        }
+        const fired = trigger.type === "price_below" ? token.price < trigger.price : token.price > trigger.price;
+        return { fired, detail: `${token.outcome} at ${token.price} is ${fired ? "" : "not "}${trigger.type === "price_below" ? "below" : "above"} ${trigger.price}` };
+    }
+
+    const series = await getPriceHistory(client, { tokenId: token.tokenId, outcome: token.outcome }, "1h", trigger.window);
+    if (series.change === null) {
+        return { fired: false, detail: `${token.outcome} has no price history over ${trigger.window}` };
+    }
+    const moved = trigger.direction === "up" ? series.change : trigger.direction === "down" ? -series.change : Math.abs(series.change);
+    const sign = series.change > 0 ? "+" : "";
+    return {
+        fired: moved >= trigger.minMove,
+        detail: `${token.outcome} moved ${sign}${series.change} in ${trigger.window} (${series.open} → ${series.close}), ${moved >= trigger.minMove ? "at least" : "less than"} the ${trigger.minMove} required`,
+    };
+}
+
+export async function getStrategyState(runtime: IAgentRuntime): Promise<StrategyState> {
+    return (await runtime.cacheManager.get<StrategyState>(STATE_CACHE_KEY)) ?? { lastRunAt: {}, lastOrderAt: {} };
+}
+
+export async function saveStrategyState(runtime: IAgentRuntime, state: StrategyState): Promise<void> {
+    await runtime.cacheManager.set(STATE_CACHE_KEY, state);
+}
+
+export async function getStrategyJournal(runtime: IAgentRuntime, strategyId?: string): Promise<StrategyDecision[]> {
+    const journal = (await runtime.cacheManager.get<StrategyDecision[]>(JOURNAL_CACHE_KEY)) ?? [];
+    return strategyId ? journal.filter((entry) => entry.strategyId === strategyId) : journal;
+}
+
+// Keep the decision in the recent journal and write it to the logs table
+export async function recordStrategyDecision(
+    runtime: IAgentRuntime,
+    decision: StrategyDecision,
+    logTarget: { userId: UUID; roomId: UUID }
+): Promise<void> {
+    const journal = await getStrategyJournal(runtime);
+    await runtime.cacheManager.set(JOURNAL_CACHE_KEY, [...journal, decision].slice(-MAX_JOURNAL_ENTRIES));
+
+    try {
+        await runtime.databaseAdapter.log({
+            body: { agentId: runtime.agentId, ...decision },
+            userId: logTarget.userId,
+            roomId: logTarget.roomId,
+            type: STRATEGY_LOG_TYPE,
+        });
+    } catch (error) {
+        console.error("Failed to journal Polymarket strategy decision:", error instanceof Error ? error.message : error);
+    }
+}
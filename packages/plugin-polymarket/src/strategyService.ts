@@ -0,0 +1,281 @@
+import {
+    type Content,
+    type IAgentRuntime,
+    type Memory,
+    Service,
+    type ServiceType,
+    stringToUuid,
+    type UUID,
+} from "@elizaos/core";
+import { PolymarketServiceType } from "./serviceTypes";
+import type { ClobClient } from "@polymarket/clob-client";
+import { type BetOutcomeContent, executeBet } from "./actions";
+import { getMarketCatalog } from "./marketCatalog";
+import { requiresOrderConfirmation } from "./orderIntents";
+import { getOrderConstraints, isMarketOrder } from "./orderTypes";
+import { getPolymarketClient } from "./provider";
+import {
+    type BettingStrategy,
+    describeStrategy,
+    evaluateStrategyTrigger,
+    getStrategies,
+    getStrategyState,
+    pickStrategyOutcome,
+    recordStrategyDecision,
+    saveStrategyState,
+    selectStrategyMarkets,
+    type StrategyDecision,
+    type StrategyState,
+} from "./strategy";
+
+// Runs the betting strategies declared in the character's settings on their
+// schedules. Orders go through executeBet, the same risk checks, paper mode
+// and order path PLACE_BET uses, so a strategy can never trade more than the
+// character's risk policy allows a chat message to. A strategy has no user to
+// confirm its orders, so with POLYMARKET_REQUIRE_CONFIRMATION on its orders
+// are refused and only dry runs go ahead.
+
+const DEFAULT_POLL_SECONDS = 60;
+
+interface AgentStrategies {
+    strategies: BettingStrategy[];
+    timer: ReturnType<typeof setInterval> | null;
+    running: Promise<StrategyDecision[]> | null;
+}
+
+function getPollSeconds(runtime: IAgentRuntime): number {
+    const configured = Number.parseInt(`${runtime.getSetting("POLYMARKET_STRATEGY_POLL_SECONDS") ?? ""}`, 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_POLL_SECONDS;
+}
+
+export class StrategyRunnerService extends Service {
+    private agents = new Map<UUID, AgentStrategies>();
+
+    static get serviceType(): ServiceType {
+        return PolymarketServiceType.BETTING_STRATEGY;
+    }
+
+    // A malformed strategy stops the agent here rather than being skipped silently
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        const agent = this.getAgentStrategies(runtime);
+        agent.strategies = getStrategies(runtime);
+        if (agent.timer || agent.strategies.length === 0) {
+            return;
+        }
+
+        for (const strategy of agent.strategies) {
+            console.log(`🤖 ${runtime.character?.name ?? runtime.agentId}: Polymarket strategy ${strategy.id}${strategy.enabled ? "" : " (disabled)"}${strategy.dryRun ? " (dry run)" : ""}: ${describeStrategy(strategy)}`);
+        }
+
+        agent.timer = setInterval(() => {
+            this.runDue(runtime).catch((error) => {
+                console.error("Polymarket strategy run failed:", error instanceof Error ? error.message : error);
+            });
+        }, getPollSeconds(runtime) * 1000);
+        agent.timer.unref?.();
+    }
+
+    stop(runtime: IAgentRuntime): void {
+        const agent = this.agents.get(runtime.agentId);
+        if (agent?.timer) {
+            clearInterval(agent.timer);
+            agent.timer = null;
+        }
+    }
+
+    getStrategies(runtime: IAgentRuntime): BettingStrategy[] {
+        return this.getAgentStrategies(runtime).strategies;
+    }
+
+    private getAgentStrategies(runtime: IAgentRuntime): AgentStrategies {
+        let agent = this.agents.get(runtime.agentId);
+        if (!agent) {
+            agent = { strategies: [], timer: null, running: null };
+            this.agents.set(runtime.agentId, agent);
+        }
+        return agent;
+    }
+
+    // Run every enabled strategy whose interval has passed since its last run.
+    // Overlapping calls share the run in progress. Resolves to the decisions made.
+    runDue(runtime: IAgentRuntime, client?: ClobClient, now = Date.now()): Promise<StrategyDecision[]> {
+        const agent = this.getAgentStrategies(runtime);
+        if (!agent.running) {
+            agent.running = this.runStrategies(runtime, agent.strategies, client, now).finally(() => {
+                agent.running = null;
+            });
+        }
+        return agent.running;
+    }
+
+    private async runStrategies(
+        runtime: IAgentRuntime,
+        strategies: BettingStrategy[],
+        client: ClobClient | undefined,
+        now: number
+    ): Promise<StrategyDecision[]> {
+        const state = await getStrategyState(runtime);
+        const due = strategies.filter((strategy) => {
+            const lastRunAt = state.lastRunAt[strategy.id];
+            return strategy.enabled && (!lastRunAt || now - new Date(lastRunAt).getTime() >= strategy.everyMinutes * 60 * 1000);
+        });
+        if (due.length === 0) {
+            return [];
+        }
+
+        const clobClient = client ?? (await getPolymarketClient(runtime));
+        const decisions: StrategyDecision[] = [];
+        for (const strategy of due) {
+            try {
+                decisions.push(...(await this.runStrategy(runtime, strategy, state, clobClient, now)));
+            } catch (error) {
+                console.error(`Polymarket strategy ${strategy.id} failed:`, error instanceof Error ? error.message : error);
+            }
+            state.lastRunAt[strategy.id] = new Date(now).toISOString();
+            await saveStrategyState(runtime, state);
+        }
+        return decisions;
+    }
+
+    private async runStrategy(
+        runtime: IAgentRuntime,
+        strategy: BettingStrategy,
+        state: StrategyState,
+        client: ClobClient,
+        now: number
+    ): Promise<StrategyDecision[]> {
+        const runId = crypto.randomUUID();
+        const target = { userId: runtime.agentId, roomId: stringToUuid(`polymarket-strategy-${strategy.id}-${runtime.agentId}`) };
+        const catalog = await getMarketCatalog(runtime, client);
+        const { order: spec } = strategy;
+        const decisions: StrategyDecision[] = [];
+        let orders = 0;
+
+        for (const market of selectStrategyMarkets(strategy, catalog.markets, now)) {
+            if (orders >= strategy.maxOrdersPerRun) {
+                break;
+            }
+
+            const token = pickStrategyOutcome(market, spec.outcome);
+            const decide = async (decision: Pick<StrategyDecision, "decision" | "reason"> & Partial<StrategyDecision>) => {
+                const entry: StrategyDecision = {
+                    id: crypto.randomUUID(),
+                    strategyId: strategy.id,
+                    runId,
+                    conditionId: market.conditionId,
+                    question: market.question,
+                    tokenId: token?.tokenId ?? null,
+                    outcome: token?.outcome ?? null,
+                    order: null,
+                    orderId: null,
+                    timestamp: new Date().toISOString(),
+                    ...decision,
+                };
+                await recordStrategyDecision(runtime, entry, target);
+                decisions.push(entry);
+            };
+
+            if (!token) {
+                await decide({ decision: "skipped", reason: `No ${spec.outcome} outcome to trade` });
+                continue;
+            }
+
+            const cooldownKey = `${strategy.id}/${token.tokenId}`;
+            const lastOrderAt = state.lastOrderAt[cooldownKey];
+            const cooldownEnds = lastOrderAt ? new Date(lastOrderAt).getTime() + strategy.cooldownHours * 3600 * 1000 : 0;
+            if (cooldownEnds > now) {
+                await decide({ decision: "skipped", reason: `Already traded ${token.outcome} at ${lastOrderAt}; cooling down until ${new Date(cooldownEnds).toISOString()}` });
+                continue;
+            }
+
+            let trigger: Awaited<ReturnType<typeof evaluateStrategyTrigger>>;
+            try {
+                trigger = await evaluateStrategyTrigger(client, strategy.trigger, token);
+            } catch (error) {
+                await decide({ decision: "failed", reason: `Trigger check failed: ${error instanceof Error ? error.message : error}` });
+                continue;
+            }
+            if (!trigger.fired) {
+                await decide({ decision: "skipped", reason: trigger.detail });
+                continue;
+            }
+            if (token.price === null) {
+                await decide({ decision: "skipped", reason: `${trigger.detail}, but ${token.outcome} has no price to order at` });
+                continue;
+            }
+            if (spec.maxPrice !== undefined && token.price > spec.maxPrice) {
+                await decide({ decision: "skipped", reason: `${trigger.detail}, but ${token.outcome} at ${token.price} is above the ${spec.maxPrice} maximum` });
+                continue;
+            }
+
+            const order = { side: spec.side, amount: spec.amount, price: token.price, orderType: spec.orderType };
+            if (strategy.dryRun) {
+                await decide({ decision: "dry_run", reason: `${trigger.detail}; would ${spec.side} $${spec.amount} at ${token.price}`, order });
+                state.lastOrderAt[cooldownKey] = new Date(now).toISOString();
+                orders++;
+                continue;
+            }
+            if (requiresOrderConfirmation(runtime)) {
+                await decide({
+                    decision: "refused",
+                    reason: `${trigger.detail}, but orders wait for confirmation (POLYMARKET_REQUIRE_CONFIRMATION) and a strategy has no user to confirm them`,
+                    order,
+                });
+                continue;
+            }
+
+            const message: Memory = {
+                id: stringToUuid(`${runId}-${token.tokenId}`),
+                userId: target.userId,
+                agentId: runtime.agentId,
+                roomId: target.roomId,
+                content: {
+                    text: `Strategy ${strategy.id}: ${spec.side} $${spec.amount} of ${token.outcome} on "${market.question}"`,
+                    action: "PLACE_BET",
+                    source: "polymarket-strategy",
+                },
+                createdAt: now,
+            };
+
+            let response: Content | undefined;
+            try {
+                // Nobody reads the reply to a strategy order, so no state is composed and no reply generated
+                const success = await executeBet(runtime, message, null, {
+                    tokenId: token.tokenId,
+                    side: spec.side,
+                    amount: spec.amount,
+                    price: token.price,
+                    orderType: spec.orderType,
+                    expiresInMinutes: spec.expiresInMinutes,
+                    ...getOrderConstraints(market),
+                }, async (content) => {
+                    response = content;
+                    return [];
+                }, { generateResponse: false });
+                const details = (response?.content ?? {}) as BetOutcomeContent;
+
+                if (success) {
+                    state.lastOrderAt[cooldownKey] = new Date(now).toISOString();
+                    orders++;
+                    await decide({
+                        decision: "ordered",
+                        reason: trigger.detail,
+                        // Market orders are priced from the book when placed
+                        order: { ...order, price: isMarketOrder(spec.orderType) ? details.parameters?.price ?? order.price : order.price },
+                        orderId: details.orderId ?? details.fill?.id ?? null,
+                    });
+                } else {
+                    await decide({ decision: "refused", reason: details.error ?? response?.text ?? "The order was not placed", order });
+                }
+            } catch (error) {
+                await decide({ decision: "failed", reason: error instanceof Error ? error.message : String(error), order });
+            }
+        }
+
+        const ordered = decisions.filter((entry) => entry.decision === "ordered" || entry.decision === "dry_run").length;
+        console.log(`🤖 Polymarket strategy ${strategy.id}: ${decisions.length} markets checked, ${ordered} ${strategy.dryRun ? "would-be " : ""}orders`);
+        return decisions;
+    }
+}
+
+export const strategyRunnerService = new StrategyRunnerService();